@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
-import { CLICommand, CommandArgs, ProgressIndicator, Logger } from '../types';
+import { BuildOutputLine, CLICommand, CLIOption, CommandArgs, ProgressIndicator, Logger } from '../types';
 
 export class CLIInterface {
   private program: Command;
@@ -49,11 +49,10 @@ export class CLIInterface {
       .command(command.name)
       .description(command.description);
 
+    this.addArguments(cmd, command);
+
     // Add options
-    command.options.forEach(option => {
-      const optionString = option.alias ? `-${option.alias}, --${option.name}` : `--${option.name}`;
-      cmd.option(optionString, option.description, option.default);
-    });
+    command.options.forEach(option => this.addOption(cmd, option));
 
     // Add subcommands if any
     if (command.subcommands) {
@@ -63,9 +62,9 @@ export class CLIInterface {
     }
 
     // Set the handler
-    cmd.action(async (args, ...rest) => {
+    cmd.action(async (...actionArgs: any[]) => {
       try {
-        const commandArgs = this.parseCommandArgs(args, command.options);
+        const commandArgs = this.parseActionArgs(actionArgs, command);
         await command.handler(commandArgs);
       } catch (error) {
         this.handleError(error as Error, command.name);
@@ -80,16 +79,15 @@ export class CLIInterface {
       .command(subcommand.name)
       .description(subcommand.description);
 
+    this.addArguments(cmd, subcommand);
+
     // Add options
-    subcommand.options.forEach(option => {
-      const optionString = option.alias ? `-${option.alias}, --${option.name}` : `--${option.name}`;
-      cmd.option(optionString, option.description, option.default);
-    });
+    subcommand.options.forEach(option => this.addOption(cmd, option));
 
     // Set the handler
-    cmd.action(async (args) => {
+    cmd.action(async (...actionArgs: any[]) => {
       try {
-        const commandArgs = this.parseCommandArgs(args, subcommand.options);
+        const commandArgs = this.parseActionArgs(actionArgs, subcommand);
         await subcommand.handler(commandArgs);
       } catch (error) {
         this.handleError(error as Error, `${parentCommand.name()} ${subcommand.name}`);
@@ -97,13 +95,47 @@ export class CLIInterface {
     });
   }
 
+  private addOption(cmd: Command, option: CLIOption): void {
+    const flags = option.alias ? `-${option.alias}, --${option.name}` : `--${option.name}`;
+    if (option.type === 'boolean') {
+      cmd.option(flags, option.description, option.default);
+    } else if (option.type === 'number') {
+      cmd.option(`${flags} <${option.type}>`, option.description, (value: string) => Number(value), option.default);
+    } else {
+      // Without a value placeholder commander treats the option as a flag and drops its value
+      cmd.option(`${flags} <value>`, option.description, option.default);
+    }
+  }
+
+  private addArguments(cmd: Command, command: CLICommand): void {
+    (command.arguments || []).forEach(argument => {
+      cmd.argument(argument.required ? `<${argument.name}>` : `[${argument.name}]`, argument.description);
+    });
+  }
+
+  // commander passes declared positional arguments first, then the options object
+  private parseActionArgs(actionArgs: any[], command: CLICommand): CommandArgs {
+    const positional = command.arguments || [];
+    const parsed = this.parseCommandArgs(actionArgs[positional.length] || {}, command.options);
+
+    positional.forEach((argument, index) => {
+      if (actionArgs[index] !== undefined) {
+        parsed[argument.name] = actionArgs[index];
+      }
+    });
+
+    return parsed;
+  }
+
   private parseCommandArgs(args: any, options: any[]): CommandArgs {
     const parsed: CommandArgs = {};
     
     options.forEach(option => {
-      const value = args[option.name];
+      // commander exposes dashed options (e.g. --dry-run) under their camelCase name, and --no-x as x: false
+      const key = option.name.replace(/^no-/, '').replace(/-([a-z])/g, (_: string, c: string) => c.toUpperCase());
+      const value = args[key];
       if (value !== undefined) {
-        parsed[option.name] = value;
+        parsed[key] = value;
       }
     });
 
@@ -277,6 +309,16 @@ export class CLIInterface {
     });
   }
 
+  // A line of a build's output, labelled when several builds print at once; stderr lines go to stderr
+  public buildOutput(line: BuildOutputLine, label?: string): void {
+    const prefix = label ? `${label} │` : '│';
+    if (line.stream === 'stderr') {
+      console.error(chalk.yellow(prefix), line.line);
+    } else {
+      console.log(chalk.gray(prefix), line.line);
+    }
+  }
+
   public json(data: any, pretty: boolean = true): void {
     console.log(JSON.stringify(data, null, pretty ? 2 : 0));
   }
@@ -1,7 +1,43 @@
-import { CLICommand, CommandArgs, Project, Template, Logger } from '../types';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildOutputLine, BuildResult, CLICommand, CommandArgs, DeploymentTarget, Project, Template, Logger } from '../types';
 import MigrationManager from '../core/migration';
 import { CLIInterface } from '../cli/interface';
 import { ProjectManagerImpl } from '../core/project-manager';
+import { DeploymentEngineImpl, DeploymentPipeline } from '../core/deployment-engine';
+import { PreflightReport } from '../core/preflight-checks';
+import { currentUser } from '../core/deployment-approvals';
+import { isAbortError } from '../utils/abort';
+import { BuildCache } from '../core/build-cache';
+import { ArtifactChange, BuildWatcher, WatchedBuild } from '../core/build-watcher';
+import { BuildGraph, ProjectBuild, findProjectDirectories } from '../core/build-graph';
+
+function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unitIndex = 0;
+
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+
+  return `${size.toFixed(1)} ${units[unitIndex]}`;
+}
+
+// A target by name, or the only target of an environment
+function findTarget(project: Project, nameOrEnvironment: string): DeploymentTarget {
+  const targets = project.config.deploy?.targets || [];
+  const named = targets.find(t => t.name === nameOrEnvironment);
+  if (named) return named;
+
+  const inEnvironment = targets.filter(t => t.environment === nameOrEnvironment);
+  if (inEnvironment.length === 1) return inEnvironment[0];
+  if (inEnvironment.length > 1) {
+    throw new Error(`Environment '${nameOrEnvironment}' has several targets (${inEnvironment.map(t => t.name).join(', ')}); name one`);
+  }
+  throw new Error(`Deployment target '${nameOrEnvironment}' not found (available: ${targets.map(t => t.name).join(', ') || 'none'})`);
+}
 
 export class InitCommand implements CLICommand {
   name = 'init';
@@ -186,7 +222,10 @@ export class BuildCommand implements CLICommand {
   constructor(
     private cli: CLIInterface,
     private projectManager: ProjectManagerImpl,
-    private logger: Logger
+    private deploymentPipeline: DeploymentPipeline,
+    private logger: Logger,
+    // build.parallel; false builds one project at a time with --all
+    private parallel: boolean = true
   ) {}
 
   options = [
@@ -197,6 +236,23 @@ export class BuildCommand implements CLICommand {
       type: 'string' as const,
       default: '.'
     },
+    {
+      name: 'all',
+      alias: 'a',
+      description: 'Build every project under --path, each after the projects it depends on',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'concurrency',
+      description: 'With --all, how many projects build at once (default: the number of CPUs)',
+      type: 'number' as const
+    },
+    {
+      name: 'step',
+      description: 'Run only this step of build.steps',
+      type: 'string' as const
+    },
     {
       name: 'watch',
       alias: 'w',
@@ -207,9 +263,19 @@ export class BuildCommand implements CLICommand {
     {
       name: 'verbose',
       alias: 'v',
-      description: 'Show detailed build output',
+      description: 'Also show the output of builds restored from the cache',
       type: 'boolean' as const,
       default: false
+    },
+    {
+      name: 'no-cache',
+      description: 'Build even if the build cache has this exact build',
+      type: 'boolean' as const
+    },
+    {
+      name: 'deploy',
+      description: 'With --watch, redeploy to this local target after each successful build',
+      type: 'string' as const
     }
   ];
 
@@ -218,6 +284,14 @@ export class BuildCommand implements CLICommand {
     this.cli.newline();
 
     try {
+      if (args.all) {
+        if (args.watch || args.step) {
+          throw new Error(`--${args.watch ? 'watch' : 'step'} works on a single project; leave out --all`);
+        }
+        await this.buildAll(args);
+        return;
+      }
+
       // Load project
       const project = await this.projectManager.loadProject(args.path);
       
@@ -244,72 +318,216 @@ export class BuildCommand implements CLICommand {
         this.cli.newline();
       }
 
-      // Build project
-      const progress = this.cli.createProgressIndicator();
-      progress.start('Building project...');
+      // Print the build's output as it runs
+      const printOutput = (line: BuildOutputLine) => {
+        if (line.projectId === project.id) this.cli.buildOutput(line, line.step);
+      };
+      this.projectManager.on('buildOutput', printOutput);
+      try {
+        if (args.watch) {
+          await this.watch(project, args);
+        } else {
+          await this.build(project, args);
+        }
+      } finally {
+        this.projectManager.off('buildOutput', printOutput);
+      }
 
-      const buildResult = await this.projectManager.buildProject(project);
+    } catch (error) {
+      this.cli.error(`Build failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
 
-      if (buildResult.success) {
-        progress.success('Build completed successfully!');
-        this.cli.newline();
+  private async build(project: Project, args: CommandArgs): Promise<void> {
+    this.cli.info(args.step ? `Running build step '${args.step}'...` : 'Building project...');
+    const buildResult = await this.projectManager.buildProject(project, { cache: args.cache, step: args.step });
 
-        this.cli.subtitle('📊 Build Results:');
-        this.cli.table([{
-          'Status': '✅ Success',
-          'Duration': `${buildResult.duration}ms`,
-          'Artifacts': buildResult.artifacts.length,
-          'Output Size': this.formatFileSize(buildResult.artifacts.reduce((total, artifact) => total + artifact.size, 0))
-        }]);
+    if (buildResult.success) {
+      this.cli.success('Build completed successfully!');
+      this.cli.newline();
 
-        if (args.verbose && buildResult.output) {
-          this.cli.newline();
-          this.cli.subtitle('📝 Build Output:');
-          console.log(buildResult.output);
-        }
+      this.cli.subtitle('📊 Build Results:');
+      this.cli.table([{
+        'Status': '✅ Success',
+        'Duration': `${buildResult.duration}ms`,
+        'Cache': buildResult.cached ? 'hit' : 'miss',
+        'Artifacts': buildResult.artifacts.length,
+        'Output Size': formatFileSize(buildResult.artifacts.reduce((total, artifact) => total + artifact.size, 0))
+      }]);
+      this.printSteps(project, buildResult);
 
-        if (buildResult.artifacts.length > 0) {
-          this.cli.newline();
-          this.cli.subtitle('📦 Build Artifacts:');
-          buildResult.artifacts.forEach(artifact => {
-            this.cli.list([`  • ${artifact.path} (${this.formatFileSize(artifact.size)})`]);
-          });
-        }
+      if (args.verbose && buildResult.cached && buildResult.output) {
+        this.cli.newline();
+        this.cli.subtitle('📝 Cached Build Output:');
+        console.log(buildResult.output);
+      }
 
-      } else {
-        progress.error('Build failed!');
+      if (buildResult.artifacts.length > 0) {
         this.cli.newline();
+        this.cli.subtitle('📦 Build Artifacts:');
+        buildResult.artifacts.forEach(artifact => {
+          this.cli.list([`  • ${artifact.path} (${formatFileSize(artifact.size)})`]);
+        });
+      }
 
-        this.cli.subtitle('❌ Build Errors:');
-        this.cli.error(buildResult.error || 'Unknown error occurred');
+    } else {
+      this.cli.error('Build failed!');
+      this.cli.newline();
 
-        if (args.verbose && buildResult.output) {
-          this.cli.newline();
-          this.cli.subtitle('📝 Build Output:');
-          console.log(buildResult.output);
-        }
+      this.cli.subtitle('❌ Build Errors:');
+      this.cli.error(buildResult.error || 'Unknown error occurred');
+      this.printSteps(project, buildResult);
+
+      process.exit(1);
+    }
+  }
+
+  private printSteps(project: Project, result: BuildResult): void {
+    if (!project.config.build.steps || !result.steps || result.cached) return;
 
-        process.exit(1);
+    this.cli.newline();
+    this.cli.subtitle('🧩 Build Steps:');
+    const status = { passed: '✅ Passed', failed: '❌ Failed', skipped: '⏭ Skipped' };
+    this.cli.table(result.steps.map(step => ({
+      'Step': step.name,
+      'Status': status[step.status],
+      'Duration': `${step.duration}ms`
+    })));
+  }
+
+  /**
+   * Build every project found under --path in dependency order, several at once unless build.parallel is off.
+   */
+  private async buildAll(args: CommandArgs): Promise<void> {
+    const directories = await findProjectDirectories(args.path);
+    if (directories.length === 0) {
+      throw new Error(`No ai-builder projects found under '${path.resolve(args.path)}'`);
+    }
+    const projects = await Promise.all(directories.map(directory => this.projectManager.loadProject(directory)));
+    const graph = await BuildGraph.create(projects);
+    const concurrency = this.parallel ? Math.max(1, Number(args.concurrency) || os.cpus().length) : 1;
+
+    for (const project of projects) {
+      const validation = await this.projectManager.validateProject(project);
+      if (!validation.valid) {
+        this.cli.error(`Project validation failed for ${project.name}:`);
+        validation.errors.forEach(error => {
+          this.cli.list([`  ✗ ${error.message}`]);
+        });
+        return;
       }
+    }
 
-    } catch (error) {
-      this.cli.error(`Build failed: ${(error as Error).message}`);
-      throw error;
+    this.cli.info(`Building ${projects.length} projects, ${concurrency} at a time:`);
+    this.cli.list(graph.order().map(project => {
+      const dependencies = graph.dependenciesOf(project.name);
+      return `  ${project.name}${dependencies.length > 0 ? ` (after ${dependencies.join(', ')})` : ''}`;
+    }));
+    this.cli.newline();
+
+    // Lines of concurrent builds are told apart by project name
+    const names = new Map(projects.map(project => [project.id, project.name] as [string, string]));
+    const printOutput = (line: BuildOutputLine) => {
+      const name = names.get(line.projectId);
+      if (name) this.cli.buildOutput(line, line.step ? `${name}:${line.step}` : name);
+    };
+    this.projectManager.on('buildOutput', printOutput);
+    let builds: ProjectBuild[];
+    try {
+      builds = await graph.build(this.projectManager, {
+        concurrency,
+        cache: args.cache,
+        onStart: project => this.cli.highlight(`Building ${project.name}...`),
+        onFinish: build => this.reportProjectBuild(build)
+      });
+    } finally {
+      this.projectManager.off('buildOutput', printOutput);
+    }
+
+    this.cli.newline();
+    this.cli.subtitle('📊 Build Results:');
+    this.cli.table(builds.map(build => ({
+      'Project': build.project.name,
+      'Status': build.status === 'built' ? '✅ Built' : build.status === 'failed' ? '❌ Failed' : '⏭ Skipped',
+      'Duration': build.result ? `${build.result.duration}ms` : '-',
+      'Cache': build.result?.success ? (build.result.cached ? 'hit' : 'miss') : '-',
+      'Artifacts': build.result?.artifacts.length ?? '-'
+    })));
+
+    if (builds.some(build => build.status !== 'built')) {
+      process.exit(1);
     }
   }
 
-  private formatFileSize(bytes: number): string {
-    const units = ['B', 'KB', 'MB', 'GB'];
-    let size = bytes;
-    let unitIndex = 0;
+  private reportProjectBuild(build: ProjectBuild): void {
+    const name = build.project.name;
+    if (build.status === 'built') {
+      this.cli.success(`Built ${name} in ${build.result!.duration}ms${build.result!.cached ? ' (from cache)' : ''}`);
+    } else if (build.status === 'failed') {
+      this.cli.error(`${name} failed: ${build.result?.error || build.reason || 'Unknown error occurred'}`);
+    } else {
+      this.cli.warning(`Skipped ${name}: ${build.reason}`);
+    }
+  }
 
-    while (size >= 1024 && unitIndex < units.length - 1) {
-      size /= 1024;
-      unitIndex++;
+  /**
+   * Rebuild on every change until Ctrl+C, printing what changed in the output and redeploying if asked.
+   */
+  private async watch(project: Project, args: CommandArgs): Promise<void> {
+    if (args.step) {
+      throw new Error('--watch rebuilds the whole project; leave out --step');
     }
+    const target = args.deploy ? findTarget(project, args.deploy) : undefined;
+    if (target && target.type !== 'local') {
+      throw new Error(`--deploy only redeploys to local targets; '${target.name}' is a ${target.type} target`);
+    }
+
+    const watcher = new BuildWatcher(this.projectManager, project, this.logger, {
+      cache: args.cache,
+      onChange: files => {
+        this.cli.newline();
+        this.cli.info(`Changed: ${files.slice(0, 5).join(', ')}${files.length > 5 ? ` and ${files.length - 5} more` : ''}`);
+      },
+      onBuild: build => this.reportWatchedBuild(project, build, target, args.verbose)
+    });
 
-    return `${size.toFixed(1)} ${units[unitIndex]}`;
+    await watcher.start();
+    this.cli.info('Watching for changes (Ctrl+C to stop)...');
+    await new Promise<void>(resolve => process.once('SIGINT', () => resolve()));
+    await watcher.stop();
+    this.cli.newline();
+    this.cli.info('Stopped watching');
   }
+
+  private async reportWatchedBuild(project: Project, build: WatchedBuild, target: DeploymentTarget | undefined, verbose?: boolean): Promise<void> {
+    const { result } = build;
+    if (!result.success) {
+      this.cli.error(`Build failed: ${result.error || 'Unknown error occurred'}`);
+      return;
+    }
+
+    this.cli.success(`Built in ${result.duration}ms${result.cached ? ' (from cache)' : ''}`);
+    if (build.changedFiles.length > 0) {
+      this.cli.list(build.artifacts.length > 0 ? build.artifacts.map(describeArtifactChange) : ['  No artifact changes']);
+    }
+    if (verbose && result.cached && result.output) console.log(result.output);
+
+    if (target && (build.changedFiles.length === 0 || build.artifacts.length > 0)) {
+      try {
+        const deployment = await this.deploymentPipeline.executeDeployment(project, target, { build: result, skipChecks: true });
+        this.cli.success(`Redeployed to ${target.name}${deployment.result?.url ? `: ${deployment.result.url}` : ''}`);
+      } catch (error) {
+        this.cli.error(`Redeploy to ${target.name} failed: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+function describeArtifactChange(change: ArtifactChange): string {
+  if (change.change === 'added') return `  + ${change.path} (${formatFileSize(change.size)})`;
+  if (change.change === 'removed') return `  - ${change.path}`;
+  return `  ~ ${change.path} (${formatFileSize(change.previousSize!)} → ${formatFileSize(change.size)})`;
 }
 
 export class DeployCommand implements CLICommand {
@@ -319,6 +537,7 @@ export class DeployCommand implements CLICommand {
   constructor(
     private cli: CLIInterface,
     private projectManager: ProjectManagerImpl,
+    private deploymentPipeline: DeploymentPipeline,
     private logger: Logger
   ) {}
 
@@ -349,6 +568,24 @@ export class DeployCommand implements CLICommand {
       description: 'Show what would be deployed without actually deploying',
       type: 'boolean' as const,
       default: false
+    },
+    {
+      name: 'health-check',
+      description: 'Run post-deployment health checks',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'auto-rollback',
+      description: 'Automatically roll back if the deployment fails',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'skip-checks',
+      description: 'Deploy without running the pre-deployment checks',
+      type: 'boolean' as const,
+      default: false
     }
   ];
 
@@ -414,42 +651,68 @@ export class DeployCommand implements CLICommand {
         return;
       }
 
-      // Build project first
-      this.cli.info('🔨 Building project before deployment...');
-      const buildResult = await this.projectManager.buildProject(project);
-      
-      if (!buildResult.success) {
-        this.cli.error('Build failed - deployment aborted');
-        return;
-      }
-
-      this.cli.success('Build completed successfully');
-
-      // Deploy (placeholder for actual deployment logic)
+      // Deploy through the pipeline (build, provider deploy, health checks, rollback)
       const progress = this.cli.createProgressIndicator();
       progress.start(`Deploying to ${target.name}...`);
 
-      // TODO: Implement actual deployment logic
-      await this.simulateDeployment(target, project);
+      // Ctrl+C cancels the deployment (the build is stopped and the provider cleans up)
+      const controller = new AbortController();
+      const onInterrupt = () => {
+        progress.update('Cancelling deployment...');
+        controller.abort();
+      };
+      process.once('SIGINT', onInterrupt);
+
+      let deployment;
+      let preflight: PreflightReport | undefined;
+      try {
+        deployment = await this.deploymentPipeline.executeDeployment(project, target, {
+          healthCheck: args.healthCheck,
+          autoRollback: args.autoRollback,
+          progressCallback: (percent, message) => progress.update(message, percent),
+          signal: controller.signal,
+          skipChecks: args.skipChecks,
+          preflightCallback: report => { preflight = report; }
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          progress.error(`Deployment to '${target.name}' cancelled`);
+          return;
+        }
+        progress.error(`Deployment to '${target.name}' failed`);
+        if (preflight && !preflight.passed) {
+          this.showPreflightReport(preflight);
+          this.cli.info('Fix the failing checks or pass --skip-checks to deploy anyway');
+        }
+        throw error;
+      } finally {
+        process.removeListener('SIGINT', onInterrupt);
+      }
 
       progress.success(`Deployment to '${target.name}' completed successfully!`);
       this.cli.newline();
 
+      if (preflight) {
+        this.showPreflightReport(preflight);
+      }
+
       this.cli.subtitle('🎉 Deployment Results:');
       this.cli.table([{
         'Status': '✅ Success',
+        'Deployment': deployment.id,
         'Target': target.name,
         'Environment': target.environment,
-        'Version': project.version,
-        'Deployed At': new Date().toLocaleString()
+        'Version': deployment.version,
+        'URL': deployment.result?.url || 'N/A',
+        'Deployed At': (deployment.completedAt || new Date()).toLocaleString()
       }]);
 
       this.cli.newline();
       this.cli.info('📊 Next steps:');
       this.cli.list([
-        'ai-builder status',
-        'ai-builder logs',
-        'ai-builder rollback <version>'
+        'ai-builder deployments',
+        `ai-builder logs --deployment ${deployment.id}`,
+        `ai-builder rollback --deployment ${deployment.id} --version <version>`
       ]);
 
     } catch (error) {
@@ -458,12 +721,160 @@ export class DeployCommand implements CLICommand {
     }
   }
 
-  private async simulateDeployment(target: any, project: Project): Promise<void> {
-    // Simulate deployment delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // This would be replaced with actual deployment logic
-    this.logger.info(`Simulating deployment to ${target.name} (${target.type})`);
+  private showPreflightReport(report: PreflightReport): void {
+    const icons: Record<string, string> = { pass: '✅ pass', warn: '⚠️  warn', fail: '❌ fail' };
+    this.cli.subtitle('🔎 Pre-deployment Checks:');
+    this.cli.table(report.results.map(result => ({
+      'Check': result.check,
+      'Status': icons[result.status],
+      'Details': result.message
+    })));
+    this.cli.newline();
+  }
+}
+
+export class PromoteCommand implements CLICommand {
+  name = 'promote';
+  description = 'Redeploy the build running on one target to another (e.g. staging to production)';
+
+  constructor(
+    private cli: CLIInterface,
+    private projectManager: ProjectManagerImpl,
+    private deploymentPipeline: DeploymentPipeline,
+    private logger: Logger
+  ) {}
+
+  options = [
+    {
+      name: 'from',
+      description: 'Target (or environment) whose current build is promoted',
+      type: 'string' as const,
+      required: true
+    },
+    {
+      name: 'to',
+      description: 'Target (or environment) to deploy the build to',
+      type: 'string' as const,
+      required: true
+    },
+    {
+      name: 'path',
+      alias: 'p',
+      description: 'Path to the project directory',
+      type: 'string' as const,
+      default: '.'
+    },
+    {
+      name: 'force',
+      alias: 'f',
+      description: 'Promote without confirmation',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'health-check',
+      description: 'Run post-deployment health checks',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'auto-rollback',
+      description: 'Automatically roll back if the deployment fails',
+      type: 'boolean' as const,
+      default: false
+    },
+    {
+      name: 'skip-checks',
+      description: 'Deploy without running the pre-deployment checks',
+      type: 'boolean' as const,
+      default: false
+    }
+  ];
+
+  async handler(args: CommandArgs): Promise<void> {
+    this.cli.title('⏫ AI Builder - Promotion');
+    this.cli.newline();
+
+    try {
+      const project = await this.projectManager.loadProject(args.path);
+      const from = findTarget(project, args.from);
+      const to = findTarget(project, args.to);
+
+      const progress = this.cli.createProgressIndicator();
+      progress.start(`Checking the deployment on ${from.name}...`);
+      let source;
+      try {
+        source = await this.deploymentPipeline.findPromotableDeployment(project, from);
+      } catch (error) {
+        progress.error(`Cannot promote from '${from.name}'`);
+        throw error;
+      }
+      progress.success(`Deployment ${source.id} on '${from.name}' is healthy`);
+      this.cli.newline();
+
+      this.cli.subtitle('📋 Promotion Plan:');
+      this.cli.table([{
+        'Project': project.name,
+        'Version': source.version,
+        'Build': source.buildResult?.sourceHash?.slice(0, 12) || 'n/a',
+        'From': `${from.name} (${from.environment})`,
+        'To': `${to.name} (${to.environment})`
+      }]);
+      this.cli.newline();
+
+      if (!args.force) {
+        const confirmed = await this.cli.confirm(
+          `Are you sure you want to promote '${project.name}' ${source.version} from '${from.name}' to '${to.name}' (${to.environment})?`
+        );
+        if (!confirmed) {
+          this.cli.info('Promotion cancelled');
+          return;
+        }
+      }
+
+      progress.start(`Promoting to ${to.name}...`);
+      const controller = new AbortController();
+      const onInterrupt = () => {
+        progress.update('Cancelling promotion...');
+        controller.abort();
+      };
+      process.once('SIGINT', onInterrupt);
+
+      let deployment;
+      try {
+        deployment = await this.deploymentPipeline.promoteDeployment(project, source, to, {
+          healthCheck: args.healthCheck,
+          autoRollback: args.autoRollback,
+          progressCallback: (percent, message) => progress.update(message, percent),
+          signal: controller.signal,
+          skipChecks: args.skipChecks
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          progress.error(`Promotion to '${to.name}' cancelled`);
+          return;
+        }
+        progress.error(`Promotion to '${to.name}' failed`);
+        throw error;
+      } finally {
+        process.removeListener('SIGINT', onInterrupt);
+      }
+
+      progress.success(`Promoted ${source.version} to '${to.name}'`);
+      this.cli.newline();
+      this.cli.table([{
+        'Status': '✅ Success',
+        'Deployment': deployment.id,
+        'Promoted From': source.id,
+        'Target': to.name,
+        'Version': deployment.version,
+        'URL': deployment.result?.url || 'N/A'
+      }]);
+
+    } catch (error) {
+      this.cli.error(`Promotion failed: ${(error as Error).message}`);
+      throw error;
+    }
   }
 }
 
@@ -627,7 +1038,8 @@ export class StatusCommand implements CLICommand {
       'success': '✅ Success',
       'failed': '❌ Failed',
       'rolling_back': '🔄 Rolling Back',
-      'rolled_back': '↩️ Rolled Back'
+      'rolled_back': '↩️ Rolled Back',
+      'cancelled': '🚫 Cancelled'
     };
     return statusMap[status] || status;
   }
@@ -763,6 +1175,107 @@ export class RollbackCommand implements CLICommand {
   }
 }
 
+export class CancelCommand implements CLICommand {
+  name = 'cancel';
+  description = 'Cancel a pending or running deployment';
+
+  constructor(
+    private cli: CLIInterface,
+    private deploymentEngine: DeploymentEngineImpl,
+    private logger: Logger
+  ) {}
+
+  arguments = [
+    { name: 'deploymentId', description: 'Deployment ID to cancel', required: true }
+  ];
+
+  options = [
+    {
+      name: 'wait',
+      alias: 'w',
+      description: 'Seconds to wait for the deployment to stop (0 to return immediately)',
+      type: 'number' as const,
+      default: 30
+    }
+  ];
+
+  async handler(args: CommandArgs): Promise<void> {
+    try {
+      const deployment = await this.deploymentEngine.getPersistedDeployment(args.deploymentId);
+      if (!deployment) {
+        this.cli.error(`Deployment '${args.deploymentId}' not found`);
+        return;
+      }
+
+      await this.deploymentEngine.cancelDeployment(deployment);
+      this.cli.info(`Cancellation requested for deployment ${deployment.id}`);
+
+      // The deployment may be running in another process, which picks the request up from the store
+      const deadline = Date.now() + Number(args.wait ?? 30) * 1000;
+      let current = deployment;
+      while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        current = (await this.deploymentEngine.getPersistedDeployment(deployment.id)) || current;
+        if (!['pending', 'building', 'deploying'].includes(current.status)) break;
+      }
+
+      if (current.status === 'cancelled') {
+        this.cli.success(`Deployment ${deployment.id} cancelled`);
+      } else if (['pending', 'building', 'deploying'].includes(current.status)) {
+        this.cli.warning(`Deployment ${deployment.id} is still ${current.status}; it stops at its next checkpoint if it is still running`);
+      } else {
+        this.cli.warning(`Deployment ${deployment.id} finished as '${current.status}' before it could be cancelled`);
+      }
+    } catch (error) {
+      this.cli.error(`Cancel failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+}
+
+export class ApproveCommand implements CLICommand {
+  name = 'approve';
+  description = 'Approve a deployment waiting in a protected environment';
+
+  constructor(
+    private cli: CLIInterface,
+    private deploymentEngine: DeploymentEngineImpl,
+    private logger: Logger
+  ) {}
+
+  arguments = [
+    { name: 'deploymentId', description: 'Deployment ID to approve', required: true }
+  ];
+
+  options = [
+    {
+      name: 'comment',
+      alias: 'm',
+      description: 'Note recorded with the approval',
+      type: 'string' as const
+    }
+  ];
+
+  async handler(args: CommandArgs): Promise<void> {
+    try {
+      // Always the login name: approving as someone else would make approver lists meaningless
+      const approver = currentUser();
+      const request = await this.deploymentEngine.approveDeployment(args.deploymentId, approver, args.comment);
+      const approvedBy = request.approvedBy || [];
+      const approvals = `${approvedBy.length}/${request.required}`;
+
+      if (approvedBy.length >= request.required) {
+        this.cli.success(`Deployment ${args.deploymentId} approved (${approvals}); it starts at its next check`);
+      } else {
+        this.cli.success(`Approval by ${approver} recorded for deployment ${args.deploymentId} (${approvals})`);
+      }
+    } catch (error) {
+      this.cli.error(`Approval failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+}
+
 export class ConfigCommand implements CLICommand {
   name = 'config';
   description = 'Manage configuration values (get|set|list|delete)';
@@ -780,9 +1293,9 @@ export class ConfigCommand implements CLICommand {
       name: 'set',
       description: 'Set a configuration value',
       options: [
-        { name: 'key', description: 'Config key', type: 'string', required: true },
-        { name: 'value', description: 'Config value', type: 'string', required: true },
-        { name: 'scope', description: 'Scope (global|project)', type: 'string', default: 'global' }
+        { name: 'key', description: 'Config key', type: 'string' as const, required: true },
+        { name: 'value', description: 'Config value', type: 'string' as const, required: true },
+        { name: 'scope', description: 'Scope (global|project)', type: 'string' as const, default: 'global' }
       ],
       handler: async (args: any) => {
         await this.configManager.set(args.key, args.value, args.scope);
@@ -793,8 +1306,8 @@ export class ConfigCommand implements CLICommand {
       name: 'get',
       description: 'Get a configuration value',
       options: [
-        { name: 'key', description: 'Config key', type: 'string', required: true },
-        { name: 'scope', description: 'Scope (global|project)', type: 'string', default: 'global' }
+        { name: 'key', description: 'Config key', type: 'string' as const, required: true },
+        { name: 'scope', description: 'Scope (global|project)', type: 'string' as const, default: 'global' }
       ],
       handler: async (args: any) => {
         const value = await this.configManager.get(args.key, args.scope);
@@ -809,7 +1322,7 @@ export class ConfigCommand implements CLICommand {
       name: 'list',
       description: 'List configuration entries',
       options: [
-        { name: 'scope', description: 'Scope (global|project)', type: 'string', default: 'global' }
+        { name: 'scope', description: 'Scope (global|project)', type: 'string' as const, default: 'global' }
       ],
       handler: async (args: any) => {
         const entries = await this.configManager.list(args.scope);
@@ -820,8 +1333,8 @@ export class ConfigCommand implements CLICommand {
       name: 'delete',
       description: 'Delete a config entry',
       options: [
-        { name: 'key', description: 'Config key', type: 'string', required: true },
-        { name: 'scope', description: 'Scope (global|project)', type: 'string', default: 'global' }
+        { name: 'key', description: 'Config key', type: 'string' as const, required: true },
+        { name: 'scope', description: 'Scope (global|project)', type: 'string' as const, default: 'global' }
       ],
       handler: async (args: any) => {
         await this.configManager.delete(args.key, args.scope);
@@ -866,7 +1379,7 @@ export class TemplatesCommand implements CLICommand {
       name: 'install',
       description: 'Install a template by name',
       options: [
-        { name: 'name', description: 'Template name', type: 'string', required: true }
+        { name: 'name', description: 'Template name', type: 'string' as const, required: true }
       ],
       handler: async (args: any) => {
         // Stub: pretend to install
@@ -901,6 +1414,55 @@ export class DeploymentsCommand implements CLICommand {
     }
   ];
 
+  subcommands = [
+    {
+      name: 'queue',
+      description: 'Show deployments waiting to start, those waiting for approval and the targets that are locked',
+      options: [],
+      handler: async () => {
+        const queued = await this.deploymentEngine.listQueuedDeployments();
+        const awaitingApproval = await this.deploymentEngine.listAwaitingApproval();
+        const locks = await this.deploymentEngine.listTargetLocks();
+
+        if (queued.length === 0) {
+          this.cli.info('No deployments are queued');
+        } else {
+          this.cli.table(queued.map((d: any, index: number) => ({
+            Position: d.queuePosition ?? index + 1,
+            ID: d.id.substring(0, 12),
+            Project: (d.projectId || '').substring(0, 12),
+            Target: d.target?.name || d.target?.type || 'n/a',
+            Queued: d.createdAt ? new Date(d.createdAt).toLocaleString() : 'n/a'
+          })));
+        }
+
+        if (awaitingApproval.length > 0) {
+          this.cli.newline();
+          this.cli.subtitle('Waiting for approval:');
+          this.cli.table(awaitingApproval.map((d: any) => ({
+            ID: d.id.substring(0, 12),
+            Project: (d.projectId || '').substring(0, 12),
+            Target: d.target?.name || d.target?.type || 'n/a',
+            Required: d.approval.required,
+            Requested: new Date(d.approval.requestedAt).toLocaleString()
+          })));
+        }
+
+        if (locks.length > 0) {
+          this.cli.newline();
+          this.cli.subtitle('Locked targets:');
+          this.cli.table(locks.map((lock: any) => ({
+            Target: lock.lockKey,
+            Deployment: lock.deploymentId.substring(0, 12),
+            PID: lock.pid,
+            Host: lock.hostname,
+            Since: new Date(lock.acquiredAt).toLocaleString()
+          })));
+        }
+      }
+    }
+  ];
+
   async handler(args: any): Promise<void> {
     try {
       const deployments = await this.deploymentEngine.listPersistedDeployments(args.project);
@@ -915,6 +1477,8 @@ export class DeploymentsCommand implements CLICommand {
         Target: d.target?.name || d.target?.type || 'n/a',
         Version: d.version,
         Status: d.status,
+        Color: d.color || '-',
+        'Promoted From': d.promotedFrom?.targetName || '-',
         Created: d.createdAt ? new Date(d.createdAt).toLocaleString() : 'n/a'
       }));
 
@@ -926,6 +1490,67 @@ export class DeploymentsCommand implements CLICommand {
   }
 }
 
+export class CacheCommand implements CLICommand {
+  name = 'cache';
+  description = 'Show the build cache (prune|clear)';
+
+  constructor(
+    private cli: CLIInterface,
+    private cache: BuildCache,
+    private logger: Logger
+  ) {}
+
+  options = [];
+
+  subcommands = [
+    {
+      name: 'prune',
+      description: 'Remove least recently used builds until the cache fits its size limit',
+      options: [
+        { name: 'max-size', description: 'Size limit in MB (default: build.cache_max_size, or 1024)', type: 'number' as const },
+        { name: 'max-age', description: 'Also remove builds not used for this many days', type: 'number' as const }
+      ],
+      handler: async (args: CommandArgs) => {
+        const result = await this.cache.prune({
+          maxSize: args.maxSize !== undefined ? args.maxSize * 1024 * 1024 : undefined,
+          maxAge: args.maxAge !== undefined ? args.maxAge * 24 * 60 * 60 * 1000 : undefined
+        });
+        this.cli.success(`Removed ${result.removed} cached build(s), freed ${formatFileSize(result.freed)}`);
+        this.cli.info(`${result.entries} build(s) left, ${formatFileSize(result.size)}`);
+      }
+    },
+    {
+      name: 'clear',
+      description: 'Remove every cached build',
+      options: [],
+      handler: async () => {
+        const removed = await this.cache.clear();
+        this.cli.success(`Removed ${removed} cached build(s)`);
+      }
+    }
+  ];
+
+  async handler(): Promise<void> {
+    const entries = await this.cache.list();
+    const size = entries.reduce((total, entry) => total + entry.size, 0);
+    this.cli.info(`Build cache: ${this.cache.getDir()} (${formatFileSize(size)} of ${formatFileSize(this.cache.getMaxSize())})`);
+    if (entries.length === 0) {
+      this.cli.info('No cached builds');
+      return;
+    }
+
+    this.cli.table(entries
+      .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime())
+      .map(entry => ({
+        Key: entry.key.substring(0, 12),
+        Project: entry.project,
+        Size: formatFileSize(entry.size),
+        Artifacts: entry.result.artifacts.length,
+        'Last Used': new Date(entry.lastUsedAt).toLocaleString()
+      })));
+  }
+}
+
 export class MigrateCommand implements CLICommand {
   name = 'migrate';
   description = 'Migrate file-backed deployments into SQLite';
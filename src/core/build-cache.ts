@@ -0,0 +1,205 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { artifactsIntact } from '../utils/source-hash';
+import { redactSecrets } from '../utils/redact';
+import { BuildResult, Logger, Project } from '../types';
+
+// Bump when the key inputs or the entry layout change, so old entries are never restored
+const CACHE_FORMAT = 3;
+const ENTRY_FILE = 'entry.json';
+const OUTPUT_DIR = 'output';
+const DEFAULT_MAX_SIZE = 1024 * 1024 * 1024;
+
+export interface BuildCacheOptions {
+  // Where entries are kept. Defaults to ~/.ai-builder/cache
+  dir?: string;
+  // Total size of the cached outputs (bytes) above which the least recently used entries go. Defaults to 1 GiB
+  maxSize?: number;
+}
+
+export interface BuildCacheEntry {
+  key: string;
+  project: string;
+  size: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  result: BuildResult;
+}
+
+export interface BuildCachePruneOptions {
+  // Defaults to the cache's own limit
+  maxSize?: number;
+  // Entries not used for this long go regardless of size (ms)
+  maxAge?: number;
+}
+
+export interface BuildCachePruneResult {
+  removed: number;
+  // Bytes freed
+  freed: number;
+  entries: number;
+  size: number;
+}
+
+/**
+ * Content-addressed cache of build outputs. An entry is keyed on everything that feeds the build
+ * (source tree, command or steps, build environment, passed-through variables, dependencies, output
+ * directory) and holds a copy of the output directory with the BuildResult that produced it.
+ */
+export class BuildCache {
+  private dir: string;
+  private maxSize: number;
+
+  constructor(private logger: Logger, options: BuildCacheOptions = {}) {
+    this.dir = options.dir || path.join(os.homedir(), '.ai-builder', 'cache');
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  }
+
+  /**
+   * The cache key of a build of the project over a source tree with the given hash (see utils/source-hash).
+   * The source hash covers the lockfiles along with the rest of the tree; `passedEnvironment` holds the
+   * values of the variables passEnv lets through from the CLI's environment.
+   */
+  computeKey(project: Project, sourceHash: string, passedEnvironment: Record<string, string> = {}): string {
+    const build = project.config.build;
+    const environment = Object.keys(build.environment || {}).sort().map(name => [name, build.environment[name]]);
+    const passed = Object.keys(passedEnvironment).sort().map(name => [name, passedEnvironment[name]]);
+    return crypto.createHash('sha256').update(JSON.stringify({
+      format: CACHE_FORMAT,
+      sourceHash,
+      command: build.command,
+      // Steps take their commands from the scripts
+      steps: build.steps,
+      scripts: build.steps ? build.scripts : undefined,
+      environment,
+      passed,
+      dependencies: build.dependencies || [],
+      packageManager: build.packageManager,
+      frozenLockfile: build.frozenLockfile,
+      outputDir: build.outputDir || 'dist'
+    })).digest('hex');
+  }
+
+  /**
+   * Put the cached output back into the project's output directory. Returns undefined on a miss,
+   * and drops entries whose files no longer match their artifacts.
+   */
+  async restore(project: Project, key: string): Promise<BuildResult | undefined> {
+    const entry = await this.readEntry(key);
+    if (!entry) return undefined;
+
+    const outputDir = path.resolve(project.path, project.config.build.outputDir || 'dist');
+    await fs.remove(outputDir);
+    if (await fs.pathExists(path.join(this.entryDir(key), OUTPUT_DIR))) {
+      await fs.copy(path.join(this.entryDir(key), OUTPUT_DIR), outputDir);
+    }
+
+    if (!await artifactsIntact(project, entry.result.artifacts)) {
+      this.logger.warn(`Build cache entry ${key.slice(0, 12)} is damaged; removing it`);
+      await fs.remove(this.entryDir(key));
+      return undefined;
+    }
+
+    entry.lastUsedAt = new Date();
+    await fs.writeJson(path.join(this.entryDir(key), ENTRY_FILE), entry, { spaces: 2 }).catch(() => { /* ordering only */ });
+    return entry.result;
+  }
+
+  /**
+   * Cache a successful build whose output is in the project's output directory, then prune to the size limit.
+   */
+  async store(project: Project, key: string, result: BuildResult): Promise<void> {
+    const outputDir = path.resolve(project.path, project.config.build.outputDir || 'dist');
+    const staging = path.join(this.dir, `.tmp-${key.slice(0, 12)}-${process.pid}-${Date.now()}`);
+    const now = new Date();
+    const entry: BuildCacheEntry = {
+      key,
+      project: project.name,
+      size: result.artifacts.reduce((total, artifact) => total + artifact.size, 0),
+      createdAt: now,
+      lastUsedAt: now,
+      result: { ...result, output: redactSecrets(result.output) }
+    };
+
+    try {
+      await fs.ensureDir(staging);
+      if (await fs.pathExists(outputDir)) {
+        await fs.copy(outputDir, path.join(staging, OUTPUT_DIR));
+      }
+      await fs.writeJson(path.join(staging, ENTRY_FILE), entry, { spaces: 2 });
+      // Rename so that a reader never sees half an entry; a concurrent build may have stored the same key first
+      await fs.remove(this.entryDir(key));
+      await fs.rename(staging, this.entryDir(key));
+    } finally {
+      await fs.remove(staging);
+    }
+
+    await this.prune();
+  }
+
+  async list(): Promise<BuildCacheEntry[]> {
+    if (!await fs.pathExists(this.dir)) return [];
+    const entries: BuildCacheEntry[] = [];
+    for (const name of await fs.readdir(this.dir)) {
+      if (name.startsWith('.')) continue;
+      const entry = await this.readEntry(name);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Remove entries not used within `maxAge`, then the least recently used ones until the rest fit in `maxSize`.
+   */
+  async prune(options: BuildCachePruneOptions = {}): Promise<BuildCachePruneResult> {
+    const maxSize = options.maxSize ?? this.maxSize;
+    const entries = (await this.list()).sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime());
+    const now = Date.now();
+
+    let size = 0;
+    const result: BuildCachePruneResult = { removed: 0, freed: 0, entries: 0, size: 0 };
+    for (const entry of entries) {
+      const expired = options.maxAge !== undefined && now - new Date(entry.lastUsedAt).getTime() > options.maxAge;
+      if (expired || size + entry.size > maxSize) {
+        await fs.remove(this.entryDir(entry.key));
+        result.removed++;
+        result.freed += entry.size;
+        this.logger.debug(`Removed build cache entry ${entry.key.slice(0, 12)} (${entry.project})`);
+      } else {
+        size += entry.size;
+        result.entries++;
+      }
+    }
+    result.size = size;
+    return result;
+  }
+
+  async clear(): Promise<number> {
+    const entries = await this.list();
+    await fs.remove(this.dir);
+    return entries.length;
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  getMaxSize(): number {
+    return this.maxSize;
+  }
+
+  private entryDir(key: string): string {
+    return path.join(this.dir, key);
+  }
+
+  private async readEntry(key: string): Promise<BuildCacheEntry | undefined> {
+    try {
+      const entry: BuildCacheEntry = await fs.readJson(path.join(this.entryDir(key), ENTRY_FILE));
+      return entry.key === key ? entry : undefined;
+    } catch (err) {
+      return undefined;
+    }
+  }
+}
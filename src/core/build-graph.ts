@@ -0,0 +1,188 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BuildResult, Project, ProjectManager } from '../types';
+
+// Never searched for projects
+const SKIPPED_DIRECTORIES = ['node_modules', '.git', '.ai-builder'];
+const MAX_SEARCH_DEPTH = 4;
+const PACKAGE_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+export interface ProjectBuild {
+  project: Project;
+  status: 'built' | 'failed' | 'skipped';
+  result?: BuildResult;
+  // Why the project failed without a build result, or was skipped
+  reason?: string;
+}
+
+export interface BuildGraphOptions {
+  // Builds running at once. Defaults to 1
+  concurrency?: number;
+  // False skips the build cache lookups
+  cache?: boolean;
+  // Aborting cancels the running builds and skips the rest
+  signal?: AbortSignal;
+  onStart?: (project: Project) => void;
+  onFinish?: (build: ProjectBuild) => void;
+}
+
+/**
+ * Directories under `rootDir` (the root included) that hold an ai-builder project.
+ */
+export async function findProjectDirectories(rootDir: string): Promise<string[]> {
+  const found: string[] = [];
+  const walk = async (directory: string, depth: number): Promise<void> => {
+    if (await fs.pathExists(path.join(directory, '.ai-builder', 'project.json'))) {
+      found.push(directory);
+    }
+    if (depth >= MAX_SEARCH_DEPTH) return;
+
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name)) {
+        await walk(path.join(directory, entry.name), depth + 1);
+      }
+    }
+  };
+  await walk(path.resolve(rootDir), 0);
+  return found.sort();
+}
+
+/**
+ * The projects of a monorepo and the order they build in. A project depends on the projects named in
+ * its build.dependsOn, and on those whose package.json name is a dependency in its own package.json.
+ */
+export class BuildGraph {
+  private projects: Map<string, Project> = new Map();
+
+  private constructor(projects: Project[], private dependencies: Map<string, string[]>) {
+    for (const project of projects) {
+      if (this.projects.has(project.name)) {
+        throw new Error(`Two projects are named '${project.name}' (${this.projects.get(project.name)!.path} and ${project.path})`);
+      }
+      this.projects.set(project.name, project);
+    }
+
+    dependencies.forEach((names, name) => {
+      const unknown = names.find(dependency => !this.projects.has(dependency));
+      if (unknown) {
+        throw new Error(`Project '${name}' depends on unknown project '${unknown}'`);
+      }
+    });
+    this.checkForCycles();
+  }
+
+  static async create(projects: Project[]): Promise<BuildGraph> {
+    const packages = new Map<string, any>();
+    for (const project of projects) {
+      packages.set(project.name, await fs.readJson(path.join(project.path, 'package.json')).catch(() => undefined));
+    }
+    const projectByPackage = new Map<string, string>();
+    packages.forEach((pkg, name) => {
+      if (pkg?.name) projectByPackage.set(pkg.name, name);
+    });
+
+    const dependencies = new Map<string, string[]>();
+    for (const project of projects) {
+      const pkg = packages.get(project.name);
+      const packageDependencies = PACKAGE_DEPENDENCY_FIELDS
+        .flatMap(field => Object.keys(pkg?.[field] || {}))
+        .map(dependency => projectByPackage.get(dependency))
+        .filter((name): name is string => !!name && name !== project.name);
+      const names = new Set([...(project.config.build?.dependsOn || []), ...packageDependencies]);
+      dependencies.set(project.name, Array.from(names).sort());
+    }
+
+    return new BuildGraph(projects, dependencies);
+  }
+
+  dependenciesOf(name: string): string[] {
+    return this.dependencies.get(name) || [];
+  }
+
+  /**
+   * Every project after the projects it depends on; otherwise by name.
+   */
+  order(): Project[] {
+    const ordered: Project[] = [];
+    const placed = new Set<string>();
+    const names = Array.from(this.projects.keys()).sort();
+
+    while (ordered.length < names.length) {
+      const next = names.find(name => !placed.has(name) && this.dependenciesOf(name).every(dependency => placed.has(dependency)))!;
+      placed.add(next);
+      ordered.push(this.projects.get(next)!);
+    }
+    return ordered;
+  }
+
+  /**
+   * Build every project once the projects it depends on have built, up to `concurrency` at a time.
+   * Projects that depend on a failed build are skipped. Results come in build order.
+   */
+  async build(builder: ProjectManager, options: BuildGraphOptions = {}): Promise<ProjectBuild[]> {
+    const concurrency = Math.max(1, options.concurrency || 1);
+    const order = this.order();
+    const finished = new Map<string, ProjectBuild>();
+    const pending = order.map(project => project.name);
+    const running = new Map<string, Promise<void>>();
+
+    const finish = (build: ProjectBuild) => {
+      finished.set(build.project.name, build);
+      options.onFinish?.(build);
+    };
+
+    while (pending.length > 0 || running.size > 0) {
+      // Pending projects are in build order, so a skip reaches the projects depending on it in the same pass
+      for (const name of pending.slice()) {
+        const project = this.projects.get(name)!;
+        const dependencies = this.dependenciesOf(name);
+        const broken = dependencies.find(dependency => finished.has(dependency) && finished.get(dependency)!.status !== 'built');
+        const reason = options.signal?.aborted ? 'Build cancelled' : broken && `'${broken}' did not build`;
+        if (reason) {
+          pending.splice(pending.indexOf(name), 1);
+          finish({ project, status: 'skipped', reason });
+          continue;
+        }
+        if (running.size >= concurrency || !dependencies.every(dependency => finished.has(dependency))) continue;
+
+        pending.splice(pending.indexOf(name), 1);
+        options.onStart?.(project);
+        running.set(name, this.buildProject(builder, project, options).then(build => {
+          running.delete(name);
+          finish(build);
+        }));
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running.values());
+      }
+    }
+
+    return order.map(project => finished.get(project.name)!);
+  }
+
+  private async buildProject(builder: ProjectManager, project: Project, options: BuildGraphOptions): Promise<ProjectBuild> {
+    try {
+      const result = await builder.buildProject(project, { cache: options.cache, signal: options.signal });
+      return { project, status: result.success ? 'built' : 'failed', result };
+    } catch (error) {
+      return { project, status: 'failed', reason: (error as Error).message };
+    }
+  }
+
+  private checkForCycles(): void {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (name: string, trail: string[]): void => {
+      if (state.get(name) === 'done') return;
+      if (state.get(name) === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(name)), name];
+        throw new Error(`Projects depend on each other in a cycle: ${cycle.join(' → ')}`);
+      }
+      state.set(name, 'visiting');
+      this.dependenciesOf(name).forEach(dependency => visit(dependency, [...trail, name]));
+      state.set(name, 'done');
+    };
+    Array.from(this.projects.keys()).sort().forEach(name => visit(name, []));
+  }
+}
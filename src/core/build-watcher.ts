@@ -0,0 +1,192 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { IgnoreMatcher, parseGitignore } from '../utils/ignore';
+import { Artifact, BuildResult, Logger, Project, ProjectManager } from '../types';
+import { DEPENDENCY_FILES } from './package-managers';
+
+// Never watched, whatever .gitignore says
+const ALWAYS_IGNORED = ['node_modules', '.git', '.ai-builder'];
+
+export interface ArtifactChange {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  size: number;
+  previousSize?: number;
+}
+
+export interface WatchedBuild {
+  result: BuildResult;
+  // Project files changed since the previous build; empty for the first build
+  changedFiles: string[];
+  // Artifacts that differ from the previous successful build
+  artifacts: ArtifactChange[];
+}
+
+export interface BuildWatcherOptions {
+  // Quiet period after the last change before a rebuild starts (ms). Defaults to 300
+  debounce?: number;
+  // False skips the build cache lookups
+  cache?: boolean;
+  // Called when changes start a rebuild
+  onChange?: (files: string[]) => void;
+  // Called after every build; the next build waits for it (e.g. to finish a redeploy)
+  onBuild?: (build: WatchedBuild) => Promise<void> | void;
+}
+
+/**
+ * Compare the artifacts of two builds by path and content hash.
+ */
+export function diffArtifacts(previous: Artifact[], next: Artifact[]): ArtifactChange[] {
+  const before = new Map(previous.map(artifact => [artifact.path, artifact] as [string, Artifact]));
+  const changes: ArtifactChange[] = [];
+
+  for (const artifact of next) {
+    const old = before.get(artifact.path);
+    before.delete(artifact.path);
+    if (!old) {
+      changes.push({ path: artifact.path, change: 'added', size: artifact.size });
+    } else if (old.hash !== artifact.hash) {
+      changes.push({ path: artifact.path, change: 'modified', size: artifact.size, previousSize: old.size });
+    }
+  }
+  before.forEach(artifact => changes.push({ path: artifact.path, change: 'removed', size: 0, previousSize: artifact.size }));
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Rebuilds a project whenever its files change. Directories are watched one by one (recursive
+ * fs.watch is not available on Linux before Node 20); the output directory, dependencies and
+ * whatever the root .gitignore excludes are left out.
+ */
+export class BuildWatcher {
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private changed: Set<string> = new Set();
+  private ignore: IgnoreMatcher = () => false;
+  private debounce: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private lastArtifacts: Artifact[] = [];
+  private stopped = false;
+
+  constructor(private projectManager: ProjectManager, private project: Project, private logger: Logger, private options: BuildWatcherOptions = {}) {
+    this.debounce = options.debounce ?? 300;
+  }
+
+  /**
+   * Build once and start watching. Resolves after the first build (and its onBuild callback).
+   */
+  async start(): Promise<WatchedBuild> {
+    await this.loadIgnoreFile();
+    await this.watchTree();
+    this.logger.info(`Watching ${this.watchers.size} directories of '${this.project.name}'`);
+    return this.build([], false);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    await this.running;
+  }
+
+  private async loadIgnoreFile(): Promise<void> {
+    const content = await fs.readFile(path.join(this.project.path, '.gitignore'), 'utf-8').catch(() => '');
+    this.ignore = parseGitignore(content);
+  }
+
+  private isIgnored(relativePath: string, isDirectory: boolean): boolean {
+    if (relativePath.split('/').some(segment => ALWAYS_IGNORED.includes(segment))) return true;
+    const outputDir = path.relative(this.project.path, path.resolve(this.project.path, this.project.config.build.outputDir || 'dist')).split(path.sep).join('/');
+    if (relativePath === outputDir || relativePath.startsWith(`${outputDir}/`)) return true;
+    return this.ignore(relativePath, isDirectory);
+  }
+
+  /**
+   * Watch every directory that is not ignored, and stop watching the ones that are gone.
+   */
+  private async watchTree(): Promise<void> {
+    const directories = new Set<string>();
+    const walk = async (relativePath: string): Promise<void> => {
+      directories.add(relativePath);
+      const entries = await fs.readdir(path.join(this.project.path, relativePath), { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && !this.isIgnored(entryPath, true)) {
+          await walk(entryPath);
+        }
+      }
+    };
+    await walk('');
+
+    this.watchers.forEach((watcher, directory) => {
+      if (directories.has(directory)) return;
+      watcher.close();
+      this.watchers.delete(directory);
+    });
+    directories.forEach(directory => {
+      if (this.watchers.has(directory) || this.stopped) return;
+      try {
+        const watcher = fs.watch(path.join(this.project.path, directory), (_event, filename) => this.onEvent(directory, filename ? filename.toString() : undefined));
+        watcher.on('error', () => { /* the directory went away; the next rescan drops it */ });
+        this.watchers.set(directory, watcher);
+      } catch (err) {
+        // Removed between the walk and the watch
+      }
+    });
+  }
+
+  private onEvent(directory: string, filename?: string): void {
+    // Without a file name (some platforms) all we know is that something in the directory changed
+    const relativePath = filename ? (directory ? `${directory}/${filename}` : filename) : directory || '.';
+    if (filename) {
+      const stats = fs.statSync(path.join(this.project.path, relativePath), { throwIfNoEntry: false });
+      if (this.isIgnored(relativePath, !!stats?.isDirectory())) return;
+    }
+
+    this.changed.add(relativePath);
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.rebuild();
+    }, this.debounce);
+  }
+
+  private rebuild(): void {
+    if (this.stopped || this.running || this.changed.size === 0) return;
+
+    this.running = (async () => {
+      try {
+        const files = Array.from(this.changed).sort();
+        this.changed.clear();
+        if (files.includes('.gitignore')) await this.loadIgnoreFile();
+        await this.watchTree();
+
+        this.options.onChange?.(files);
+        // Only a change to a manifest or lockfile reinstalls build.dependencies
+        await this.build(files, !files.some(file => DEPENDENCY_FILES.includes(file)));
+      } catch (error) {
+        this.logger.error(`Watch rebuild failed: ${(error as Error).message}`);
+      } finally {
+        this.running = undefined;
+      }
+      // Changes that arrived during the build
+      if (!this.timer) this.rebuild();
+    })();
+  }
+
+  private async build(changedFiles: string[], skipInstall: boolean): Promise<WatchedBuild> {
+    const result = await this.projectManager.buildProject(this.project, { cache: this.options.cache, skipInstall });
+    const build: WatchedBuild = {
+      result,
+      changedFiles,
+      artifacts: result.success ? diffArtifacts(this.lastArtifacts, result.artifacts) : []
+    };
+    if (result.success) {
+      this.lastArtifacts = result.artifacts;
+    }
+    await this.options.onBuild?.(build);
+    return build;
+  }
+}
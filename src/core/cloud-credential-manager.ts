@@ -1,4 +1,4 @@
-import { Logger } from '../types';
+import { CredentialStatus, Logger } from '../types';
 import { TokenManager, TokenRecord } from '../utils/token-manager';
 
 /**
@@ -7,17 +7,38 @@ import { TokenManager, TokenRecord } from '../utils/token-manager';
  */
 export class CloudCredentialManager {
   private tm: TokenManager;
+  // Where the token comes from, shown in pre-deployment checks
+  source: string = 'token';
+  // A token whose lifetime is not known, kept apart from the TokenManager's timers
+  private untimedToken?: string;
 
   constructor(private logger?: Logger, refreshFn?: () => Promise<TokenRecord | null>) {
     this.tm = new TokenManager(logger, refreshFn ? refreshFn : undefined);
   }
 
   setToken(value: string, expiresInSeconds: number, issuedAt?: Date) {
+    this.untimedToken = undefined;
     this.tm.setToken(value, expiresInSeconds, issuedAt);
   }
 
+  /**
+   * Use a token without knowing when it expires; its status reports the expiry as unknown.
+   */
+  setTokenWithUnknownExpiry(value: string) {
+    this.tm.stop();
+    this.untimedToken = value;
+  }
+
   getToken(): string | undefined {
-    return this.tm.getToken();
+    return this.untimedToken ?? this.tm.getToken();
+  }
+
+  percentUsed(): number {
+    return this.untimedToken ? 0 : this.tm.percentUsed();
+  }
+
+  getStatus(): CredentialStatus {
+    return { present: !!this.getToken(), percentUsed: this.percentUsed(), source: this.source, expiryKnown: !this.untimedToken };
   }
 
   on(event: 'warning' | 'refreshed' | 'expired', cb: (...args: any[]) => void) {
@@ -32,3 +53,20 @@ export class CloudCredentialManager {
     this.tm.stop();
   }
 }
+
+/**
+ * Create a manager seeded from an environment variable such as VERCEL_TOKEN.
+ * `<VARIABLE>_EXPIRES_IN` gives the token lifetime in seconds; without it the expiry is reported as unknown.
+ */
+export function credentialsFromEnv(variable: string, logger?: Logger): CloudCredentialManager {
+  const manager = new CloudCredentialManager(logger);
+  manager.source = variable;
+  const value = process.env[variable];
+  const expiresIn = Number(process.env[`${variable}_EXPIRES_IN`]);
+  if (value && expiresIn > 0) {
+    manager.setToken(value, expiresIn);
+  } else if (value) {
+    manager.setTokenWithUnknownExpiry(value);
+  }
+  return manager;
+}
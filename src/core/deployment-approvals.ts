@@ -0,0 +1,179 @@
+import * as os from 'os';
+import { DeploymentStore } from './deployment-store';
+import { abortableDelay } from '../utils/abort';
+import {
+  ApprovalRequest,
+  Deployment,
+  DeploymentApproval,
+  DeploymentStatus,
+  DeploymentTarget,
+  DeployWindow,
+  Logger,
+  Project,
+  ProtectionRules
+} from '../types';
+
+export interface DeploymentApprovalsOptions {
+  // How often a waiting deployment re-reads its approvals from the store (ms)
+  pollInterval?: number;
+}
+
+const DEFAULT_APPROVAL_EXPIRY = 24 * 60 * 60 * 1000;
+const DEFAULT_APPROVAL_TIMEOUT = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Who runs the CLI: the login name. Deployments started here are requested by them, and approvals made
+ * here are theirs; an environment variable or flag would let anyone approve as anyone.
+ */
+export function currentUser(): string {
+  return os.userInfo().username;
+}
+
+/**
+ * The protection rules of a target's environment, if it is protected.
+ */
+export function protectionRulesFor(project: Project, target: DeploymentTarget): ProtectionRules | undefined {
+  return project.config.deploy?.protectedEnvironments?.[target.environment];
+}
+
+/**
+ * Whether `date` falls in one of the windows (always, when there are none).
+ */
+export function isWithinDeployWindows(windows: DeployWindow[] | undefined, date: Date = new Date()): boolean {
+  if (!windows?.length) return true;
+  return windows.some(window => {
+    const { day, time } = localTime(date, window.timezone);
+    if (window.days?.length && !window.days.map(d => d.toLowerCase().slice(0, 3)).includes(day)) return false;
+    const start = window.start || '00:00';
+    const end = window.end || '24:00';
+    return start <= end ? time >= start && time < end : time >= start || time < end;
+  });
+}
+
+// Day name and zero-padded 'HH:MM' of a moment in a time zone
+function localTime(date: Date, timezone?: string): { day: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const day = part('weekday').toLowerCase().slice(0, 3);
+  if (!DAY_NAMES.includes(day)) {
+    throw new Error(`Cannot tell the weekday of ${date.toISOString()} in time zone '${timezone}'`);
+  }
+  return { day, time: `${part('hour')}:${part('minute')}` };
+}
+
+// Distinct approvers allowed by the request, other than its requester, whose approval has not expired
+function validApprovers(approvals: DeploymentApproval[], request: ApprovalRequest): string[] {
+  const now = Date.now();
+  const approvers = approvals
+    .filter(approval => now - new Date(approval.approvedAt).getTime() <= request.expiry)
+    .filter(approval => approval.approver !== request.requestedBy)
+    .filter(approval => !request.approvers || request.approvers.includes(approval.approver))
+    .map(approval => approval.approver);
+  return Array.from(new Set(approvers));
+}
+
+function describeWindow(window: DeployWindow): string {
+  const days = window.days?.length ? window.days.join(',') : 'any day';
+  const hours = window.start || window.end ? ` ${window.start || '00:00'}-${window.end || '24:00'}` : '';
+  return `${days}${hours}${window.timezone ? ` (${window.timezone})` : ''}`;
+}
+
+/**
+ * Approvals and deploy windows of protected environments.
+ * Approvals live in the deployment store, so `ai-builder approve` in another process (or the chat
+ * interface) releases a deployment that waits here.
+ */
+export class DeploymentApprovals {
+  private pollInterval: number;
+
+  constructor(private store: DeploymentStore, private logger: Logger, options: DeploymentApprovalsOptions = {}) {
+    this.pollInterval = options.pollInterval ?? 2000;
+  }
+
+  /**
+   * Throw when deployments to the target may not start now.
+   */
+  checkDeployWindow(rules: ProtectionRules, target: DeploymentTarget, now: Date = new Date()): void {
+    if (isWithinDeployWindows(rules.windows, now)) return;
+    const windows = rules.windows!.map(describeWindow).join('; ');
+    throw new Error(`Deployments to ${target.environment} are only allowed ${windows}`);
+  }
+
+  /**
+   * Describe what a deployment to a protected environment needs before it may start.
+   */
+  createRequest(rules: ProtectionRules, target: DeploymentTarget, requestedBy: string): ApprovalRequest {
+    const required = Math.max(1, rules.requiredApprovals ?? 1);
+    if (rules.approvers?.length && required > rules.approvers.length) {
+      throw new Error(`Deployments to ${target.environment} need ${required} approvals but only ${rules.approvers.length} approvers are configured`);
+    }
+    if (rules.approvers?.length && required > rules.approvers.filter(approver => approver !== requestedBy).length) {
+      throw new Error(`Deployments to ${target.environment} need ${required} approvals from approvers other than '${requestedBy}', who started this one`);
+    }
+    return {
+      required,
+      approvers: rules.approvers?.length ? [...rules.approvers] : undefined,
+      expiry: rules.approvalExpiry ?? DEFAULT_APPROVAL_EXPIRY,
+      requestedAt: new Date(),
+      requestedBy
+    };
+  }
+
+  /**
+   * Resolve with the approvers once enough valid approvals are in the store.
+   * Rejects when the approval timeout passes first, or with an AbortError when the signal aborts.
+   */
+  async waitForApproval(deployment: Deployment, rules: ProtectionRules, signal?: AbortSignal): Promise<string[]> {
+    const request = deployment.approval!;
+    const timeout = rules.approvalTimeout ?? DEFAULT_APPROVAL_TIMEOUT;
+    const deadline = new Date(request.requestedAt).getTime() + timeout;
+
+    for (;;) {
+      const approvers = validApprovers(await this.store.listApprovals(deployment.id), request);
+      if (approvers.length >= request.required) {
+        return approvers;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`Deployment ${deployment.id} was not approved within ${Math.round(timeout / 1000)}s (${approvers.length}/${request.required} approvals)`);
+      }
+      await abortableDelay(Math.min(this.pollInterval, remaining), signal);
+    }
+  }
+
+  /**
+   * Record an approval of a deployment that is waiting for one.
+   */
+  async approve(deploymentId: string, approver: string, comment?: string): Promise<ApprovalRequest> {
+    const deployment = await this.store.getDeployment(deploymentId);
+    if (!deployment) {
+      throw new Error(`Deployment '${deploymentId}' not found`);
+    }
+    const request = deployment.approval;
+    if (!request || request.approvedAt || deployment.status !== DeploymentStatus.PENDING) {
+      throw new Error(`Deployment ${deploymentId} is not waiting for approval`);
+    }
+    if (request.requestedBy === approver) {
+      throw new Error(`'${approver}' started deployment ${deploymentId} and cannot approve it`);
+    }
+    if (request.approvers && !request.approvers.includes(approver)) {
+      throw new Error(`'${approver}' may not approve deployments to ${deployment.target.environment} (approvers: ${request.approvers.join(', ')})`);
+    }
+
+    if (validApprovers(await this.store.listApprovals(deploymentId), request).includes(approver)) {
+      throw new Error(`'${approver}' already approved deployment ${deploymentId}`);
+    }
+
+    await this.store.addApproval(deploymentId, { approver, approvedAt: new Date(), comment });
+    const approvers = validApprovers(await this.store.listApprovals(deploymentId), request);
+    this.logger.info(`${approver} approved deployment ${deploymentId} (${approvers.length}/${request.required})`);
+    return { ...request, approvedBy: approvers };
+  }
+}
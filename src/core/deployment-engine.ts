@@ -3,6 +3,24 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
 import { FileDeploymentStore, DeploymentStore, SQLiteDeploymentStore } from './deployment-store';
+import { DockerProvider } from '../providers/docker-provider';
+import { LocalProvider } from '../providers/local-provider';
+import { SSHProvider } from '../providers/ssh-provider';
+import { AWSProvider } from '../providers/aws-provider';
+import { AzureProvider } from '../providers/azure-provider';
+import { GCPProvider } from '../providers/gcp-provider';
+import { VercelProvider } from '../providers/vercel-provider';
+import { NetlifyProvider } from '../providers/netlify-provider';
+import { ProjectManagerImpl } from './project-manager';
+import { DeploymentNotifier } from './deployment-notifier';
+import { HealthCheckOutcome, runHealthCheck } from '../monitoring/health-check';
+import { PreflightCheckRegistry, PreflightReport, createDefaultPreflightRegistry } from './preflight-checks';
+import { DeploymentScheduler, QueuedDeployment, SchedulerLease, TargetLock, isProcessGone } from './deployment-scheduler';
+import { DeploymentApprovals, currentUser, protectionRulesFor } from './deployment-approvals';
+import { SecretResolverRegistry, createDefaultSecretResolvers } from './secret-resolver';
+import { artifactsIntact, hashSourceTree } from '../utils/source-hash';
+import { abortableDelay, createAbortError, isAbortError, onAbort, throwIfAborted } from '../utils/abort';
+import { redactSecrets, registerSecretValues } from '../utils/redact';
 import { 
   Deployment, 
   DeploymentEngine, 
@@ -10,23 +28,86 @@ import {
   DeploymentTarget, 
   Project, 
   BuildResult, 
+  BuildOutputLine,
+  CanaryConfig,
+  CanaryDriver,
+  CanaryRun,
+  CanaryStage,
+  CanaryThresholds,
   DeploymentConfig,
   DeploymentResult,
+  DeploymentColor,
   DeploymentLog,
+  DeployOptions,
+  HealthCheckConfig,
+  RollbackOptions,
   Logger,
   CloudProvider,
-  ProgressIndicator
+  ProjectManager,
+  ProviderFactory,
+  RollbackTrigger,
+  ProgressIndicator,
+  PromotionLineage,
+  ProtectionRules,
+  ApprovalRequest,
+  SecretResolver
 } from '../types';
 
+// Provider names end up in target configs and file paths, so keep them simple
+const PROVIDER_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const PROVIDER_METHODS: ReadonlyArray<keyof CloudProvider> = ['deploy', 'getStatus', 'rollback', 'listDeployments'];
+
+// Statuses from which a deployment can no longer be cancelled
+const FINISHED_STATUSES = [DeploymentStatus.SUCCESS, DeploymentStatus.FAILED, DeploymentStatus.ROLLED_BACK, DeploymentStatus.CANCELLED];
+
+function finishedAt(deployment: Deployment): number {
+  return new Date(deployment.completedAt || deployment.createdAt).getTime();
+}
+
+const DEFAULT_CANARY_STEPS = [10, 50, 100];
+
+/**
+ * The canary steps in percent, always ending with the promotion to 100.
+ */
+function canarySteps(config: CanaryConfig = {}): number[] {
+  const steps = config.steps?.length ? [...config.steps] : [...DEFAULT_CANARY_STEPS];
+  if (steps[steps.length - 1] !== 100) steps.push(100);
+  if (steps.some((percent, i) => !(percent > (i > 0 ? steps[i - 1] : 0) && percent <= 100))) {
+    throw new Error(`Canary steps must rise from above 0 to 100, got [${config.steps!.join(', ')}]`);
+  }
+  return steps;
+}
+
+export interface DeploymentEngineOptions {
+  // How often a running deploy checks the store for a cancel request from another process (ms)
+  cancellationPollInterval?: number;
+  // Deployments allowed to run at once; ignored when a scheduler is passed. Defaults to 10
+  maxConcurrentDeployments?: number;
+  scheduler?: DeploymentScheduler;
+  // How often a deployment to a protected environment checks the store for approvals (ms)
+  approvalPollInterval?: number;
+  // Backends for EnvironmentConfig.secrets; defaults to the 'env' backend only
+  secrets?: SecretResolverRegistry;
+}
+
 export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngine {
   private activeDeployments: Map<string, Deployment> = new Map();
   private cloudProviders: Map<string, CloudProvider> = new Map();
   private logger: Logger;
   private store: DeploymentStore;
-
-  constructor(logger: Logger, store?: DeploymentStore) {
+  private builder: ProjectManager;
+  private abortControllers: Map<string, AbortController> = new Map();
+  private cancellationPollInterval: number;
+  private scheduler: DeploymentScheduler;
+  private approvals: DeploymentApprovals;
+  private secrets: SecretResolverRegistry;
+
+  constructor(logger: Logger, store?: DeploymentStore, builder?: ProjectManager, options: DeploymentEngineOptions = {}) {
     super();
     this.logger = logger;
+    this.builder = builder || new ProjectManagerImpl(logger);
+    this.cancellationPollInterval = options.cancellationPollInterval ?? 1000;
+    this.secrets = options.secrets || createDefaultSecretResolvers();
     // Default: try SQLite-backed store (faster, transactional). Fall back to file store if SQLite not available.
     if (store) {
       this.store = store;
@@ -40,6 +121,14 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
         this.store = new FileDeploymentStore(path.join(process.cwd(), '.ai-builder', 'deployments'), logger);
       }
     }
+    // Processes sharing the store share the target locks, wherever each of them was started
+    const sharedStateDir = this.store.sharedStateDir?.();
+    this.scheduler = options.scheduler || new DeploymentScheduler(logger, {
+      maxConcurrent: options.maxConcurrentDeployments,
+      lockDir: sharedStateDir ? path.join(sharedStateDir, 'locks') : undefined
+    });
+    this.scheduler.on('queueChanged', (queue: QueuedDeployment[]) => this.updateQueuePositions(queue));
+    this.approvals = new DeploymentApprovals(this.store, logger, { pollInterval: options.approvalPollInterval });
     this.initializeCloudProviders();
   }
 
@@ -52,16 +141,138 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     return this.store.getDeployment(id);
   }
 
+  async getLastSuccessfulDeployment(projectId: string, targetName: string, excludeId?: string): Promise<Deployment | null> {
+    const deployments = await this.store.listDeployments(projectId);
+    const successful = deployments
+      .filter(d => d.status === DeploymentStatus.SUCCESS && d.target?.name === targetName && d.id !== excludeId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return successful[0] || null;
+  }
+
+  /**
+   * Deployments waiting for a slot or a target lock, from every process sharing the store, oldest first.
+   * Records left pending by a process that has exited are not waiting for anything and are left out.
+   */
+  async listQueuedDeployments(projectId?: string): Promise<Deployment[]> {
+    return (await this.listPendingDeployments(projectId)).filter(deployment => deployment.queuePosition !== undefined);
+  }
+
+  /**
+   * Deployments to protected environments that are still waiting for their approvals, oldest first.
+   */
+  async listAwaitingApproval(projectId?: string): Promise<Deployment[]> {
+    return (await this.listPendingDeployments(projectId)).filter(deployment => deployment.approval && !deployment.approval.approvedAt);
+  }
+
+  async listTargetLocks(): Promise<TargetLock[]> {
+    return this.scheduler.listLocks();
+  }
+
   private initializeCloudProviders(): void {
-    // Register cloud providers (would be implemented as separate classes)
-    // For now, we'll register mock providers
-    this.cloudProviders.set('local', new LocalProvider(this.logger));
-    this.cloudProviders.set('docker', new DockerProvider(this.logger));
-    this.cloudProviders.set('aws', new AWSProvider(this.logger));
-    this.cloudProviders.set('ssh', new SSHProvider(this.logger));
+    this.registerProvider(new LocalProvider(this.logger, { secrets: this.secrets }));
+    this.registerProvider(new DockerProvider(this.logger));
+    this.registerProvider(new AWSProvider(this.logger));
+    this.registerProvider(new SSHProvider(this.logger));
+    this.registerProvider(new AzureProvider(this.logger));
+    this.registerProvider(new GCPProvider(this.logger));
+    this.registerProvider(new VercelProvider(this.logger));
+    this.registerProvider(new NetlifyProvider(this.logger));
+  }
+
+  /**
+   * Make a provider available to targets whose `type` is the provider's name.
+   * Pass `replace` to swap out a provider that is already registered (including a built-in one).
+   */
+  registerProvider(provider: CloudProvider, options: { replace?: boolean } = {}): void {
+    if (!provider || typeof provider.name !== 'string' || !PROVIDER_NAME_PATTERN.test(provider.name)) {
+      throw new Error(`Invalid provider name '${provider?.name}': use lowercase letters, digits and dashes, starting with a letter`);
+    }
+
+    const missing = PROVIDER_METHODS.filter(method => typeof provider[method] !== 'function');
+    if (missing.length > 0) {
+      throw new Error(`Provider '${provider.name}' does not implement ${missing.join(', ')}`);
+    }
+
+    if (this.cloudProviders.has(provider.name) && !options.replace) {
+      throw new Error(`A provider named '${provider.name}' is already registered`);
+    }
+
+    this.cloudProviders.set(provider.name, provider);
+    this.logger.debug(`Registered deployment provider '${provider.name}'`);
+  }
+
+  /**
+   * Remove a provider. Returns false if no provider had that name.
+   */
+  unregisterProvider(name: string): boolean {
+    return this.cloudProviders.delete(name);
+  }
+
+  listProviders(): CloudProvider[] {
+    return Array.from(this.cloudProviders.values());
+  }
+
+  /**
+   * Make a secret backend available to references of the form '<backend>:<name>' in EnvironmentConfig.secrets.
+   */
+  registerSecretBackend(backend: string, resolver: SecretResolver, options: { replace?: boolean } = {}): void {
+    this.secrets.register(backend, resolver, options);
+  }
+
+  /**
+   * Require provider packages (resolved from the current project first) and register what they export:
+   * a provider instance, a provider class, or a factory taking the logger. Returns the registered names.
+   */
+  async loadProviderPackages(packages: string[]): Promise<string[]> {
+    const registered: string[] = [];
+
+    for (const packageName of packages) {
+      let providers: CloudProvider[];
+      try {
+        const modulePath = require.resolve(packageName, { paths: [process.cwd(), __dirname] });
+        providers = await this.instantiateProviders(require(modulePath));
+      } catch (error) {
+        throw new Error(`Failed to load provider package '${packageName}': ${(error as Error).message}`);
+      }
+
+      if (providers.length === 0) {
+        throw new Error(`Provider package '${packageName}' does not export a provider`);
+      }
+      for (const provider of providers) {
+        this.registerProvider(provider);
+        registered.push(provider.name);
+      }
+    }
+
+    return registered;
   }
 
-  async deploy(project: Project, target: DeploymentTarget): Promise<Deployment> {
+  private async instantiateProviders(exported: any): Promise<CloudProvider[]> {
+    const candidate = exported?.createProvider || exported?.default || exported;
+
+    let result: CloudProvider | CloudProvider[];
+    if (typeof candidate === 'function') {
+      // Classes have the provider methods on their prototype; anything else callable is a factory
+      result = typeof candidate.prototype?.deploy === 'function'
+        ? new candidate(this.logger)
+        : await (candidate as ProviderFactory)(this.logger);
+    } else {
+      result = candidate;
+    }
+
+    return (Array.isArray(result) ? result : [result]).filter(Boolean);
+  }
+
+  private providerFor(target: DeploymentTarget): CloudProvider {
+    const provider = this.cloudProviders.get(target.type);
+    if (!provider) {
+      const known = Array.from(this.cloudProviders.keys()).join(', ');
+      throw new Error(`No provider found for target type: ${target.type} (registered: ${known})`);
+    }
+    return provider;
+  }
+
+  async deploy(project: Project, target: DeploymentTarget, options: DeployOptions = {}): Promise<Deployment> {
     this.logger.info(`Starting deployment of project '${project.name}' to target '${target.name}'`);
     
     const deployment: Deployment = {
@@ -71,7 +282,9 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
       version: project.version,
       status: DeploymentStatus.PENDING,
       logs: [],
-      createdAt: new Date()
+      createdAt: new Date(),
+      promotedFrom: options.promotedFrom,
+      owner: { pid: process.pid, hostname: os.hostname() }
     };
 
     this.activeDeployments.set(deployment.id, deployment);
@@ -79,44 +292,92 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     await this.store.saveDeployment(deployment);
     this.emit('deploymentStarted', deployment);
 
+    // Cancelled by the caller's signal, cancelDeployment() in this process, or a cancel request in the store
+    const controller = new AbortController();
+    const signal = controller.signal;
+    this.abortControllers.set(deployment.id, controller);
+    const removeCallerListener = onAbort(options.signal, () => controller.abort());
+    const stopWatching = this.watchForCancellation(deployment.id, controller);
+
+    let provider: CloudProvider | undefined;
+    let deploymentConfig: DeploymentConfig | undefined;
+    let lease: SchedulerLease | undefined;
+
     try {
+      throwIfAborted(signal);
+
+      // Protected environments: stays PENDING until approved, and only starts inside a deploy window
+      const protection = protectionRulesFor(project, target);
+      if (protection) {
+        this.approvals.checkDeployWindow(protection, target);
+        await this.waitForApproval(deployment, protection, options.requestedBy || currentUser(), signal);
+        this.approvals.checkDeployWindow(protection, target);
+      }
+
+      // Stays PENDING until a slot is free and no other deployment holds the target
+      lease = await this.scheduler.acquire({ deploymentId: deployment.id, lockKey: this.targetLockKey(project.id, target) }, signal);
+      delete deployment.queuePosition;
+      deployment.startedAt = new Date();
+      if (lease.waited >= 1000) {
+        await this.addDeploymentLog(deployment, 'info', `Started after ${Math.round(lease.waited / 1000)}s in the queue`, 'deployment-engine');
+      }
+      throwIfAborted(signal);
+
+      // Resolved before the build so that anything echoing them is already redacted
+      const secrets = await this.resolveSecrets(project, deployment);
+
       // Build project first
       await this.updateDeploymentStatus(deployment, DeploymentStatus.BUILDING);
-      await this.addDeploymentLog(deployment, 'info', 'Starting build process', 'build-engine');
-
-      const buildResult = await this.buildProject(project);
+      let buildResult: BuildResult;
+      if (options.build) {
+        buildResult = await this.verifyGivenBuild(project, deployment, options.build);
+      } else {
+        await this.addDeploymentLog(deployment, 'info', 'Starting build process', 'build-engine');
+        buildResult = await this.buildProject(project, deployment, signal);
+      }
+      throwIfAborted(signal);
       
       if (!buildResult.success) {
         throw new Error(`Build failed: ${buildResult.error}`);
       }
 
       deployment.buildResult = buildResult;
-      await this.addDeploymentLog(deployment, 'info', 'Build completed successfully', 'build-engine');
+      if (!options.build) {
+        await this.addDeploymentLog(deployment, 'info', `Build completed successfully (${buildResult.artifacts.length} artifacts)`, 'build-engine');
+      }
       await this.store.saveDeployment(deployment);
 
       // Deploy to target
       await this.updateDeploymentStatus(deployment, DeploymentStatus.DEPLOYING);
       await this.addDeploymentLog(deployment, 'info', `Starting deployment to ${target.name}`, 'deployment-engine');
 
-      const deploymentConfig: DeploymentConfig = {
+      deploymentConfig = {
+        deploymentId: deployment.id,
         project,
         target,
         buildResult,
-        environment: this.mergeEnvironmentVariables(project, target)
+        environment: { ...this.mergeEnvironmentVariables(project, target), ...secrets },
+        signal
       };
 
-      const provider = this.cloudProviders.get(target.type);
-      if (!provider) {
-        throw new Error(`No provider found for target type: ${target.type}`);
-      }
+      provider = this.providerFor(target);
+      throwIfAborted(signal);
 
-      const result = await provider.deploy(deploymentConfig);
+      const strategy = project.config.deploy?.strategy || 'in-place';
+      const result = strategy === 'in-place'
+        ? await provider.deploy(deploymentConfig)
+        : await this.deployStaged(project, deployment, provider, deploymentConfig, options.canary);
       
       if (!result.success) {
         throw new Error(`Deployment failed: ${result.error}`);
       }
 
+      if (signal.aborted) {
+        await this.addDeploymentLog(deployment, 'warn', 'Cancellation arrived after the release went live; keeping it', 'deployment-engine');
+      }
+
       // Update deployment with result
+      deployment.result = result;
       deployment.status = DeploymentStatus.SUCCESS;
       deployment.completedAt = new Date();
 
@@ -132,6 +393,11 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
       return deployment;
 
     } catch (error) {
+      if (signal.aborted) {
+        await this.finishCancelledDeployment(deployment, provider, deploymentConfig);
+        throw createAbortError(`Deployment '${deployment.id}' was cancelled`);
+      }
+
       deployment.status = DeploymentStatus.FAILED;
       deployment.completedAt = new Date();
 
@@ -142,25 +408,183 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
       this.logger.error(`Deployment '${deployment.id}' failed: ${error}`);
       throw error;
     } finally {
+      stopWatching();
+      removeCallerListener();
+      await lease?.release();
+      this.abortControllers.delete(deployment.id);
+      try { await this.store.clearCancellation(deployment.id); } catch (err) { /* swallow */ }
       this.activeDeployments.delete(deployment.id);
       // ensure last state persisted
       try { await this.store.saveDeployment(deployment); } catch (err) { /* swallow */ }
     }
   }
 
-  async rollback(deployment: Deployment, version: string): Promise<void> {
+  private async waitForApproval(deployment: Deployment, rules: ProtectionRules, requestedBy: string, signal: AbortSignal): Promise<void> {
+    const request = this.approvals.createRequest(rules, deployment.target, requestedBy);
+    deployment.approval = request;
+    const who = request.approvers ? ` from ${request.approvers.join(', ')}` : '';
+    await this.addDeploymentLog(deployment, 'info', `Waiting for ${request.required} approval(s)${who}: ai-builder approve ${deployment.id}`, 'deployment-engine');
+    await this.store.saveDeployment(deployment);
+    this.emit('approvalRequired', deployment, request);
+
+    const approvers = await this.approvals.waitForApproval(deployment, rules, signal);
+    request.approvedBy = approvers;
+    request.approvedAt = new Date();
+    await this.addDeploymentLog(deployment, 'info', `Approved by ${approvers.join(', ')}`, 'deployment-engine');
+    await this.store.saveDeployment(deployment);
+  }
+
+  /**
+   * Approve a deployment that waits in a protected environment; it starts once it has all its approvals.
+   */
+  async approveDeployment(deploymentId: string, approver: string, comment?: string): Promise<ApprovalRequest> {
+    return this.approvals.approve(deploymentId, approver, comment);
+  }
+
+  /**
+   * Blue-green and canary: stage the release in the idle color and health-check it there. Canary releases then
+   * take a growing share of the traffic under the driver; only after that does all traffic switch over.
+   * A failure before the switch leaves the live color serving.
+   */
+  private async deployStaged(project: Project, deployment: Deployment, provider: CloudProvider, config: DeploymentConfig, driver?: CanaryDriver): Promise<DeploymentResult> {
+    const canary = project.config.deploy?.strategy === 'canary';
+    if (!provider.activate || (canary && !provider.shiftTraffic)) {
+      throw new Error(`Provider '${provider.name}' does not support ${canary ? 'canary' : 'blue-green'} deployments`);
+    }
+    if (canary && !driver) {
+      throw new Error('Canary deployments need a driver for their steps; deploy through DeploymentPipeline');
+    }
+    const steps = canary ? canarySteps(project.config.deploy?.canary) : [];
+
+    const liveColor = await this.getLiveColor(project.id, config.target.name);
+    const color = liveColor === 'blue' ? 'green' : 'blue';
+    deployment.color = color;
+    config.color = color;
+    await this.addDeploymentLog(deployment, 'info', `Staging version ${deployment.version} in the idle ${color} environment`, 'deployment-engine');
+
+    const staged = await provider.deploy(config);
+    if (!staged.success) {
+      return staged;
+    }
+
+    const healthCheck = config.target.config.healthCheck || project.config.deploy?.healthCheck;
+    if (healthCheck && staged.url) {
+      const outcome = await runHealthCheck(healthCheck, { baseUrl: staged.url, signal: config.signal });
+      if (!outcome.healthy) {
+        throw new Error(`The ${color} environment failed its health check (${outcome.error}); traffic stays on ${liveColor || 'the current release'}`);
+      }
+      await this.addDeploymentLog(deployment, 'info', `The ${color} environment passed its health check`, 'deployment-engine');
+    } else if (healthCheck) {
+      await this.addDeploymentLog(deployment, 'warn', `Provider '${provider.name}' gave no URL for the ${color} environment; switching without a health check`, 'deployment-engine');
+    }
+
+    const canaryRan = canary && !!liveColor;
+    if (canaryRan) {
+      await this.runCanary(deployment, provider, staged, steps, driver!, config.signal, liveColor!);
+    } else if (canary) {
+      await this.addDeploymentLog(deployment, 'info', `Nothing is live on ${config.target.name} yet; skipping the canary steps`, 'deployment-engine');
+    }
+
+    // Last point at which a cancel leaves the live color serving
+    throwIfAborted(config.signal);
+    const live = await provider.activate(deployment.id);
+    deployment.liveColor = color;
+    await this.addDeploymentLog(deployment, 'info', liveColor ? `Switched traffic from ${liveColor} to ${color}` : `Sent traffic to ${color}`, 'deployment-engine');
+    if (canaryRan) {
+      this.emitCanaryStage(deployment, { step: steps.length, steps: steps.length, percent: 100 });
+    }
+
+    return live;
+  }
+
+  /**
+   * Hand the staged color to the canary driver; if it rejects, the live color takes all the traffic back.
+   */
+  private async runCanary(deployment: Deployment, provider: CloudProvider, staged: DeploymentResult, steps: number[], driver: CanaryDriver, signal: AbortSignal | undefined, liveColor: DeploymentColor): Promise<void> {
+    const color = deployment.color!;
+    const run: CanaryRun = {
+      deployment,
+      steps,
+      url: staged.url,
+      signal,
+      shiftTraffic: async percent => {
+        const step = steps.indexOf(percent) + 1;
+        if (step < 1 || step === steps.length) {
+          throw new Error(`${percent}% is not one of the canary steps before promotion (${steps.slice(0, -1).join(', ')})`);
+        }
+        throwIfAborted(signal);
+        await provider.shiftTraffic!(deployment.id, percent);
+        await this.addDeploymentLog(deployment, 'info', `Sent ${percent}% of traffic to ${color} (canary step ${step}/${steps.length})`, 'deployment-engine');
+        this.emitCanaryStage(deployment, { step, steps: steps.length, percent });
+      }
+    };
+
+    try {
+      await driver(run);
+    } catch (error) {
+      try {
+        await provider.shiftTraffic!(deployment.id, 0);
+        await this.addDeploymentLog(deployment, 'warn', `Canary aborted; all traffic is back on ${liveColor}`, 'deployment-engine');
+      } catch (shiftError) {
+        await this.addDeploymentLog(deployment, 'error', `Canary aborted but the traffic could not be sent back to ${liveColor}: ${(shiftError as Error).message}`, 'deployment-engine');
+      }
+      throw error;
+    }
+  }
+
+  private emitCanaryStage(deployment: Deployment, stage: CanaryStage): void {
+    this.emit('statusUpdated', deployment, deployment.status, stage);
+  }
+
+  /**
+   * The color serving a target's traffic, from the most recent blue-green deployment that recorded one.
+   */
+  async getLiveColor(projectId: string, targetName: string): Promise<DeploymentColor | undefined> {
+    const deployments = await this.store.listDeployments(projectId);
+    const latest = deployments
+      .filter(d => d.target?.name === targetName && d.liveColor)
+      .sort((a, b) => finishedAt(b) - finishedAt(a))[0];
+    return latest?.liveColor;
+  }
+
+  /**
+   * A blue-green deployment is still warm when no later deployment was staged in its color.
+   */
+  private async isWarm(deployment: Deployment): Promise<boolean> {
+    const deployments = await this.store.listDeployments(deployment.projectId);
+    const latest = deployments
+      .filter(d => d.target?.name === deployment.target.name && d.color === deployment.color)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+    return latest?.id === deployment.id;
+  }
+
+  async rollback(deployment: Deployment, version: string, options: RollbackOptions = {}): Promise<void> {
     this.logger.info(`Starting rollback of deployment '${deployment.id}' to version '${version}'`);
     
+    let lease: SchedulerLease | undefined;
     try {
+      // Waits for a deployment to the same target that is still running, here or in another process
+      lease = await this.scheduler.acquire({ deploymentId: deployment.id, lockKey: this.targetLockKey(deployment.projectId, deployment.target) });
+
+      if (options.reason) {
+        await this.addDeploymentLog(deployment, 'warn', `Rolling back: ${options.reason}`, 'rollback-engine');
+      }
       await this.updateDeploymentStatus(deployment, DeploymentStatus.ROLLING_BACK);
       await this.addDeploymentLog(deployment, 'info', `Starting rollback to version ${version}`, 'rollback-engine');
 
-      const provider = this.cloudProviders.get(deployment.target.type);
-      if (!provider) {
-        throw new Error(`No provider found for target type: ${deployment.target.type}`);
+      const provider = this.providerFor(deployment.target);
+      const restoreFrom = options.restoreFrom;
+
+      if (deployment.color && !deployment.liveColor) {
+        // Blue-green deployments that never took traffic have nothing to undo
+        await this.addDeploymentLog(deployment, 'info', `Traffic never left the ${restoreFrom?.liveColor || 'live'} environment`, 'rollback-engine');
+      } else if (provider.activate && deployment.liveColor && restoreFrom?.color && restoreFrom.color !== deployment.liveColor && await this.isWarm(restoreFrom)) {
+        await provider.activate(restoreFrom.id);
+        deployment.liveColor = restoreFrom.color;
+        await this.addDeploymentLog(deployment, 'info', `Switched traffic back to the ${restoreFrom.color} environment`, 'rollback-engine');
+      } else {
+        await provider.rollback((restoreFrom || deployment).id, version);
       }
-
-      await provider.rollback(deployment.id, version);
       
       deployment.status = DeploymentStatus.ROLLED_BACK;
       deployment.rollbackFrom = deployment.version;
@@ -180,14 +604,13 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
       
       this.logger.error(`Rollback of deployment '${deployment.id}' failed: ${error}`);
       throw error;
+    } finally {
+      await lease?.release();
     }
   }
 
   async getStatus(deployment: Deployment): Promise<DeploymentStatus> {
-    const provider = this.cloudProviders.get(deployment.target.type);
-    if (!provider) {
-      throw new Error(`No provider found for target type: ${deployment.target.type}`);
-    }
+    const provider = this.providerFor(deployment.target);
 
     try {
       const remoteStatus = await provider.getStatus(deployment.id);
@@ -204,6 +627,13 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     }
   }
 
+  /**
+   * What the provider reports for a deployment. Unlike getStatus() the deployment record is left as it is.
+   */
+  async getProviderStatus(deployment: Deployment): Promise<DeploymentStatus> {
+    return this.providerFor(deployment.target).getStatus(deployment.id);
+  }
+
   async getLogs(deployment: Deployment): Promise<DeploymentLog[]> {
     // If we have persisted logs, prefer them
     try {
@@ -215,42 +645,108 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     return deployment.logs;
   }
 
+  /**
+   * Cancel a pending or running deployment. A deployment running in this process is aborted
+   * directly; otherwise the request goes through the store and the process running it picks it up.
+   */
   async cancelDeployment(deployment: Deployment): Promise<void> {
     this.logger.info(`Cancelling deployment '${deployment.id}'`);
     
-    if (deployment.status === DeploymentStatus.SUCCESS || 
-        deployment.status === DeploymentStatus.FAILED ||
-        deployment.status === DeploymentStatus.ROLLED_BACK) {
+    if (FINISHED_STATUSES.includes(deployment.status)) {
       throw new Error(`Cannot cancel deployment in '${deployment.status}' state`);
     }
 
-    deployment.status = DeploymentStatus.FAILED;
+    const controller = this.abortControllers.get(deployment.id);
+    if (controller) {
+      controller.abort();
+    } else {
+      await this.store.requestCancellation(deployment.id);
+    }
+  }
+
+  private watchForCancellation(deploymentId: string, controller: AbortController): () => void {
+    let checking = false;
+    const timer = setInterval(async () => {
+      if (checking || controller.signal.aborted) return;
+      checking = true;
+      try {
+        if (await this.store.isCancellationRequested(deploymentId)) {
+          this.logger.info(`Cancellation requested for deployment '${deploymentId}'`);
+          controller.abort();
+        }
+      } catch (err) {
+        // the next poll tries again
+      } finally {
+        checking = false;
+      }
+    }, this.cancellationPollInterval);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  private async finishCancelledDeployment(deployment: Deployment, provider?: CloudProvider, config?: DeploymentConfig): Promise<void> {
+    deployment.status = DeploymentStatus.CANCELLED;
     deployment.completedAt = new Date();
-    
     await this.addDeploymentLog(deployment, 'info', 'Deployment cancelled by user', 'deployment-engine');
-    
+
+    if (provider?.cleanup && config) {
+      try {
+        await provider.cleanup({ ...config, signal: undefined });
+        await this.addDeploymentLog(deployment, 'info', `Cleaned up after cancelled deploy to ${deployment.target.name}`, 'deployment-engine');
+      } catch (error) {
+        await this.addDeploymentLog(deployment, 'warn', `Cleanup after cancellation failed: ${(error as Error).message}`, 'deployment-engine');
+      }
+    }
+
+    await this.store.saveDeployment(deployment);
     this.emit('deploymentCancelled', deployment);
-    this.activeDeployments.delete(deployment.id);
+    this.logger.info(`Deployment '${deployment.id}' cancelled`);
   }
 
-  private async buildProject(project: Project): Promise<BuildResult> {
-    // This would integrate with the ProjectManager
-    // For now, return a mock build result
+  /**
+   * Build the project. Unchanged builds come from the builder's content-addressed cache, which is keyed
+   * on the build configuration as well as the source tree.
+   */
+  private async buildProject(project: Project, deployment?: Deployment, signal?: AbortSignal): Promise<BuildResult> {
+    // Lines are logged in order; the build waits for the last ones to be stored
+    let logged = Promise.resolve();
+    const onOutput = deployment && ((output: BuildOutputLine) => {
+      logged = logged.then(() => this.addDeploymentLog(deployment, 'info', output.line, 'build', output.stream));
+    });
+    const buildResult = await this.builder.buildProject(project, { signal, onOutput });
+    await logged;
+    if (deployment && buildResult.cached) {
+      await this.addDeploymentLog(deployment, 'info', 'Build inputs unchanged, restored the build from the cache', 'build-engine');
+    }
     return {
-      success: true,
-      output: 'Build completed successfully',
-      artifacts: [
-        {
-          path: 'dist/index.js',
-          size: 1024,
-          hash: 'abc123',
-          type: 'file'
-        }
-      ],
-      duration: 1500
+      ...buildResult,
+      output: redactSecrets(buildResult.output),
+      error: redactSecrets(buildResult.error),
+      sourceHash: buildResult.sourceHash || await hashSourceTree(project)
     };
   }
 
+  /**
+   * A given build (promoted, or made by watch mode) is deployed as it is, so its artifacts must not have
+   * changed since it was built and no other files may have joined them in the output directory.
+   */
+  private async verifyGivenBuild(project: Project, deployment: Deployment, build: BuildResult): Promise<BuildResult> {
+    const label = build.sourceHash ? build.sourceHash.slice(0, 12) : 'without a source hash';
+    const promotion = deployment.promotedFrom;
+    const action = promotion ? `Promoting build ${label} from ${promotion.targetName}` : `Deploying build ${label}`;
+    await this.addDeploymentLog(deployment, 'info', `${action} (${build.artifacts.length} artifacts)`, 'build-engine');
+
+    if (!build.success) {
+      throw new Error(`Cannot ${promotion ? 'promote' : 'deploy'} a failed build: ${build.error}`);
+    }
+    if (!await artifactsIntact(project, build.artifacts)) {
+      const advice = promotion ? 'deploy a fresh build to the source target first' : 'build again';
+      throw new Error(`The artifacts in ${project.config.build?.outputDir || 'dist'} no longer match build ${label}; ${advice}`);
+    }
+    return build;
+  }
+
   private mergeEnvironmentVariables(project: Project, target: DeploymentTarget): Record<string, string> {
     const baseEnv = project.config.environment?.variables || {};
     const targetEnv = target.config.environment || {};
@@ -258,6 +754,43 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     return { ...baseEnv, ...targetEnv };
   }
 
+  /**
+   * Resolve the secrets of the project's environment; their values are redacted from then on.
+   */
+  private async resolveSecrets(project: Project, deployment: Deployment): Promise<Record<string, string>> {
+    const secrets = await this.secrets.resolveAll(project);
+    const names = Object.keys(secrets);
+    if (names.length > 0) {
+      registerSecretValues(Object.values(secrets));
+      await this.addDeploymentLog(deployment, 'info', `Resolved ${names.length} secret(s): ${names.join(', ')}`, 'deployment-engine');
+    }
+    return secrets;
+  }
+
+  // Two deployments (or rollbacks) of the same project to the same target must not overlap
+  private targetLockKey(projectId: string, target: DeploymentTarget): string {
+    return `${projectId}-${target.name}`;
+  }
+
+  private async listPendingDeployments(projectId?: string): Promise<Deployment[]> {
+    const deployments = await this.store.listDeployments(projectId);
+    return deployments
+      .filter(deployment => deployment.status === DeploymentStatus.PENDING)
+      .filter(deployment => deployment.owner !== undefined && !isProcessGone(deployment.owner.pid, deployment.owner.hostname))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  private updateQueuePositions(queue: QueuedDeployment[]): void {
+    for (const entry of queue) {
+      const deployment = this.activeDeployments.get(entry.deploymentId);
+      if (!deployment || deployment.queuePosition === entry.position) continue;
+
+      deployment.queuePosition = entry.position;
+      this.emit('deploymentQueued', deployment, entry);
+      this.store.saveDeployment(deployment).catch(() => { /* ignore */ });
+    }
+  }
+
   private generateDeploymentId(): string {
     return `deploy_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -268,13 +801,14 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
     try { await this.store.saveDeployment(deployment); } catch (err) { /* ignore */ }
   }
 
-  private async addDeploymentLog(deployment: Deployment, level: 'info' | 'warn' | 'error' | 'debug', message: string, source: string): Promise<void> {
+  private async addDeploymentLog(deployment: Deployment, level: 'info' | 'warn' | 'error' | 'debug', message: string, source: string, stream?: 'stdout' | 'stderr'): Promise<void> {
     const log: DeploymentLog = {
       id: this.generateLogId(),
       level,
-      message,
+      message: redactSecrets(message),
       timestamp: new Date(),
-      source
+      source,
+      ...(stream && { stream })
     };
     
     deployment.logs.push(log);
@@ -291,288 +825,428 @@ export class DeploymentEngineImpl extends EventEmitter implements DeploymentEngi
   }
 }
 
-// Cloud Provider Implementations
-
-class LocalProvider implements CloudProvider {
-  name = 'local';
-  type = 'local' as const;
-
-  constructor(private logger: Logger) {}
-
-  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
-    this.logger.info(`Deploying ${config.project.name} to local environment`);
-    
-    // Simulate local deployment
-    await this.simulateDeployment();
-    
-    return {
-      success: true,
-      deploymentId: `local_${Date.now()}`,
-      url: `http://localhost:3000`,
-      endpoint: 'http://localhost:3000/api',
-      metadata: {
-        type: 'local',
-        port: 3000,
-        pid: process.pid
-      }
-    };
-  }
-
-  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
-    // Check if local process is running
-    return DeploymentStatus.SUCCESS;
-  }
-
-  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
-    this.logger.info(`Rolling back local deployment ${deploymentId} to version ${targetVersion}`);
-    await this.simulateDeployment();
-  }
-
-  async listDeployments(): Promise<Deployment[]> {
-    // List local deployments
-    return [];
-  }
+// Deployment Pipeline with Health Checks and Monitoring
 
-  private async simulateDeployment(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
+const PIPELINE_STAGES: Partial<Record<DeploymentStatus, { progress: number; message: string }>> = {
+  [DeploymentStatus.PENDING]: { progress: 25, message: 'Deployment queued...' },
+  [DeploymentStatus.BUILDING]: { progress: 35, message: 'Building project...' },
+  [DeploymentStatus.DEPLOYING]: { progress: 60, message: 'Deploying to target...' }
+};
+
+// One health-check outcome; rollback triggers are evaluated against these
+export interface HealthSample {
+  healthy: boolean;
+  timestamp: Date;
+  error?: string;
 }
 
-class DockerProvider implements CloudProvider {
-  name = 'docker';
-  type = 'docker' as const;
-
-  constructor(private logger: Logger) {}
-
-  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
-    this.logger.info(`Deploying ${config.project.name} to Docker container`);
-    
-    // Simulate Docker deployment
-    await this.simulateDeployment();
-    
-    return {
-      success: true,
-      deploymentId: `docker_${Date.now()}`,
-      url: `http://localhost:8080`,
-      endpoint: `http://localhost:8080/api`,
-      metadata: {
-        type: 'docker',
-        image: `${config.project.name}:${config.project.version}`,
-        containerId: `container_${Date.now()}`,
-        port: config.target.config.port || 8080
+const DEFAULT_TRIGGER_WINDOW = 5 * 60 * 1000;
+// Used when auto-rollback is requested without any configured triggers
+const DEFAULT_ROLLBACK_TRIGGERS: RollbackTrigger[] = [{ type: 'health_check' }];
+
+/**
+ * Return why a rollback should happen, or undefined when no trigger fires.
+ * `health_check` fires on `threshold` failed checks (default 3) within the window,
+ * `error_rate` when at least `threshold` percent (default 50) of the checks in the window failed.
+ * `manual` triggers never fire on their own.
+ */
+export function evaluateRollbackTriggers(triggers: RollbackTrigger[], samples: HealthSample[], now: number = Date.now()): string | undefined {
+  for (const trigger of triggers) {
+    const window = trigger.timeWindow ?? DEFAULT_TRIGGER_WINDOW;
+    const recent = samples.filter(sample => now - sample.timestamp.getTime() <= window);
+    const failed = recent.filter(sample => !sample.healthy);
+    const seconds = Math.round(window / 1000);
+
+    if (trigger.type === 'health_check') {
+      const threshold = trigger.threshold ?? 3;
+      if (failed.length >= threshold) {
+        return `${failed.length} failed health checks in the last ${seconds}s (threshold ${threshold})`;
       }
-    };
-  }
-
-  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
-    // Check Docker container status
-    return DeploymentStatus.SUCCESS;
-  }
-
-  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
-    this.logger.info(`Rolling back Docker deployment ${deploymentId} to version ${targetVersion}`);
-    await this.simulateDeployment();
-  }
-
-  async listDeployments(): Promise<Deployment[]> {
-    return [];
-  }
-
-  private async simulateDeployment(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 2000));
-  }
-}
-
-class AWSProvider implements CloudProvider {
-  name = 'aws';
-  type = 'aws' as const;
-
-  constructor(private logger: Logger) {}
-
-  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
-    this.logger.info(`Deploying ${config.project.name} to AWS`);
-    
-    // Simulate AWS deployment
-    await this.simulateDeployment();
-    
-    return {
-      success: true,
-      deploymentId: `aws_${Date.now()}`,
-      url: `https://${config.project.name}.execute-api.us-east-1.amazonaws.com/prod`,
-      endpoint: `https://${config.project.name}.execute-api.us-east-1.amazonaws.com/prod/api`,
-      metadata: {
-        type: 'aws',
-        region: config.target.config.region || 'us-east-1',
-        service: config.target.config.service || 'lambda',
-        apiGatewayId: `api_${Date.now()}`
+    } else if (trigger.type === 'error_rate' && recent.length > 0) {
+      const threshold = trigger.threshold ?? 50;
+      const rate = (failed.length / recent.length) * 100;
+      if (rate >= threshold) {
+        return `health check error rate ${rate.toFixed(0)}% in the last ${seconds}s (threshold ${threshold}%)`;
       }
-    };
-  }
-
-  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
-    // Check AWS deployment status
-    return DeploymentStatus.SUCCESS;
+    }
   }
+  return undefined;
+}
 
-  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
-    this.logger.info(`Rolling back AWS deployment ${deploymentId} to version ${targetVersion}`);
-    await this.simulateDeployment();
+const DEFAULT_CANARY_DWELL_TIME = 60 * 1000;
+const DEFAULT_CANARY_SAMPLE_INTERVAL = 5000;
+const DEFAULT_CANARY_THRESHOLDS: Required<CanaryThresholds> = { errorRate: 5, responseTime: 2000 };
+// Samples the new version's root when no health check is configured
+const DEFAULT_CANARY_CHECK: HealthCheckConfig = { endpoint: '/', interval: 0, timeout: 5000, retries: 0 };
+
+/**
+ * Return why a canary step fails its thresholds, or undefined when it may move on.
+ * The error rate is the share of failed samples; the response time is the average over all samples.
+ */
+export function evaluateCanary(samples: HealthCheckOutcome[], thresholds: CanaryThresholds = {}): string | undefined {
+  if (samples.length === 0) {
+    return 'no samples were taken';
   }
-
-  async listDeployments(): Promise<Deployment[]> {
-    return [];
+  const limits = { ...DEFAULT_CANARY_THRESHOLDS, ...thresholds };
+  const failed = samples.filter(sample => !sample.healthy);
+  const rate = (failed.length / samples.length) * 100;
+  if (rate > limits.errorRate) {
+    return `error rate ${rate.toFixed(0)}% (threshold ${limits.errorRate}%; last error: ${failed[failed.length - 1].error})`;
   }
-
-  private async simulateDeployment(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 3000));
+  const average = samples.reduce((sum, sample) => sum + sample.responseTime, 0) / samples.length;
+  if (average > limits.responseTime) {
+    return `average response time ${Math.round(average)}ms (threshold ${limits.responseTime}ms)`;
   }
+  return undefined;
 }
 
-class SSHProvider implements CloudProvider {
-  name = 'ssh';
-  type = 'ssh' as const;
-
-  constructor(private logger: Logger) {}
-
-  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
-    this.logger.info(`Deploying ${config.project.name} via SSH to ${config.target.config.host}`);
-    
-    // Simulate SSH deployment
-    await this.simulateDeployment();
-    
-    return {
-      success: true,
-      deploymentId: `ssh_${Date.now()}`,
-      url: `http://${config.target.config.host}:3000`,
-      endpoint: `http://${config.target.config.host}:3000/api`,
-      metadata: {
-        type: 'ssh',
-        host: config.target.config.host,
-        user: config.target.config.user || 'root',
-        path: '/var/www/app',
-        port: 3000
-      }
-    };
-  }
-
-  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
-    // Check remote deployment status
-    return DeploymentStatus.SUCCESS;
-  }
-
-  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
-    this.logger.info(`Rolling back SSH deployment ${deploymentId} to version ${targetVersion}`);
-    await this.simulateDeployment();
-  }
+// Health-check the new version every `interval` ms until the dwell time is up (at least once)
+async function sampleCanary(check: HealthCheckConfig, baseUrl: string | undefined, dwellTime: number, interval: number, signal?: AbortSignal): Promise<HealthCheckOutcome[]> {
+  const samples: HealthCheckOutcome[] = [];
+  const end = Date.now() + dwellTime;
+  do {
+    samples.push(await runHealthCheck(check, { baseUrl, signal }));
+    const remaining = end - Date.now();
+    if (remaining <= 0) break;
+    await abortableDelay(Math.min(interval, remaining), signal);
+  } while (Date.now() < end);
+  return samples;
+}
 
-  async listDeployments(): Promise<Deployment[]> {
-    return [];
-  }
+function promotionLineage(source: Deployment): PromotionLineage {
+  return {
+    deploymentId: source.id,
+    targetName: source.target.name,
+    environment: source.target.environment,
+    version: source.version,
+    sourceHash: source.buildResult?.sourceHash,
+    promotedAt: new Date()
+  };
+}
 
-  private async simulateDeployment(): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 2500));
-  }
+export interface PipelineOptions {
+  healthCheck?: boolean;
+  autoRollback?: boolean;
+  progressCallback?: (progress: number, message: string) => void;
+  signal?: AbortSignal;
+  // Deploy even when pre-deployment checks would fail (they are not run at all)
+  skipChecks?: boolean;
+  preflightCallback?: (report: PreflightReport) => void;
+  // Deploy this deployment's build instead of building; use promoteDeployment()
+  promoteFrom?: Deployment;
+  // Deploy this build instead of building, e.g. the one `build --watch` just made
+  build?: BuildResult;
 }
 
-// Deployment Pipeline with Health Checks and Monitoring
+interface RollbackWatch {
+  project: Project;
+  triggers: RollbackTrigger[];
+  samples: HealthSample[];
+  rollingBack: boolean;
+}
 
 export class DeploymentPipeline {
   private deploymentEngine: DeploymentEngine;
   private healthChecks: Map<string, HealthChecker> = new Map();
+  // The monitored deployment of each project's target ('<project id>/<target>'): the one serving it
+  private monitoredTargets: Map<string, string> = new Map();
+  private rollbackWatches: Map<string, RollbackWatch> = new Map();
   private logger: Logger;
+  private preflight: PreflightCheckRegistry;
+  private notifier: DeploymentNotifier;
 
-  constructor(deploymentEngine: DeploymentEngine, logger: Logger) {
+  constructor(deploymentEngine: DeploymentEngine, logger: Logger, preflight?: PreflightCheckRegistry, notifier?: DeploymentNotifier) {
     this.deploymentEngine = deploymentEngine;
     this.logger = logger;
+    this.preflight = preflight || createDefaultPreflightRegistry(new ProjectManagerImpl(logger), logger);
+    this.notifier = notifier || new DeploymentNotifier(logger);
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     if (this.deploymentEngine.on) {
-      this.deploymentEngine.on('deploymentCompleted', async (deployment: any) => {
+      this.deploymentEngine.on('deploymentCompleted', async (deployment: Deployment) => {
         await this.startHealthChecks(deployment);
       });
-
-      this.deploymentEngine.on('deploymentFailed', (deployment: any) => {
-        this.logger.error(`Deployment ${deployment.id} failed, checking for rollback triggers`);
-        this.checkRollbackTriggers(deployment);
+      // The target serves the deployment rolled back to, which is not monitored again
+      this.deploymentEngine.on('rollbackCompleted', (deployment: Deployment) => {
+        this.stopMonitoring(deployment.id);
       });
     }
   }
 
-  async executeDeployment(project: Project, target: DeploymentTarget, options: {
-    healthCheck?: boolean;
-    autoRollback?: boolean;
-    progressCallback?: (progress: number, message: string) => void;
-  } = {}): Promise<Deployment> {
+  async executeDeployment(project: Project, target: DeploymentTarget, options: PipelineOptions = {}): Promise<Deployment> {
     this.logger.info(`Executing deployment pipeline for project '${project.name}'`);
 
     const progress = options.progressCallback || (() => {});
+    // The deployment this pipeline run starts
+    let started: Deployment | undefined;
+    // Failures before the provider was called (build, secrets, approval, deploy window) left the target alone
+    let reachedProvider = false;
+
+    // Forward engine status changes for this project/target into the progress callback
+    const onStatusUpdated = (deployment: Deployment, status: DeploymentStatus, canary?: CanaryStage) => {
+      if (deployment.projectId !== project.id || deployment.target.name !== target.name) return;
+      if (deployment.id === started?.id && status === DeploymentStatus.DEPLOYING) reachedProvider = true;
+      if (canary) {
+        const share = canary.percent === 100 ? 'promoted to all traffic' : `${canary.percent}% of traffic on the new version`;
+        progress(60 + Math.round((15 * canary.step) / canary.steps), `Canary step ${canary.step}/${canary.steps}: ${share}...`);
+        return;
+      }
+      const stage = PIPELINE_STAGES[status];
+      if (stage) progress(stage.progress, stage.message);
+    };
+    const onApprovalRequired = (deployment: Deployment, request: ApprovalRequest) => {
+      if (deployment.projectId !== project.id || deployment.target.name !== target.name) return;
+      progress(PIPELINE_STAGES[DeploymentStatus.PENDING]!.progress, `Waiting for ${request.required} approval(s): ai-builder approve ${deployment.id}`);
+    };
+    const onQueued = (deployment: Deployment, entry: QueuedDeployment) => {
+      if (deployment.projectId !== project.id || deployment.target.name !== target.name) return;
+      const reason = entry.waitingFor === 'target' ? `another deployment to ${target.name}` : 'a free deployment slot';
+      progress(PIPELINE_STAGES[DeploymentStatus.PENDING]!.progress, `Queued at position ${entry.position}, waiting for ${reason}...`);
+    };
+    // Rollback policy of the deployment this pipeline run starts
+    const rollback = project.config.deploy?.rollback;
+    const rollbackEnabled = !!options.autoRollback || !!rollback?.enabled;
+    const onStarted = (deployment: Deployment) => {
+      if (started || deployment.projectId !== project.id || deployment.target.name !== target.name) return;
+      started = deployment;
+      if (rollbackEnabled) {
+        const triggers = rollback?.triggers?.length ? rollback.triggers : DEFAULT_ROLLBACK_TRIGGERS;
+        this.rollbackWatches.set(deployment.id, { project, triggers, samples: [], rollingBack: false });
+      }
+    };
+    this.deploymentEngine.on?.('statusUpdated', onStatusUpdated);
+    this.deploymentEngine.on?.('deploymentQueued', onQueued);
+    this.deploymentEngine.on?.('approvalRequired', onApprovalRequired);
+    this.deploymentEngine.on?.('deploymentStarted', onStarted);
     
     try {
       progress(10, 'Starting deployment...');
       
-      // Pre-deployment checks
-      await this.runPreDeploymentChecks(project, target);
-      progress(20, 'Pre-deployment checks completed');
+      if (options.skipChecks) {
+        this.logger.warn('Skipping pre-deployment checks');
+      } else {
+        progress(15, 'Running pre-deployment checks...');
+        await this.runPreDeploymentChecks(project, target, options.preflightCallback);
+        progress(20, 'Pre-deployment checks completed');
+      }
 
       // Execute deployment
-      const deployment = await this.deploymentEngine.deploy(project, target);
+      const deployment = await this.deploymentEngine.deploy(project, target, {
+        signal: options.signal,
+        canary: run => this.driveCanary(project, target, run),
+        build: options.promoteFrom?.buildResult || options.build,
+        promotedFrom: options.promoteFrom && promotionLineage(options.promoteFrom)
+      });
       progress(80, 'Deployment completed');
 
       // Post-deployment verification
       if (options.healthCheck) {
         progress(90, 'Running health checks...');
-        await this.runPostDeploymentHealthChecks(deployment);
+        const health = await this.runPostDeploymentHealthChecks(deployment);
+        if (health && !health.healthy) {
+          throw new Error(`Health check failed: ${health.error}`);
+        }
       }
 
       progress(100, 'Deployment pipeline completed successfully');
       return deployment;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        progress(0, 'Deployment cancelled');
+        throw error;
+      }
       progress(0, 'Deployment failed');
       
-      if (options.autoRollback) {
+      if (started && rollbackEnabled && !reachedProvider) {
+        this.logger.info(`Not rolling back deployment ${started.id}: it failed before reaching ${target.name}`);
+      } else if (started && rollbackEnabled) {
         this.logger.info('Auto-rollback triggered due to deployment failure');
-        // Implement auto-rollback logic
+        progress(0, 'Rolling back to the last successful deployment...');
+        await this.autoRollback(started, project, `deployment failed: ${(error as Error).message}`);
       }
       
       throw error;
+    } finally {
+      this.deploymentEngine.off?.('statusUpdated', onStatusUpdated);
+      this.deploymentEngine.off?.('deploymentQueued', onQueued);
+      this.deploymentEngine.off?.('approvalRequired', onApprovalRequired);
+      this.deploymentEngine.off?.('deploymentStarted', onStarted);
+      // Only deployments under health monitoring can still trigger a rollback
+      if (started && !this.healthChecks.has(started.id)) {
+        this.rollbackWatches.delete(started.id);
+      }
     }
   }
 
-  private async runPreDeploymentChecks(project: Project, target: DeploymentTarget): Promise<void> {
-    // Validate project configuration
-    // Check target availability
-    // Verify credentials
-    // Check resource limits
-    
+  /**
+   * The deployment whose build `from` would promote: the newest successful one, provided the provider
+   * still reports it running and it passes its health check.
+   */
+  async findPromotableDeployment(project: Project, from: DeploymentTarget, signal?: AbortSignal): Promise<Deployment> {
+    const source = await this.deploymentEngine.getLastSuccessfulDeployment?.(project.id, from.name);
+    if (!source) {
+      throw new Error(`Nothing to promote: '${from.name}' has no successful deployment`);
+    }
+    if (!source.buildResult?.success) {
+      throw new Error(`Deployment ${source.id} to '${from.name}' has no build to promote`);
+    }
+
+    // Only looked at: checking whether a build can be promoted must not rewrite the source deployment's record
+    const status = this.deploymentEngine.getProviderStatus
+      ? await this.deploymentEngine.getProviderStatus(source).catch(error => {
+        throw new Error(`Refusing to promote deployment ${source.id}: its status on '${from.name}' cannot be checked (${(error as Error).message})`);
+      })
+      : source.status;
+    if (status !== DeploymentStatus.SUCCESS) {
+      throw new Error(`Refusing to promote deployment ${source.id}: its status on '${from.name}' is ${status}`);
+    }
+
+    const healthCheck = source.target.config.healthCheck || project.config.deploy?.healthCheck;
+    if (healthCheck) {
+      const outcome = await runHealthCheck(healthCheck, { baseUrl: source.result?.url, signal });
+      if (!outcome.healthy) {
+        throw new Error(`Refusing to promote deployment ${source.id}: it fails its health check on '${from.name}' (${outcome.error})`);
+      }
+    } else {
+      this.logger.warn(`No health check configured for '${from.name}'; promoting deployment ${source.id} on its status alone`);
+    }
+    return source;
+  }
+
+  /**
+   * Deploy a deployment's exact build (same version and artifacts) to another target, recording the lineage.
+   */
+  async promoteDeployment(project: Project, source: Deployment, to: DeploymentTarget, options: Omit<PipelineOptions, 'promoteFrom'> = {}): Promise<Deployment> {
+    if (source.target.name === to.name) {
+      throw new Error(`Cannot promote deployment ${source.id} to its own target '${to.name}'`);
+    }
+    this.logger.info(`Promoting ${project.name} ${source.version} from '${source.target.name}' to '${to.name}'`);
+    return this.executeDeployment({ ...project, version: source.version }, to, { ...options, promoteFrom: source });
+  }
+
+  /**
+   * Feed a health-check result for a deployment; rolls it back when a configured trigger fires.
+   */
+  async recordHealthCheck(deployment: Deployment, sample: HealthSample): Promise<void> {
+    const watch = this.rollbackWatches.get(deployment.id);
+    if (!watch) return;
+
+    // Keep only what the widest trigger window can still see
+    const widest = Math.max(...watch.triggers.map(trigger => trigger.timeWindow ?? DEFAULT_TRIGGER_WINDOW));
+    watch.samples = [...watch.samples, sample].filter(s => sample.timestamp.getTime() - s.timestamp.getTime() <= widest);
+
+    await this.checkRollbackTriggers(deployment);
+  }
+
+  /**
+   * Hold each canary step for its dwell time while sampling the new version, and reject as soon as
+   * a step breaches the thresholds so the engine sends the traffic back.
+   */
+  private async driveCanary(project: Project, target: DeploymentTarget, run: CanaryRun): Promise<void> {
+    const canary = project.config.deploy?.canary || {};
+    const healthCheck = target.config.healthCheck || project.config.deploy?.healthCheck || DEFAULT_CANARY_CHECK;
+    // Every sample counts, so failures are not retried away
+    const check = { ...healthCheck, retries: 0 };
+    const dwellTime = canary.dwellTime ?? DEFAULT_CANARY_DWELL_TIME;
+    const sampleInterval = canary.sampleInterval ?? DEFAULT_CANARY_SAMPLE_INTERVAL;
+
+    for (let i = 0; i < run.steps.length - 1; i++) {
+      const percent = run.steps[i];
+      await run.shiftTraffic(percent);
+
+      const samples = await sampleCanary(check, run.url, dwellTime, sampleInterval, run.signal);
+      const breach = evaluateCanary(samples, canary.thresholds);
+      if (breach) {
+        throw new Error(`Canary step ${i + 1}/${run.steps.length} (${percent}%) breached its thresholds: ${breach}`);
+      }
+      this.logger.info(`Canary step ${i + 1}/${run.steps.length} (${percent}%) passed after ${samples.length} samples`);
+    }
+  }
+
+  private async runPreDeploymentChecks(project: Project, target: DeploymentTarget, onReport?: (report: PreflightReport) => void): Promise<void> {
     this.logger.info('Running pre-deployment checks');
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate checks
+
+    const provider = this.deploymentEngine.listProviders?.().find(candidate => candidate.name === target.type);
+    const report = await this.preflight.run({ project, target, provider });
+    onReport?.(report);
+
+    if (!report.passed) {
+      const failures = report.results
+        .filter(result => result.status === 'fail')
+        .map(result => `${result.check}: ${result.message}`);
+      throw new Error(`Pre-deployment checks failed (${failures.join('; ')})`);
+    }
   }
 
-  private async runPostDeploymentHealthChecks(deployment: Deployment): Promise<void> {
+  // Starts monitoring (once per deployment) and resolves with the first check's outcome
+  private async runPostDeploymentHealthChecks(deployment: Deployment): Promise<HealthCheckOutcome | undefined> {
     if (!deployment.target.config.healthCheck) {
       this.logger.info('No health check configured for deployment');
-      return;
+      return undefined;
     }
 
-    const healthConfig = deployment.target.config.healthCheck;
-    const healthChecker = new HealthChecker(healthConfig, this.logger);
-    
-    this.healthChecks.set(deployment.id, healthChecker);
+    let healthChecker = this.healthChecks.get(deployment.id);
+    if (!healthChecker) {
+      // The deployment this one replaced no longer serves the target
+      const targetKey = `${deployment.projectId}/${deployment.target.name}`;
+      const replaced = this.monitoredTargets.get(targetKey);
+      if (replaced && replaced !== deployment.id) {
+        this.stopMonitoring(replaced);
+        if (!this.rollbackWatches.get(replaced)?.rollingBack) this.rollbackWatches.delete(replaced);
+      }
+      this.monitoredTargets.set(targetKey, deployment.id);
+
+      healthChecker = new HealthChecker(deployment.target.config.healthCheck, this.logger, sample => this.recordHealthCheck(deployment, sample));
+      this.healthChecks.set(deployment.id, healthChecker);
+      this.logger.info(`Health checks started for deployment ${deployment.id}`);
+    }
     
     try {
-      await healthChecker.startMonitoring(deployment);
-      this.logger.info(`Health checks started for deployment ${deployment.id}`);
+      return await healthChecker.startMonitoring(deployment);
     } catch (error) {
       this.logger.error(`Failed to start health checks: ${error}`);
+      return undefined;
     }
   }
 
   private async checkRollbackTriggers(deployment: Deployment): Promise<void> {
-    // Check if rollback should be triggered based on deployment failure
-    // This would implement the rollback logic based on configuration
+    const watch = this.rollbackWatches.get(deployment.id);
+    if (!watch || watch.rollingBack) return;
+
+    const reason = evaluateRollbackTriggers(watch.triggers, watch.samples);
+    if (reason) {
+      await this.autoRollback(deployment, watch.project, reason);
+    }
+  }
+
+  private async autoRollback(deployment: Deployment, project: Project, reason: string): Promise<void> {
+    // A failed health check may already have rolled this deployment back
+    if (deployment.status === DeploymentStatus.ROLLING_BACK || deployment.status === DeploymentStatus.ROLLED_BACK) return;
+
+    const watch = this.rollbackWatches.get(deployment.id);
+    if (watch) watch.rollingBack = true;
+    this.stopMonitoring(deployment.id);
+
+    try {
+      const previous = await this.deploymentEngine.getLastSuccessfulDeployment?.(deployment.projectId, deployment.target.name, deployment.id);
+      if (!previous) {
+        this.logger.warn(`Not rolling back deployment ${deployment.id} (${reason}): no earlier successful deployment to ${deployment.target.name}`);
+        return;
+      }
+
+      const failedVersion = deployment.version;
+      this.logger.warn(`Rolling back deployment ${deployment.id} to ${previous.version}: ${reason}`);
+      await this.deploymentEngine.rollback(deployment, previous.version, { reason, restoreFrom: previous });
+      await this.notifier.notify(project.config.deploy?.notifications, 'rollback', deployment,
+        `Rolled back ${project.name} ${failedVersion} to ${previous.version}: ${reason}`);
+    } catch (error) {
+      this.logger.error(`Automatic rollback of deployment ${deployment.id} failed: ${(error as Error).message}`);
+    } finally {
+      this.rollbackWatches.delete(deployment.id);
+    }
   }
 
   private async startHealthChecks(deployment: Deployment): Promise<void> {
@@ -580,42 +1254,84 @@ export class DeploymentPipeline {
       await this.runPostDeploymentHealthChecks(deployment);
     }
   }
+
+  /**
+   * Stop the health monitoring of every deployment this pipeline started.
+   */
+  stopHealthChecks(): void {
+    this.healthChecks.forEach(checker => checker.stopMonitoring());
+    this.healthChecks.clear();
+    this.monitoredTargets.clear();
+  }
+
+  private stopMonitoring(deploymentId: string): void {
+    this.healthChecks.get(deploymentId)?.stopMonitoring();
+    this.healthChecks.delete(deploymentId);
+    for (const [targetKey, monitored] of this.monitoredTargets) {
+      if (monitored === deploymentId) this.monitoredTargets.delete(targetKey);
+    }
+  }
 }
 
+/**
+ * Runs a target's health check now and then every `interval` ms until stopped.
+ * The timer between checks does not keep the process alive, so the CLI can exit after a deploy.
+ */
 class HealthChecker {
   private monitoring: boolean = false;
-  private interval?: NodeJS.Timeout;
+  private timer?: NodeJS.Timeout;
+  private controller = new AbortController();
+  private firstCheck?: Promise<HealthCheckOutcome>;
 
   constructor(
-    private config: any,
-    private logger: Logger
+    private config: HealthCheckConfig,
+    private logger: Logger,
+    private onResult?: (sample: HealthSample) => Promise<void> | void
   ) {}
 
-  async startMonitoring(deployment: Deployment): Promise<void> {
-    this.monitoring = true;
-    
-    this.interval = setInterval(async () => {
-      if (!this.monitoring) return;
-      
+  // Resolves with the outcome of the first check
+  startMonitoring(deployment: Deployment): Promise<HealthCheckOutcome> {
+    if (!this.firstCheck) {
+      this.monitoring = true;
+      this.firstCheck = this.performHealthCheck(deployment);
+      this.firstCheck.then(() => this.scheduleNext(deployment), () => undefined);
+    }
+    return this.firstCheck;
+  }
+
+  stopMonitoring(): void {
+    this.monitoring = false;
+    this.controller.abort();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private scheduleNext(deployment: Deployment): void {
+    if (!this.monitoring || !(this.config.interval > 0)) return;
+
+    this.timer = setTimeout(async () => {
       try {
         await this.performHealthCheck(deployment);
-      } catch (error) {
-        this.logger.error(`Health check failed: ${error}`);
-        // Handle health check failure (alert, rollback, etc.)
+      } catch {
+        // Stopped while checking
       }
+      this.scheduleNext(deployment);
     }, this.config.interval);
+    this.timer.unref();
   }
 
-  stopMonitoring(): void {
-    this.monitoring = false;
-    if (this.interval) {
-      clearInterval(this.interval);
+  private async performHealthCheck(deployment: Deployment): Promise<HealthCheckOutcome> {
+    const outcome = await runHealthCheck(this.config, { baseUrl: deployment.result?.url, signal: this.controller.signal });
+
+    if (outcome.healthy) {
+      this.logger.debug(`Health check passed for deployment ${deployment.id} (${outcome.responseTime}ms)`);
+    } else {
+      this.logger.warn(`Health check failed for deployment ${deployment.id} after ${outcome.attempts} attempt(s): ${outcome.error}`);
     }
-  }
 
-  private async performHealthCheck(deployment: Deployment): Promise<void> {
-    // Implement actual health check logic
-    // This would make HTTP requests to the deployed service
-    this.logger.debug(`Performing health check for deployment ${deployment.id}`);
+    await this.onResult?.({ healthy: outcome.healthy, timestamp: outcome.timestamp, error: outcome.error });
+    return outcome;
   }
 }
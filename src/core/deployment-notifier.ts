@@ -0,0 +1,75 @@
+import { Deployment, Logger, NotificationChannel, NotificationConfig, NotificationEvent } from '../types';
+import { httpRequest } from '../utils/http-client';
+
+export type NotificationEventType = NotificationEvent['type'];
+
+/**
+ * Sends deployment events to the channels in a project's `deploy.notifications`.
+ * Only events listed there and enabled are sent. Delivery failures are logged, never thrown,
+ * so a broken webhook cannot fail a deployment or a rollback.
+ */
+export class DeploymentNotifier {
+  constructor(private logger: Logger, private timeout: number = 10000) {}
+
+  async notify(config: NotificationConfig | undefined, event: NotificationEventType, deployment: Deployment, message: string): Promise<void> {
+    if (!config || !config.events?.some(e => e.type === event && e.enabled)) {
+      return;
+    }
+
+    await Promise.all((config.channels || []).map(async channel => {
+      try {
+        await this.send(channel, event, deployment, message);
+      } catch (error) {
+        this.logger.warn(`Failed to send ${event} notification to ${channel.type}: ${(error as Error).message}`);
+      }
+    }));
+  }
+
+  private async send(channel: NotificationChannel, event: NotificationEventType, deployment: Deployment, message: string): Promise<void> {
+    const text = `[${deployment.target.name}] ${message}`;
+
+    switch (channel.type) {
+      case 'webhook':
+        await this.post(channel.config.url, {
+          event,
+          message,
+          deployment: {
+            id: deployment.id,
+            projectId: deployment.projectId,
+            target: deployment.target.name,
+            environment: deployment.target.environment,
+            version: deployment.version,
+            status: deployment.status
+          },
+          timestamp: new Date().toISOString()
+        }, channel.config.headers);
+        break;
+      case 'slack':
+        await this.post(channel.config.webhookUrl, { text, channel: channel.config.channel });
+        break;
+      case 'discord':
+        await this.post(channel.config.webhookUrl, { content: text });
+        break;
+      default:
+        // Email needs an SMTP client, which the CLI does not ship
+        this.logger.warn(`Notification channel '${channel.type}' is not supported; skipping ${event} notification`);
+    }
+  }
+
+  private async post(url: string | undefined, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    if (!url) {
+      throw new Error('No URL configured');
+    }
+
+    const response = await httpRequest({
+      method: 'POST',
+      url,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      timeout: this.timeout
+    });
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw new Error(`HTTP ${response.statusCode}`);
+    }
+  }
+}
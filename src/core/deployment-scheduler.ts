@@ -0,0 +1,320 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../types';
+import { createAbortError, onAbort } from '../utils/abort';
+
+export interface DeploymentSchedulerOptions {
+  // Deployments allowed to run at once in this process. Defaults to 10
+  maxConcurrent?: number;
+  // Where per-target lock files live. Defaults to ./.ai-builder/locks
+  lockDir?: string;
+  // How often a deployment waiting on a lock held by another process retries (ms)
+  lockPollInterval?: number;
+  // How long a lock file that cannot be read (empty, or left half-written by a crash) counts as being written (ms). Defaults to 5000
+  unreadableLockGracePeriod?: number;
+}
+
+export interface ScheduleRequest {
+  deploymentId: string;
+  // Deployments with the same key never run at the same time, across processes
+  lockKey: string;
+}
+
+export interface QueuedDeployment {
+  deploymentId: string;
+  lockKey: string;
+  // 1-based
+  position: number;
+  // 'slot': the concurrency limit is reached; 'target': another deployment holds the target lock
+  waitingFor: 'slot' | 'target';
+  enqueuedAt: Date;
+}
+
+export interface TargetLock {
+  lockKey: string;
+  deploymentId: string;
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export interface SchedulerLease {
+  // Time spent in the queue (ms)
+  waited: number;
+  release(): Promise<void>;
+}
+
+interface QueueEntry extends ScheduleRequest {
+  enqueuedAt: Date;
+  waitingFor: 'slot' | 'target';
+  resolve: (lease: SchedulerLease) => void;
+  reject: (error: Error) => void;
+  removeAbortListener: () => void;
+}
+
+/**
+ * Decides when a deployment may start: at most `maxConcurrent` at once, and only one per target.
+ * Target locks are files holding the owner's pid, so separate CLI processes respect them too;
+ * a lock whose process is gone, or that still cannot be read after a grace period, is taken over.
+ *
+ * Emits `queueChanged` with the current queue whenever it changes.
+ */
+export class DeploymentScheduler extends EventEmitter {
+  private maxConcurrent: number;
+  private lockDir: string;
+  private lockPollInterval: number;
+  private unreadableLockGracePeriod: number;
+  private queue: QueueEntry[] = [];
+  private running: Set<string> = new Set();
+  private heldKeys: Set<string> = new Set();
+  private draining = false;
+  private drainAgain = false;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(private logger: Logger, options: DeploymentSchedulerOptions = {}) {
+    super();
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 10);
+    this.lockDir = options.lockDir || path.join(process.cwd(), '.ai-builder', 'locks');
+    this.lockPollInterval = options.lockPollInterval ?? 1000;
+    this.unreadableLockGracePeriod = options.unreadableLockGracePeriod ?? 5000;
+  }
+
+  /**
+   * Wait for a slot and the target lock. Rejects with an AbortError if the signal aborts while queued.
+   */
+  acquire(request: ScheduleRequest, signal?: AbortSignal): Promise<SchedulerLease> {
+    return new Promise((resolve, reject) => {
+      const entry: QueueEntry = {
+        ...request,
+        enqueuedAt: new Date(),
+        waitingFor: 'slot',
+        resolve,
+        reject,
+        removeAbortListener: () => {}
+      };
+
+      this.queue.push(entry);
+      entry.removeAbortListener = onAbort(signal, () => {
+        if (!this.queue.includes(entry)) return;
+        this.queue = this.queue.filter(e => e !== entry);
+        reject(createAbortError(`Deployment '${entry.deploymentId}' was cancelled while queued`));
+        this.emit('queueChanged', this.getQueue());
+      });
+
+      void this.drain();
+    });
+  }
+
+  getQueue(): QueuedDeployment[] {
+    return this.queue.map((entry, index) => ({
+      deploymentId: entry.deploymentId,
+      lockKey: entry.lockKey,
+      position: index + 1,
+      waitingFor: entry.waitingFor,
+      enqueuedAt: entry.enqueuedAt
+    }));
+  }
+
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Target locks currently held by any process.
+   */
+  async listLocks(): Promise<TargetLock[]> {
+    if (!await fs.pathExists(this.lockDir)) return [];
+
+    const locks: TargetLock[] = [];
+    for (const file of await fs.readdir(this.lockDir)) {
+      if (!file.endsWith('.lock')) continue;
+      const lock = await this.readLock(path.join(this.lockDir, file));
+      if (lock) locks.push(lock);
+    }
+    return locks;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainAgain = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainAgain = false;
+        for (const entry of [...this.queue]) {
+          if (this.running.size >= this.maxConcurrent) {
+            entry.waitingFor = 'slot';
+            continue;
+          }
+          if (this.heldKeys.has(entry.lockKey)) {
+            entry.waitingFor = 'target';
+            continue;
+          }
+
+          this.heldKeys.add(entry.lockKey);
+          const locked = await this.tryLock(entry).catch(error => {
+            this.logger.warn(`Failed to lock target '${entry.lockKey}': ${(error as Error).message}`);
+            return false;
+          });
+
+          if (!locked || !this.queue.includes(entry)) {
+            this.heldKeys.delete(entry.lockKey);
+            // Cancelled while the lock was being taken
+            if (locked) await this.unlock(entry).catch(() => {});
+            entry.waitingFor = 'target';
+            continue;
+          }
+
+          this.start(entry);
+        }
+      } while (this.drainAgain);
+    } finally {
+      this.draining = false;
+    }
+
+    this.emit('queueChanged', this.getQueue());
+    this.schedulePoll();
+  }
+
+  private start(entry: QueueEntry): void {
+    this.queue = this.queue.filter(e => e !== entry);
+    this.running.add(entry.deploymentId);
+    entry.removeAbortListener();
+
+    let released = false;
+    entry.resolve({
+      waited: Date.now() - entry.enqueuedAt.getTime(),
+      release: async () => {
+        if (released) return;
+        released = true;
+        this.running.delete(entry.deploymentId);
+        this.heldKeys.delete(entry.lockKey);
+        await this.unlock(entry).catch(error => this.logger.warn(`Failed to release lock '${entry.lockKey}': ${(error as Error).message}`));
+        await this.drain();
+      }
+    });
+  }
+
+  // Locks held by other processes are not released through this scheduler, so poll for them
+  private schedulePoll(): void {
+    if (this.pollTimer || !this.queue.some(entry => entry.waitingFor === 'target' && !this.heldKeys.has(entry.lockKey))) {
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = undefined;
+      void this.drain();
+    }, this.lockPollInterval);
+  }
+
+  private async tryLock(entry: QueueEntry): Promise<boolean> {
+    const file = this.lockFile(entry.lockKey);
+    await fs.ensureDir(this.lockDir);
+
+    const lock: TargetLock = {
+      lockKey: entry.lockKey,
+      deploymentId: entry.deploymentId,
+      pid: process.pid,
+      hostname: os.hostname(),
+      acquiredAt: new Date().toISOString()
+    };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await fs.writeFile(file, JSON.stringify(lock, null, 2), { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = await this.readLock(file);
+      if (holder ? !this.isStale(holder) : !await this.isAbandoned(file)) {
+        return false;
+      }
+
+      if (!await this.removeStaleLock(file, holder)) {
+        return false;
+      }
+      this.logger.warn(holder
+        ? `Removed stale lock on '${entry.lockKey}' held by pid ${holder.pid} (deployment ${holder.deploymentId})`
+        : `Removed unreadable lock on '${entry.lockKey}' left for over ${this.unreadableLockGracePeriod}ms`);
+    }
+    return false;
+  }
+
+  /**
+   * Move the lock file aside in one rename, so of several processes taking over the same stale lock
+   * only one succeeds, then check that what was moved is still the stale holder's lock (or, without a
+   * holder, still an abandoned unreadable file). A lock taken by another process since the stale one was
+   * read is put back.
+   */
+  private async removeStaleLock(file: string, holder: TargetLock | undefined): Promise<boolean> {
+    const aside = `${file}.${process.pid}.${Date.now()}.stale`;
+    try {
+      await fs.rename(file, aside);
+    } catch (error) {
+      // Another process took it over first
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+
+    const moved = await this.readLock(aside);
+    const stale = holder
+      ? moved !== undefined && moved.pid === holder.pid && moved.deploymentId === holder.deploymentId && moved.acquiredAt === holder.acquiredAt
+      : moved === undefined && await this.isAbandoned(aside);
+    if (!stale) {
+      // link fails rather than overwrite if yet another process has locked the target meanwhile
+      await fs.link(aside, file).catch(() => {});
+    }
+    await fs.remove(aside);
+    return stale;
+  }
+
+  private async unlock(entry: ScheduleRequest): Promise<void> {
+    const file = this.lockFile(entry.lockKey);
+    const holder = await this.readLock(file);
+    if (holder && holder.pid === process.pid && holder.deploymentId === entry.deploymentId) {
+      await fs.remove(file);
+    }
+  }
+
+  private async readLock(file: string): Promise<TargetLock | undefined> {
+    try {
+      return await fs.readJson(file);
+    } catch {
+      // Missing, or being written by another process right now
+      return undefined;
+    }
+  }
+
+  private isStale(lock: TargetLock): boolean {
+    return isProcessGone(lock.pid, lock.hostname);
+  }
+
+  // An unreadable lock file that nobody has written to for the grace period will never be completed
+  private async isAbandoned(file: string): Promise<boolean> {
+    const stats = await fs.stat(file).catch(() => undefined);
+    return stats !== undefined && Date.now() - stats.mtimeMs > this.unreadableLockGracePeriod;
+  }
+
+  private lockFile(lockKey: string): string {
+    return path.join(this.lockDir, `${lockKey.replace(/[^a-zA-Z0-9._-]/g, '_')}.lock`);
+  }
+}
+
+/**
+ * Whether a process is known to have exited. Only processes on this machine can be checked.
+ */
+export function isProcessGone(pid: number, hostname: string): boolean {
+  if (hostname !== os.hostname()) return false;
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
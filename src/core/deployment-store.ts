@@ -1,6 +1,6 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { Deployment, DeploymentLog } from '../types';
+import { Deployment, DeploymentApproval, DeploymentLog } from '../types';
 import { Logger } from '../utils/logger';
 
 export interface DeploymentStore {
@@ -9,7 +9,15 @@ export interface DeploymentStore {
   listDeployments(projectId?: string): Promise<Deployment[]>;
   appendLog(id: string, log: DeploymentLog): Promise<void>;
   getDeploymentHistory(id: string): Promise<DeploymentLog[]>;
-
+  // Cancellation requests are kept apart from the deployment document, which the running engine keeps overwriting
+  requestCancellation(id: string): Promise<void>;
+  isCancellationRequested(id: string): Promise<boolean>;
+  clearCancellation(id: string): Promise<void>;
+  // Approvals of deployments to protected environments, also apart from the deployment document
+  addApproval(id: string, approval: DeploymentApproval): Promise<void>;
+  listApprovals(id: string): Promise<DeploymentApproval[]>;
+  // Directory for what the processes sharing this store coordinate through, such as target locks
+  sharedStateDir?(): string;
 }
 
 export class FileDeploymentStore implements DeploymentStore {
@@ -26,8 +34,20 @@ export class FileDeploymentStore implements DeploymentStore {
     return path.join(this.dir, `${id}.json`);
   }
 
+  private cancelFileFor(id: string) {
+    return path.join(this.dir, `${id}.cancel`);
+  }
+
+  private approvalsFileFor(id: string) {
+    return path.join(this.dir, `${id}.approvals`);
+  }
+
   async saveDeployment(d: Deployment): Promise<void> {
-    await fs.writeJson(this.fileFor(d.id), d, { spaces: 2 });
+    // Write then rename, so readers in other processes (e.g. `cancel`) never see a half-written file
+    const file = this.fileFor(d.id);
+    const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeJson(tmp, d, { spaces: 2 });
+    await fs.rename(tmp, file);
   }
 
   async getDeployment(id: string): Promise<Deployment | null> {
@@ -62,6 +82,36 @@ export class FileDeploymentStore implements DeploymentStore {
     if (!d) return [];
     return d.logs || [];
   }
+
+  async requestCancellation(id: string): Promise<void> {
+    await fs.writeFile(this.cancelFileFor(id), new Date().toISOString());
+  }
+
+  async isCancellationRequested(id: string): Promise<boolean> {
+    return fs.pathExists(this.cancelFileFor(id));
+  }
+
+  async clearCancellation(id: string): Promise<void> {
+    await fs.remove(this.cancelFileFor(id));
+  }
+
+  async addApproval(id: string, approval: DeploymentApproval): Promise<void> {
+    const file = this.approvalsFileFor(id);
+    const approvals = [...await this.listApprovals(id), approval];
+    const tmp = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeJson(tmp, approvals, { spaces: 2 });
+    await fs.rename(tmp, file);
+  }
+
+  async listApprovals(id: string): Promise<DeploymentApproval[]> {
+    const approvals: DeploymentApproval[] = await fs.readJson(this.approvalsFileFor(id)).catch(() => []);
+    return approvals.map(approval => ({ ...approval, approvedAt: new Date(approval.approvedAt) }));
+  }
+
+  // Next to the deployments directory
+  sharedStateDir(): string {
+    return path.dirname(this.dir);
+  }
 }
 
 export class SQLiteDeploymentStore implements DeploymentStore {
@@ -104,11 +154,26 @@ export class SQLiteDeploymentStore implements DeploymentStore {
         message TEXT
       );
     `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deployment_cancellations (
+        deploymentId TEXT PRIMARY KEY,
+        requestedAt INTEGER
+      );
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deployment_approvals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        deploymentId TEXT,
+        approver TEXT,
+        approvedAt INTEGER,
+        comment TEXT
+      );
+    `);
   }
 
   async saveDeployment(d: Deployment): Promise<void> {
     const stmt = this.db.prepare('INSERT OR REPLACE INTO deployments (id, projectId, createdAt, data) VALUES (?, ?, ?, ?)');
-    stmt.run(d.id, d.projectId || null, d.createdAt ? d.createdAt.getTime() : Date.now(), JSON.stringify(d));
+    stmt.run(d.id, d.projectId || null, d.createdAt ? new Date(d.createdAt).getTime() : Date.now(), JSON.stringify(d));
   }
 
   async getDeployment(id: string): Promise<Deployment | null> {
@@ -131,6 +196,14 @@ export class SQLiteDeploymentStore implements DeploymentStore {
   async appendLog(id: string, log: DeploymentLog): Promise<void> {
     const stmt = this.db.prepare('INSERT INTO deployment_logs (deploymentId, ts, level, message) VALUES (?, ?, ?, ?)');
     stmt.run(id, log.timestamp ? new Date(log.timestamp).getTime() : Date.now(), log.level || 'info', log.message || '');
+
+    // Keep the stored deployment document in sync so readers of getDeployment() see the log too
+    const d = await this.getDeployment(id);
+    if (d && !(d.logs || []).some(l => l.id && l.id === log.id)) {
+      d.logs = d.logs || [];
+      d.logs.push(log);
+      await this.saveDeployment(d);
+    }
   }
 
   async getDeploymentHistory(id: string): Promise<DeploymentLog[]> {
@@ -138,6 +211,31 @@ export class SQLiteDeploymentStore implements DeploymentStore {
     const rows = stmt.all(id);
     return rows.map((r: any) => ({ id: '', level: r.level, message: r.message, timestamp: new Date(r.ts), source: '' } as DeploymentLog));
   }
-}
- 
+
+  async requestCancellation(id: string): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO deployment_cancellations (deploymentId, requestedAt) VALUES (?, ?)').run(id, Date.now());
+  }
+
+  async isCancellationRequested(id: string): Promise<boolean> {
+    return !!this.db.prepare('SELECT 1 FROM deployment_cancellations WHERE deploymentId = ?').get(id);
+  }
+
+  async clearCancellation(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM deployment_cancellations WHERE deploymentId = ?').run(id);
+  }
+
+  async addApproval(id: string, approval: DeploymentApproval): Promise<void> {
+    this.db.prepare('INSERT INTO deployment_approvals (deploymentId, approver, approvedAt, comment) VALUES (?, ?, ?, ?)')
+      .run(id, approval.approver, new Date(approval.approvedAt).getTime(), approval.comment || null);
+  }
+
+  async listApprovals(id: string): Promise<DeploymentApproval[]> {
+    const rows = this.db.prepare('SELECT approver, approvedAt, comment FROM deployment_approvals WHERE deploymentId = ? ORDER BY id ASC').all(id);
+    return rows.map((r: any) => ({ approver: r.approver, approvedAt: new Date(r.approvedAt), comment: r.comment || undefined }));
+  }
+
+  // Next to the database file
+  sharedStateDir(): string {
+    return path.dirname(this.dbPath);
+  }
 }
@@ -0,0 +1,207 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BuildConfig, PackageManagerName, TemplateDependency } from '../types';
+
+export interface PackageManagerCommands {
+  // Lockfiles, most specific first; the first one found selects the package manager
+  lockfiles: string[];
+  // Say which package manager a project uses when it has no lockfile yet
+  manifests: string[];
+  // JavaScript package managers also install `npm` template dependencies
+  node: boolean;
+  // Install exactly what the lockfile says, failing when it is out of date
+  frozenInstall: string;
+  // Followed by the packages to add
+  add: string;
+  // How a package is pinned to a version on the command line
+  pin: (name: string, version: string) => string;
+  // The package a command-line argument names, without its version
+  nameOf: (argument: string) => string;
+  // The packages the manifest a frozen install follows lists
+  declared: (projectPath: string) => Promise<Set<string>>;
+}
+
+const atVersion = (name: string, version: string) => `${name}@${version}`;
+// `@scope/name@^1` names `@scope/name`
+const beforeVersion = (argument: string) => argument.replace(/(.)@.*$/, '$1');
+// pip normalizes `Foo_Bar` and `foo-bar` to the same project
+const pythonName = (argument: string) => argument.split(/[\s<>=!~;[@]/)[0].toLowerCase().replace(/[-_.]+/g, '-');
+
+const packageJsonDependencies = async (projectPath: string) => {
+  const pkg = await fs.readJson(path.join(projectPath, 'package.json')).catch(() => ({}));
+  const sections = [pkg.dependencies, pkg.devDependencies, pkg.optionalDependencies, pkg.peerDependencies];
+  return new Set(sections.flatMap(section => Object.keys(section || {})));
+};
+const poetryDependencies = async (projectPath: string) => {
+  const content = await fs.readFile(path.join(projectPath, 'pyproject.toml'), 'utf-8').catch(() => '');
+  const names = new Set<string>();
+  let table = '';
+  // Inside the PEP 621 `dependencies = [...]` array of [project], which may span several lines
+  let inArray = false;
+  for (const line of content.split(/\r?\n/)) {
+    const header = !inArray && line.match(/^\s*\[([^\]]+)\]/);
+    if (header) {
+      table = header[1].trim();
+      continue;
+    }
+    if (table === 'project' && (inArray || /^\s*dependencies\s*=/.test(line))) {
+      for (const [, requirement] of line.matchAll(/"([^"]+)"/g)) names.add(pythonName(requirement));
+      inArray = !line.includes(']');
+    } else if (/^tool\.poetry\.(dependencies|dev-dependencies|group\.[^.]+\.dependencies)$/.test(table)) {
+      const key = line.match(/^\s*"?([A-Za-z0-9_.-]+)"?\s*=/);
+      if (key) names.add(pythonName(key[1]));
+    }
+  }
+  return names;
+};
+const requirementsDependencies = async (projectPath: string) => {
+  const content = await fs.readFile(path.join(projectPath, 'requirements.txt'), 'utf-8').catch(() => '');
+  return new Set(content.split(/\r?\n/).map(line => line.replace(/#.*$/, '').trim()).filter(line => line && !line.startsWith('-')).map(pythonName));
+};
+const goModules = async (projectPath: string) => {
+  const content = await fs.readFile(path.join(projectPath, 'go.mod'), 'utf-8').catch(() => '');
+  // `require example.com/a v1.0.0` and the lines of a `require ( ... )` block
+  return new Set(Array.from(content.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v\S+/gm), match => match[1]));
+};
+
+// In the order lockfiles are looked for
+export const PACKAGE_MANAGERS: Record<PackageManagerName, PackageManagerCommands> = {
+  pnpm: { lockfiles: ['pnpm-lock.yaml'], manifests: [], node: true, frozenInstall: 'pnpm install --frozen-lockfile', add: 'pnpm add', pin: atVersion, nameOf: beforeVersion, declared: packageJsonDependencies },
+  // Yarn 2+ renamed the flag to --immutable (see frozenInstallCommand)
+  yarn: { lockfiles: ['yarn.lock'], manifests: [], node: true, frozenInstall: 'yarn install --frozen-lockfile', add: 'yarn add', pin: atVersion, nameOf: beforeVersion, declared: packageJsonDependencies },
+  bun: { lockfiles: ['bun.lockb', 'bun.lock'], manifests: [], node: true, frozenInstall: 'bun install --frozen-lockfile', add: 'bun add', pin: atVersion, nameOf: beforeVersion, declared: packageJsonDependencies },
+  npm: { lockfiles: ['package-lock.json', 'npm-shrinkwrap.json'], manifests: ['package.json'], node: true, frozenInstall: 'npm ci', add: 'npm install', pin: atVersion, nameOf: beforeVersion, declared: packageJsonDependencies },
+  poetry: { lockfiles: ['poetry.lock'], manifests: [], node: false, frozenInstall: 'poetry install --no-interaction --no-root', add: 'poetry add', pin: atVersion, nameOf: pythonName, declared: poetryDependencies },
+  // Pinned requirements are as close to a lockfile as pip gets
+  pip: { lockfiles: ['requirements.txt'], manifests: ['pyproject.toml'], node: false, frozenInstall: 'pip install -r requirements.txt', add: 'pip install', pin: (name, version) => `${name}==${version}`, nameOf: pythonName, declared: requirementsDependencies },
+  go: { lockfiles: ['go.sum'], manifests: ['go.mod'], node: false, frozenInstall: 'go mod download', add: 'go get', pin: atVersion, nameOf: beforeVersion, declared: goModules }
+};
+
+// A change to one of these means the dependencies have to be installed again
+export const DEPENDENCY_FILES = Object.values(PACKAGE_MANAGERS).flatMap(manager => [...manager.manifests, ...manager.lockfiles]);
+
+export interface InstallPlan {
+  packageManager: PackageManagerName;
+  // The lockfile a frozen install follows
+  lockfile?: string;
+  // Shell commands, run in the project directory one after another
+  commands: string[];
+  // Checked for on the PATH, never installed
+  system: TemplateDependency[];
+  // Pulled unless the image is already there
+  docker: TemplateDependency[];
+}
+
+/**
+ * The package manager of a project: build.packageManager, else the one whose lockfile is there, else
+ * the `packageManager` field of package.json, else the one whose manifest is there. Defaults to npm.
+ */
+export async function detectPackageManager(projectPath: string, config?: Pick<BuildConfig, 'packageManager'>): Promise<PackageManagerName> {
+  if (config?.packageManager) {
+    if (!PACKAGE_MANAGERS[config.packageManager]) {
+      throw new Error(`Unknown package manager '${config.packageManager}' (supported: ${Object.keys(PACKAGE_MANAGERS).join(', ')})`);
+    }
+    return config.packageManager;
+  }
+
+  const names = Object.keys(PACKAGE_MANAGERS) as PackageManagerName[];
+  for (const name of names) {
+    if (await findFile(projectPath, PACKAGE_MANAGERS[name].lockfiles)) return name;
+  }
+
+  // Corepack's "packageManager": "pnpm@8.15.0"
+  const pkg = await fs.readJson(path.join(projectPath, 'package.json')).catch(() => undefined);
+  const declared = typeof pkg?.packageManager === 'string' ? pkg.packageManager.split('@')[0] : undefined;
+  if (declared && PACKAGE_MANAGERS[declared as PackageManagerName]?.node) {
+    return declared as PackageManagerName;
+  }
+
+  if (await fs.readFile(path.join(projectPath, 'pyproject.toml'), 'utf-8').then(content => content.includes('[tool.poetry]'), () => false)) {
+    return 'poetry';
+  }
+  for (const name of names) {
+    if (await findFile(projectPath, PACKAGE_MANAGERS[name].manifests)) return name;
+  }
+  return 'npm';
+}
+
+/**
+ * How to install a build's dependencies. With a lockfile (and build.frozenLockfile not false) the
+ * lockfile is installed as it is and only the packages its manifest does not list are added after it;
+ * otherwise the packages are added with the project's package manager. `npm` template dependencies of
+ * a project that is not a JavaScript one are added with npm.
+ */
+export async function planInstall(projectPath: string, config: BuildConfig): Promise<InstallPlan> {
+  const packageManager = await detectPackageManager(projectPath, config);
+  const commands = PACKAGE_MANAGERS[packageManager];
+  const dependencies = config.dependencies || [];
+  const typed = dependencies.filter((dependency): dependency is TemplateDependency => typeof dependency !== 'string');
+
+  const packages = dependencies.filter((dependency): dependency is string => typeof dependency === 'string');
+  const npmPackages = typed.filter(dependency => dependency.type === 'npm').map(dependency => pinned(dependency, commands.node ? commands : PACKAGE_MANAGERS.npm));
+  if (commands.node) packages.push(...npmPackages);
+
+  const lockfile = config.frozenLockfile !== false ? await findFile(projectPath, commands.lockfiles) : undefined;
+  const plan: InstallPlan = {
+    packageManager,
+    lockfile,
+    commands: [],
+    system: typed.filter(dependency => dependency.type === 'system'),
+    docker: typed.filter(dependency => dependency.type === 'docker')
+  };
+  let missing = packages;
+  if (lockfile) {
+    plan.commands.push(await frozenInstallCommand(projectPath, packageManager, lockfile));
+    const declared = await commands.declared(projectPath);
+    missing = packages.filter(argument => !declared.has(commands.nameOf(argument)));
+  }
+  if (missing.length > 0) {
+    plan.commands.push(`${commands.add} ${missing.map(quoteArgument).join(' ')}`);
+  }
+  if (!commands.node && npmPackages.length > 0) {
+    plan.commands.push(`${PACKAGE_MANAGERS.npm.add} ${npmPackages.map(quoteArgument).join(' ')}`);
+  }
+  return plan;
+}
+
+/**
+ * Yarn 2+ (whose lockfiles carry `__metadata`, or which a `.yarnrc.yml` or the `packageManager` field
+ * selects) rejects --frozen-lockfile in favour of --immutable.
+ */
+async function frozenInstallCommand(projectPath: string, packageManager: PackageManagerName, lockfile: string): Promise<string> {
+  if (packageManager !== 'yarn') return PACKAGE_MANAGERS[packageManager].frozenInstall;
+
+  const pkg = await fs.readJson(path.join(projectPath, 'package.json')).catch(() => undefined);
+  const declared = typeof pkg?.packageManager === 'string' ? pkg.packageManager.match(/^yarn@(\d+)/) : undefined;
+  const berry = declared ? Number(declared[1]) >= 2
+    : await fs.pathExists(path.join(projectPath, '.yarnrc.yml'))
+      || await fs.readFile(path.join(projectPath, lockfile), 'utf-8').then(content => content.includes('__metadata:'), () => false);
+  return berry ? 'yarn install --immutable' : PACKAGE_MANAGERS.yarn.frozenInstall;
+}
+
+/**
+ * A docker image reference, or a package pinned to the dependency's version ('*', 'latest' or none
+ * leave it unpinned).
+ */
+export function pinned(dependency: TemplateDependency, commands: PackageManagerCommands = PACKAGE_MANAGERS.npm): string {
+  const version = dependency.version && dependency.version !== '*' ? dependency.version : undefined;
+  if (dependency.type === 'docker') {
+    return dependency.name.includes(':') || !version ? dependency.name : `${dependency.name}:${version}`;
+  }
+  return version && version !== 'latest' ? commands.pin(dependency.name, version) : dependency.name;
+}
+
+/**
+ * Quote an argument for the shell builds run in, unless it only has characters that are safe as they are.
+ */
+export function quoteArgument(argument: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(argument)) return argument;
+  return process.platform === 'win32' ? `"${argument.replace(/"/g, '""')}"` : `'${argument.replace(/'/g, `'\\''`)}'`;
+}
+
+async function findFile(directory: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    if (await fs.pathExists(path.join(directory, name))) return name;
+  }
+  return undefined;
+}
@@ -0,0 +1,215 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CloudProvider, DeploymentTarget, Logger, Project, ProjectManager } from '../types';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightContext {
+  project: Project;
+  target: DeploymentTarget;
+  // The provider serving target.type, when one is registered
+  provider?: CloudProvider;
+}
+
+export interface PreflightOutcome {
+  status: PreflightStatus;
+  message: string;
+}
+
+export interface PreflightCheck {
+  name: string;
+  description: string;
+  // Checks that do not apply (e.g. no reachability hook on the provider) are left out of the report
+  appliesTo?(context: PreflightContext): boolean;
+  run(context: PreflightContext): Promise<PreflightOutcome>;
+}
+
+export interface PreflightResult extends PreflightOutcome {
+  check: string;
+  duration: number;
+}
+
+export interface PreflightReport {
+  results: PreflightResult[];
+  // False when any check failed; warnings do not block a deployment
+  passed: boolean;
+}
+
+export interface PreflightRegistryOptions {
+  // Per-check time limit (ms); a check that takes longer fails. Defaults to 15000
+  timeout?: number;
+}
+
+export interface DefaultPreflightOptions {
+  // Free disk space below these limits warns / fails (MB). Defaults to 1024 / 100
+  diskWarnMb?: number;
+  diskFailMb?: number;
+  // Share of a token lifetime after which the credential check warns. Defaults to 75
+  credentialWarnPercent?: number;
+}
+
+/**
+ * Pre-deployment checks, run by DeploymentPipeline before anything is built.
+ * Checks run one after another; one that throws or times out counts as failed.
+ */
+export class PreflightCheckRegistry {
+  private checks: Map<string, PreflightCheck> = new Map();
+  private timeout: number;
+
+  constructor(private logger: Logger, options: PreflightRegistryOptions = {}) {
+    this.timeout = options.timeout ?? 15000;
+  }
+
+  register(check: PreflightCheck, options: { replace?: boolean } = {}): void {
+    if (this.checks.has(check.name) && !options.replace) {
+      throw new Error(`Preflight check '${check.name}' is already registered`);
+    }
+    this.checks.set(check.name, check);
+  }
+
+  unregister(name: string): boolean {
+    return this.checks.delete(name);
+  }
+
+  list(): PreflightCheck[] {
+    return Array.from(this.checks.values());
+  }
+
+  async run(context: PreflightContext): Promise<PreflightReport> {
+    const results: PreflightResult[] = [];
+
+    for (const check of this.checks.values()) {
+      if (check.appliesTo && !check.appliesTo(context)) continue;
+
+      const started = Date.now();
+      let outcome: PreflightOutcome;
+      try {
+        outcome = await this.withTimeout(check, context);
+      } catch (error) {
+        outcome = { status: 'fail', message: (error as Error).message };
+      }
+
+      results.push({ check: check.name, ...outcome, duration: Date.now() - started });
+      this.logger.debug(`Preflight check '${check.name}': ${outcome.status} - ${outcome.message}`);
+    }
+
+    return { results, passed: results.every(result => result.status !== 'fail') };
+  }
+
+  private withTimeout(check: PreflightCheck, context: PreflightContext): Promise<PreflightOutcome> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${Math.round(this.timeout / 1000)}s`)), this.timeout);
+    });
+    return Promise.race([check.run(context), timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+/**
+ * The built-in checks: project validation, provider reachability, credential expiry and disk space.
+ */
+export function createDefaultPreflightChecks(projectManager: ProjectManager, options: DefaultPreflightOptions = {}): PreflightCheck[] {
+  const diskWarnMb = options.diskWarnMb ?? 1024;
+  const diskFailMb = options.diskFailMb ?? 100;
+  const credentialWarnPercent = options.credentialWarnPercent ?? 75;
+
+  return [
+    {
+      name: 'project',
+      description: 'Project configuration is valid',
+      run: async ({ project }) => {
+        const validation = await projectManager.validateProject(project);
+        if (validation.errors.length > 0) {
+          return { status: 'fail', message: validation.errors.map(error => error.message).join('; ') };
+        }
+        if (validation.warnings.length > 0) {
+          return { status: 'warn', message: validation.warnings.map(warning => warning.message).join('; ') };
+        }
+        return { status: 'pass', message: 'Configuration is valid' };
+      }
+    },
+    {
+      name: 'provider',
+      description: 'A provider is registered for the target type',
+      run: async ({ target, provider }) => provider
+        ? { status: 'pass', message: `Using the ${provider.name} provider` }
+        : { status: 'fail', message: `No provider registered for target type '${target.type}'` }
+    },
+    {
+      name: 'reachability',
+      description: 'The target can be reached',
+      appliesTo: ({ provider }) => !!provider?.checkReachability,
+      run: async ({ project, target, provider }) => {
+        await provider!.checkReachability!(target, project);
+        return { status: 'pass', message: `${target.name} is reachable` };
+      }
+    },
+    {
+      name: 'credentials',
+      description: 'Provider credentials are present and not about to expire',
+      appliesTo: ({ provider }) => !!provider?.getCredentialStatus,
+      run: async ({ provider }) => {
+        const credentials = provider!.getCredentialStatus!();
+        if (!credentials.present) {
+          return { status: 'fail', message: `No credentials: set ${credentials.source}` };
+        }
+        if (credentials.expiryKnown === false) {
+          return { status: 'warn', message: `${credentials.source} is set, expiry unknown` };
+        }
+        if (credentials.percentUsed >= 100) {
+          return { status: 'fail', message: `${credentials.source} has expired` };
+        }
+        if (credentials.percentUsed >= credentialWarnPercent) {
+          return { status: 'warn', message: `${credentials.source} is ${credentials.percentUsed.toFixed(0)}% through its lifetime` };
+        }
+        return { status: 'pass', message: `${credentials.source} is valid` };
+      }
+    },
+    {
+      name: 'disk-space',
+      description: 'Enough free disk space for the build',
+      run: async ({ project }) => {
+        const freeMb = Math.floor(await freeDiskSpace(project.path) / (1024 * 1024));
+        if (freeMb < diskFailMb) {
+          return { status: 'fail', message: `Only ${freeMb} MB free (${diskFailMb} MB required)` };
+        }
+        if (freeMb < diskWarnMb) {
+          return { status: 'warn', message: `Only ${freeMb} MB free` };
+        }
+        return { status: 'pass', message: `${freeMb} MB free` };
+      }
+    }
+  ];
+}
+
+export function createDefaultPreflightRegistry(projectManager: ProjectManager, logger: Logger, options: DefaultPreflightOptions & PreflightRegistryOptions = {}): PreflightCheckRegistry {
+  const registry = new PreflightCheckRegistry(logger, options);
+  createDefaultPreflightChecks(projectManager, options).forEach(check => registry.register(check));
+  return registry;
+}
+
+/**
+ * Bytes available to this user on the filesystem holding `dir` (or its nearest existing parent).
+ */
+async function freeDiskSpace(dir: string): Promise<number> {
+  let existing = path.resolve(dir);
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+
+  // fs.statfs arrived in Node 18.15; older versions ask df
+  if (typeof fs.promises.statfs === 'function') {
+    const stats = await fs.promises.statfs(existing);
+    return stats.bavail * stats.bsize;
+  }
+
+  const stdout = await new Promise<string>((resolve, reject) => {
+    execFile('df', ['-Pk', existing], (error, out) => error ? reject(error) : resolve(out));
+  });
+  const available = Number(stdout.trim().split('\n').pop()!.split(/\s+/)[3]);
+  if (!Number.isFinite(available)) {
+    throw new Error(`Could not read free space from df for '${existing}'`);
+  }
+  return available * 1024;
+}
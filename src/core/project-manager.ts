@@ -1,18 +1,77 @@
+import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import Handlebars from 'handlebars';
-import { Project, ProjectManager, BuildResult, ValidationResult, Template, Logger, ValidationError, ValidationWarning } from '../types';
+import { Project, ProjectManager, BuildConfig, BuildResult, BuildOptions, BuildOutputLine, BuildLimits, BuildStep, BuildStepResult, ValidationResult, Template, Logger, ValidationError, ValidationWarning } from '../types';
+import { hashSourceTree } from '../utils/source-hash';
+import { createAbortError, isAbortError, onAbort, throwIfAborted } from '../utils/abort';
+import { killProcessGroup, spawnProcessGroup } from '../utils/process-group';
+import { redactSecrets } from '../utils/redact';
+import { BuildCache } from './build-cache';
+import { pinned, planInstall, quoteArgument } from './package-managers';
+
+export const BUILD_TIMEOUT = 'BUILD_TIMEOUT';
+const DEFAULT_BUILD_TIMEOUT = 5 * 60 * 1000;
+// What builds see of the CLI's environment without a passEnv entry
+const DEFAULT_PASS_ENV = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'TZ', 'LANG', 'LC_*', 'TMPDIR', 'TMP', 'TEMP', 'CI',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'http_proxy', 'https_proxy', 'no_proxy',
+  'SYSTEMROOT', 'COMSPEC', 'PATHEXT', 'WINDIR', 'APPDATA', 'LOCALAPPDATA', 'USERPROFILE', 'PROGRAMDATA', 'PROGRAMFILES'
+];
+
+export interface ProjectManagerOptions {
+  // Defaults to a cache in the `cache` directory next to the projects
+  cache?: BuildCache;
+  // Build timeout (ms) of projects that set none; 0 disables it. Defaults to 5 minutes
+  timeout?: number;
+  // Resource limits of projects that set none
+  limits?: BuildLimits;
+  // Passed to every build on top of the project's passEnv
+  passEnv?: string[];
+}
+
+interface BuildProcessOptions {
+  // The project directory; builds never change the CLI's own working directory, so several can run at once
+  cwd: string;
+  env: Record<string, string>;
+  limits: BuildLimits;
+  signal: AbortSignal;
+  onOutput?: (line: BuildOutputLine) => void;
+  // Labels the output lines of a build.steps step
+  step?: string;
+}
+
+interface StepRun {
+  result: BuildStepResult;
+  stdout: string;
+}
+
+interface CapturedOutput {
+  stdout: string;
+  stderr: string;
+  // Pass on the last line of each stream when it has no line break
+  flush(): void;
+}
 
-export class ProjectManagerImpl implements ProjectManager {
+/**
+ * Emits 'buildOutput' (BuildOutputLine) for every line the build's processes print, as they print it.
+ */
+export class ProjectManagerImpl extends EventEmitter implements ProjectManager {
   private projectsDir: string;
   private templatesDir: string;
   private logger: Logger;
+  private cache: BuildCache;
+  private options: ProjectManagerOptions;
 
-  constructor(logger: Logger, dataDir?: string) {
+  constructor(logger: Logger, dataDir?: string, options: ProjectManagerOptions = {}) {
+    super();
     this.logger = logger;
+    this.options = options;
     this.projectsDir = path.join(dataDir || path.join(os.homedir(), '.ai-builder'), 'projects');
+    this.cache = options.cache || new BuildCache(logger, { dir: path.join(dataDir || path.join(os.homedir(), '.ai-builder'), 'cache') });
     // If a dataDir is provided (e.g. during tests), load templates from there
     this.templatesDir = dataDir ? path.join(dataDir, 'templates') : path.join(__dirname, '../../templates');
     
@@ -50,7 +109,8 @@ export class ProjectManagerImpl implements ProjectManager {
       template: templateName,
       version: '1.0.0',
       config: {
-        build: template.config.build,
+        // The template's own dependencies are installed (or checked for) with the build's
+        build: { ...template.config.build, dependencies: [...(template.config.build.dependencies || []), ...(template.dependencies || [])] },
         deploy: template.config.deploy,
         environment: { variables: {}, secrets: {} }
       } as any,
@@ -206,42 +266,76 @@ export class ProjectManagerImpl implements ProjectManager {
     await fs.writeJson(metadataPath, project, { spaces: 2 });
   }
 
-  async buildProject(project: Project): Promise<BuildResult> {
+  async buildProject(project: Project, options: BuildOptions = {}): Promise<BuildResult> {
     this.logger.info(`Building project '${project.name}'`);
     
     const startTime = Date.now();
     const buildConfig = project.config.build;
+    // A missing project directory surfaces as a build failure below
+    const sourceHash = await hashSourceTree(project).catch(() => undefined);
+    // A single step is not the whole build, so it is neither restored nor cached
+    const cacheKey = sourceHash && !options.step ? this.cache.computeKey(project, sourceHash, this.passedEnvironment(project)) : undefined;
+
+    if (cacheKey && options.cache !== false) {
+      const cached = await this.cache.restore(project, cacheKey).catch(error => {
+        this.logger.warn(`Build cache lookup failed: ${(error as Error).message}`);
+        return undefined;
+      });
+      if (cached) {
+        this.logger.info(`Restored build ${cacheKey.slice(0, 12)} from the cache`);
+        return { ...cached, duration: Date.now() - startTime, sourceHash, cached: true };
+      }
+    }
     
-    let originalCwd = process.cwd();
+    // Cancelling and running out of time both stop the build's processes
+    const timeout = buildConfig.timeout ?? this.options.timeout ?? DEFAULT_BUILD_TIMEOUT;
+    const controller = new AbortController();
+    const removeAbortListener = onAbort(options.signal, () => controller.abort());
+    let timedOut = false;
+    const timer = timeout > 0 ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout) : undefined;
+    const processOptions: BuildProcessOptions = {
+      cwd: project.path,
+      env: this.buildEnvironment(project),
+      limits: { ...this.options.limits, ...buildConfig.limits },
+      signal: controller.signal,
+      onOutput: options.onOutput
+    };
+
     try {
-      // Change to project directory
-      originalCwd = process.cwd();
-      process.chdir(project.path);
+      if (!await fs.pathExists(project.path)) {
+        throw new Error(`Project directory '${project.path}' does not exist`);
+      }
+      const steps = resolveBuildSteps(buildConfig, options.step);
+      throwIfAborted(options.signal, 'Build cancelled');
 
       // Install dependencies
-      if (buildConfig.dependencies && buildConfig.dependencies.length > 0) {
-        this.logger.info('Installing dependencies');
-        await this.installDependencies(buildConfig.dependencies);
+      if (!options.skipInstall && buildConfig.dependencies && buildConfig.dependencies.length > 0) {
+        await this.installDependencies(project, processOptions);
       }
 
-      // Run build command
-      this.logger.info(`Running build command: ${buildConfig.command}`);
-      const result = await this.executeCommand(buildConfig.command, buildConfig.environment);
+      const result = await this.runSteps(project, steps, processOptions, !!buildConfig.steps);
 
       // Collect artifacts
-      const artifacts = await this.collectArtifacts(buildConfig.outputDir);
+      const artifacts = await this.collectArtifacts(path.resolve(project.path, buildConfig.outputDir || 'dist'));
 
       const buildResult: BuildResult = {
         success: true,
         output: result.stdout,
         artifacts,
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        sourceHash,
+        steps: result.steps
       };
 
-      // Restore original directory
-      process.chdir(originalCwd);
-
       this.logger.info(`Build completed successfully in ${buildResult.duration}ms`);
+      if (cacheKey) {
+        await this.cache.store(project, cacheKey, buildResult).catch(error => {
+          this.logger.warn(`Could not cache build ${cacheKey.slice(0, 12)}: ${(error as Error).message}`);
+        });
+      }
       return buildResult;
 
     } catch (error) {
@@ -250,88 +344,240 @@ export class ProjectManagerImpl implements ProjectManager {
         output: (error as any).stdout || '',
         artifacts: [],
         duration: Date.now() - startTime,
-        error: (error as Error).message
+        error: (error as Error).message,
+        sourceHash,
+        steps: (error as any).steps
       };
-
-      // Restore original directory
-      try { process.chdir(originalCwd); } catch {}
+      if (timedOut) {
+        buildResult.error = `${BUILD_TIMEOUT}: the build did not finish within ${formatDuration(timeout)} and was stopped`;
+        buildResult.errorCode = BUILD_TIMEOUT;
+      }
 
       this.logger.error(`Build failed: ${buildResult.error}`);
       return buildResult;
+    } finally {
+      if (timer) clearTimeout(timer);
+      removeAbortListener();
     }
   }
 
-  private async installDependencies(dependencies: string[]): Promise<string> {
-    const { spawn } = require('child_process');
-    
-    return new Promise((resolve, reject) => {
-      const npm = spawn('npm', ['install', ...dependencies], {
-        stdio: 'pipe',
-        shell: true
-      });
+  /**
+   * The CLI's environment stripped to the variables builds are allowed to see, plus build.environment.
+   */
+  private buildEnvironment(project: Project): Record<string, string> {
+    return { ...pickEnvironment(DEFAULT_PASS_ENV), ...this.passedEnvironment(project), ...project.config.build.environment };
+  }
 
-      let stdout = '';
-      let stderr = '';
+  /**
+   * The variables of the CLI's environment that passEnv lets through. Unlike the default ones
+   * (PATH, HOME, ...) these are meant to change the build, so they are part of the cache key.
+   */
+  private passedEnvironment(project: Project): Record<string, string> {
+    return pickEnvironment([...(this.options.passEnv || []), ...(project.config.build.passEnv || [])]);
+  }
 
-      npm.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
+  /**
+   * Check that the system dependencies are there, pull the missing Docker images, then install the
+   * packages with the project's package manager (see planInstall).
+   */
+  private async installDependencies(project: Project, options: BuildProcessOptions): Promise<void> {
+    const plan = await planInstall(project.path, project.config.build);
+
+    for (const dependency of plan.system) {
+      const lookup = process.platform === 'win32' ? 'where' : 'command -v';
+      if (!await this.checkCondition(`${lookup} ${quoteArgument(dependency.name)}`, options)) {
+        const version = dependency.version && dependency.version !== '*' ? ` ${dependency.version}` : '';
+        throw new Error(`System dependency '${dependency.name}'${version} is not installed; install it and build again`);
+      }
+    }
+
+    for (const dependency of plan.docker) {
+      const image = pinned(dependency);
+      if (await this.checkCondition(`docker image inspect ${quoteArgument(image)}`, options)) continue;
+      this.logger.info(`Pulling Docker image ${image}`);
+      await this.executeCommand(project, `docker pull ${quoteArgument(image)}`, options).catch(error => {
+        if (isAbortError(error)) throw error;
+        throw Object.assign(new Error(`Could not pull Docker image '${image}': ${error.stderr || error.message}`), { stdout: error.stdout });
       });
+    }
 
-      npm.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
+    for (const command of plan.commands) {
+      this.logger.info(`Installing dependencies with ${plan.packageManager}${plan.lockfile ? ` from ${plan.lockfile}` : ''}: ${command}`);
+      await this.executeCommand(project, command, options).catch(error => {
+        if (isAbortError(error)) throw error;
+        throw Object.assign(new Error(`${plan.packageManager} install failed: ${error.stderr || error.message}`), { stdout: error.stdout });
       });
+    }
+  }
 
-      npm.on('close', (code: number) => {
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          reject(new Error(`npm install failed: ${stderr}`));
+  /**
+   * Run the groups of steps one after another and the steps of a group side by side. After a failed
+   * step (without continueOnError) the groups that follow are skipped and the build fails.
+   */
+  private async runSteps(project: Project, groups: BuildStep[][], options: BuildProcessOptions, labelled: boolean): Promise<{ stdout: string; steps: BuildStepResult[] }> {
+    const steps: BuildStepResult[] = [];
+    let stdout = '';
+    let failure: string | undefined;
+
+    for (const group of groups) {
+      if (failure) {
+        group.forEach(step => steps.push({ name: step.name, status: 'skipped', duration: 0 }));
+        continue;
+      }
+
+      const runs = await Promise.all(group.map(step => this.runStep(project, step, { ...options, step: labelled ? step.name : undefined })));
+      runs.forEach((run, i) => {
+        steps.push(run.result);
+        stdout += run.stdout;
+        if (run.result.status === 'failed' && !group[i].continueOnError && !failure) {
+          // A build without steps fails with the command's own error, as it always has
+          failure = labelled ? `Step '${run.result.name}' failed: ${run.result.error}` : run.result.error;
         }
       });
+    }
 
-      npm.on('error', (error: Error) => {
-        reject(error);
-      });
-    });
+    if (failure) {
+      throw Object.assign(new Error(failure), { stdout, steps });
+    }
+    return { stdout, steps };
   }
 
-  private async executeCommand(command: string, env?: Record<string, string>): Promise<{ stdout: string; stderr: string }> {
-    const { spawn } = require('child_process');
-    
+  private async runStep(project: Project, step: BuildStep, options: BuildProcessOptions): Promise<StepRun> {
+    const startTime = Date.now();
+    const stepOptions = { ...options, env: { ...options.env, ...step.environment } };
+
+    if (step.if !== undefined && !await this.checkCondition(step.if, stepOptions)) {
+      this.logger.info(`Skipping build step '${step.name}': ${step.if} did not succeed`);
+      return { result: { name: step.name, status: 'skipped', duration: Date.now() - startTime }, stdout: '' };
+    }
+
+    this.logger.info(`Running build ${options.step ? `step '${step.name}'` : 'command'}: ${step.command}`);
+    try {
+      const { stdout } = await this.executeCommand(project, step.command!, stepOptions);
+      return { result: { name: step.name, status: 'passed', duration: Date.now() - startTime }, stdout };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const result: BuildStepResult = { name: step.name, status: 'failed', duration: Date.now() - startTime, error: (error as Error).message };
+      if (step.continueOnError) {
+        this.logger.warn(`Build step '${step.name}' failed; continuing: ${result.error}`);
+      }
+      return { result, stdout: (error as any).stdout || '' };
+    }
+  }
+
+  // Whether a step's `if` command exits with 0; its output is not shown
+  private async checkCondition(condition: string, options: BuildProcessOptions): Promise<boolean> {
     return new Promise((resolve, reject) => {
-      const [cmd, ...args] = command.split(' ');
-      
-      const child = spawn(cmd, args, {
-        stdio: 'pipe',
-        shell: true,
-        env: { ...process.env, ...env }
+      const child = this.spawnBuildProcess(condition, [], { ...options, limits: {} });
+      child.stdout?.resume();
+      child.stderr?.resume();
+
+      const removeAbortListener = onAbort(options.signal, () => {
+        killProcessGroup(child);
+        reject(createAbortError('Build cancelled'));
       });
+      child.on('close', (code: number) => {
+        removeAbortListener();
+        resolve(code === 0);
+      });
+      child.on('error', () => {
+        removeAbortListener();
+        resolve(false);
+      });
+    });
+  }
 
-      let stdout = '';
-      let stderr = '';
+  private async executeCommand(project: Project, command: string, options: BuildProcessOptions): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      const child = this.spawnBuildProcess(command, [], options);
 
-      child.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+      const output = this.captureOutput(child, project, options);
 
-      child.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
+      // Settle right away: grandchildren of the shell may keep the pipes (and 'close') open
+      const removeAbortListener = onAbort(options.signal, () => {
+        killProcessGroup(child);
+        output.flush();
+        reject(createAbortError('Build cancelled'));
       });
 
       child.on('close', (code: number) => {
+        removeAbortListener();
+        output.flush();
         if (code === 0) {
-          resolve({ stdout, stderr });
+          resolve({ stdout: output.stdout, stderr: output.stderr });
         } else {
-          reject(new Error(`Command failed: ${stderr}`));
+          const reason = output.stderr ? `Command failed: ${output.stderr}` : `Command failed with exit code ${code}`;
+          reject(Object.assign(new Error(reason), { stdout: output.stdout, stderr: output.stderr }));
         }
       });
 
       child.on('error', (error: Error) => {
+        removeAbortListener();
         reject(error);
       });
     });
   }
 
+  /**
+   * Start a build process through the shell in its own process group, with the scrubbed environment
+   * and the resource limits applied.
+   */
+  private spawnBuildProcess(command: string, args: string[], options: BuildProcessOptions): ChildProcess {
+    const { memory, cpuTime } = options.limits;
+    const ulimits: string[] = [];
+    if (memory) ulimits.push(`ulimit -d ${Math.floor(memory * 1024)}`);
+    if (cpuTime) ulimits.push(`ulimit -t ${Math.ceil(cpuTime)}`);
+    if (ulimits.length > 0 && process.platform === 'win32') {
+      this.logger.warn('Build resource limits are not supported on Windows; ignoring them');
+    } else if (ulimits.length > 0) {
+      command = `${ulimits.join(' && ')} && ${command}`;
+    }
+
+    return spawnProcessGroup(command, args, {
+      stdio: 'pipe',
+      shell: true,
+      cwd: options.cwd,
+      env: options.env
+    });
+  }
+
+  /**
+   * Accumulate a child's output and pass each complete line to onOutput and the 'buildOutput' listeners.
+   */
+  private captureOutput(child: ChildProcess, project: Project, options: BuildProcessOptions): CapturedOutput {
+    const partial = { stdout: '', stderr: '' };
+    const publish = (stream: 'stdout' | 'stderr', text: string) => {
+      const line: BuildOutputLine = { projectId: project.id, stream, line: redactSecrets(text), timestamp: new Date() };
+      if (options.step) line.step = options.step;
+      options.onOutput?.(line);
+      this.emit('buildOutput', line);
+    };
+
+    const output: CapturedOutput = {
+      stdout: '',
+      stderr: '',
+      flush: () => {
+        (['stdout', 'stderr'] as const).forEach(stream => {
+          if (partial[stream]) publish(stream, partial[stream]);
+          partial[stream] = '';
+        });
+      }
+    };
+
+    (['stdout', 'stderr'] as const).forEach(stream => {
+      // Decode as text so a multi-byte character split across chunks stays whole
+      child[stream]?.setEncoding('utf-8');
+      child[stream]?.on('data', (data: string) => {
+        output[stream] += data;
+        const lines = (partial[stream] + data).split(/\r?\n/);
+        partial[stream] = lines.pop()!;
+        lines.forEach(line => publish(stream, line));
+      });
+    });
+
+    return output;
+  }
+
   private async collectArtifacts(outputDir: string): Promise<any[]> {
     const artifacts: any[] = [];
     
@@ -395,7 +641,7 @@ export class ProjectManagerImpl implements ProjectManager {
         severity: 'error'
       });
     } else {
-      if (!project.config.build.command) {
+      if (!project.config.build.command && !project.config.build.steps) {
         errors.push({
           code: 'MISSING_BUILD_COMMAND',
           message: 'Build command is not specified',
@@ -403,6 +649,19 @@ export class ProjectManagerImpl implements ProjectManager {
         });
       }
 
+      if (project.config.build.steps) {
+        try {
+          resolveBuildSteps(project.config.build);
+        } catch (error) {
+          errors.push({
+            code: 'INVALID_BUILD_STEPS',
+            message: (error as Error).message,
+            field: 'build.steps',
+            severity: 'error'
+          } as ValidationError);
+        }
+      }
+
       if (!project.config.build.outputDir) {
         warnings.push({
           code: 'MISSING_OUTPUT_DIR',
@@ -517,3 +776,60 @@ export class ProjectManagerImpl implements ProjectManager {
     return project;
   }
 }
+
+function formatDuration(ms: number): string {
+  return ms % 60000 === 0 ? `${ms / 60000} min` : `${ms / 1000}s`;
+}
+
+// The variables of the CLI's environment matching the names, or the `PREFIX_*` patterns
+function pickEnvironment(patterns: string[]): Record<string, string> {
+  // Windows variable names are case-insensitive
+  const normalize = (name: string) => process.platform === 'win32' ? name.toUpperCase() : name;
+  const passes = (name: string) => patterns.some(pattern => pattern.endsWith('*')
+    ? normalize(name).startsWith(normalize(pattern.slice(0, -1)))
+    : normalize(name) === normalize(pattern));
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value !== undefined && passes(name)) env[name] = value;
+  }
+  return env;
+}
+
+/**
+ * The groups of steps a build runs: build.steps with their commands filled in from build.scripts, or
+ * a single 'build' step running build.command. With `only`, just the step of that name.
+ */
+export function resolveBuildSteps(config: BuildConfig, only?: string): BuildStep[][] {
+  if (!config.steps) {
+    if (only && only !== 'build') {
+      throw new Error(`Unknown build step '${only}': the project has no build.steps`);
+    }
+    return [[{ name: 'build', command: config.command }]];
+  }
+
+  const names = new Set<string>();
+  const groups = config.steps.map(entry => (Array.isArray(entry) ? entry : [entry]).map(item => {
+    const step: BuildStep = typeof item === 'string' ? { name: item } : { ...item };
+    if (!step.name) {
+      throw new Error('Every build step needs a name');
+    }
+    if (names.has(step.name)) {
+      throw new Error(`Build step '${step.name}' is defined twice`);
+    }
+    names.add(step.name);
+    step.command = step.command || config.scripts?.[step.name];
+    if (!step.command) {
+      throw new Error(`Build step '${step.name}' has no command, and there is no build.scripts.${step.name}`);
+    }
+    return step;
+  }));
+
+  if (!only) return groups;
+  const step = groups.flat().find(candidate => candidate.name === only);
+  if (!step) {
+    throw new Error(`Unknown build step '${only}' (steps: ${Array.from(names).join(', ')})`);
+  }
+  // Asked for by name, so it runs whatever its condition says
+  return [[{ ...step, if: undefined }]];
+}
@@ -0,0 +1,94 @@
+import { ConfigManager, Project, SecretResolver } from '../types';
+
+// Secret references without a backend prefix
+const DEFAULT_BACKEND = 'config';
+const BACKEND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Reads secrets stored with `ai-builder config set secrets.<name> <value>`; keys containing
+ * "secret" are encrypted by the config manager.
+ */
+export class ConfigSecretResolver implements SecretResolver {
+  constructor(private configManager: ConfigManager) {}
+
+  async resolve(name: string): Promise<string | undefined> {
+    const value = await this.configManager.get(`secrets.${name}`);
+    return value === undefined || value === null ? undefined : String(value);
+  }
+}
+
+/**
+ * Reads secrets from the environment of the CLI process, for CI systems that inject them there.
+ */
+export class EnvSecretResolver implements SecretResolver {
+  async resolve(name: string): Promise<string | undefined> {
+    return process.env[name];
+  }
+}
+
+/**
+ * Resolves the references in EnvironmentConfig.secrets: '<backend>:<name>' goes to the backend
+ * registered under that name, a bare name to the 'config' backend.
+ */
+export class SecretResolverRegistry {
+  private backends: Map<string, SecretResolver> = new Map();
+
+  register(backend: string, resolver: SecretResolver, options: { replace?: boolean } = {}): void {
+    if (!BACKEND_NAME_PATTERN.test(backend)) {
+      throw new Error(`Invalid secret backend name '${backend}': use lowercase letters, digits and dashes, starting with a letter`);
+    }
+    if (this.backends.has(backend) && !options.replace) {
+      throw new Error(`A secret backend named '${backend}' is already registered`);
+    }
+    this.backends.set(backend, resolver);
+  }
+
+  unregister(backend: string): boolean {
+    return this.backends.delete(backend);
+  }
+
+  async resolve(reference: string, project: Project): Promise<string> {
+    const separator = reference.indexOf(':');
+    const backend = separator > 0 ? reference.slice(0, separator) : DEFAULT_BACKEND;
+    const name = separator > 0 ? reference.slice(separator + 1) : reference;
+
+    const resolver = this.backends.get(backend);
+    if (!resolver) {
+      const known = Array.from(this.backends.keys()).join(', ') || 'none';
+      throw new Error(`No secret backend '${backend}' for secret '${reference}' (registered: ${known})`);
+    }
+    const value = await resolver.resolve(name, project);
+    if (value === undefined) {
+      throw new Error(`Secret '${reference}' not found`);
+    }
+    return value;
+  }
+
+  /**
+   * Resolve every secret of the project's environment, keyed by variable name.
+   */
+  async resolveAll(project: Project): Promise<Record<string, string>> {
+    const references = project.config.environment?.secrets || {};
+    const resolved: Record<string, string> = {};
+    for (const [variable, reference] of Object.entries(references)) {
+      try {
+        resolved[variable] = await this.resolve(reference, project);
+      } catch (error) {
+        throw new Error(`Cannot resolve ${variable}: ${(error as Error).message}`);
+      }
+    }
+    return resolved;
+  }
+}
+
+/**
+ * The 'env' backend, plus the 'config' backend when a config manager is given.
+ */
+export function createDefaultSecretResolvers(configManager?: ConfigManager): SecretResolverRegistry {
+  const registry = new SecretResolverRegistry();
+  registry.register('env', new EnvSecretResolver());
+  if (configManager) {
+    registry.register(DEFAULT_BACKEND, new ConfigSecretResolver(configManager));
+  }
+  return registry;
+}
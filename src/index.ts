@@ -4,8 +4,11 @@ import { CLIInterface } from './cli/interface';
 import { Logger } from './utils/logger';
 import { ConfigManagerImpl } from './core/config-manager';
 import { ProjectManagerImpl } from './core/project-manager';
+import { BuildCache } from './core/build-cache';
 import { DeploymentEngineImpl } from './core/deployment-engine';
 import { DeploymentPipeline } from './core/deployment-engine';
+import { createDefaultPreflightRegistry } from './core/preflight-checks';
+import { createDefaultSecretResolvers } from './core/secret-resolver';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -13,12 +16,16 @@ import * as path from 'path';
 import { InitCommand } from './commands/core';
 import { BuildCommand } from './commands/core';
 import { DeployCommand } from './commands/core';
+import { PromoteCommand } from './commands/core';
 import { StatusCommand } from './commands/core';
 import { ConfigCommand } from './commands/core';
 import { TemplatesCommand } from './commands/core';
 import { LogsCommand } from './commands/core';
 import { RollbackCommand } from './commands/core';
+import { CancelCommand } from './commands/core';
+import { ApproveCommand } from './commands/core';
 import { DeploymentsCommand } from './commands/core';
+import { CacheCommand } from './commands/core';
 import { MigrateCommand } from './commands/core';
 
 class AutoBootstrap {
@@ -130,15 +137,33 @@ async function main() {
   try {
     // Initialize core components
     const configManager = new ConfigManagerImpl(logger);
-    const projectManager = new ProjectManagerImpl(logger);
-    const deploymentEngine = new DeploymentEngineImpl(logger);
-    const deploymentPipeline = new DeploymentPipeline(deploymentEngine, logger);
+    const cacheMaxSize = Number(await configManager.get('build.cache_max_size')) || undefined;
+    const buildCache = new BuildCache(logger, { maxSize: cacheMaxSize && cacheMaxSize * 1024 * 1024 });
+    const buildTimeout = await configManager.get('build.timeout');
+    const passEnv = await configManager.get('build.pass_env');
+    const projectManager = new ProjectManagerImpl(logger, undefined, {
+      cache: buildCache,
+      timeout: buildTimeout === undefined ? undefined : Number(buildTimeout),
+      limits: {
+        memory: Number(await configManager.get('build.memory_limit')) || undefined,
+        cpuTime: Number(await configManager.get('build.cpu_limit')) || undefined
+      },
+      passEnv: Array.isArray(passEnv) ? passEnv : passEnv ? String(passEnv).split(',').map(name => name.trim()) : undefined
+    });
+    const maxConcurrentDeployments = Number(await configManager.get('deploy.max_concurrent')) || undefined;
+    const deploymentEngine = new DeploymentEngineImpl(logger, undefined, projectManager, {
+      maxConcurrentDeployments,
+      secrets: createDefaultSecretResolvers(configManager)
+    });
+    await loadConfiguredProviders(configManager, deploymentEngine, logger);
+    const deploymentPipeline = new DeploymentPipeline(deploymentEngine, logger, createDefaultPreflightRegistry(projectManager, logger));
     const cli = new CLIInterface(logger);
 
     // Register commands
     cli.registerCommand(new InitCommand(cli, projectManager, logger));
-    cli.registerCommand(new BuildCommand(cli, projectManager, logger));
-    cli.registerCommand(new DeployCommand(cli, projectManager, logger));
+    cli.registerCommand(new BuildCommand(cli, projectManager, deploymentPipeline, logger, await configManager.get('build.parallel') !== false));
+    cli.registerCommand(new DeployCommand(cli, projectManager, deploymentPipeline, logger));
+    cli.registerCommand(new PromoteCommand(cli, projectManager, deploymentPipeline, logger));
     cli.registerCommand(new StatusCommand(cli, projectManager, logger));
 
     // Additional commands would be registered here
@@ -151,7 +176,10 @@ async function main() {
     cli.registerCommand(new TemplatesCommand(cli, projectManager, logger));
     cli.registerCommand(new LogsCommand(cli, deploymentEngine, projectManager, logger));
     cli.registerCommand(new RollbackCommand(cli, deploymentEngine, projectManager, logger));
+    cli.registerCommand(new CancelCommand(cli, deploymentEngine, logger));
+    cli.registerCommand(new ApproveCommand(cli, deploymentEngine, logger));
     cli.registerCommand(new DeploymentsCommand(cli, deploymentEngine, logger));
+    cli.registerCommand(new CacheCommand(cli, buildCache, logger));
     cli.registerCommand(new MigrateCommand(cli, logger));
 
     // Show welcome message for first-time users
@@ -166,6 +194,22 @@ async function main() {
   }
 }
 
+// Provider packages listed under `deploy.providers` in the global config
+async function loadConfiguredProviders(configManager: ConfigManagerImpl, engine: DeploymentEngineImpl, logger: Logger): Promise<void> {
+  const configured = await configManager.get('deploy.providers');
+  const packages: string[] = Array.isArray(configured) ? configured : configured ? [configured] : [];
+
+  for (const packageName of packages) {
+    try {
+      const names = await engine.loadProviderPackages([packageName]);
+      logger.debug(`Loaded providers ${names.join(', ')} from ${packageName}`);
+    } catch (error) {
+      // A broken plugin should not take the built-in providers down with it
+      logger.warn((error as Error).message);
+    }
+  }
+}
+
 async function showWelcomeIfNeeded(configManager: ConfigManagerImpl, cli: CLIInterface): Promise<void> {
   const hasSeenWelcome = await configManager.get('welcome.shown');
   
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import * as WebSocket from 'ws';
 import { 
+  BuildOutputLine,
   ChatCommands,
   Project,
   Deployment,
@@ -19,6 +20,8 @@ export interface ChatMessage {
 export interface ChatSession {
   id: string;
   userId: string;
+  // False while userId is made up for the session; only authenticated users may approve deployments
+  authenticated: boolean;
   messages: ChatMessage[];
   createdAt: Date;
   lastActivity: Date;
@@ -39,7 +42,7 @@ export interface AIResponse {
 }
 
 export interface ChatAction {
-  type: 'deploy' | 'build' | 'status' | 'rollback' | 'create_project' | 'list_projects';
+  type: 'deploy' | 'build' | 'status' | 'rollback' | 'create_project' | 'list_projects' | 'approve';
   description: string;
   parameters: Record<string, any>;
   confirmation_required: boolean;
@@ -67,6 +70,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
     
     this.wsServer = new WebSocket.Server({ port });
     this.setupWebSocketServer();
+    this.followBuildOutput();
     
     this.logger.info(`Chat interface started on port ${port}`);
   }
@@ -81,6 +85,23 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
     });
   }
 
+  // Relay live build output to every connected client and to our own 'buildOutput' listeners
+  private followBuildOutput(): void {
+    if (typeof this.projectManager?.on !== 'function') return;
+
+    this.projectManager.on('buildOutput', (line: BuildOutputLine) => {
+      this.emit('buildOutput', line);
+      const message: ChatMessage = {
+        id: this.generateMessageId(),
+        type: 'system',
+        content: line.line,
+        timestamp: line.timestamp,
+        metadata: { type: 'build_output', projectId: line.projectId, stream: line.stream }
+      };
+      this.wsServer.clients.forEach(ws => this.sendMessage(ws as WebSocket, message));
+    });
+  }
+
   private async handleConnection(ws: WebSocket, request: any): Promise<void> {
     const sessionId = this.generateSessionId();
     const userId = this.extractUserId(request);
@@ -88,6 +109,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
     const session: ChatSession = {
       id: sessionId,
       userId,
+      authenticated: false,
       messages: [],
       createdAt: new Date(),
       lastActivity: new Date(),
@@ -192,6 +214,8 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
     const recentMessages = session.messages.slice(-10); // Last 10 messages
     
     return {
+      userId: session.userId,
+      authenticated: session.authenticated,
       currentProject: session.context.currentProject,
       currentDeployment: session.context.currentDeployment,
       workingDirectory: session.context.workingDirectory,
@@ -213,7 +237,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
   private getAvailableCommands(): string[] {
     return [
       'deploy', 'build', 'status', 'rollback', 'create_project', 
-      'list_projects', 'get_logs', 'set_config', 'get_config'
+      'list_projects', 'get_logs', 'set_config', 'get_config', 'approve'
     ];
   }
 
@@ -230,7 +254,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
   }
 
   private isValidAction(action: ChatAction): boolean {
-    const validTypes = ['deploy', 'build', 'status', 'rollback', 'create_project', 'list_projects'];
+    const validTypes = ['deploy', 'build', 'status', 'rollback', 'create_project', 'list_projects', 'approve'];
     return validTypes.includes(action.type);
   }
 
@@ -263,10 +287,10 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
   }
 
   // ChatCommands implementation
-  async deployProject(projectName: string, target: string): Promise<string> {
+  async deployProject(projectName: string, target: string, requestedBy?: string): Promise<string> {
     try {
       const project = await this.projectManager.loadProject(projectName);
-      const deployment = await this.deploymentEngine.deploy(project, { name: target } as any);
+      const deployment = await this.deploymentEngine.deploy(project, { name: target } as any, { requestedBy });
       
       return `✅ Deployment started for project '${projectName}' to target '${target}'. Deployment ID: ${deployment.id}`;
     } catch (error) {
@@ -298,7 +322,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
         return 'No projects found';
       }
       
-      const projectList = projects.map(p => `• ${p.name} (${p.template})`).join('\n');
+      const projectList = projects.map((p: Project) => `• ${p.name} (${p.template})`).join('\n');
       return `Available projects:\n${projectList}`;
     } catch (error) {
       return `❌ Failed to list projects: ${(error as Error).message}`;
@@ -310,7 +334,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
       const project = await this.projectManager.loadProject(projectName);
       const deployments = project.deployments;
       
-      const deploymentToRollback = deployments.find(d => d.version === version);
+      const deploymentToRollback = deployments.find((d: Deployment) => d.version === version);
       if (!deploymentToRollback) {
         return `❌ Deployment with version '${version}' not found`;
       }
@@ -323,6 +347,24 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
     }
   }
 
+  async approveDeployment(deploymentId: string, approver: string): Promise<string> {
+    // Anyone who can connect gets a session, so an approval has to come from a user the session proved to be
+    const authenticated = [...this.sessions.values()].some(session => session.authenticated && session.userId === approver);
+    if (!authenticated) {
+      return `❌ Approval failed: '${approver}' is not an authenticated chat user; approve with \`ai-builder approve ${deploymentId}\``;
+    }
+
+    try {
+      const request = await this.deploymentEngine.approveDeployment(deploymentId, approver);
+      const approvals = `${request.approvedBy.length}/${request.required}`;
+      return request.approvedBy.length >= request.required
+        ? `✅ Deployment ${deploymentId} approved by ${approver} (${approvals}); it will start shortly`
+        : `✅ Approval by ${approver} recorded for deployment ${deploymentId} (${approvals})`;
+    } catch (error) {
+      return `❌ Approval failed: ${(error as Error).message}`;
+    }
+  }
+
   async createProject(template: string, name: string): Promise<string> {
     try {
       const project = await this.projectManager.createProject(template, name, '.');
@@ -336,7 +378,7 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
   public async executeAction(action: ChatAction): Promise<string> {
     switch (action.type) {
       case 'deploy':
-        return await this.deployProject(action.parameters.projectName, action.parameters.target);
+        return await this.deployProject(action.parameters.projectName, action.parameters.target, action.parameters.requestedBy);
       
       case 'build':
         return this.buildProject(action.parameters.projectName);
@@ -353,6 +395,9 @@ export class ChatInterface extends EventEmitter implements ChatCommands {
       case 'list_projects':
         return await this.listProjects();
       
+      case 'approve':
+        return await this.approveDeployment(action.parameters.deploymentId, action.parameters.approver);
+      
       default:
         return `❌ Unknown action type: ${action.type}`;
     }
@@ -383,6 +428,28 @@ class AIProvider {
     const lowerMessage = message.toLowerCase();
     
     // Simple rule-based responses (in real implementation, would use actual AI)
+    if (lowerMessage.includes('approve')) {
+      const deploymentId = message.match(/\b(deploy_\w+)/)?.[1] || context.currentDeployment;
+      
+      if (deploymentId && !context.authenticated) {
+        return {
+          message: `I can't approve deployments for an anonymous chat session. Run \`ai-builder approve ${deploymentId}\` to approve it.`
+        };
+      }
+
+      if (deploymentId) {
+        return {
+          message: `I can approve deployment '${deploymentId}' as ${context.userId}. Would you like me to proceed?`,
+          actions: [{
+            type: 'approve',
+            description: `Approve deployment ${deploymentId}`,
+            parameters: { deploymentId, approver: context.userId },
+            confirmation_required: true
+          }]
+        };
+      }
+    }
+    
     if (lowerMessage.includes('deploy')) {
       const projectName = this.extractProjectName(lowerMessage) || context.currentProject;
       const target = this.extractTarget(lowerMessage) || 'production';
@@ -393,7 +460,7 @@ class AIProvider {
           actions: [{
             type: 'deploy',
             description: `Deploy ${projectName} to ${target}`,
-            parameters: { projectName, target },
+            parameters: { projectName, target, requestedBy: context.userId },
             confirmation_required: true
           }]
         };
@@ -442,7 +509,7 @@ class AIProvider {
     
     // Default response
     return {
-      message: `I understand you want to: "${message}". I can help you with:\n\n• Deploying projects\n• Checking deployment status\n• Creating new projects\n• Listing existing projects\n• Rolling back deployments\n\nWhat would you like me to help you with?`
+      message: `I understand you want to: "${message}". I can help you with:\n\n• Deploying projects\n• Checking deployment status\n• Creating new projects\n• Listing existing projects\n• Rolling back deployments\n• Approving deployments to protected environments\n\nWhat would you like me to help you with?`
     };
   }
 
@@ -6,9 +6,11 @@ import {
   Deployment, 
   DeploymentStatus, 
   DeploymentLog, 
+  HealthCheckConfig,
   Logger as ILogger,
   ProgressIndicator
 } from '../types';
+import { runHealthCheck } from './health-check';
 
 export interface MonitoringConfig {
   enabled: boolean;
@@ -108,6 +110,8 @@ export class DeploymentMonitor extends EventEmitter {
   private logger: ILogger;
   private logsDir: string;
   private monitoringInterval?: NodeJS.Timeout;
+  // Deployment log lines are appended one after another to keep their order
+  private logWrites: Promise<void> = Promise.resolve();
 
   constructor(config: MonitoringConfig, logger: ILogger) {
     super();
@@ -199,6 +203,26 @@ export class DeploymentMonitor extends EventEmitter {
     }
   }
 
+  /**
+   * Record the logs a deployment engine adds (see getDeploymentLogs) and re-emit its live build
+   * output as 'buildOutput' (deployment, log). Returns a function that stops following the engine.
+   */
+  followDeploymentLogs(engine: EventEmitter): () => void {
+    const onLog = (deployment: Deployment, log: DeploymentLog) => {
+      if (log.source === 'build') {
+        this.emit('buildOutput', deployment, log);
+      }
+      this.logWrites = this.logWrites
+        .then(() => this.storeDeploymentLog(deployment.id, log))
+        .catch(error => this.logger.warn(`Failed to store deployment log: ${error}`));
+    };
+
+    engine.on('logAdded', onLog);
+    return () => {
+      engine.off('logAdded', onLog);
+    };
+  }
+
   private async startHealthCheck(deployment: Deployment): Promise<void> {
     if (!deployment.target.config.healthCheck) {
       return;
@@ -427,6 +451,11 @@ export class DeploymentMonitor extends EventEmitter {
     await fs.promises.appendFile(logFile, JSON.stringify(logEntry) + '\n');
   }
 
+  private async storeDeploymentLog(deploymentId: string, log: DeploymentLog): Promise<void> {
+    const logFile = path.join(this.logsDir, `deployment_${deploymentId}.jsonl`);
+    await fs.promises.appendFile(logFile, JSON.stringify(log) + '\n');
+  }
+
   private async logDeploymentEvent(deployment: Deployment, event: string, metadata?: any): Promise<void> {
     const logFile = path.join(this.logsDir, 'deployments.jsonl');
     
@@ -512,7 +541,8 @@ export class DeploymentMonitor extends EventEmitter {
           level: logEntry.level,
           message: logEntry.message,
           timestamp: new Date(logEntry.timestamp),
-          source: logEntry.source
+          source: logEntry.source,
+          stream: logEntry.stream
         });
       } catch (error) {
         this.logger.warn(`Failed to parse log line: ${line}`);
@@ -637,7 +667,7 @@ class HealthCheckRunner extends EventEmitter {
 
   constructor(
     private deployment: Deployment,
-    private healthCheckConfig: any,
+    private healthCheckConfig: HealthCheckConfig,
     private logger: ILogger
   ) {
     super();
@@ -684,48 +714,16 @@ class HealthCheckRunner extends EventEmitter {
   }
 
   private async executeHealthCheck(): Promise<HealthCheckResult> {
-    const startTime = Date.now();
-    
-    try {
-      // Simulate HTTP request to health endpoint
-      const response = await this.makeHttpRequest(this.healthCheckConfig.endpoint);
-      const responseTime = Date.now() - startTime;
-      
-      const metrics = await this.getSystemMetrics();
+    const outcome = await runHealthCheck(this.healthCheckConfig, { baseUrl: this.deployment.result?.url });
 
-      return {
-        healthy: response.status >= 200 && response.status < 300,
-        responseTime,
-        statusCode: response.status,
-        timestamp: new Date(),
-        metrics
-      };
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-      
-      return {
-        healthy: false,
-        responseTime,
-        error: (error as Error).message,
-        timestamp: new Date(),
-        metrics: await this.getSystemMetrics()
-      };
-    }
-  }
-
-  private async makeHttpRequest(endpoint: string): Promise<{ status: number }> {
-    // Simulate HTTP request
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000));
-    
-    // Simulate different response scenarios
-    const random = Math.random();
-    if (random < 0.1) {
-      throw new Error('Connection timeout');
-    } else if (random < 0.2) {
-      return { status: 500 };
-    } else {
-      return { status: 200 };
-    }
+    return {
+      healthy: outcome.healthy,
+      responseTime: outcome.responseTime,
+      statusCode: outcome.statusCode,
+      error: outcome.error,
+      timestamp: outcome.timestamp,
+      metrics: await this.getSystemMetrics()
+    };
   }
 
   private async getSystemMetrics(): Promise<SystemMetrics> {
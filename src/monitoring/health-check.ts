@@ -0,0 +1,158 @@
+import { exec } from 'child_process';
+import * as net from 'net';
+import { HealthCheckConfig } from '../types';
+import { httpRequest } from '../utils/http-client';
+import { abortableDelay, createAbortError, isAbortError, onAbort, throwIfAborted } from '../utils/abort';
+
+export interface HealthCheckOutcome {
+  healthy: boolean;
+  // Duration of the last attempt (ms)
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+  attempts: number;
+  timestamp: Date;
+}
+
+export interface HealthCheckOptions {
+  // Deployment URL that relative HTTP endpoints are resolved against
+  baseUrl?: string;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Run one health check, retrying failed attempts up to `config.retries` times.
+ * Never throws for an unhealthy target (only when the signal aborts); the outcome says what went wrong.
+ * Shared by the deployment pipeline and the deployment monitor.
+ */
+export async function runHealthCheck(config: HealthCheckConfig, options: HealthCheckOptions = {}): Promise<HealthCheckOutcome> {
+  const attempts = Math.max(0, config.retries || 0) + 1;
+  let outcome: HealthCheckOutcome | undefined;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (attempt > 1) {
+      await abortableDelay(config.retryDelay ?? DEFAULT_RETRY_DELAY, options.signal);
+    }
+    throwIfAborted(options.signal);
+
+    const started = Date.now();
+    try {
+      const statusCode = await runAttempt(config, options);
+      return { healthy: true, responseTime: Date.now() - started, statusCode, attempts: attempt, timestamp: new Date() };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      outcome = {
+        healthy: false,
+        responseTime: Date.now() - started,
+        statusCode: (error as HealthCheckError).statusCode,
+        error: (error as Error).message,
+        attempts: attempt,
+        timestamp: new Date()
+      };
+    }
+  }
+
+  return outcome!;
+}
+
+/**
+ * Where an HTTP check goes: absolute endpoints as they are, paths relative to the deployment URL.
+ */
+export function resolveHealthCheckUrl(endpoint: string, baseUrl?: string): string {
+  if (/^https?:\/\//.test(endpoint)) {
+    return endpoint;
+  }
+  if (!baseUrl) {
+    throw new Error(`Cannot resolve health check endpoint '${endpoint}': the deployment has no URL`);
+  }
+  return new URL(endpoint, baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+}
+
+interface HealthCheckError extends Error {
+  statusCode?: number;
+}
+
+function runAttempt(config: HealthCheckConfig, options: HealthCheckOptions): Promise<number | undefined> {
+  const timeout = config.timeout || DEFAULT_TIMEOUT;
+  switch (config.type || 'http') {
+    case 'tcp':
+      return checkTcp(config.endpoint, timeout, options.signal).then(() => undefined);
+    case 'command':
+      return checkCommand(config.command || config.endpoint, timeout, options.signal).then(() => undefined);
+    default:
+      return checkHttp(config, timeout, options);
+  }
+}
+
+async function checkHttp(config: HealthCheckConfig, timeout: number, options: HealthCheckOptions): Promise<number> {
+  const url = resolveHealthCheckUrl(config.endpoint, options.baseUrl);
+  const response = await raceAbort(httpRequest({ method: 'GET', url, timeout }), options.signal);
+
+  const healthy = config.expectedStatus !== undefined
+    ? response.statusCode === config.expectedStatus
+    : response.statusCode >= 200 && response.statusCode < 300;
+  if (!healthy) {
+    const expected = config.expectedStatus !== undefined ? String(config.expectedStatus) : '2xx';
+    const error: HealthCheckError = new Error(`GET ${url} returned HTTP ${response.statusCode} (expected ${expected})`);
+    error.statusCode = response.statusCode;
+    throw error;
+  }
+  return response.statusCode;
+}
+
+function checkTcp(endpoint: string, timeout: number, signal?: AbortSignal): Promise<void> {
+  const match = endpoint.replace(/^tcp:\/\//, '').match(/^(.*):(\d+)$/);
+  if (!match) {
+    return Promise.reject(new Error(`TCP health check endpoint must be host:port, got '${endpoint}'`));
+  }
+  const [, host, port] = match;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host: host.replace(/^\[|\]$/g, ''), port: Number(port) });
+    const finish = (error?: Error) => {
+      removeAbort();
+      socket.destroy();
+      if (error) reject(error); else resolve();
+    };
+    const removeAbort = onAbort(signal, () => finish(createAbortError()));
+
+    socket.setTimeout(timeout, () => finish(new Error(`TCP connect to ${host}:${port} timed out after ${timeout}ms`)));
+    socket.once('connect', () => finish());
+    socket.once('error', error => finish(new Error(`TCP connect to ${host}:${port} failed: ${error.message}`)));
+  });
+}
+
+function checkCommand(command: string, timeout: number, signal?: AbortSignal): Promise<void> {
+  if (!command) {
+    return Promise.reject(new Error('Command health check has no command'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = exec(command, { timeout, killSignal: 'SIGKILL' }, (error, _stdout, stderr) => {
+      removeAbort();
+      if (signal?.aborted) {
+        reject(createAbortError());
+      } else if (error) {
+        const reason = error.killed ? `timed out after ${timeout}ms` : `exited with code ${error.code}`;
+        reject(new Error(`'${command}' ${reason}${stderr.trim() ? `: ${stderr.trim().split('\n').pop()}` : ''}`));
+      } else {
+        resolve();
+      }
+    });
+    const removeAbort = onAbort(signal, () => child.kill('SIGKILL'));
+  });
+}
+
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const removeAbort = onAbort(signal, () => reject(createAbortError()));
+    promise.then(
+      value => { removeAbort(); resolve(value); },
+      error => { removeAbort(); reject(error); }
+    );
+  });
+}
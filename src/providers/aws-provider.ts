@@ -0,0 +1,699 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CloudProvider,
+  CredentialStatus,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger,
+  Project
+} from '../types';
+import { createZip } from '../utils/archive';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, contentTypeFor, readReleaseEntries } from './release-files';
+import { pollUntil } from './rest-api';
+import { throwIfAborted } from '../utils/abort';
+
+export interface AWSClientConfig {
+  region: string;
+  // Custom endpoint such as LocalStack or MinIO; defaults to AWS_ENDPOINT_URL
+  endpoint?: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * The S3 operations the provider needs. Inputs and outputs follow the AWS SDK v3 command shapes.
+ */
+export interface S3Api {
+  putObject(input: { Bucket: string; Key: string; Body: Buffer; ContentType?: string }): Promise<unknown>;
+  copyObject(input: { Bucket: string; CopySource: string; Key: string }): Promise<unknown>;
+  deleteObject(input: { Bucket: string; Key: string }): Promise<unknown>;
+  listObjectsV2(input: { Bucket: string; Prefix?: string; Delimiter?: string; ContinuationToken?: string }): Promise<{
+    Contents?: Array<{ Key?: string; LastModified?: Date }>;
+    CommonPrefixes?: Array<{ Prefix?: string }>;
+    NextContinuationToken?: string;
+  }>;
+  // Resolves undefined when the object does not exist
+  getObject(input: { Bucket: string; Key: string }): Promise<Buffer | undefined>;
+  // Rejects when the bucket does not exist or the credentials may not use it
+  headBucket(input: { Bucket: string }): Promise<unknown>;
+}
+
+/**
+ * The Lambda operations the provider needs. Inputs and outputs follow the AWS SDK v3 command shapes.
+ */
+export interface LambdaApi {
+  updateFunctionCode(input: { FunctionName: string; ZipFile: Buffer }): Promise<unknown>;
+  getFunctionConfiguration(input: { FunctionName: string; Qualifier?: string }): Promise<{
+    State?: string;
+    LastUpdateStatus?: string;
+    LastUpdateStatusReason?: string;
+    Version?: string;
+  }>;
+  publishVersion(input: { FunctionName: string; Description?: string }): Promise<{ Version?: string }>;
+  // Resolves undefined when the alias does not exist
+  getAlias(input: { FunctionName: string; Name: string }): Promise<{ FunctionVersion?: string } | undefined>;
+  createAlias(input: { FunctionName: string; Name: string; FunctionVersion: string; Description?: string; RoutingConfig?: AliasRoutingConfig }): Promise<unknown>;
+  updateAlias(input: { FunctionName: string; Name: string; FunctionVersion: string; Description?: string; RoutingConfig?: AliasRoutingConfig }): Promise<unknown>;
+  listVersionsByFunction(input: { FunctionName: string; Marker?: string }): Promise<{
+    Versions?: Array<{ Version?: string; Description?: string; LastModified?: string }>;
+    NextMarker?: string;
+  }>;
+  // Resolves undefined when the alias has no function URL
+  getFunctionUrl(input: { FunctionName: string; Qualifier?: string }): Promise<string | undefined>;
+}
+
+// Weighted alias: each listed version gets its weight (0-1) of the invocations, the alias version the rest
+export interface AliasRoutingConfig {
+  AdditionalVersionWeights?: Record<string, number>;
+}
+
+export interface AWSClientFactory {
+  s3(config: AWSClientConfig): S3Api;
+  lambda(config: AWSClientConfig): LambdaApi;
+}
+
+export interface AWSProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/aws
+  stateDir?: string;
+  // Defaults to clients built on @aws-sdk/client-s3 and @aws-sdk/client-lambda
+  clients?: AWSClientFactory;
+  pollInterval?: number;
+}
+
+interface AWSDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  target: DeploymentTarget;
+  service: 's3' | 'lambda';
+  version: string;
+  url?: string;
+  bucket?: string;
+  functionName?: string;
+  alias?: string;
+  functionVersion?: string;
+  deployedAt: string;
+  // Blue-green: the color the release was staged in
+  color?: DeploymentColor;
+}
+
+const RELEASES_PREFIX = 'releases/';
+// Records which release is currently copied to the live location
+const LIVE_MARKER = `${RELEASES_PREFIX}live.json`;
+
+/**
+ * Deploys to AWS according to `target.config.service`:
+ * - `s3`: uploads the build output to `releases/<deployment id>/` in `bucket` and syncs it to the live
+ *   prefix, deleting live objects the release does not have
+ * - `lambda`: uploads a zip of the build output, publishes a function version described with the
+ *   project version and points an alias (default: the target environment) at it
+ * Rollback syncs an earlier S3 release back, or moves the Lambda alias to an earlier version.
+ * Blue-green deployments stop before going live: the S3 release is served from its own prefix and the
+ * Lambda version gets a `<alias>-<color>` alias; activation copies the release or moves the main alias.
+ * Canary deployments weight the main Lambda alias between the live and the staged version.
+ */
+export class AWSProvider implements CloudProvider {
+  name = 'aws';
+  type = 'aws' as const;
+
+  private state: ProviderStateStore<AWSDeploymentState>;
+  private clients: AWSClientFactory;
+  private pollInterval: number;
+
+  constructor(private logger: Logger, options: AWSProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'aws'));
+    this.clients = options.clients || sdkClients;
+    this.pollInterval = options.pollInterval ?? 2000;
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const service = serviceFor(config.target);
+    return service === 's3' ? this.deployToS3(config) : this.deployToLambda(config);
+  }
+
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`AWS deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+
+    if (state.service === 's3') {
+      await this.activateS3Release(state.target, state.bucket!, deploymentId, state.version);
+      this.logger.info(`s3://${state.bucket} now serves the ${state.color} release ${state.version}`);
+    } else {
+      const lambda = this.clients.lambda(clientConfig(state.target));
+      await this.pointAlias(lambda, state.functionName!, state.alias!, state.functionVersion!, state.version);
+      this.logger.info(`Alias ${state.functionName}:${state.alias} now points at the ${state.color} version ${state.functionVersion}`);
+    }
+
+    return {
+      success: true,
+      deploymentId,
+      url: state.url,
+      endpoint: state.url && state.service === 'lambda' ? `${state.url.replace(/\/$/, '')}/api` : undefined,
+      metadata: {
+        type: 'aws',
+        service: state.service,
+        region: clientConfig(state.target).region,
+        bucket: state.bucket,
+        functionName: state.functionName,
+        alias: state.alias,
+        functionVersion: state.functionVersion,
+        color: state.color
+      }
+    };
+  }
+
+  /**
+   * Canary (Lambda only): route `percent` of the main alias's invocations to the staged version.
+   */
+  async shiftTraffic(deploymentId: string, percent: number): Promise<void> {
+    const state = await this.requireState(deploymentId);
+    if (state.service !== 'lambda' || !state.color) {
+      if (percent === 0) return;
+      throw new Error(`AWS deployment ${deploymentId} cannot take a share of the traffic; only staged Lambda versions can`);
+    }
+
+    const lambda = this.clients.lambda(clientConfig(state.target));
+    const live = await lambda.getAlias({ FunctionName: state.functionName!, Name: state.alias! });
+    if (!live?.FunctionVersion) {
+      if (percent === 0) return;
+      throw new Error(`Alias ${state.functionName}:${state.alias} does not exist yet, so there is no traffic to split`);
+    }
+
+    await lambda.updateAlias({
+      FunctionName: state.functionName!,
+      Name: state.alias!,
+      FunctionVersion: live.FunctionVersion,
+      RoutingConfig: { AdditionalVersionWeights: percent > 0 ? { [state.functionVersion!]: percent / 100 } : {} }
+    });
+    this.logger.info(`Alias ${state.functionName}:${state.alias} now sends ${percent}% of invocations to the ${state.color} version ${state.functionVersion}`);
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+
+    if (state.service === 's3') {
+      const marker = await this.clients.s3(clientConfig(state.target)).getObject({ Bucket: state.bucket!, Key: LIVE_MARKER });
+      return marker ? DeploymentStatus.SUCCESS : DeploymentStatus.FAILED;
+    }
+
+    const lambda = this.clients.lambda(clientConfig(state.target));
+    const alias = await lambda.getAlias({ FunctionName: state.functionName!, Name: state.alias! });
+    if (!alias) return DeploymentStatus.FAILED;
+
+    const fn = await lambda.getFunctionConfiguration({ FunctionName: state.functionName!, Qualifier: state.alias });
+    return mapFunctionState(fn.State);
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back AWS deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+
+    if (state.service === 's3') {
+      const release = await this.findS3Release(state, deploymentId, targetVersion);
+      await this.activateS3Release(state.target, state.bucket!, release.deploymentId, targetVersion);
+      this.logger.info(`s3://${state.bucket} now serves ${targetVersion}`);
+      return;
+    }
+
+    const lambda = this.clients.lambda(clientConfig(state.target));
+    const versions = await this.listFunctionVersions(lambda, state.functionName!);
+    const previous = versions.filter(v => v.Description === targetVersion).pop();
+    if (!previous || !previous.Version) {
+      throw new Error(`No published version of ${state.functionName} is described as ${targetVersion}`);
+    }
+
+    await lambda.updateAlias({ FunctionName: state.functionName!, Name: state.alias!, FunctionVersion: previous.Version, Description: targetVersion });
+    this.logger.info(`Alias ${state.functionName}:${state.alias} now points at version ${previous.Version} (${targetVersion})`);
+  }
+
+  /**
+   * Ask for the target's bucket or function, which proves the endpoint, the credentials and the
+   * resource itself in one request.
+   */
+  async checkReachability(target: DeploymentTarget, project: Project): Promise<void> {
+    const { region } = clientConfig(target);
+    if (serviceFor(target) === 's3') {
+      if (!target.config.bucket) {
+        throw new Error(`AWS target '${target.name}' needs config.bucket for the s3 service`);
+      }
+      await this.clients.s3(clientConfig(target)).headBucket({ Bucket: target.config.bucket }).catch(error => {
+        throw new Error(`S3 bucket ${target.config.bucket} in ${region} cannot be reached: ${describeError(error)}`);
+      });
+      return;
+    }
+
+    const functionName = String(target.config.functionName || project.name);
+    await this.clients.lambda(clientConfig(target)).getFunctionConfiguration({ FunctionName: functionName }).catch(error => {
+      throw new Error(`Lambda function ${functionName} in ${region} cannot be reached: ${describeError(error)}`);
+    });
+  }
+
+  /**
+   * What the environment says about the credentials the SDK will use. Instance and container roles
+   * leave no trace there, so credentials that cannot be found are reported with an unknown expiry
+   * and left to the reachability check.
+   */
+  getCredentialStatus(): CredentialStatus {
+    return awsCredentialStatus();
+  }
+
+  /**
+   * Lists the releases in every bucket and the published versions of every function deployed to.
+   */
+  async listDeployments(): Promise<Deployment[]> {
+    const states = await this.state.list();
+    const destinations = new Map<string, AWSDeploymentState>();
+    for (const state of states) {
+      destinations.set(state.service === 's3' ? `s3:${state.bucket}` : `lambda:${state.functionName}`, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const state of destinations.values()) {
+      const known = (version: string) => states.find(s => s.service === state.service && s.bucket === state.bucket && s.functionName === state.functionName && s.version === version);
+
+      if (state.service === 's3') {
+        const s3 = this.clients.s3(clientConfig(state.target));
+        const marker = await s3.getObject({ Bucket: state.bucket!, Key: LIVE_MARKER });
+        const live = marker ? JSON.parse(marker.toString('utf-8')).deploymentId : undefined;
+        const listing = await s3.listObjectsV2({ Bucket: state.bucket!, Prefix: RELEASES_PREFIX, Delimiter: '/' });
+
+        // Releases are named after the deployment that uploaded them
+        for (const { Prefix: prefix } of listing.CommonPrefixes || []) {
+          if (!prefix) continue;
+          const releaseId = prefix.slice(RELEASES_PREFIX.length).replace(/\/$/, '');
+          const record = states.find(s => s.deploymentId === releaseId);
+          deployments.push(toDeployment(state, record?.deploymentId || `s3://${state.bucket}/${prefix}`, record?.version || releaseId, record?.deployedAt, {
+            release: `s3://${state.bucket}/${prefix}`,
+            current: live === releaseId
+          }));
+        }
+        continue;
+      }
+
+      const lambda = this.clients.lambda(clientConfig(state.target));
+      const alias = await lambda.getAlias({ FunctionName: state.functionName!, Name: state.alias! });
+      for (const fnVersion of await this.listFunctionVersions(lambda, state.functionName!)) {
+        const version = fnVersion.Description || fnVersion.Version!;
+        const record = known(version);
+        deployments.push(toDeployment(state, record?.deploymentId || `${state.functionName}:${fnVersion.Version}`, version, fnVersion.LastModified, {
+          functionVersion: fnVersion.Version,
+          current: alias?.FunctionVersion === fnVersion.Version
+        }));
+      }
+    }
+    return deployments;
+  }
+
+  private async deployToS3(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `aws_${Date.now()}`;
+    if (!target.config.bucket) {
+      throw new Error(`AWS target '${target.name}' needs config.bucket for the s3 service`);
+    }
+    const bucket = target.config.bucket;
+    const s3 = this.clients.s3(clientConfig(target));
+    // Keyed by deployment so that redeploying a version never rewrites the release being served
+    const releasePrefix = `${RELEASES_PREFIX}${deploymentId}/`;
+
+    const entries = await readReleaseEntries(await collectReleaseFiles(project));
+    this.logger.info(`Uploading ${entries.length} files to s3://${bucket}/${releasePrefix}`);
+    for (const entry of entries) {
+      throwIfAborted(config.signal, 'S3 upload cancelled');
+      await s3.putObject({ Bucket: bucket, Key: `${releasePrefix}${entry.name}`, Body: entry.content, ContentType: contentTypeFor(entry.name) });
+    }
+
+    throwIfAborted(config.signal, 'S3 upload cancelled');
+    if (!config.color) {
+      await this.activateS3Release(target, bucket, deploymentId, project.version);
+    }
+    const url = s3Url(target, bucket);
+
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      target,
+      service: 's3',
+      version: project.version,
+      url,
+      bucket,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    this.logger.info(config.color
+      ? `Release ${project.version} is staged as ${config.color} in s3://${bucket}/${releasePrefix}`
+      : `s3://${bucket} now serves ${project.version}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: config.color ? s3ReleaseUrl(target, bucket, deploymentId) : url,
+      metadata: {
+        type: 'aws',
+        service: 's3',
+        region: clientConfig(target).region,
+        bucket,
+        release: `s3://${bucket}/${releasePrefix}`,
+        files: entries.length
+      }
+    };
+  }
+
+  private async deployToLambda(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `aws_${Date.now()}`;
+    const functionName = String(target.config.functionName || project.name);
+    const alias = String(target.config.alias || target.environment);
+    const lambda = this.clients.lambda(clientConfig(target));
+
+    const zip = createZip(await readReleaseEntries(await collectReleaseFiles(project)));
+    throwIfAborted(config.signal, 'Lambda deploy cancelled');
+    this.logger.info(`Updating code of Lambda function ${functionName} (${zip.length} bytes)`);
+    await lambda.updateFunctionCode({ FunctionName: functionName, ZipFile: zip });
+
+    // Publishing is rejected while the code update is still in progress
+    await pollUntil(async () => {
+      const fn = await lambda.getFunctionConfiguration({ FunctionName: functionName });
+      if (fn.LastUpdateStatus === 'Failed') {
+        throw new Error(`Lambda code update for ${functionName} failed: ${fn.LastUpdateStatusReason || 'unknown reason'}`);
+      }
+      return fn.LastUpdateStatus === 'InProgress' ? undefined : fn;
+    }, this.pollInterval, Number(target.config.timeout || 300) * 1000, `Lambda function ${functionName} to finish updating`, config.signal);
+
+    // $LATEST is updated but the alias still serves the previous version
+    throwIfAborted(config.signal, 'Lambda deploy cancelled');
+    const published = await lambda.publishVersion({ FunctionName: functionName, Description: project.version });
+    const functionVersion = published.Version!;
+
+    // Blue-green: the new version only gets its color's alias until it is activated
+    const colorAlias = config.color ? `${alias}-${config.color}` : undefined;
+    await this.pointAlias(lambda, functionName, colorAlias || alias, functionVersion, project.version);
+
+    const url = await this.lambdaUrl(lambda, target, functionName, alias);
+    const stagedUrl = colorAlias ? await lambda.getFunctionUrl({ FunctionName: functionName, Qualifier: colorAlias }) : url;
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      target,
+      service: 'lambda',
+      version: project.version,
+      url,
+      functionName,
+      alias,
+      functionVersion,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    this.logger.info(`Alias ${functionName}:${colorAlias || alias} now points at version ${functionVersion}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: stagedUrl,
+      endpoint: stagedUrl ? `${stagedUrl.replace(/\/$/, '')}/api` : undefined,
+      metadata: {
+        type: 'aws',
+        service: 'lambda',
+        region: clientConfig(target).region,
+        functionName,
+        alias: colorAlias || alias,
+        functionVersion
+      }
+    };
+  }
+
+  private async pointAlias(lambda: LambdaApi, functionName: string, alias: string, functionVersion: string, version: string): Promise<void> {
+    const existing = await lambda.getAlias({ FunctionName: functionName, Name: alias });
+    // Also drops the weights a canary left on the alias
+    const aliasInput = { FunctionName: functionName, Name: alias, FunctionVersion: functionVersion, Description: version, RoutingConfig: { AdditionalVersionWeights: {} } };
+    if (existing) {
+      await lambda.updateAlias(aliasInput);
+    } else {
+      await lambda.createAlias(aliasInput);
+    }
+  }
+
+  /**
+   * Copy every object of a release to the live prefix, delete the live objects the release does not
+   * have and record the release in the live marker.
+   */
+  private async activateS3Release(target: DeploymentTarget, bucket: string, releaseId: string, version: string): Promise<void> {
+    const s3 = this.clients.s3(clientConfig(target));
+    const releasePrefix = `${RELEASES_PREFIX}${releaseId}/`;
+    const livePrefix = livePrefixFor(target);
+
+    const keys = await listS3Keys(s3, bucket, releasePrefix);
+    if (keys.length === 0) {
+      throw new Error(`Release ${version} not found in s3://${bucket}/${releasePrefix}`);
+    }
+
+    const liveKeys = new Set<string>();
+    for (const key of keys) {
+      const liveKey = `${livePrefix}${key.slice(releasePrefix.length)}`;
+      liveKeys.add(liveKey);
+      await s3.copyObject({
+        Bucket: bucket,
+        CopySource: `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`,
+        Key: liveKey
+      });
+    }
+
+    // The releases share the bucket with a root live prefix and must survive the sync
+    for (const key of await listS3Keys(s3, bucket, livePrefix)) {
+      if (!liveKeys.has(key) && !key.startsWith(RELEASES_PREFIX)) {
+        await s3.deleteObject({ Bucket: bucket, Key: key });
+      }
+    }
+
+    const marker = { deploymentId: releaseId, version, activatedAt: new Date().toISOString() };
+    await s3.putObject({ Bucket: bucket, Key: LIVE_MARKER, Body: Buffer.from(JSON.stringify(marker)), ContentType: 'application/json' });
+  }
+
+  /**
+   * The release of `version` to roll back to: the one `deploymentId` uploaded, or else the latest
+   * deployment of that version to the same bucket.
+   */
+  private async findS3Release(state: AWSDeploymentState, deploymentId: string, version: string): Promise<AWSDeploymentState> {
+    const releases = (await this.state.list())
+      .filter(s => s.service === 's3' && s.bucket === state.bucket && s.version === version)
+      .sort((a, b) => Date.parse(b.deployedAt) - Date.parse(a.deployedAt));
+    const release = releases.find(s => s.deploymentId === deploymentId) || releases[0];
+    if (!release) {
+      throw new Error(`No deployment of ${version} to s3://${state.bucket} is recorded`);
+    }
+    return release;
+  }
+
+  private async listFunctionVersions(lambda: LambdaApi, functionName: string) {
+    const versions: Array<{ Version?: string; Description?: string; LastModified?: string }> = [];
+    let marker: string | undefined;
+    do {
+      const page = await lambda.listVersionsByFunction({ FunctionName: functionName, Marker: marker });
+      versions.push(...(page.Versions || []).filter(v => v.Version !== '$LATEST'));
+      marker = page.NextMarker;
+    } while (marker);
+    return versions;
+  }
+
+  private async lambdaUrl(lambda: LambdaApi, target: DeploymentTarget, functionName: string, alias: string): Promise<string | undefined> {
+    if (target.config.apiGatewayId) {
+      const region = clientConfig(target).region;
+      return `https://${target.config.apiGatewayId}.execute-api.${region}.amazonaws.com/${target.config.stage || alias}`;
+    }
+    return lambda.getFunctionUrl({ FunctionName: functionName, Qualifier: alias });
+  }
+
+  private async requireState(deploymentId: string): Promise<AWSDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown AWS deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function serviceFor(target: DeploymentTarget): 's3' | 'lambda' {
+  const service = String(target.config.service || 'lambda').toLowerCase();
+  if (service !== 's3' && service !== 'lambda') {
+    throw new Error(`Unsupported AWS service '${service}' for target '${target.name}' (use 's3' or 'lambda')`);
+  }
+  return service;
+}
+
+function clientConfig(target: DeploymentTarget): AWSClientConfig {
+  const endpoint = target.config.endpoint || process.env.AWS_ENDPOINT_URL;
+  return {
+    region: target.config.region || process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'us-east-1',
+    endpoint,
+    // LocalStack and MinIO serve buckets under the path, not as subdomains
+    forcePathStyle: target.config.forcePathStyle ?? Boolean(endpoint)
+  };
+}
+
+function livePrefixFor(target: DeploymentTarget): string {
+  const prefix = String(target.config.prefix || '').replace(/^\/+|\/+$/g, '');
+  return prefix ? `${prefix}/` : '';
+}
+
+function s3Url(target: DeploymentTarget, bucket: string): string {
+  if (target.config.domain) {
+    return `https://${target.config.domain}`;
+  }
+  const { region, endpoint } = clientConfig(target);
+  if (endpoint) {
+    return `${endpoint.replace(/\/$/, '')}/${bucket}/${livePrefixFor(target)}index.html`;
+  }
+  return `http://${bucket}.s3-website-${region}.amazonaws.com/${livePrefixFor(target)}`;
+}
+
+// Where a release can be fetched before it is copied to the live prefix
+function s3ReleaseUrl(target: DeploymentTarget, bucket: string, releaseId: string): string {
+  if (target.config.domain) {
+    return `https://${target.config.domain}/${RELEASES_PREFIX}${releaseId}/`;
+  }
+  const { region, endpoint } = clientConfig(target);
+  if (endpoint) {
+    return `${endpoint.replace(/\/$/, '')}/${bucket}/${RELEASES_PREFIX}${releaseId}/index.html`;
+  }
+  return `http://${bucket}.s3-website-${region}.amazonaws.com/${RELEASES_PREFIX}${releaseId}/`;
+}
+
+async function listS3Keys(s3: S3Api, bucket: string, prefix: string): Promise<string[]> {
+  const keys: string[] = [];
+  let token: string | undefined;
+  do {
+    const page = await s3.listObjectsV2({ Bucket: bucket, Prefix: prefix, ContinuationToken: token });
+    keys.push(...(page.Contents || []).map(object => object.Key!).filter(Boolean));
+    token = page.NextContinuationToken;
+  } while (token);
+  return keys;
+}
+
+function mapFunctionState(state?: string): DeploymentStatus {
+  switch (state) {
+    case 'Active':
+    case 'Inactive':
+      return DeploymentStatus.SUCCESS;
+    case 'Failed':
+      return DeploymentStatus.FAILED;
+    default:
+      return DeploymentStatus.DEPLOYING;
+  }
+}
+
+function toDeployment(state: AWSDeploymentState, id: string, version: string, createdAt: string | undefined, metadata: Record<string, any>): Deployment {
+  return {
+    id,
+    projectId: state.projectId,
+    target: state.target,
+    version,
+    status: DeploymentStatus.SUCCESS,
+    logs: [],
+    result: { success: true, deploymentId: id, url: state.url, metadata },
+    createdAt: createdAt ? new Date(createdAt) : new Date(0)
+  };
+}
+
+function awsCredentialStatus(): CredentialStatus {
+  const env = process.env;
+  if (env.AWS_ACCESS_KEY_ID) {
+    // Long-term access keys do not expire; session credentials only say when they do through AWS_CREDENTIAL_EXPIRATION
+    if (!env.AWS_SESSION_TOKEN) {
+      return { present: true, percentUsed: 0, source: 'AWS_ACCESS_KEY_ID' };
+    }
+    const expiresAt = Date.parse(env.AWS_CREDENTIAL_EXPIRATION || '');
+    if (Number.isNaN(expiresAt)) {
+      return { present: true, percentUsed: 0, source: 'AWS_SESSION_TOKEN', expiryKnown: false };
+    }
+    return { present: true, percentUsed: expiresAt <= Date.now() ? 100 : 0, source: 'AWS_SESSION_TOKEN' };
+  }
+
+  const sharedFiles = [
+    env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials'),
+    env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config')
+  ];
+  const source = env.AWS_PROFILE ? `AWS profile '${env.AWS_PROFILE}'`
+    : env.AWS_WEB_IDENTITY_TOKEN_FILE ? 'AWS_WEB_IDENTITY_TOKEN_FILE'
+    : sharedFiles.some(file => fs.existsSync(file)) ? 'the default AWS profile'
+    : 'AWS instance or container role';
+  return { present: true, percentUsed: 0, source, expiryKnown: false };
+}
+
+function describeError(err: any): string {
+  return err?.name && err.name !== 'Error' ? `${err.name}${err.message ? ` (${err.message})` : ''}` : String(err?.message || err);
+}
+
+function isNotFound(err: any): boolean {
+  return err?.name === 'NoSuchKey' || err?.name === 'NotFound' || err?.name === 'ResourceNotFoundException' || err?.$metadata?.httpStatusCode === 404;
+}
+
+function loadSdk(name: string): any {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(name);
+  } catch {
+    throw new Error(`AWS deployments need the optional "${name}" package: npm install ${name}`);
+  }
+}
+
+const sdkClients: AWSClientFactory = {
+  s3(config) {
+    const sdk = loadSdk('@aws-sdk/client-s3');
+    const client = new sdk.S3Client({ region: config.region, endpoint: config.endpoint, forcePathStyle: config.forcePathStyle });
+
+    return {
+      putObject: input => client.send(new sdk.PutObjectCommand(input)),
+      copyObject: input => client.send(new sdk.CopyObjectCommand(input)),
+      deleteObject: input => client.send(new sdk.DeleteObjectCommand(input)),
+      listObjectsV2: input => client.send(new sdk.ListObjectsV2Command(input)),
+      headBucket: input => client.send(new sdk.HeadBucketCommand(input)),
+      async getObject(input) {
+        try {
+          const output = await client.send(new sdk.GetObjectCommand(input));
+          return Buffer.from(await output.Body.transformToByteArray());
+        } catch (err) {
+          if (isNotFound(err)) return undefined;
+          throw err;
+        }
+      }
+    };
+  },
+
+  lambda(config) {
+    const sdk = loadSdk('@aws-sdk/client-lambda');
+    const client = new sdk.LambdaClient({ region: config.region, endpoint: config.endpoint });
+
+    return {
+      updateFunctionCode: input => client.send(new sdk.UpdateFunctionCodeCommand(input)),
+      getFunctionConfiguration: input => client.send(new sdk.GetFunctionConfigurationCommand(input)),
+      publishVersion: input => client.send(new sdk.PublishVersionCommand(input)),
+      createAlias: input => client.send(new sdk.CreateAliasCommand(input)),
+      updateAlias: input => client.send(new sdk.UpdateAliasCommand(input)),
+      listVersionsByFunction: input => client.send(new sdk.ListVersionsByFunctionCommand(input)),
+      async getAlias(input) {
+        try {
+          return await client.send(new sdk.GetAliasCommand(input));
+        } catch (err) {
+          if (isNotFound(err)) return undefined;
+          throw err;
+        }
+      },
+      async getFunctionUrl(input) {
+        try {
+          return (await client.send(new sdk.GetFunctionUrlConfigCommand(input))).FunctionUrl;
+        } catch (err) {
+          if (isNotFound(err)) return undefined;
+          throw err;
+        }
+      }
+    };
+  }
+};
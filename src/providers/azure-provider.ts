@@ -0,0 +1,286 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  CloudProvider,
+  CredentialStatus,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger,
+  Project
+} from '../types';
+import { CloudCredentialManager, credentialsFromEnv } from '../core/cloud-credential-manager';
+import { createZip } from '../utils/archive';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, readReleaseEntries } from './release-files';
+import { RestApi, pollUntil } from './rest-api';
+import { throwIfAborted } from '../utils/abort';
+
+export interface AzureProviderOptions {
+  // Where deployment state and release packages are kept. Defaults to ./.ai-builder/azure
+  stateDir?: string;
+  // Token source. Defaults to AZURE_ACCESS_TOKEN
+  credentials?: CloudCredentialManager;
+  pollInterval?: number;
+}
+
+interface AzureDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  target: DeploymentTarget;
+  appName: string;
+  kuduId: string;
+  version: string;
+  packagePath: string;
+  url: string;
+  deployedAt: string;
+  // Blue-green: the color the package was staged in, and the slot holding it
+  color?: DeploymentColor;
+  slot?: string;
+}
+
+const DEFAULT_MANAGEMENT_URL = 'https://management.azure.com';
+const SLOT_SWAP_API_VERSION = '2022-03-01';
+
+// Kudu deployment status codes
+const KUDU_FAILED = 3;
+const KUDU_SUCCESS = 4;
+
+/**
+ * Deploys the build output to Azure App Service with Kudu zip deploy, which syncs wwwroot to the package
+ * and so deletes the files the previous deployment left that the new one does not have.
+ * Each version's package is kept under the state directory because Kudu cannot redeploy an
+ * earlier zip by itself; rollback re-uploads the stored package.
+ * Blue-green deployments go to a deployment slot (`config.slot`, default `staging`) and are swapped into
+ * production through Azure Resource Manager, which needs `subscriptionId` and `resourceGroup` on the target.
+ */
+export class AzureProvider implements CloudProvider {
+  name = 'azure';
+  type = 'azure' as const;
+
+  private stateDir: string;
+  private state: ProviderStateStore<AzureDeploymentState>;
+  private credentials: CloudCredentialManager;
+  private pollInterval: number;
+
+  constructor(private logger: Logger, options: AzureProviderOptions = {}) {
+    this.stateDir = options.stateDir || path.join(process.cwd(), '.ai-builder', 'azure');
+    this.state = new ProviderStateStore(path.join(this.stateDir, 'deployments'));
+    this.credentials = options.credentials || credentialsFromEnv('AZURE_ACCESS_TOKEN', logger);
+    this.pollInterval = options.pollInterval ?? 2000;
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `azure_${Date.now()}`;
+    const appName = appNameFor(target, project.name);
+
+    const zip = createZip(await readReleaseEntries(await collectReleaseFiles(project)));
+    const packagePath = path.join(this.stateDir, 'packages', appName, `${project.version}.zip`);
+    await fs.outputFile(packagePath, zip);
+
+    // Blue-green: the package goes to the slot that is swapped into production on activation
+    const slot = config.color ? String(target.config.slot || 'staging') : undefined;
+
+    // Kudu cannot abort a zip deploy once it has been posted
+    throwIfAborted(config.signal, 'Azure deploy cancelled');
+    this.logger.info(`Zip-deploying ${project.name} ${project.version} to App Service '${appName}'${slot ? ` slot '${slot}'` : ''} (${zip.length} bytes)`);
+    const kuduDeployment = await this.zipDeploy(target, appName, zip, project.version, slot);
+    const url = publicUrl(target, appName);
+
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      target,
+      appName,
+      kuduId: kuduDeployment.id,
+      version: project.version,
+      packagePath,
+      url,
+      deployedAt: new Date().toISOString(),
+      color: config.color,
+      slot
+    });
+
+    const resultUrl = slot ? `https://${appName}-${slot}.azurewebsites.net` : url;
+    this.logger.info(`App Service '${appName}'${slot ? ` slot '${slot}'` : ''} is running ${project.version} at ${resultUrl}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: resultUrl,
+      endpoint: `${resultUrl}/api`,
+      metadata: {
+        type: 'azure',
+        appName,
+        kuduDeploymentId: kuduDeployment.id,
+        packageSize: zip.length,
+        slot
+      }
+    };
+  }
+
+  /**
+   * Swap the slot a blue-green deploy staged into production. The previous production build ends up in the
+   * slot, so activating it again swaps back.
+   */
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color || !state.slot) {
+      throw new Error(`Azure deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+    const { subscriptionId, resourceGroup } = state.target.config;
+    if (!subscriptionId || !resourceGroup) {
+      throw new Error(`Azure target '${state.target.name}' needs config.subscriptionId and config.resourceGroup to swap slots`);
+    }
+
+    const arm = new RestApi({
+      service: 'Azure',
+      baseUrl: state.target.config.managementUrl || DEFAULT_MANAGEMENT_URL,
+      credentials: this.credentials,
+      tokenVariable: 'AZURE_ACCESS_TOKEN'
+    });
+    const site = `/subscriptions/${encodeURIComponent(subscriptionId)}/resourceGroups/${encodeURIComponent(resourceGroup)}/providers/Microsoft.Web/sites/${encodeURIComponent(state.appName)}`;
+    const response = await arm.send('POST', `${site}/slots/${encodeURIComponent(state.slot)}/slotsswap?api-version=${SLOT_SWAP_API_VERSION}`, JSON.stringify({
+      targetSlot: 'production',
+      preserveVnet: true
+    }), { 'Content-Type': 'application/json' });
+
+    // The swap runs asynchronously; Location answers 202 until it is done
+    const location = response.headers.location;
+    if (response.statusCode === 202 && location) {
+      await pollUntil(async () => {
+        const status = await arm.raw('GET', String(location));
+        if (status.statusCode === 202) return undefined;
+        if (status.statusCode < 200 || status.statusCode >= 300) {
+          throw new Error(`Azure slot swap for '${state.appName}' failed (HTTP ${status.statusCode})`);
+        }
+        return true;
+      }, this.pollInterval, Number(state.target.config.timeout || 900) * 1000, `the '${state.slot}' slot of '${state.appName}' to swap`);
+    }
+
+    this.logger.info(`App Service '${state.appName}' now serves the ${state.color} build ${state.version}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: state.url,
+      endpoint: `${state.url}/api`,
+      metadata: { type: 'azure', appName: state.appName, slot: state.slot, color: state.color }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    const deployment = await this.api(state.target, state.appName).json('GET', `/api/deployments/${encodeURIComponent(state.kuduId)}`);
+    return mapKuduStatus(deployment);
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back Azure deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+
+    const packagePath = path.join(path.dirname(state.packagePath), `${targetVersion}.zip`);
+    if (!(await fs.pathExists(packagePath))) {
+      throw new Error(`No package for version ${targetVersion} of '${state.appName}' at '${packagePath}'`);
+    }
+
+    const kuduDeployment = await this.zipDeploy(state.target, state.appName, await fs.readFile(packagePath), targetVersion);
+    await this.state.save(deploymentId, { ...state, version: targetVersion, kuduId: kuduDeployment.id, packagePath });
+    this.logger.info(`App Service '${state.appName}' is running ${targetVersion} again`);
+  }
+
+  async listDeployments(): Promise<Deployment[]> {
+    const apps = new Map<string, AzureDeploymentState>();
+    for (const state of await this.state.list()) {
+      apps.set(state.appName, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const state of apps.values()) {
+      const history: any[] = await this.api(state.target, state.appName).json('GET', '/api/deployments');
+      for (const d of history) {
+        deployments.push({
+          id: d.id,
+          projectId: state.projectId,
+          target: state.target,
+          version: d.message || 'unknown',
+          status: mapKuduStatus(d),
+          logs: [],
+          result: { success: d.status === KUDU_SUCCESS, deploymentId: d.id, url: state.url, metadata: { active: Boolean(d.active) } },
+          createdAt: new Date(d.received_time || d.start_time)
+        });
+      }
+    }
+    return deployments;
+  }
+
+  private async zipDeploy(target: DeploymentTarget, appName: string, zip: Buffer, version: string, slot?: string): Promise<any> {
+    const api = this.api(target, appName, slot);
+    const response = await api.send('POST', `/api/zipdeploy?isAsync=true&deployer=ai-builder&message=${encodeURIComponent(version)}`, zip, {
+      'Content-Type': 'application/zip'
+    });
+
+    // Async zip deploy answers 202 with the deployment's status URL in Location
+    const statusUrl = String(response.headers.location || '/api/deployments/latest');
+    return pollUntil(async () => {
+      const deployment = await api.json('GET', statusUrl);
+      if (deployment.status === KUDU_FAILED) {
+        throw new Error(`Azure zip deploy to '${appName}' failed: ${deployment.status_text || deployment.log_url || 'see the Kudu deployment log'}`);
+      }
+      return deployment.status === KUDU_SUCCESS && deployment.complete !== false ? deployment : undefined;
+    }, this.pollInterval, Number(target.config.timeout || 900) * 1000, `Azure deployment to '${appName}'`);
+  }
+
+  async checkReachability(target: DeploymentTarget, project: Project): Promise<void> {
+    await this.api(target, appNameFor(target, project.name)).checkReachable();
+  }
+
+  getCredentialStatus(): CredentialStatus {
+    return this.credentials.getStatus();
+  }
+
+  // Kudu of the app, or of one of its deployment slots
+  private api(target: DeploymentTarget, appName: string, slot?: string): RestApi {
+    return new RestApi({
+      service: 'Azure',
+      baseUrl: target.config.baseUrl || `https://${appName}${slot ? `-${slot}` : ''}.scm.azurewebsites.net`,
+      credentials: this.credentials,
+      tokenVariable: 'AZURE_ACCESS_TOKEN'
+    });
+  }
+
+  private async requireState(deploymentId: string): Promise<AzureDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown Azure deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function appNameFor(target: DeploymentTarget, projectName: string): string {
+  return String(target.config.appName || projectName).toLowerCase().replace(/[^a-z0-9-]/g, '-');
+}
+
+function publicUrl(target: DeploymentTarget, appName: string): string {
+  return `https://${target.config.domain || `${appName}.azurewebsites.net`}`;
+}
+
+function mapKuduStatus(deployment: any): DeploymentStatus {
+  switch (deployment.status) {
+    case KUDU_SUCCESS:
+      return DeploymentStatus.SUCCESS;
+    case KUDU_FAILED:
+      return DeploymentStatus.FAILED;
+    case 0:
+      return DeploymentStatus.PENDING;
+    case 1:
+      return DeploymentStatus.BUILDING;
+    default:
+      return DeploymentStatus.DEPLOYING;
+  }
+}
@@ -0,0 +1,435 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  CloudProvider,
+  Deployment,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  Logger
+} from '../types';
+import { httpRequest, parseJsonBody, HttpResponse } from '../utils/http-client';
+import { createTar, ArchiveEntry } from '../utils/archive';
+import { throwIfAborted } from '../utils/abort';
+
+export interface DockerProviderOptions {
+  // Path to the Docker Engine unix socket. Defaults to DOCKER_HOST (unix://) or /var/run/docker.sock
+  socketPath?: string;
+}
+
+const LABEL_DEPLOYMENT = 'ai-builder.deployment';
+const LABEL_PROJECT = 'ai-builder.project';
+const LABEL_TARGET = 'ai-builder.target';
+const LABEL_VERSION = 'ai-builder.version';
+// Blue-green containers: their color and the host port that serves the live one
+const LABEL_COLOR = 'ai-builder.color';
+const LABEL_LIVE_PORT = 'ai-builder.live-port';
+// The deployment whose container an in-place deploy replaced, so rolling back to it finds the target's container
+const LABEL_REPLACED = 'ai-builder.replaced';
+
+// Directories never sent to the Docker daemon as build context
+const CONTEXT_EXCLUDES = ['node_modules', '.git', '.ai-builder'];
+
+/**
+ * Deploys projects as containers through the Docker Engine HTTP API.
+ * Images are tagged `${project.name}:${version}` so previous versions stay available for rollback.
+ * Blue-green deployments run a `-blue` and a `-green` container; the idle one is published on a
+ * random host port and the live one on the target port.
+ */
+export class DockerProvider implements CloudProvider {
+  name = 'docker';
+  type = 'docker' as const;
+
+  private socketPath: string;
+
+  constructor(private logger: Logger, options: DockerProviderOptions = {}) {
+    this.socketPath = options.socketPath || resolveDockerSocket();
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `docker_${Date.now()}`;
+    const repository = imageRepository(target.config.image || project.name);
+    const tag = `${repository}:${project.version}`;
+    const containerPort = Number(target.config.containerPort || target.config.port || 8080);
+    const hostPort = Number(target.config.port || 8080);
+
+    this.logger.info(`Building Docker image ${tag} for ${project.name}`);
+    const context = await this.createBuildContext(config, containerPort);
+    await this.buildImage(tag, context);
+    // The old container keeps running until here; the built image is kept for later deploys
+    throwIfAborted(config.signal, 'Docker deploy cancelled');
+
+    // Blue-green: only the idle color's container is replaced
+    const color = config.color;
+    const containerName = containerNameFor(project.name, target.name) + (color ? `-${color}` : '');
+    const replaced = await this.inspectContainer(containerName, true);
+    await this.removeContainer(containerName);
+
+    const labels: Record<string, string> = {
+      [LABEL_DEPLOYMENT]: deploymentId,
+      [LABEL_PROJECT]: project.id,
+      [LABEL_TARGET]: target.name,
+      [LABEL_VERSION]: project.version
+    };
+    if (replaced?.Config.Labels?.[LABEL_DEPLOYMENT]) {
+      labels[LABEL_REPLACED] = replaced.Config.Labels[LABEL_DEPLOYMENT];
+    }
+    if (color) {
+      labels[LABEL_COLOR] = color;
+      labels[LABEL_LIVE_PORT] = String(hostPort);
+    }
+
+    const containerId = await this.createContainer(containerName, {
+      Image: tag,
+      Env: Object.entries({ ...config.environment, PORT: String(containerPort) }).map(([key, value]) => `${key}=${value}`),
+      ExposedPorts: { [`${containerPort}/tcp`]: {} },
+      Labels: labels,
+      HostConfig: {
+        // An empty HostPort lets Docker pick a free one for the staged color
+        PortBindings: { [`${containerPort}/tcp`]: [{ HostPort: color ? '' : String(hostPort) }] },
+        RestartPolicy: { Name: 'unless-stopped' }
+      }
+    });
+    await this.startContainer(containerId);
+    const port = color ? publishedPort(await this.inspectContainer(containerId)) : hostPort;
+
+    this.logger.info(`Container ${containerName} (${containerId.substring(0, 12)}) running ${tag} on port ${port}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: `http://localhost:${port}`,
+      endpoint: `http://localhost:${port}/api`,
+      metadata: {
+        type: 'docker',
+        image: tag,
+        containerId,
+        containerName,
+        port,
+        color
+      }
+    };
+  }
+
+  /**
+   * Give a staged color the target port. Docker cannot move a port binding, so both color containers are
+   * recreated from their own specs with the bindings swapped; the previous color keeps running on a random port.
+   */
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const container = await this.findContainer(deploymentId);
+    if (!container) {
+      throw new Error(`No container found for deployment ${deploymentId}`);
+    }
+
+    const staged = await this.inspectContainer(container.Id);
+    const color = staged.Config.Labels[LABEL_COLOR];
+    const livePort = staged.Config.Labels[LABEL_LIVE_PORT];
+    if (!color || !livePort) {
+      throw new Error(`Container of deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+
+    const stagedName = String(staged.Name).replace(/^\//, '');
+    const otherName = stagedName.replace(/-(blue|green)$/, color === 'blue' ? '-green' : '-blue');
+    const other = await this.inspectContainer(otherName, true);
+
+    if (other) await this.removeContainer(otherName);
+    // A container left by an earlier in-place deploy holds the port and has no color to stay warm in
+    await this.removeContainer(stagedName.replace(/-(blue|green)$/, ''));
+    await this.removeContainer(stagedName);
+    const containerId = await this.recreateContainer(stagedName, staged, livePort);
+    if (other) await this.recreateContainer(otherName, other, '');
+
+    this.logger.info(`Container ${stagedName} now serves port ${livePort}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: `http://localhost:${livePort}`,
+      endpoint: `http://localhost:${livePort}/api`,
+      metadata: {
+        type: 'docker',
+        image: staged.Config.Image,
+        containerId,
+        containerName: stagedName,
+        port: Number(livePort),
+        color
+      }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const container = await this.findContainer(deploymentId);
+    if (!container) {
+      throw new Error(`No container found for deployment ${deploymentId}`);
+    }
+    return mapContainerState(container.State);
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back Docker deployment ${deploymentId} to version ${targetVersion}`);
+
+    // An in-place deploy removed the container of the deployment it replaced; its successor runs on the same target
+    const container = await this.findContainer(deploymentId) || (await this.listContainers(`${LABEL_REPLACED}=${deploymentId}`))[0];
+    if (!container) {
+      throw new Error(`No container found for deployment ${deploymentId}`);
+    }
+
+    const details = await this.inspectContainer(container.Id);
+
+    const repository = String(details.Config.Image).replace(/:[^:/]+$/, '');
+    const previousTag = `${repository}:${targetVersion}`;
+    const image = await this.request('GET', `/images/${encodeURIComponent(previousTag)}/json`);
+    if (image.statusCode === 404) {
+      throw new Error(`Image ${previousTag} not found; cannot roll back`);
+    }
+    this.assertOk(image, 'inspect image');
+
+    const containerName = String(details.Name).replace(/^\//, '');
+    await this.removeContainer(containerName);
+
+    const containerId = await this.createContainer(containerName, {
+      Image: previousTag,
+      Env: details.Config.Env,
+      ExposedPorts: details.Config.ExposedPorts,
+      Labels: { ...details.Config.Labels, [LABEL_VERSION]: targetVersion },
+      HostConfig: details.HostConfig
+    });
+    await this.startContainer(containerId);
+
+    this.logger.info(`Container ${containerName} now running ${previousTag}`);
+  }
+
+  async checkReachability(): Promise<void> {
+    const response = await this.request('GET', '/_ping');
+    this.assertOk(response, 'answer a ping');
+  }
+
+  async listDeployments(): Promise<Deployment[]> {
+    const containers = await this.listContainers(LABEL_DEPLOYMENT);
+
+    return containers.map((container: any) => ({
+      id: container.Labels[LABEL_DEPLOYMENT],
+      projectId: container.Labels[LABEL_PROJECT],
+      target: {
+        name: container.Labels[LABEL_TARGET] || 'docker',
+        type: 'docker',
+        config: { host: 'localhost', image: container.Image },
+        environment: 'development'
+      },
+      version: container.Labels[LABEL_VERSION],
+      status: mapContainerState(container.State),
+      logs: [],
+      createdAt: new Date(container.Created * 1000)
+    }));
+  }
+
+  private async createBuildContext(config: DeploymentConfig, containerPort: number): Promise<Buffer> {
+    const { project, buildResult } = config;
+    const dockerfile = config.target.config.dockerfile || 'Dockerfile';
+    const entries: ArchiveEntry[] = [];
+
+    // A project-provided Dockerfile gets the whole project tree as context
+    if (await fs.pathExists(path.join(project.path, dockerfile))) {
+      await collectContextFiles(project.path, '', entries);
+      if (dockerfile !== 'Dockerfile') {
+        entries.push({ name: 'Dockerfile', content: await fs.readFile(path.join(project.path, dockerfile)) });
+      }
+      return createTar(entries);
+    }
+
+    const outputDir = project.config.build.outputDir || 'dist';
+    for (const artifact of buildResult.artifacts) {
+      if (artifact.type !== 'file') continue;
+      const artifactPath = path.join(project.path, outputDir, artifact.path);
+      entries.push({ name: toPosix(path.join(outputDir, artifact.path)), content: await fs.readFile(artifactPath) });
+    }
+
+    for (const manifest of ['package.json', 'package-lock.json']) {
+      const manifestPath = path.join(project.path, manifest);
+      if (await fs.pathExists(manifestPath)) {
+        entries.push({ name: manifest, content: await fs.readFile(manifestPath) });
+      }
+    }
+
+    entries.push({ name: 'Dockerfile', content: Buffer.from(this.generateDockerfile(config, containerPort)) });
+    return createTar(entries);
+  }
+
+  private generateDockerfile(config: DeploymentConfig, containerPort: number): string {
+    const { project, target } = config;
+    const outputDir = project.config.build.outputDir || 'dist';
+    const start = project.config.build.scripts?.start;
+    const command = start
+      ? ['sh', '-c', start]
+      : ['node', toPosix(path.join(outputDir, 'index.js'))];
+
+    return [
+      `FROM ${target.config.baseImage || 'node:18-alpine'}`,
+      'WORKDIR /app',
+      'COPY . .',
+      'RUN if [ -f package.json ]; then npm install --omit=dev; fi',
+      `ENV PORT=${containerPort}`,
+      `EXPOSE ${containerPort}`,
+      `CMD ${JSON.stringify(command)}`,
+      ''
+    ].join('\n');
+  }
+
+  private async buildImage(tag: string, context: Buffer): Promise<void> {
+    const response = await this.request('POST', `/build?t=${encodeURIComponent(tag)}&rm=1`, context, {
+      'Content-Type': 'application/x-tar'
+    });
+    this.assertOk(response, 'build image');
+
+    // The build endpoint streams newline-delimited JSON progress messages
+    for (const line of response.body.toString('utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (message.error || message.errorDetail) {
+        throw new Error(`Docker build failed: ${message.error || message.errorDetail.message}`);
+      }
+      if (message.stream && message.stream.trim()) {
+        this.logger.debug(message.stream.trim());
+      }
+    }
+  }
+
+  private async createContainer(name: string, spec: Record<string, any>): Promise<string> {
+    const response = await this.request('POST', `/containers/create?name=${encodeURIComponent(name)}`, JSON.stringify(spec), {
+      'Content-Type': 'application/json'
+    });
+    this.assertOk(response, 'create container');
+    return parseJsonBody(response).Id;
+  }
+
+  private async recreateContainer(name: string, details: any, hostPort: string): Promise<string> {
+    const portKey = Object.keys(details.HostConfig.PortBindings || {})[0];
+    const containerId = await this.createContainer(name, {
+      Image: details.Config.Image,
+      Env: details.Config.Env,
+      ExposedPorts: details.Config.ExposedPorts,
+      Labels: details.Config.Labels,
+      HostConfig: { ...details.HostConfig, PortBindings: portKey ? { [portKey]: [{ HostPort: hostPort }] } : {} }
+    });
+    await this.startContainer(containerId);
+    return containerId;
+  }
+
+  private async inspectContainer(idOrName: string, allowMissing: boolean = false): Promise<any> {
+    const response = await this.request('GET', `/containers/${encodeURIComponent(idOrName)}/json`);
+    if (allowMissing && response.statusCode === 404) {
+      return undefined;
+    }
+    this.assertOk(response, 'inspect container');
+    return parseJsonBody(response);
+  }
+
+  private async startContainer(id: string): Promise<void> {
+    const response = await this.request('POST', `/containers/${id}/start`);
+    // 304: container already started
+    if (response.statusCode !== 304) {
+      this.assertOk(response, 'start container');
+    }
+  }
+
+  private async removeContainer(name: string): Promise<void> {
+    const response = await this.request('DELETE', `/containers/${encodeURIComponent(name)}?force=1`);
+    if (response.statusCode !== 404) {
+      this.assertOk(response, 'remove container');
+    }
+  }
+
+  private async findContainer(deploymentId: string): Promise<any | undefined> {
+    const containers = await this.listContainers(`${LABEL_DEPLOYMENT}=${deploymentId}`);
+    return containers[0];
+  }
+
+  private async listContainers(labelFilter: string): Promise<any[]> {
+    const filters = encodeURIComponent(JSON.stringify({ label: [labelFilter] }));
+    const response = await this.request('GET', `/containers/json?all=1&filters=${filters}`);
+    this.assertOk(response, 'list containers');
+    return parseJsonBody<any[]>(response) || [];
+  }
+
+  private request(method: string, requestPath: string, body?: Buffer | string, headers?: Record<string, string>): Promise<HttpResponse> {
+    return httpRequest({ socketPath: this.socketPath, method, path: requestPath, body, headers });
+  }
+
+  private assertOk(response: HttpResponse, action: string): void {
+    if (response.statusCode >= 200 && response.statusCode < 300) return;
+
+    let message = response.body.toString('utf-8');
+    try {
+      message = parseJsonBody(response)?.message || message;
+    } catch {
+      // non-JSON error body
+    }
+    throw new Error(`Docker failed to ${action} (HTTP ${response.statusCode}): ${message}`);
+  }
+}
+
+function resolveDockerSocket(): string {
+  const dockerHost = process.env.DOCKER_HOST;
+  if (dockerHost && dockerHost.startsWith('unix://')) {
+    return dockerHost.slice('unix://'.length);
+  }
+  return '/var/run/docker.sock';
+}
+
+function mapContainerState(state: string): DeploymentStatus {
+  switch (state) {
+    case 'running':
+      return DeploymentStatus.SUCCESS;
+    case 'created':
+    case 'restarting':
+    case 'paused':
+      return DeploymentStatus.DEPLOYING;
+    default:
+      return DeploymentStatus.FAILED;
+  }
+}
+
+function publishedPort(details: any): number {
+  const bindings: any[] = Object.values(details.NetworkSettings?.Ports || {}).find(Boolean) as any[] || [];
+  const port = Number(bindings[0]?.HostPort);
+  if (!port) {
+    throw new Error(`Docker did not publish a port for container ${details.Name}`);
+  }
+  return port;
+}
+
+function imageRepository(name: string): string {
+  // Image repositories must be lowercase; tags are appended separately
+  return name.toLowerCase().replace(/:[^:/]+$/, '').replace(/[^a-z0-9._\/-]/g, '-');
+}
+
+function containerNameFor(projectName: string, targetName: string): string {
+  return `ai-builder-${projectName}-${targetName}`.replace(/[^a-zA-Z0-9_.-]/g, '-');
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+async function collectContextFiles(basePath: string, relativePath: string, entries: ArchiveEntry[]): Promise<void> {
+  const dirEntries = await fs.readdir(path.join(basePath, relativePath), { withFileTypes: true });
+
+  for (const entry of dirEntries) {
+    if (CONTEXT_EXCLUDES.includes(entry.name)) continue;
+    const entryRelativePath = path.join(relativePath, entry.name);
+
+    if (entry.isDirectory()) {
+      await collectContextFiles(basePath, entryRelativePath, entries);
+    } else if (entry.isFile()) {
+      const fullPath = path.join(basePath, entryRelativePath);
+      const stats = await fs.stat(fullPath);
+      entries.push({ name: toPosix(entryRelativePath), content: await fs.readFile(fullPath), mode: stats.mode & 0o777 });
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import * as path from 'path';
+import {
+  CloudProvider,
+  CredentialStatus,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger
+} from '../types';
+import { CloudCredentialManager, credentialsFromEnv } from '../core/cloud-credential-manager';
+import { parseJsonBody } from '../utils/http-client';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, contentTypeFor, readReleaseEntries } from './release-files';
+import { RestApi } from './rest-api';
+import { throwIfAborted } from '../utils/abort';
+
+export interface GCPProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/gcp
+  stateDir?: string;
+  // Token source. Defaults to GOOGLE_OAUTH_ACCESS_TOKEN
+  credentials?: CloudCredentialManager;
+}
+
+interface GCPDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  target: DeploymentTarget;
+  bucket: string;
+  version: string;
+  url: string;
+  deployedAt: string;
+  // Blue-green: the color the release was staged in
+  color?: DeploymentColor;
+}
+
+interface LiveMarker {
+  deploymentId: string;
+  version: string;
+  activatedAt: string;
+}
+
+const DEFAULT_BASE_URL = 'https://storage.googleapis.com';
+const RELEASES_PREFIX = 'releases/';
+// Records which release is currently copied to the live location
+const LIVE_MARKER = `${RELEASES_PREFIX}live.json`;
+
+/**
+ * Deploys the build output to a Cloud Storage bucket through the JSON API.
+ * Every version is uploaded under `releases/<version>/` and then synced to the live prefix (live
+ * objects the release does not have are deleted), so rollback only has to sync an earlier release back. Blue-green deployments stop after the upload
+ * (the release is served from its own prefix) and are copied to the live prefix on activation.
+ */
+export class GCPProvider implements CloudProvider {
+  name = 'gcp';
+  type = 'gcp' as const;
+
+  private state: ProviderStateStore<GCPDeploymentState>;
+  private credentials: CloudCredentialManager;
+
+  constructor(private logger: Logger, options: GCPProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'gcp'));
+    this.credentials = options.credentials || credentialsFromEnv('GOOGLE_OAUTH_ACCESS_TOKEN', logger);
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `gcp_${Date.now()}`;
+    const bucket = requireBucket(target);
+    const api = this.api(target);
+    const releasePrefix = `${RELEASES_PREFIX}${project.version}/`;
+
+    const entries = await readReleaseEntries(await collectReleaseFiles(project));
+    this.logger.info(`Uploading ${entries.length} files to gs://${bucket}/${releasePrefix}`);
+    for (const entry of entries) {
+      throwIfAborted(config.signal, 'GCP upload cancelled');
+      await this.upload(api, bucket, `${releasePrefix}${entry.name}`, entry.content, contentTypeFor(entry.name));
+    }
+
+    throwIfAborted(config.signal, 'GCP upload cancelled');
+    if (!config.color) {
+      await this.activateRelease(api, target, bucket, project.version, deploymentId);
+    }
+    const url = publicUrl(target, bucket);
+
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      target,
+      bucket,
+      version: project.version,
+      url,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    this.logger.info(config.color
+      ? `Release ${project.version} is staged as ${config.color} in gs://${bucket}/${releasePrefix}`
+      : `gs://${bucket} now serves ${project.version}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: config.color ? releaseUrl(target, bucket, project.version) : url,
+      endpoint: `${url.replace(/\/index\.html$/, '')}/api`,
+      metadata: {
+        type: 'gcp',
+        bucket,
+        release: `gs://${bucket}/${releasePrefix}`,
+        files: entries.length
+      }
+    };
+  }
+
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`GCP deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+
+    await this.activateRelease(this.api(state.target), state.target, state.bucket, state.version, deploymentId);
+    this.logger.info(`gs://${state.bucket} now serves the ${state.color} release ${state.version}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: state.url,
+      endpoint: `${state.url.replace(/\/index\.html$/, '')}/api`,
+      metadata: { type: 'gcp', bucket: state.bucket, release: `gs://${state.bucket}/${RELEASES_PREFIX}${state.version}/`, color: state.color }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    const marker = await this.readMarker(this.api(state.target), state.bucket);
+    return marker ? DeploymentStatus.SUCCESS : DeploymentStatus.FAILED;
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back GCP deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+
+    await this.activateRelease(this.api(state.target), state.target, state.bucket, targetVersion, deploymentId);
+    this.logger.info(`gs://${state.bucket} now serves ${targetVersion}`);
+  }
+
+  /**
+   * Lists the releases stored in every bucket this provider has deployed to.
+   */
+  async listDeployments(): Promise<Deployment[]> {
+    const states = await this.state.list();
+    const buckets = new Map<string, GCPDeploymentState>();
+    for (const state of states) {
+      buckets.set(state.bucket, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const state of buckets.values()) {
+      const api = this.api(state.target);
+      const marker = await this.readMarker(api, state.bucket);
+      const listing = await api.json('GET', `/storage/v1/b/${encodeURIComponent(state.bucket)}/o?prefix=${RELEASES_PREFIX}&delimiter=/`);
+
+      for (const prefix of listing.prefixes || []) {
+        const version = prefix.slice(RELEASES_PREFIX.length).replace(/\/$/, '');
+        const known = states.find(s => s.bucket === state.bucket && s.version === version);
+        deployments.push({
+          id: known ? known.deploymentId : `gs://${state.bucket}/${prefix}`,
+          projectId: state.projectId,
+          target: state.target,
+          version,
+          status: DeploymentStatus.SUCCESS,
+          logs: [],
+          result: {
+            success: true,
+            deploymentId: known ? known.deploymentId : prefix,
+            url: state.url,
+            metadata: { release: `gs://${state.bucket}/${prefix}`, current: marker?.version === version }
+          },
+          createdAt: known ? new Date(known.deployedAt) : new Date(0)
+        });
+      }
+    }
+    return deployments;
+  }
+
+  /**
+   * Copy every object of a release to the live prefix, delete the live objects the release does not
+   * have and record the release in the live marker.
+   */
+  private async activateRelease(api: RestApi, target: DeploymentTarget, bucket: string, version: string, deploymentId: string): Promise<void> {
+    const releasePrefix = `${RELEASES_PREFIX}${version}/`;
+    const livePrefix = livePrefixFor(target);
+    const objects = await this.listObjects(api, bucket, releasePrefix);
+    if (objects.length === 0) {
+      throw new Error(`Release ${version} not found in gs://${bucket}/${releasePrefix}`);
+    }
+
+    const liveObjects = new Set<string>();
+    for (const name of objects) {
+      const destination = `${livePrefix}${name.slice(releasePrefix.length)}`;
+      liveObjects.add(destination);
+      await api.json('POST', `/storage/v1/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(name)}/copyTo/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(destination)}`, {});
+    }
+
+    // The releases share the bucket with a root live prefix and must survive the sync
+    for (const name of await this.listObjects(api, bucket, livePrefix)) {
+      if (!liveObjects.has(name) && !name.startsWith(RELEASES_PREFIX)) {
+        await api.send('DELETE', `/storage/v1/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(name)}`);
+      }
+    }
+
+    const marker: LiveMarker = { deploymentId, version, activatedAt: new Date().toISOString() };
+    await this.upload(api, bucket, LIVE_MARKER, Buffer.from(JSON.stringify(marker)), 'application/json');
+  }
+
+  private async listObjects(api: RestApi, bucket: string, prefix: string): Promise<string[]> {
+    const names: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await api.json('GET', `/storage/v1/b/${encodeURIComponent(bucket)}/o?prefix=${encodeURIComponent(prefix)}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`);
+      names.push(...(page.items || []).map((item: any) => item.name));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return names;
+  }
+
+  private async upload(api: RestApi, bucket: string, name: string, content: Buffer, contentType: string): Promise<void> {
+    await api.send('POST', `/upload/storage/v1/b/${encodeURIComponent(bucket)}/o?uploadType=media&name=${encodeURIComponent(name)}`, content, {
+      'Content-Type': contentType
+    });
+  }
+
+  private async readMarker(api: RestApi, bucket: string): Promise<LiveMarker | undefined> {
+    const response = await api.raw('GET', `/storage/v1/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(LIVE_MARKER)}?alt=media`);
+    if (response.statusCode === 404) return undefined;
+    if (response.statusCode !== 200) {
+      throw new Error(`GCP API failed to read gs://${bucket}/${LIVE_MARKER} (HTTP ${response.statusCode})`);
+    }
+    return parseJsonBody<LiveMarker>(response);
+  }
+
+  async checkReachability(target: DeploymentTarget): Promise<void> {
+    await this.api(target).checkReachable();
+  }
+
+  getCredentialStatus(): CredentialStatus {
+    return this.credentials.getStatus();
+  }
+
+  private api(target: DeploymentTarget): RestApi {
+    return new RestApi({
+      service: 'GCP',
+      baseUrl: target.config.baseUrl || DEFAULT_BASE_URL,
+      credentials: this.credentials,
+      tokenVariable: 'GOOGLE_OAUTH_ACCESS_TOKEN'
+    });
+  }
+
+  private async requireState(deploymentId: string): Promise<GCPDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown GCP deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function requireBucket(target: DeploymentTarget): string {
+  if (!target.config.bucket) {
+    throw new Error(`GCP target '${target.name}' needs config.bucket`);
+  }
+  return target.config.bucket;
+}
+
+function livePrefixFor(target: DeploymentTarget): string {
+  const prefix = String(target.config.prefix || '').replace(/^\/+|\/+$/g, '');
+  return prefix ? `${prefix}/` : '';
+}
+
+function publicUrl(target: DeploymentTarget, bucket: string): string {
+  if (target.config.domain) {
+    return `https://${target.config.domain}`;
+  }
+  return `https://storage.googleapis.com/${bucket}/${livePrefixFor(target)}index.html`;
+}
+
+// Where a release can be fetched before it is copied to the live prefix
+function releaseUrl(target: DeploymentTarget, bucket: string, version: string): string {
+  if (target.config.domain) {
+    return `https://${target.config.domain}/${RELEASES_PREFIX}${version}/`;
+  }
+  return `https://storage.googleapis.com/${bucket}/${RELEASES_PREFIX}${version}/index.html`;
+}
@@ -0,0 +1,492 @@
+import * as fs from 'fs-extra';
+import * as net from 'net';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import {
+  CloudProvider,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  Logger,
+  Project
+} from '../types';
+import { ProviderStateStore } from './provider-state';
+import { SecretResolverRegistry, createDefaultSecretResolvers } from '../core/secret-resolver';
+import { throwIfAborted } from '../utils/abort';
+
+export interface LocalProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/local
+  stateDir?: string;
+  // How long the process must stay alive after spawning before the deploy counts as started
+  startupGracePeriod?: number;
+  // Resolves the project's secrets again when rollback restarts a release. Defaults to the 'env' backend only
+  secrets?: SecretResolverRegistry;
+}
+
+interface LocalDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  projectPath: string;
+  targetName: string;
+  version: string;
+  command: string;
+  port: number;
+  pid: number;
+  // Without the secrets, whose values are never written here
+  environment: Record<string, string>;
+  // The project as deployed, whose environment.secrets references are resolved again on rollback
+  project?: Project;
+  releaseDir: string;
+  logFile: string;
+  pidFile: string;
+  startedAt: string;
+  // Blue-green: the color this deployment runs in, and the port its router should listen on
+  color?: DeploymentColor;
+  livePort?: number;
+}
+
+// Which color the router sends new connections to
+interface LocalRoute {
+  deploymentId: string;
+  color: DeploymentColor;
+  port: number;
+  routerPort: number;
+  // Canary: the staged deployment that gets `weight` percent of the new connections
+  canary?: { deploymentId: string; port: number; weight: number };
+}
+
+// Forwards each new connection to the port in live.json (or, for a share of them, its canary port),
+// so switching colors is a file write
+const ROUTER_SCRIPT = `const fs = require('fs');
+const net = require('net');
+const [routeFile, port] = process.argv.slice(2);
+net.createServer(client => {
+  let route;
+  try { route = JSON.parse(fs.readFileSync(routeFile, 'utf-8')); } catch (err) { return client.destroy(); }
+  const canary = route.canary && Math.random() * 100 < route.canary.weight;
+  const upstream = net.connect(canary ? route.canary.port : route.port, '127.0.0.1');
+  client.on('error', () => upstream.destroy());
+  upstream.on('error', () => client.destroy());
+  client.pipe(upstream).pipe(client);
+}).listen(Number(port));
+`;
+
+// Never copied into a release when the project is run from source
+const RELEASE_EXCLUDES = ['node_modules', '.git', '.ai-builder'];
+
+/**
+ * Runs the built project on this machine as a detached process.
+ * Each deployment is copied to `<project>/.ai-builder/local/<target>/releases/<deployment id>`, so
+ * staging a version never touches the copy a running process uses and rollback can restart an
+ * earlier release; the pidfile and log file live next to the releases directory. Only the newest
+ * `keepReleases` (default 5) releases are kept, besides the ones a running process or the router uses.
+ * Blue-green deployments run one process per color and put a small TCP router on the target port;
+ * canary deployments have the router send a share of the connections to the staged color.
+ */
+export class LocalProvider implements CloudProvider {
+  name = 'local';
+  type = 'local' as const;
+
+  private state: ProviderStateStore<LocalDeploymentState>;
+  private startupGracePeriod: number;
+  private secrets: SecretResolverRegistry;
+
+  constructor(private logger: Logger, options: LocalProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'local'), { mode: 0o600 });
+    this.startupGracePeriod = options.startupGracePeriod ?? 500;
+    this.secrets = options.secrets || createDefaultSecretResolvers();
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `local_${Date.now()}`;
+    this.logger.info(`Deploying ${project.name} to local environment`);
+
+    const targetDir = path.join(project.path, '.ai-builder', 'local', target.name);
+    const releaseDir = path.join(targetDir, 'releases', deploymentId);
+    await this.prepareRelease(config, releaseDir);
+
+    const command = await this.resolveStartCommand(config, releaseDir);
+    const color = config.color;
+    const pidFile = path.join(targetDir, color ? `${color}.pid` : 'app.pid');
+    const logFile = path.join(targetDir, color ? `${color}.log` : 'app.log');
+
+    // Last point at which the previous release is still untouched
+    throwIfAborted(config.signal, 'Local deploy cancelled');
+
+    // Replace whatever is currently running for this target (blue-green: in the idle color only)
+    await this.stopPidFile(pidFile);
+
+    // Under blue-green the target port belongs to the router
+    const port = await pickPort(color ? undefined : target.config.port);
+    const pid = await this.startProcess(command, releaseDir, { ...config.environment, PORT: String(port) }, logFile, pidFile);
+
+    const secretNames = Object.keys(project.config.environment?.secrets || {});
+    const environment = Object.fromEntries(Object.entries(config.environment).filter(([name]) => !secretNames.includes(name)));
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      projectPath: project.path,
+      targetName: target.name,
+      version: project.version,
+      command,
+      port,
+      pid,
+      environment,
+      project: { ...project, deployments: [] },
+      releaseDir,
+      logFile,
+      pidFile,
+      startedAt: new Date().toISOString(),
+      color,
+      livePort: color ? target.config.port : undefined
+    });
+    await this.pruneReleases(targetDir, Number(target.config.keepReleases || 5));
+
+    this.logger.info(`Local deployment ${deploymentId} running (pid ${pid}) on port ${port}${color ? ` as ${color}` : ''}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: `http://localhost:${port}`,
+      endpoint: `http://localhost:${port}/api`,
+      metadata: {
+        type: 'local',
+        port,
+        pid,
+        releaseDir,
+        logFile,
+        color
+      }
+    };
+  }
+
+  /**
+   * Point the target's router at a deployment's color, starting the router if it is not running.
+   */
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`Local deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+
+    const targetDir = path.dirname(state.pidFile);
+    const routeFile = path.join(targetDir, 'live.json');
+    const routerPidFile = path.join(targetDir, 'router.pid');
+    const previous: LocalRoute | undefined = await fs.readJson(routeFile).catch(() => undefined);
+
+    const routerRunning = await this.isPidFileAlive(routerPidFile);
+    if (!routerRunning) {
+      // A process from an earlier in-place deploy may still hold the target port
+      await this.stopPidFile(path.join(targetDir, 'app.pid'));
+    }
+    const routerPort = routerRunning && previous ? previous.routerPort : await pickPort(previous?.routerPort || state.livePort);
+
+    await writeRoute(routeFile, { deploymentId, color: state.color, port: state.port, routerPort });
+
+    if (!routerRunning) {
+      await fs.writeFile(path.join(targetDir, 'router.js'), ROUTER_SCRIPT);
+      await this.startProcess(`"${process.execPath}" router.js live.json ${routerPort}`, targetDir, {}, path.join(targetDir, 'router.log'), routerPidFile);
+    }
+
+    this.logger.info(`Local router on port ${routerPort} now sends traffic to ${state.color} (port ${state.port})`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: `http://localhost:${routerPort}`,
+      endpoint: `http://localhost:${routerPort}/api`,
+      metadata: {
+        type: 'local',
+        port: routerPort,
+        pid: state.pid,
+        releaseDir: state.releaseDir,
+        logFile: state.logFile,
+        color: state.color,
+        colorPort: state.port
+      }
+    };
+  }
+
+  /**
+   * Canary: have the router send `percent` of the new connections to a staged deployment, the rest to the live color.
+   */
+  async shiftTraffic(deploymentId: string, percent: number): Promise<void> {
+    const state = await this.requireState(deploymentId);
+    const targetDir = path.dirname(state.pidFile);
+    const routeFile = path.join(targetDir, 'live.json');
+    const route: LocalRoute | undefined = await fs.readJson(routeFile).catch(() => undefined);
+
+    if (!route || !await this.isPidFileAlive(path.join(targetDir, 'router.pid'))) {
+      if (percent === 0) return;
+      throw new Error(`No local router is running for target '${state.targetName}' to split the traffic`);
+    }
+
+    const { canary, ...live } = route;
+    await writeRoute(routeFile, percent > 0 ? { ...live, canary: { deploymentId, port: state.port, weight: percent } } : live);
+    this.logger.info(`Local router on port ${route.routerPort} now sends ${percent}% of new connections to ${state.color} (port ${state.port})`);
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    return isProcessAlive(state.pid) ? DeploymentStatus.SUCCESS : DeploymentStatus.FAILED;
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back local deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+
+    const release = state.version === targetVersion ? state : await this.findRelease(state, targetVersion);
+    if (!release || !(await fs.pathExists(release.releaseDir))) {
+      throw new Error(`No local release found for version ${targetVersion} of target '${state.targetName}'`);
+    }
+    const releaseDir = release.releaseDir;
+
+    const secrets = state.project ? await this.secrets.resolveAll(state.project) : {};
+    await this.stopPidFile(state.pidFile);
+    const pid = await this.startProcess(state.command, releaseDir, { ...state.environment, ...secrets, PORT: String(state.port) }, state.logFile, state.pidFile);
+
+    await this.state.save(deploymentId, { ...state, version: targetVersion, releaseDir, pid, startedAt: new Date().toISOString() });
+    this.logger.info(`Local deployment ${deploymentId} restarted from ${releaseDir} (pid ${pid})`);
+  }
+
+  /**
+   * Remove the release directory a cancelled deploy prepared, unless a running deployment uses it.
+   */
+  async cleanup(config: DeploymentConfig): Promise<void> {
+    if (!config.deploymentId) return;
+    const releaseDir = path.join(config.project.path, '.ai-builder', 'local', config.target.name, 'releases', config.deploymentId);
+    const inUse = (await this.state.list()).some(state => state.releaseDir === releaseDir && isProcessAlive(state.pid));
+    if (!inUse) {
+      await fs.remove(releaseDir);
+    }
+  }
+
+  async listDeployments(): Promise<Deployment[]> {
+    const states = await this.state.list();
+
+    return states.map(state => ({
+      id: state.deploymentId,
+      projectId: state.projectId,
+      target: {
+        name: state.targetName,
+        type: 'local',
+        config: { host: 'localhost', port: state.port },
+        environment: 'development'
+      },
+      version: state.version,
+      status: isProcessAlive(state.pid) ? DeploymentStatus.SUCCESS : DeploymentStatus.FAILED,
+      logs: [],
+      createdAt: new Date(state.startedAt)
+    }));
+  }
+
+  /**
+   * Stop the process backing a local deployment (no-op if it already exited).
+   */
+  async stop(deploymentId: string): Promise<void> {
+    const state = await this.state.get(deploymentId);
+    if (!state) return;
+    await this.stopProcess(state.pid);
+    await fs.remove(state.pidFile).catch(() => {});
+  }
+
+  private async prepareRelease(config: DeploymentConfig, releaseDir: string): Promise<void> {
+    const { project } = config;
+    const outputDir = path.resolve(project.path, project.config.build.outputDir || 'dist');
+
+    await fs.remove(releaseDir);
+    await fs.ensureDir(releaseDir);
+
+    if (await fs.pathExists(outputDir)) {
+      await fs.copy(outputDir, releaseDir);
+    } else {
+      // Projects without a build output run straight from source
+      for (const entry of await fs.readdir(project.path)) {
+        if (RELEASE_EXCLUDES.includes(entry)) continue;
+        await fs.copy(path.join(project.path, entry), path.join(releaseDir, entry));
+      }
+    }
+
+    // Share installed dependencies between releases instead of copying them
+    const nodeModules = path.join(project.path, 'node_modules');
+    if (await fs.pathExists(nodeModules) && !(await fs.pathExists(path.join(releaseDir, 'node_modules')))) {
+      await fs.symlink(nodeModules, path.join(releaseDir, 'node_modules'), 'junction');
+    }
+  }
+
+  private async resolveStartCommand(config: DeploymentConfig, releaseDir: string): Promise<string> {
+    const start = config.project.config.build.scripts?.start;
+    if (start) return start;
+
+    const packageJson = path.join(releaseDir, 'package.json');
+    if (await fs.pathExists(packageJson)) {
+      const pkg = await fs.readJson(packageJson);
+      if (pkg.scripts?.start) return 'npm start';
+    }
+
+    if (await fs.pathExists(path.join(releaseDir, 'index.js'))) {
+      return 'node index.js';
+    }
+
+    throw new Error(`No start command for '${config.project.name}': add build.scripts.start to the project config`);
+  }
+
+  private async startProcess(command: string, cwd: string, env: Record<string, string>, logFile: string, pidFile: string): Promise<number> {
+    await fs.ensureDir(path.dirname(logFile));
+    const logFd = fs.openSync(logFile, 'a');
+
+    let pid: number | undefined;
+    try {
+      const child = spawn(command, {
+        cwd,
+        shell: true,
+        detached: true,
+        stdio: ['ignore', logFd, logFd],
+        env: { ...process.env, ...env }
+      });
+      child.unref();
+      pid = child.pid;
+    } finally {
+      fs.closeSync(logFd);
+    }
+
+    if (!pid) {
+      throw new Error(`Failed to start '${command}'`);
+    }
+
+    await fs.writeFile(pidFile, String(pid));
+    await new Promise(resolve => setTimeout(resolve, this.startupGracePeriod));
+
+    if (!isProcessAlive(pid)) {
+      const log = await fs.readFile(logFile, 'utf-8').catch(() => '');
+      throw new Error(`Process '${command}' exited during startup. Last output:\n${log.split('\n').slice(-10).join('\n')}`);
+    }
+
+    return pid;
+  }
+
+  private async isPidFileAlive(pidFile: string): Promise<boolean> {
+    if (!(await fs.pathExists(pidFile))) return false;
+    const pid = parseInt(await fs.readFile(pidFile, 'utf-8'), 10);
+    return Boolean(pid) && isProcessAlive(pid);
+  }
+
+  private async stopPidFile(pidFile: string): Promise<void> {
+    if (!(await fs.pathExists(pidFile))) return;
+    const pid = parseInt(await fs.readFile(pidFile, 'utf-8'), 10);
+    if (pid) await this.stopProcess(pid);
+  }
+
+  private async stopProcess(pid: number, timeout: number = 5000): Promise<void> {
+    if (!isProcessAlive(pid)) return;
+
+    this.logger.debug(`Stopping local process ${pid}`);
+    signalProcessGroup(pid, 'SIGTERM');
+
+    const deadline = Date.now() + timeout;
+    while (isProcessAlive(pid) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    if (isProcessAlive(pid)) {
+      signalProcessGroup(pid, 'SIGKILL');
+    }
+  }
+
+  /**
+   * Remove all but the newest `keep` releases of a target. Releases a running process or the router's
+   * live and canary routes use stay.
+   */
+  private async pruneReleases(targetDir: string, keep: number): Promise<void> {
+    if (keep <= 0) return;
+    const states = await this.state.list();
+    const route: LocalRoute | undefined = await fs.readJson(path.join(targetDir, 'live.json')).catch(() => undefined);
+    const routed = [route?.deploymentId, route?.canary?.deploymentId];
+    const inUse = states
+      .filter(state => isProcessAlive(state.pid) || routed.includes(state.deploymentId))
+      .map(state => state.releaseDir);
+
+    const releasesDir = path.join(targetDir, 'releases');
+    const releases = await Promise.all((await fs.readdir(releasesDir)).map(async name => {
+      const releaseDir = path.join(releasesDir, name);
+      return { releaseDir, modified: (await fs.stat(releaseDir)).mtimeMs };
+    }));
+    const stale = releases
+      .sort((a, b) => b.modified - a.modified)
+      .slice(keep)
+      .map(release => release.releaseDir)
+      .filter(releaseDir => !inUse.includes(releaseDir));
+
+    if (stale.length > 0) {
+      this.logger.debug(`Removing ${stale.length} old local release(s)`);
+      await Promise.all(stale.map(releaseDir => fs.remove(releaseDir)));
+    }
+  }
+
+  /**
+   * The latest deployment of a version to the same project and target as the given one.
+   */
+  private async findRelease(state: LocalDeploymentState, version: string): Promise<LocalDeploymentState | undefined> {
+    return (await this.state.list())
+      .filter(s => s.projectPath === state.projectPath && s.targetName === state.targetName && s.version === version)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+  }
+
+  private async requireState(deploymentId: string): Promise<LocalDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown local deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function signalProcessGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    // Detached children lead their own process group; signal the group so shells take their children along
+    process.kill(-pid, signal);
+  } catch {
+    try { process.kill(pid, signal); } catch { /* already gone */ }
+  }
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+// Replace the route file in one step, so the router never reads half of it
+async function writeRoute(routeFile: string, route: LocalRoute): Promise<void> {
+  await fs.writeJson(`${routeFile}.next`, route);
+  await fs.rename(`${routeFile}.next`, routeFile);
+}
+
+async function pickPort(preferred?: number): Promise<number> {
+  if (preferred && await isPortFree(preferred)) {
+    return preferred;
+  }
+
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const port = (server.address() as net.AddressInfo).port;
+      server.close(() => resolve(port));
+    });
+  });
+}
@@ -0,0 +1,263 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import {
+  CloudProvider,
+  CredentialStatus,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger
+} from '../types';
+import { CloudCredentialManager, credentialsFromEnv } from '../core/cloud-credential-manager';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, readReleaseEntries } from './release-files';
+import { RestApi, pollUntil } from './rest-api';
+import { throwIfAborted } from '../utils/abort';
+
+export interface NetlifyProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/netlify
+  stateDir?: string;
+  // Token source. Defaults to NETLIFY_AUTH_TOKEN
+  credentials?: CloudCredentialManager;
+  pollInterval?: number;
+}
+
+interface NetlifyDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  projectName: string;
+  target: DeploymentTarget;
+  siteId: string;
+  netlifyDeployId: string;
+  version: string;
+  url: string;
+  deployedAt: string;
+  // Blue-green: the color the deploy was staged in
+  color?: DeploymentColor;
+}
+
+const DEFAULT_BASE_URL = 'https://api.netlify.com';
+
+/**
+ * Deploys the build output to a Netlify site with file-digest deploys: the API is sent a SHA1 per
+ * file and only the files it does not already have are uploaded. Deploys are titled
+ * `<project>@<version>` so rollback can restore them by version.
+ * Blue-green deployments are created as drafts and published on activation.
+ */
+export class NetlifyProvider implements CloudProvider {
+  name = 'netlify';
+  type = 'netlify' as const;
+
+  private state: ProviderStateStore<NetlifyDeploymentState>;
+  private credentials: CloudCredentialManager;
+  private pollInterval: number;
+
+  constructor(private logger: Logger, options: NetlifyProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'netlify'));
+    this.credentials = options.credentials || credentialsFromEnv('NETLIFY_AUTH_TOKEN', logger);
+    this.pollInterval = options.pollInterval ?? 2000;
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `netlify_${Date.now()}`;
+    const siteId = requireSiteId(target);
+    const api = this.api(target);
+
+    const entries = await readReleaseEntries(await collectReleaseFiles(project));
+    const digests: Record<string, string> = {};
+    const contentByDigest = new Map<string, Buffer>();
+    const pathsByDigest = new Map<string, string>();
+    for (const entry of entries) {
+      const sha1 = crypto.createHash('sha1').update(entry.content).digest('hex');
+      digests[`/${entry.name}`] = sha1;
+      contentByDigest.set(sha1, entry.content);
+      pathsByDigest.set(sha1, entry.name);
+    }
+
+    throwIfAborted(config.signal, 'Netlify deploy cancelled');
+    this.logger.info(`Creating Netlify deploy for site ${siteId} (${entries.length} files)`);
+    const created = await api.json('POST', `/api/v1/sites/${encodeURIComponent(siteId)}/deploys`, {
+      files: digests,
+      title: deployTitle(project.name, project.version),
+      // Drafts get their own URL and leave the published deploy alone
+      draft: Boolean(config.color)
+    });
+
+    const required: string[] = created.required || [];
+    this.logger.debug(`Netlify needs ${required.length} of ${entries.length} files`);
+    for (const sha1 of required) {
+      // Netlify only publishes once every required file is uploaded
+      throwIfAborted(config.signal, 'Netlify deploy cancelled');
+      const file = pathsByDigest.get(sha1)!;
+      await api.send('PUT', `/api/v1/deploys/${created.id}/files/${file.split('/').map(encodeURIComponent).join('/')}`, contentByDigest.get(sha1), {
+        'Content-Type': 'application/octet-stream'
+      });
+    }
+
+    const ready = await this.waitForDeploy(api, created.id, Number(target.config.timeout || 600) * 1000);
+    const url = ready.ssl_url || ready.url;
+
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      projectName: project.name,
+      target,
+      siteId,
+      netlifyDeployId: created.id,
+      version: project.version,
+      url,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    const deployUrl = ready.deploy_ssl_url || ready.deploy_url;
+    this.logger.info(config.color ? `Netlify draft deploy ${created.id} is ready at ${deployUrl}` : `Netlify deploy ${created.id} is live at ${url}`);
+
+    const resultUrl = config.color ? deployUrl : url;
+    return {
+      success: true,
+      deploymentId,
+      url: resultUrl,
+      endpoint: `${resultUrl}/api`,
+      metadata: {
+        type: 'netlify',
+        siteId,
+        netlifyDeployId: created.id,
+        deployUrl,
+        uploadedFiles: required.length
+      }
+    };
+  }
+
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`Netlify deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+
+    await this.api(state.target).json('POST', `/api/v1/sites/${encodeURIComponent(state.siteId)}/deploys/${state.netlifyDeployId}/restore`);
+    this.logger.info(`Site ${state.siteId} now serves the ${state.color} deploy ${state.netlifyDeployId}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: state.url,
+      endpoint: `${state.url}/api`,
+      metadata: { type: 'netlify', siteId: state.siteId, netlifyDeployId: state.netlifyDeployId, color: state.color }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    const deploy = await this.api(state.target).json('GET', `/api/v1/deploys/${state.netlifyDeployId}`);
+    return mapDeployState(deploy.state);
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back Netlify deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+    const api = this.api(state.target);
+
+    const title = deployTitle(state.projectName, targetVersion);
+    const deploys: any[] = await api.json('GET', `/api/v1/sites/${encodeURIComponent(state.siteId)}/deploys`);
+    const previous = deploys.find(d => d.state === 'ready' && d.title === title);
+    if (!previous) {
+      throw new Error(`No ready Netlify deploy found for version ${targetVersion} on site ${state.siteId}`);
+    }
+
+    await api.json('POST', `/api/v1/sites/${encodeURIComponent(state.siteId)}/deploys/${previous.id}/restore`);
+    await this.state.save(deploymentId, { ...state, version: targetVersion });
+    this.logger.info(`Site ${state.siteId} restored to deploy ${previous.id} (${targetVersion})`);
+  }
+
+  async listDeployments(): Promise<Deployment[]> {
+    const sites = new Map<string, NetlifyDeploymentState>();
+    for (const state of await this.state.list()) {
+      sites.set(state.siteId, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const state of sites.values()) {
+      const deploys: any[] = await this.api(state.target).json('GET', `/api/v1/sites/${encodeURIComponent(state.siteId)}/deploys`);
+      for (const d of deploys) {
+        deployments.push({
+          id: d.id,
+          projectId: state.projectId,
+          target: state.target,
+          version: String(d.title || '').split('@').pop() || 'unknown',
+          status: mapDeployState(d.state),
+          logs: [],
+          result: { success: d.state === 'ready', deploymentId: d.id, url: d.deploy_ssl_url || d.deploy_url, metadata: { siteId: state.siteId } },
+          createdAt: new Date(d.created_at)
+        });
+      }
+    }
+    return deployments;
+  }
+
+  private waitForDeploy(api: RestApi, id: string, timeout: number): Promise<any> {
+    return pollUntil(async () => {
+      const deploy = await api.json('GET', `/api/v1/deploys/${id}`);
+      if (deploy.state === 'error') {
+        throw new Error(`Netlify deploy ${id} failed: ${deploy.error_message || 'unknown error'}`);
+      }
+      return deploy.state === 'ready' ? deploy : undefined;
+    }, this.pollInterval, timeout, `Netlify deploy ${id}`);
+  }
+
+  async checkReachability(target: DeploymentTarget): Promise<void> {
+    await this.api(target).checkReachable();
+  }
+
+  getCredentialStatus(): CredentialStatus {
+    return this.credentials.getStatus();
+  }
+
+  private api(target: DeploymentTarget): RestApi {
+    return new RestApi({
+      service: 'Netlify',
+      baseUrl: target.config.baseUrl || DEFAULT_BASE_URL,
+      credentials: this.credentials,
+      tokenVariable: 'NETLIFY_AUTH_TOKEN'
+    });
+  }
+
+  private async requireState(deploymentId: string): Promise<NetlifyDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown Netlify deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function requireSiteId(target: DeploymentTarget): string {
+  if (!target.config.siteId) {
+    throw new Error(`Netlify target '${target.name}' needs config.siteId`);
+  }
+  return target.config.siteId;
+}
+
+function deployTitle(projectName: string, version: string): string {
+  return `${projectName}@${version}`;
+}
+
+function mapDeployState(state: string): DeploymentStatus {
+  switch (state) {
+    case 'ready':
+      return DeploymentStatus.SUCCESS;
+    case 'error':
+      return DeploymentStatus.FAILED;
+    case 'new':
+    case 'pending_review':
+      return DeploymentStatus.PENDING;
+    case 'building':
+      return DeploymentStatus.BUILDING;
+    default:
+      return DeploymentStatus.DEPLOYING;
+  }
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * File-backed key/value store that providers use to remember what they deployed
+ * (process ids, hosts, remote ids) so getStatus/rollback can work from a deployment id alone.
+ */
+export class ProviderStateStore<T> {
+  // `mode` is applied to every state file written, e.g. 0o600 for state only the owner may read
+  constructor(private dir: string, private options: { mode?: number } = {}) {}
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async save(id: string, state: T): Promise<void> {
+    await fs.ensureDir(this.dir);
+    await fs.writeJson(this.fileFor(id), state, { spaces: 2, mode: this.options.mode });
+    if (this.options.mode !== undefined) {
+      // writeJson only sets the mode of a file it creates
+      await fs.chmod(this.fileFor(id), this.options.mode);
+    }
+  }
+
+  async get(id: string): Promise<T | null> {
+    const file = this.fileFor(id);
+    if (!(await fs.pathExists(file))) return null;
+    return (await fs.readJson(file)) as T;
+  }
+
+  async list(): Promise<T[]> {
+    if (!(await fs.pathExists(this.dir))) return [];
+
+    const out: T[] = [];
+    for (const f of await fs.readdir(this.dir)) {
+      if (!f.endsWith('.json')) continue;
+      try {
+        out.push(await fs.readJson(path.join(this.dir, f)));
+      } catch {
+        // ignore partially written state files
+      }
+    }
+    return out;
+  }
+
+  async remove(id: string): Promise<void> {
+    await fs.remove(this.fileFor(id));
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Project } from '../types';
+import { ArchiveEntry } from '../utils/archive';
+
+// Never shipped when a project is deployed from source
+const RELEASE_EXCLUDES = ['node_modules', '.git', '.ai-builder'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.txt': 'text/plain; charset=utf-8',
+  '.woff2': 'font/woff2'
+};
+
+export interface ReleaseFiles {
+  // Directory the files were collected from: the build output, or the project itself when there is none
+  root: string;
+  // Posix paths relative to root
+  files: string[];
+}
+
+/**
+ * List the files that make up a release of the project.
+ */
+export async function collectReleaseFiles(project: Project): Promise<ReleaseFiles> {
+  const outputDir = path.resolve(project.path, project.config.build.outputDir || 'dist');
+  const root = await fs.pathExists(outputDir) ? outputDir : project.path;
+
+  const files: string[] = [];
+  await walk(root, '', files);
+  return { root, files };
+}
+
+/**
+ * Read a release into archive entries (content and file mode).
+ */
+export async function readReleaseEntries(release: ReleaseFiles): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  for (const file of release.files) {
+    const fullPath = path.join(release.root, ...file.split('/'));
+    const stats = await fs.stat(fullPath);
+    entries.push({ name: file, content: await fs.readFile(fullPath), mode: stats.mode & 0o777 });
+  }
+  return entries;
+}
+
+/**
+ * Content type to store a release file with when uploading it to object storage.
+ */
+export function contentTypeFor(file: string): string {
+  return CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+async function walk(basePath: string, relativePath: string, files: string[]): Promise<void> {
+  const entries = await fs.readdir(path.join(basePath, relativePath), { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (RELEASE_EXCLUDES.includes(entry.name)) continue;
+    const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      await walk(basePath, entryRelativePath, files);
+    } else if (entry.isFile()) {
+      files.push(entryRelativePath);
+    }
+  }
+}
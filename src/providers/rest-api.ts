@@ -0,0 +1,92 @@
+import { CloudCredentialManager } from '../core/cloud-credential-manager';
+import { httpRequest, parseJsonBody, HttpResponse } from '../utils/http-client';
+import { abortableDelay, throwIfAborted } from '../utils/abort';
+
+export interface RestApiOptions {
+  // Name used in error messages, e.g. "Vercel"
+  service: string;
+  baseUrl: string;
+  credentials: CloudCredentialManager;
+  // Environment variable users should set when no token is available
+  tokenVariable: string;
+  timeout?: number;
+}
+
+/**
+ * Thin JSON client for the cloud provider REST APIs: adds the credential manager's token,
+ * resolves paths against an overridable base URL and turns non-2xx responses into errors.
+ */
+export class RestApi {
+  constructor(private options: RestApiOptions) {}
+
+  get baseUrl(): string {
+    return this.options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async json<T = any>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, body === undefined ? undefined : JSON.stringify(body), {
+      'Content-Type': 'application/json'
+    });
+    return parseJsonBody<T>(response) as T;
+  }
+
+  async send(method: string, path: string, body?: Buffer | string, headers: Record<string, string> = {}): Promise<HttpResponse> {
+    const response = await this.raw(method, path, body, headers);
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw new Error(`${this.options.service} API ${method} ${path} failed (HTTP ${response.statusCode}): ${errorMessage(response)}`);
+    }
+    return response;
+  }
+
+  /**
+   * Reject when the API cannot be reached. Any HTTP response counts, so no token is needed.
+   */
+  async checkReachable(timeout: number = 10000): Promise<void> {
+    await httpRequest({ method: 'HEAD', url: `${this.baseUrl}/`, timeout });
+  }
+
+  /**
+   * Send a request without checking the status code.
+   */
+  async raw(method: string, path: string, body?: Buffer | string, headers: Record<string, string> = {}): Promise<HttpResponse> {
+    const token = this.options.credentials.getToken();
+    if (!token) {
+      throw new Error(`No ${this.options.service} credentials: set ${this.options.tokenVariable}`);
+    }
+
+    return httpRequest({
+      method,
+      url: /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`,
+      headers: { ...headers, Authorization: `Bearer ${token}` },
+      body,
+      timeout: this.options.timeout ?? 60000
+    });
+  }
+}
+
+/**
+ * Call `check` every `interval` ms until it returns a value, failing after `timeout` ms
+ * or as soon as `signal` aborts.
+ */
+export async function pollUntil<T>(check: () => Promise<T | undefined>, interval: number, timeout: number, what: string, signal?: AbortSignal): Promise<T> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    throwIfAborted(signal, `Cancelled while waiting for ${what}`);
+    const result = await check();
+    if (result !== undefined) return result;
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${Math.round(timeout / 1000)}s waiting for ${what}`);
+    }
+    await abortableDelay(interval, signal);
+  }
+}
+
+function errorMessage(response: HttpResponse): string {
+  const text = response.body.toString('utf-8');
+  try {
+    const body = parseJsonBody(response);
+    return body?.error?.message || body?.message || body?.error || text;
+  } catch {
+    return text;
+  }
+}
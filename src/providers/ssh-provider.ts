@@ -0,0 +1,544 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CloudProvider,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger,
+  TargetConfig
+} from '../types';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, readReleaseEntries } from './release-files';
+import { throwIfAborted } from '../utils/abort';
+
+export interface SSHExecResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * The remote operations the provider needs. The default implementation is backed by ssh2;
+ * tests and other transports can supply their own through `SSHProviderOptions.connect`.
+ */
+export interface SSHSession {
+  exec(command: string): Promise<SSHExecResult>;
+  upload(remotePath: string, content: Buffer, mode?: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type SSHConnector = (config: TargetConfig) => Promise<SSHSession>;
+
+export interface SSHProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/ssh
+  stateDir?: string;
+  connect?: SSHConnector;
+  // Host keys trusted for targets without hostKey. Defaults to ~/.ssh/known_hosts
+  knownHostsPath?: string;
+}
+
+interface SSHDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  targetName: string;
+  environment: 'development' | 'staging' | 'production';
+  connection: TargetConfig;
+  deployPath: string;
+  version: string;
+  // Where the release was uploaded; states saved before release dirs were named after deployments have none
+  releaseDir?: string;
+  url: string;
+  deployedAt: string;
+  // Blue-green: the color link the release was staged under
+  color?: DeploymentColor;
+}
+
+/**
+ * Deploys to a remote host over SSH using a Capistrano-style layout:
+ * `<deployPath>/releases/<deployment id>` holds each upload (so redeploying a version never touches
+ * the live copy) and `<deployPath>/current` is a symlink
+ * that is swapped atomically (`ln -sfn` + `mv -T`) once the release is in place.
+ * Blue-green deployments stage the release under a `<deployPath>/blue` or `<deployPath>/green` link
+ * (served by the web server at `colorUrls.<color>` if configured) and move `current` on activation.
+ */
+export class SSHProvider implements CloudProvider {
+  name = 'ssh';
+  type = 'ssh' as const;
+
+  private state: ProviderStateStore<SSHDeploymentState>;
+  private connect: SSHConnector;
+
+  constructor(private logger: Logger, options: SSHProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'ssh'));
+    const knownHostsPath = options.knownHostsPath || path.join(os.homedir(), '.ssh', 'known_hosts');
+    this.connect = options.connect || (config => connectWithSSH2(config, knownHostsPath));
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `ssh_${Date.now()}`;
+    const deployPath = deployPathFor(target.config, project.name);
+    const releaseDir = `${deployPath}/releases/${deploymentId}`;
+    const appPort = Number(target.config.port || 3000);
+    const url = `http://${target.config.host}:${appPort}`;
+
+    this.logger.info(`Deploying ${project.name} via SSH to ${target.config.user || 'root'}@${target.config.host}:${deployPath}`);
+
+    const session = await this.connect(target.config);
+    try {
+      await this.run(session, `rm -rf ${quote(releaseDir)} && mkdir -p ${quote(releaseDir)}`, 'prepare release directory');
+      await this.uploadRelease(session, config, releaseDir);
+      // Over SFTP rather than on a command line, so the secrets never show up in the remote process list
+      await session.upload(`${releaseDir}/.env`, Buffer.from(envFile(config.environment, appPort)), 0o600);
+
+      await this.runHooks(session, target.config.preDeploy, releaseDir, 'pre-deploy');
+      throwIfAborted(config.signal, 'SSH deploy cancelled');
+      if (config.color) {
+        await this.switchLink(session, `${deployPath}/${config.color}`, releaseDir);
+      } else {
+        await this.switchLink(session, `${deployPath}/current`, releaseDir);
+        await this.runHooks(session, target.config.postDeploy, `${deployPath}/current`, 'post-deploy');
+        await this.pruneReleases(session, deployPath, Number(target.config.keepReleases || 5));
+      }
+    } finally {
+      await session.close();
+    }
+
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      targetName: target.name,
+      environment: target.environment,
+      connection: target.config,
+      deployPath,
+      version: project.version,
+      releaseDir,
+      url,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    if (config.color) {
+      const stagedUrl: string | undefined = target.config.colorUrls?.[config.color];
+      this.logger.info(`Release ${project.version} is staged at ${target.config.host}:${deployPath}/${config.color}`);
+      return {
+        success: true,
+        deploymentId,
+        url: stagedUrl,
+        endpoint: stagedUrl ? `${stagedUrl}/api` : undefined,
+        metadata: { type: 'ssh', host: target.config.host, path: deployPath, release: releaseDir, color: config.color }
+      };
+    }
+
+    this.logger.info(`Release ${project.version} is live at ${target.config.host}:${deployPath}/current`);
+
+    return {
+      success: true,
+      deploymentId,
+      url,
+      endpoint: `${url}/api`,
+      metadata: {
+        type: 'ssh',
+        host: target.config.host,
+        user: target.config.user || 'root',
+        path: deployPath,
+        release: releaseDir,
+        port: appPort
+      }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    const session = await this.connect(state.connection);
+    try {
+      const result = await session.exec(`test -d ${quote(`${state.deployPath}/current/`)}`);
+      return result.code === 0 ? DeploymentStatus.SUCCESS : DeploymentStatus.FAILED;
+    } finally {
+      await session.close();
+    }
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back SSH deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+    const release = state.version === targetVersion ? state : await this.findRelease(state, targetVersion);
+    const releaseDir = release ? releaseDirOf(release) : `${state.deployPath}/releases/${targetVersion}`;
+
+    const session = await this.connect(state.connection);
+    try {
+      const exists = await session.exec(`test -d ${quote(releaseDir)}`);
+      if (exists.code !== 0) {
+        throw new Error(`Release ${targetVersion} not found on ${state.connection.host} at '${releaseDir}'`);
+      }
+
+      await this.switchLink(session, `${state.deployPath}/current`, releaseDir);
+      await this.runHooks(session, state.connection.postDeploy, `${state.deployPath}/current`, 'post-deploy');
+    } finally {
+      await session.close();
+    }
+
+    this.logger.info(`${state.connection.host}:${state.deployPath}/current now points at ${targetVersion}`);
+  }
+
+  /**
+   * Point `current` at the release a blue-green deploy staged under its color link.
+   */
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`SSH deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+    const releaseDir = releaseDirOf(state);
+
+    const session = await this.connect(state.connection);
+    try {
+      const staged = (await session.exec(`readlink ${quote(`${state.deployPath}/${state.color}`)}`)).stdout.trim();
+      if (staged !== releaseDir) {
+        throw new Error(`${state.connection.host}:${state.deployPath}/${state.color} no longer points at ${state.version}`);
+      }
+
+      await this.switchLink(session, `${state.deployPath}/current`, releaseDir);
+      await this.runHooks(session, state.connection.postDeploy, `${state.deployPath}/current`, 'post-deploy');
+      await this.pruneReleases(session, state.deployPath, Number(state.connection.keepReleases || 5));
+    } finally {
+      await session.close();
+    }
+
+    this.logger.info(`${state.connection.host}:${state.deployPath}/current now points at the ${state.color} release ${state.version}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url: state.url,
+      endpoint: `${state.url}/api`,
+      metadata: { type: 'ssh', host: state.connection.host, path: state.deployPath, release: releaseDir, color: state.color }
+    };
+  }
+
+  /**
+   * Remove the release directory a cancelled deploy was writing, unless `current` points at it.
+   */
+  async cleanup(config: DeploymentConfig): Promise<void> {
+    if (!config.deploymentId) return;
+    const deployPath = deployPathFor(config.target.config, config.project.name);
+    const releaseDir = `${deployPath}/releases/${config.deploymentId}`;
+
+    const session = await this.connect(config.target.config);
+    try {
+      await this.run(
+        session,
+        `[ "$(readlink ${quote(`${deployPath}/current`)})" = ${quote(releaseDir)} ] || rm -rf ${quote(releaseDir)}`,
+        'remove cancelled release'
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Opening a session proves both the host and the credentials
+  async checkReachability(target: DeploymentTarget): Promise<void> {
+    const session = await this.connect(target.config);
+    await session.close();
+  }
+
+  /**
+   * Lists the releases present on every host this provider has deployed to.
+   */
+  async listDeployments(): Promise<Deployment[]> {
+    const states = await this.state.list();
+    const hosts = new Map<string, SSHDeploymentState>();
+    for (const state of states) {
+      hosts.set(`${state.connection.host}:${state.deployPath}`, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const host of hosts.values()) {
+      const session = await this.connect(host.connection);
+      try {
+        const current = await session.exec(`readlink ${quote(`${host.deployPath}/current`)}`);
+        const releases = await this.run(
+          session,
+          `find ${quote(`${host.deployPath}/releases`)} -mindepth 1 -maxdepth 1 -type d -printf '%f %T@\\n'`,
+          'list releases'
+        );
+
+        for (const line of releases.stdout.split('\n')) {
+          if (!line.trim()) continue;
+          const [name, mtime] = line.trim().split(' ');
+          const releasePath = `${host.deployPath}/releases/${name}`;
+          const known = states.find(s => s.deployPath === host.deployPath && s.connection.host === host.connection.host && releaseDirOf(s) === releasePath);
+          const version = known ? known.version : name;
+
+          deployments.push({
+            id: known ? known.deploymentId : `${host.connection.host}:${releasePath}`,
+            projectId: host.projectId,
+            target: { name: host.targetName, type: 'ssh', config: host.connection, environment: host.environment },
+            version,
+            status: DeploymentStatus.SUCCESS,
+            logs: [],
+            result: {
+              success: true,
+              deploymentId: known ? known.deploymentId : releasePath,
+              url: host.url,
+              metadata: { release: releasePath, current: current.stdout.trim() === releasePath }
+            },
+            createdAt: new Date(parseFloat(mtime) * 1000)
+          });
+        }
+      } finally {
+        await session.close();
+      }
+    }
+
+    return deployments;
+  }
+
+  private async uploadRelease(session: SSHSession, config: DeploymentConfig, releaseDir: string): Promise<void> {
+    const release = await collectReleaseFiles(config.project);
+
+    const dirs = new Set(release.files.map(file => path.posix.dirname(file)).filter(dir => dir !== '.'));
+    if (dirs.size > 0) {
+      await this.run(session, `cd ${quote(releaseDir)} && mkdir -p ${Array.from(dirs).map(quote).join(' ')}`, 'create release directories');
+    }
+
+    this.logger.debug(`Uploading ${release.files.length} files to ${releaseDir}`);
+    for (const entry of await readReleaseEntries(release)) {
+      throwIfAborted(config.signal, 'SSH deploy cancelled');
+      await session.upload(`${releaseDir}/${entry.name}`, entry.content, entry.mode);
+    }
+  }
+
+  private async switchLink(session: SSHSession, link: string, releaseDir: string): Promise<void> {
+    // mv -T renames over the old link in one step, so the link is never missing
+    const next = `${link}.next`;
+    await this.run(session, `ln -sfn ${quote(releaseDir)} ${quote(next)} && mv -Tf ${quote(next)} ${quote(link)}`, `switch ${path.posix.basename(link)} release`);
+  }
+
+  private async runHooks(session: SSHSession, commands: string | string[] | undefined, cwd: string, stage: string): Promise<void> {
+    if (!commands) return;
+
+    for (const command of Array.isArray(commands) ? commands : [commands]) {
+      this.logger.info(`Running ${stage} command: ${command}`);
+      const result = await this.run(session, `cd ${quote(cwd)} && ${command}`, `run ${stage} command '${command}'`);
+      if (result.stdout.trim()) {
+        this.logger.debug(result.stdout.trim());
+      }
+    }
+  }
+
+  private async pruneReleases(session: SSHSession, deployPath: string, keep: number): Promise<void> {
+    if (keep <= 0) return;
+    const releases = await this.run(session, `ls -1t ${quote(`${deployPath}/releases`)}`, 'list releases');
+    // Releases behind current and the blue-green color links stay
+    const linked: string[] = [];
+    for (const link of ['current', 'blue', 'green']) {
+      linked.push((await session.exec(`readlink ${quote(`${deployPath}/${link}`)}`)).stdout.trim());
+    }
+
+    const stale = releases.stdout.split('\n')
+      .map(name => name.trim())
+      .filter(Boolean)
+      .slice(keep)
+      .map(name => `${deployPath}/releases/${name}`)
+      .filter(release => !linked.includes(release));
+
+    if (stale.length > 0) {
+      this.logger.debug(`Removing ${stale.length} old release(s)`);
+      await this.run(session, `rm -rf ${stale.map(quote).join(' ')}`, 'remove old releases');
+    }
+  }
+
+  private async run(session: SSHSession, command: string, action: string): Promise<SSHExecResult> {
+    const result = await session.exec(command);
+    if (result.code !== 0) {
+      throw new Error(`SSH failed to ${action} (exit ${result.code}): ${(result.stderr || result.stdout).trim()}`);
+    }
+    return result;
+  }
+
+  /**
+   * The latest deployment of a version to the same host and path as the given one.
+   */
+  private async findRelease(state: SSHDeploymentState, version: string): Promise<SSHDeploymentState | undefined> {
+    return (await this.state.list())
+      .filter(s => s.connection.host === state.connection.host && s.deployPath === state.deployPath && s.version === version)
+      .sort((a, b) => b.deployedAt.localeCompare(a.deployedAt))[0];
+  }
+
+  private async requireState(deploymentId: string): Promise<SSHDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown SSH deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+async function connectWithSSH2(config: TargetConfig, knownHostsPath: string): Promise<SSHSession> {
+  let ssh2: any;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    ssh2 = require('ssh2');
+  } catch {
+    throw new Error('SSH deployments need the optional "ssh2" package: npm install ssh2');
+  }
+
+  const privateKey = config.keyPath ? await fs.readFile(expandHome(config.keyPath)) : undefined;
+  if (!privateKey && !process.env.SSH_AUTH_SOCK) {
+    throw new Error(`No SSH credentials for ${config.host}: set keyPath on the target or start an ssh-agent`);
+  }
+
+  // The release and its secrets go to whichever host answers, so it has to present a key we know
+  const knownHosts = config.hostKey ? '' : await fs.readFile(knownHostsPath, 'utf-8').catch(() => '');
+  let untrustedKey: Buffer | undefined;
+
+  const client = new ssh2.Client();
+  await new Promise<void>((resolve, reject) => {
+    client.once('ready', resolve);
+    client.on('error', (error: Error) => reject(untrustedKey
+      ? new Error(`Host key ${fingerprint(untrustedKey)} of ${config.host} is not trusted: add the host to ~/.ssh/known_hosts (ssh-keyscan) or set hostKey on the target`)
+      : error));
+    client.connect({
+      host: config.host,
+      port: Number(config.sshPort || 22),
+      username: config.user || 'root',
+      privateKey,
+      agent: privateKey ? undefined : process.env.SSH_AUTH_SOCK,
+      readyTimeout: 20000,
+      hostVerifier: (key: Buffer) => {
+        if (isTrustedHostKey(config, key, knownHosts)) return true;
+        untrustedKey = key;
+        return false;
+      }
+    });
+  });
+
+  return new SSH2Session(client);
+}
+
+class SSH2Session implements SSHSession {
+  private sftp?: Promise<any>;
+
+  constructor(private client: any) {}
+
+  exec(command: string): Promise<SSHExecResult> {
+    return new Promise((resolve, reject) => {
+      this.client.exec(command, (err: Error | undefined, stream: any) => {
+        if (err) return reject(err);
+
+        let stdout = '';
+        let stderr = '';
+        stream.on('data', (chunk: Buffer) => (stdout += chunk.toString('utf-8')));
+        stream.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString('utf-8')));
+        stream.on('close', (code: number | null) => resolve({ code: code ?? 1, stdout, stderr }));
+      });
+    });
+  }
+
+  async upload(remotePath: string, content: Buffer, mode?: number): Promise<void> {
+    if (!this.sftp) {
+      this.sftp = new Promise((resolve, reject) => {
+        this.client.sftp((err: Error | undefined, sftp: any) => (err ? reject(err) : resolve(sftp)));
+      });
+    }
+
+    const sftp = await this.sftp;
+    await new Promise<void>((resolve, reject) => {
+      sftp.writeFile(remotePath, content, { mode }, (err?: Error) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.client.end();
+  }
+}
+
+function deployPathFor(config: TargetConfig, projectName: string): string {
+  return (config.deployPath || `/var/www/${projectName}`).replace(/\/+$/, '');
+}
+
+function releaseDirOf(state: SSHDeploymentState): string {
+  return state.releaseDir || `${state.deployPath}/releases/${state.version}`;
+}
+
+function expandHome(p: string): string {
+  return p.startsWith('~/') ? path.join(os.homedir(), p.slice(2)) : p;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Whether a host presented the key `hostKey` on the target names (a known_hosts style key or a
+ * `SHA256:` fingerprint) or, without one, a key known_hosts lists for the host. Plain, `[host]:port`,
+ * wildcard and hashed entries are understood; `@revoked` keys are never trusted.
+ */
+export function isTrustedHostKey(config: TargetConfig, key: Buffer, knownHosts: string): boolean {
+  if (config.hostKey) {
+    const expected = String(config.hostKey).trim();
+    if (expected.startsWith('SHA256:')) return expected === fingerprint(key);
+    const fields = expected.split(/\s+/);
+    return (fields.length > 1 ? fields[1] : fields[0]) === key.toString('base64');
+  }
+
+  const port = Number(config.sshPort || 22);
+  const name = port === 22 ? config.host : `[${config.host}]:${port}`;
+  let trusted = false;
+  for (const line of knownHosts.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    const marker = fields[0]?.startsWith('@') ? fields.shift() : undefined;
+    if (fields.length < 3 || fields[0].startsWith('#') || marker === '@cert-authority') continue;
+    if (fields[2] !== key.toString('base64') || !matchesHostPatterns(fields[0], name)) continue;
+    if (marker === '@revoked') return false;
+    trusted = true;
+  }
+  return trusted;
+}
+
+function matchesHostPatterns(patterns: string, name: string): boolean {
+  let matched = false;
+  for (const pattern of patterns.split(',')) {
+    if (pattern.startsWith('|1|')) {
+      // Hashed entry: |1|<base64 salt>|<base64 HMAC-SHA1 of the name>
+      const [salt, hash] = pattern.slice(3).split('|');
+      const digest = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64');
+      if (digest === hash) matched = true;
+      continue;
+    }
+    const negated = pattern.startsWith('!');
+    const glob = new RegExp(`^${(negated ? pattern.slice(1) : pattern).replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+    if (glob.test(name)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+function fingerprint(key: Buffer): string {
+  return `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * The environment as a .env file. Values are double-quoted with `\`, `"`, `$` and backticks escaped
+ * and line breaks written as `\n`, so a value can never end the line and start another variable.
+ */
+function envFile(environment: Record<string, string>, port: number): string {
+  return Object.entries({ ...environment, PORT: String(port) })
+    .map(([key, value]) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new Error(`Cannot write environment variable '${key}' to .env: names may only have letters, digits and underscores`);
+      }
+      const escaped = String(value).replace(/[\\"$`]/g, '\\$&').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+      return `${key}="${escaped}"\n`;
+    })
+    .join('');
+}
@@ -0,0 +1,251 @@
+import * as path from 'path';
+import {
+  CloudProvider,
+  CredentialStatus,
+  Deployment,
+  DeploymentColor,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  DeploymentTarget,
+  Logger
+} from '../types';
+import { CloudCredentialManager, credentialsFromEnv } from '../core/cloud-credential-manager';
+import { ProviderStateStore } from './provider-state';
+import { collectReleaseFiles, readReleaseEntries } from './release-files';
+import { RestApi, pollUntil } from './rest-api';
+import { throwIfAborted } from '../utils/abort';
+
+export interface VercelProviderOptions {
+  // Where deployment state is indexed by deployment id. Defaults to ./.ai-builder/vercel
+  stateDir?: string;
+  // Token source. Defaults to VERCEL_TOKEN
+  credentials?: CloudCredentialManager;
+  pollInterval?: number;
+}
+
+interface VercelDeploymentState {
+  deploymentId: string;
+  projectId: string;
+  target: DeploymentTarget;
+  vercelProject: string;
+  vercelId: string;
+  version: string;
+  url: string;
+  deployedAt: string;
+  // Blue-green: the color the deployment was staged in
+  color?: DeploymentColor;
+}
+
+const DEFAULT_BASE_URL = 'https://api.vercel.com';
+const META_VERSION = 'aiBuilderVersion';
+const META_DEPLOYMENT = 'aiBuilderDeployment';
+
+/**
+ * Deploys the build output to Vercel with the v13 deployments API (files are sent inline).
+ * Each deployment carries the project version in its meta so rollback can find it again.
+ * Blue-green deployments are created as previews and promoted to production on activation.
+ */
+export class VercelProvider implements CloudProvider {
+  name = 'vercel';
+  type = 'vercel' as const;
+
+  private state: ProviderStateStore<VercelDeploymentState>;
+  private credentials: CloudCredentialManager;
+  private pollInterval: number;
+
+  constructor(private logger: Logger, options: VercelProviderOptions = {}) {
+    this.state = new ProviderStateStore(options.stateDir || path.join(process.cwd(), '.ai-builder', 'vercel'));
+    this.credentials = options.credentials || credentialsFromEnv('VERCEL_TOKEN', logger);
+    this.pollInterval = options.pollInterval ?? 2000;
+  }
+
+  async deploy(config: DeploymentConfig): Promise<DeploymentResult> {
+    const { project, target } = config;
+    const deploymentId = config.deploymentId || `vercel_${Date.now()}`;
+    const api = this.api(target);
+    const vercelProject = projectNameFor(target, project.name);
+
+    const release = await collectReleaseFiles(project);
+    const files = (await readReleaseEntries(release)).map(entry => ({
+      file: entry.name,
+      data: entry.content.toString('base64'),
+      encoding: 'base64'
+    }));
+
+    throwIfAborted(config.signal, 'Vercel deploy cancelled');
+    this.logger.info(`Creating Vercel deployment of ${vercelProject} (${files.length} files)`);
+    const created = await api.json('POST', this.withTeam(target, '/v13/deployments?skipAutoDetectionConfirmation=1'), {
+      name: vercelProject,
+      files,
+      target: target.environment === 'production' && !config.color ? 'production' : undefined,
+      projectSettings: { framework: null },
+      meta: { [META_VERSION]: project.version, [META_DEPLOYMENT]: deploymentId }
+    });
+
+    const ready = await pollUntil(async () => {
+      const current = await api.json('GET', this.withTeam(target, `/v13/deployments/${created.id}`));
+      if (current.readyState === 'ERROR' || current.readyState === 'CANCELED') {
+        throw new Error(`Vercel deployment ${created.id} ended in state ${current.readyState}${current.errorMessage ? `: ${current.errorMessage}` : ''}`);
+      }
+      return current.readyState === 'READY' ? current : undefined;
+    }, this.pollInterval, Number(target.config.timeout || 600) * 1000, `Vercel deployment ${created.id}`);
+
+    const url = `https://${ready.alias?.[0] || ready.url}`;
+    await this.state.save(deploymentId, {
+      deploymentId,
+      projectId: project.id,
+      target,
+      vercelProject,
+      vercelId: created.id,
+      version: project.version,
+      url,
+      deployedAt: new Date().toISOString(),
+      color: config.color
+    });
+
+    this.logger.info(`Vercel deployment ${created.id} is ready at ${url}`);
+
+    // A staged preview is reached through its own deployment URL
+    const resultUrl = config.color ? `https://${ready.url}` : url;
+    return {
+      success: true,
+      deploymentId,
+      url: resultUrl,
+      endpoint: `${resultUrl}/api`,
+      metadata: {
+        type: 'vercel',
+        vercelId: created.id,
+        project: vercelProject,
+        deploymentUrl: `https://${ready.url}`,
+        inspectorUrl: ready.inspectorUrl
+      }
+    };
+  }
+
+  async activate(deploymentId: string): Promise<DeploymentResult> {
+    const state = await this.requireState(deploymentId);
+    if (!state.color) {
+      throw new Error(`Vercel deployment ${deploymentId} was not staged for a blue-green switch`);
+    }
+    const api = this.api(state.target);
+
+    await api.json('POST', this.withTeam(state.target, `/v10/projects/${encodeURIComponent(state.vercelProject)}/promote/${state.vercelId}`));
+    const promoted = await api.json('GET', this.withTeam(state.target, `/v13/deployments/${state.vercelId}`));
+    const url = `https://${promoted.alias?.[0] || promoted.url}`;
+    await this.state.save(deploymentId, { ...state, url });
+
+    this.logger.info(`${state.vercelProject} now serves the ${state.color} deployment ${state.vercelId} at ${url}`);
+
+    return {
+      success: true,
+      deploymentId,
+      url,
+      endpoint: `${url}/api`,
+      metadata: { type: 'vercel', vercelId: state.vercelId, project: state.vercelProject, color: state.color }
+    };
+  }
+
+  async getStatus(deploymentId: string): Promise<DeploymentStatus> {
+    const state = await this.requireState(deploymentId);
+    const deployment = await this.api(state.target).json('GET', this.withTeam(state.target, `/v13/deployments/${state.vercelId}`));
+    return mapReadyState(deployment.readyState);
+  }
+
+  async rollback(deploymentId: string, targetVersion: string): Promise<void> {
+    this.logger.info(`Rolling back Vercel deployment ${deploymentId} to version ${targetVersion}`);
+    const state = await this.requireState(deploymentId);
+
+    const previous = (await this.listProjectDeployments(state))
+      .find(d => d.meta?.[META_VERSION] === targetVersion && (d.state || d.readyState) === 'READY');
+    if (!previous) {
+      throw new Error(`No ready Vercel deployment of ${state.vercelProject} found for version ${targetVersion}`);
+    }
+
+    await this.api(state.target).json('POST', this.withTeam(state.target, `/v9/projects/${encodeURIComponent(state.vercelProject)}/rollback/${previous.uid}`));
+    await this.state.save(deploymentId, { ...state, version: targetVersion });
+    this.logger.info(`${state.vercelProject} now serves deployment ${previous.uid} (${targetVersion})`);
+  }
+
+  async listDeployments(): Promise<Deployment[]> {
+    const projects = new Map<string, VercelDeploymentState>();
+    for (const state of await this.state.list()) {
+      projects.set(state.vercelProject, state);
+    }
+
+    const deployments: Deployment[] = [];
+    for (const state of projects.values()) {
+      for (const d of await this.listProjectDeployments(state)) {
+        deployments.push({
+          id: d.meta?.[META_DEPLOYMENT] || d.uid,
+          projectId: state.projectId,
+          target: state.target,
+          version: d.meta?.[META_VERSION] || 'unknown',
+          status: mapReadyState(d.state || d.readyState),
+          logs: [],
+          result: { success: true, deploymentId: d.uid, url: `https://${d.url}`, metadata: { vercelId: d.uid } },
+          createdAt: new Date(d.created || d.createdAt)
+        });
+      }
+    }
+    return deployments;
+  }
+
+  private async listProjectDeployments(state: VercelDeploymentState): Promise<any[]> {
+    const query = `/v6/deployments?app=${encodeURIComponent(state.vercelProject)}&limit=100`;
+    const response = await this.api(state.target).json('GET', this.withTeam(state.target, query));
+    return response.deployments || [];
+  }
+
+  async checkReachability(target: DeploymentTarget): Promise<void> {
+    await this.api(target).checkReachable();
+  }
+
+  getCredentialStatus(): CredentialStatus {
+    return this.credentials.getStatus();
+  }
+
+  private api(target: DeploymentTarget): RestApi {
+    return new RestApi({
+      service: 'Vercel',
+      baseUrl: target.config.baseUrl || DEFAULT_BASE_URL,
+      credentials: this.credentials,
+      tokenVariable: 'VERCEL_TOKEN'
+    });
+  }
+
+  private withTeam(target: DeploymentTarget, apiPath: string): string {
+    if (!target.config.teamId) return apiPath;
+    return `${apiPath}${apiPath.includes('?') ? '&' : '?'}teamId=${encodeURIComponent(target.config.teamId)}`;
+  }
+
+  private async requireState(deploymentId: string): Promise<VercelDeploymentState> {
+    const state = await this.state.get(deploymentId);
+    if (!state) {
+      throw new Error(`Unknown Vercel deployment: ${deploymentId}`);
+    }
+    return state;
+  }
+}
+
+function projectNameFor(target: DeploymentTarget, projectName: string): string {
+  // Vercel project names are lowercase and limited to [a-z0-9._-]
+  return String(target.config.project || projectName).toLowerCase().replace(/[^a-z0-9._-]/g, '-');
+}
+
+function mapReadyState(state: string): DeploymentStatus {
+  switch (state) {
+    case 'READY':
+      return DeploymentStatus.SUCCESS;
+    case 'ERROR':
+    case 'CANCELED':
+      return DeploymentStatus.FAILED;
+    case 'QUEUED':
+    case 'INITIALIZING':
+      return DeploymentStatus.PENDING;
+    case 'BUILDING':
+      return DeploymentStatus.BUILDING;
+    default:
+      return DeploymentStatus.DEPLOYING;
+  }
+}
@@ -3,6 +3,8 @@
 export interface CLICommand {
   name: string;
   description: string;
+  // Positional arguments, in order (e.g. `cancel <deploymentId>`)
+  arguments?: CLIArgument[];
   options: CLIOption[];
   handler: (args: CommandArgs) => Promise<void>;
   subcommands?: CLICommand[];
@@ -18,6 +20,12 @@ export interface CLIOption {
   choices?: string[];
 }
 
+export interface CLIArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
 export interface CommandArgs {
   [key: string]: any;
 }
@@ -44,23 +52,134 @@ export interface ProjectConfig {
 }
 
 export interface BuildConfig {
+  // The build, unless `steps` are given
   command: string;
   outputDir: string;
   environment: Record<string, string>;
-  dependencies: string[];
+  // Packages for the project's package manager, and typed template dependencies (system ones are only checked for)
+  dependencies: Array<string | TemplateDependency>;
+  // Defaults to the one whose lockfile the project has, else npm
+  packageManager?: PackageManagerName;
+  // False adds build.dependencies even when there is a lockfile, instead of a frozen install (`npm ci`)
+  frozenLockfile?: boolean;
+  // Named commands: build steps and `start` (how local and Docker targets run the app)
   scripts: Record<string, string>;
+  // Run in order instead of `command`; the steps of a nested list run at the same time.
+  // A string is a step running the script of that name
+  steps?: Array<BuildStepEntry | BuildStepEntry[]>;
+  // Stop the build after this long (ms); 0 disables the limit. Defaults to the global build.timeout
+  timeout?: number;
+  // Defaults to the global build.memory_limit and build.cpu_limit
+  limits?: BuildLimits;
+  // Variables of the CLI's environment the build may see besides PATH, HOME, locale and proxy settings; a trailing * matches a prefix
+  passEnv?: string[];
+  // Projects of the same monorepo to build first with `build --all`, by name
+  dependsOn?: string[];
+}
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun' | 'pip' | 'poetry' | 'go';
+
+export type BuildStepEntry = string | BuildStep;
+
+export interface BuildStep {
+  name: string;
+  // Defaults to build.scripts[name]
+  command?: string;
+  // Added to build.environment for this step
+  environment?: Record<string, string>;
+  // Record the step's failure but carry on with the build
+  continueOnError?: boolean;
+  // A shell command; the step only runs when it exits with 0 (e.g. `test -f tsconfig.json`)
+  if?: string;
+}
+
+// Applied with ulimit to each build process; not available on Windows
+export interface BuildLimits {
+  // Data segment size (MB), which bounds the heap of the build's processes
+  memory?: number;
+  // CPU time per process (seconds)
+  cpuTime?: number;
 }
 
 export interface DeployConfig {
   targets: DeploymentTarget[];
+  // How a new version replaces the running one. Defaults to 'in-place'
+  strategy?: DeploymentStrategy;
+  // Steps and promotion gates of the canary strategy
+  canary?: CanaryConfig;
   healthCheck?: HealthCheckConfig;
   rollback?: RollbackConfig;
   notifications?: NotificationConfig;
-}
+  // Approval and deploy-window rules for the targets of an environment
+  protectedEnvironments?: Partial<Record<DeploymentTarget['environment'], ProtectionRules>>;
+}
+
+export interface ProtectionRules {
+  // Who may approve (see `ai-builder approve`); anyone when empty
+  approvers?: string[];
+  // Distinct approvals a deployment needs. Defaults to 1
+  requiredApprovals?: number;
+  // How long an approval counts (ms). Defaults to 24 hours
+  approvalExpiry?: number;
+  // How long a deployment waits for its approvals before it fails (ms). Defaults to 24 hours
+  approvalTimeout?: number;
+  // When deployments may start; any time when empty
+  windows?: DeployWindow[];
+}
+
+export interface DeployWindow {
+  // Three-letter day names (mon, tue, ...); every day when omitted
+  days?: string[];
+  // 'HH:MM', start inclusive and end exclusive; an end before the start runs past midnight. The whole day when omitted
+  start?: string;
+  end?: string;
+  // IANA time zone of the days and times. Defaults to the machine's
+  timezone?: string;
+}
+
+/**
+ * - `in-place`: the provider replaces the running version
+ * - `blue-green`: the new version is staged next to the running one (in the idle color), health-checked,
+ *   and only then given the traffic; the previous color keeps running for instant rollback
+ * - `canary`: staged like blue-green, then given a growing share of the traffic step by step; each step must
+ *   stay within the thresholds for its dwell time before the next one, and a breach sends all traffic back
+ */
+export type DeploymentStrategy = 'in-place' | 'blue-green' | 'canary';
+
+export interface CanaryConfig {
+  // Percent of the traffic the new version gets at each step; reaching 100 promotes it. Defaults to [10, 50, 100]
+  steps?: number[];
+  // How long each step runs while the new version is sampled (ms). Defaults to 60000
+  dwellTime?: number;
+  // Time between the health checks that sample the new version during a step (ms). Defaults to 5000
+  sampleInterval?: number;
+  thresholds?: CanaryThresholds;
+}
+
+// Promotion gates, in the units of the deployment monitor's alert thresholds
+export interface CanaryThresholds {
+  // Highest share of failed samples in a step (percent). Defaults to 5
+  errorRate?: number;
+  // Highest average response time of a step's samples (ms). Defaults to 2000
+  responseTime?: number;
+}
+
+// A canary step, passed as the third argument of `statusUpdated` events while a deployment is DEPLOYING
+export interface CanaryStage {
+  // 1-based; the last step is the promotion to 100%
+  step: number;
+  steps: number;
+  percent: number;
+}
+
+export type DeploymentColor = 'blue' | 'green';
+
+export type BuiltinProviderType = 'local' | 'docker' | 'aws' | 'azure' | 'gcp' | 'ssh' | 'vercel' | 'netlify';
 
 export interface DeploymentTarget {
   name: string;
-  type: 'local' | 'docker' | 'aws' | 'azure' | 'gcp' | 'ssh' | 'vercel' | 'netlify';
+  // A built-in provider or the name of one registered with DeploymentEngineImpl.registerProvider()
+  type: BuiltinProviderType | string;
   config: TargetConfig;
   environment: 'development' | 'staging' | 'production';
 }
@@ -83,6 +202,14 @@ export interface TargetConfig {
   host: string;
   user?: string;
   keyPath?: string;
+  sshPort?: number;
+  // The host's key ('ssh-ed25519 AAAA...') or its 'SHA256:...' fingerprint; without it ~/.ssh/known_hosts must list the host
+  hostKey?: string;
+  deployPath?: string;
+  preDeploy?: string | string[];
+  postDeploy?: string | string[];
+  // SSH and local: how many releases to keep besides the ones in use (default 5)
+  keepReleases?: number;
   
   // Custom fields
   [key: string]: any;
@@ -90,6 +217,8 @@ export interface TargetConfig {
 
 export interface EnvironmentConfig {
   variables: Record<string, string>;
+  // Variable name -> secret reference, resolved when deploying: 'name' reads `secrets.<name>` from the
+  // encrypted config store, '<backend>:<name>' asks a registered secret backend (e.g. 'env:DATABASE_URL')
   secrets: Record<string, string>;
   ssl?: boolean;
   domain?: string;
@@ -114,10 +243,59 @@ export interface Deployment {
   status: DeploymentStatus;
   logs: DeploymentLog[];
   buildResult?: BuildResult;
+  result?: DeploymentResult;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   rollbackFrom?: string;
+  // Set while the deployment waits in the scheduler queue (1-based)
+  queuePosition?: number;
+  // Blue-green and canary: the color this deployment was staged in
+  color?: DeploymentColor;
+  // Blue-green and canary: the color serving traffic when this deployment finished (its own, or the previous one after a rollback)
+  liveColor?: DeploymentColor;
+  // Set when the deployment promoted another target's build instead of building
+  promotedFrom?: PromotionLineage;
+  // Set when the target's environment is protected
+  approval?: ApprovalRequest;
+  // The process running the deployment; a pending deployment whose process is gone never starts
+  owner?: DeploymentOwner;
+}
+
+export interface DeploymentOwner {
+  pid: number;
+  hostname: string;
+}
+
+export interface ApprovalRequest {
+  required: number;
+  // Who may approve; anyone when empty
+  approvers?: string[];
+  // How long an approval counts (ms)
+  expiry: number;
+  requestedAt: Date;
+  // Who started the deployment; they cannot approve it themselves
+  requestedBy?: string;
+  approvedBy?: string[];
+  approvedAt?: Date;
+}
+
+// One approval of a deployment, kept in the deployment store
+export interface DeploymentApproval {
+  approver: string;
+  approvedAt: Date;
+  comment?: string;
+}
+
+// The deployment whose build a promotion redeployed, after it was found healthy on its own target
+export interface PromotionLineage {
+  deploymentId: string;
+  targetName: string;
+  environment: DeploymentTarget['environment'];
+  version: string;
+  // Source hash of the promoted build
+  sourceHash?: string;
+  promotedAt: Date;
 }
 
 export enum DeploymentStatus {
@@ -127,7 +305,8 @@ export enum DeploymentStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   ROLLING_BACK = 'rolling_back',
-  ROLLED_BACK = 'rolled_back'
+  ROLLED_BACK = 'rolled_back',
+  CANCELLED = 'cancelled'
 }
 
 export interface DeploymentLog {
@@ -136,6 +315,8 @@ export interface DeploymentLog {
   message: string;
   timestamp: Date;
   source: string;
+  // Set on build output lines (source 'build')
+  stream?: 'stdout' | 'stderr';
 }
 
 export interface BuildResult {
@@ -144,6 +325,22 @@ export interface BuildResult {
   artifacts: Artifact[];
   duration: number;
   error?: string;
+  // Hash of the source tree the build ran against (see utils/source-hash)
+  sourceHash?: string;
+  // True when the output was restored from the build cache instead of built
+  cached?: boolean;
+  // Why the build failed, when there is a code for it (BUILD_TIMEOUT)
+  errorCode?: string;
+  // In the order they were defined; a build without steps has a single 'build' step
+  steps?: BuildStepResult[];
+}
+
+export interface BuildStepResult {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  // ms
+  duration: number;
+  error?: string;
 }
 
 export interface Artifact {
@@ -155,10 +352,18 @@ export interface Artifact {
 
 // Health and Monitoring
 export interface HealthCheckConfig {
+  // http (default): a URL, or a path resolved against the deployment URL; tcp: `host:port`; command: unused
+  type?: 'http' | 'tcp' | 'command';
   endpoint: string;
+  // Shell command for `command` checks; exit code 0 means healthy
+  command?: string;
   interval: number;
   timeout: number;
+  // Extra attempts after a failed one
   retries: number;
+  // Wait between attempts (ms). Defaults to 1000
+  retryDelay?: number;
+  // Without it any 2xx response is healthy
   expectedStatus?: number;
 }
 
@@ -170,7 +375,9 @@ export interface RollbackConfig {
 
 export interface RollbackTrigger {
   type: 'health_check' | 'error_rate' | 'manual';
+  // health_check: failed checks needed (default 3); error_rate: percentage of failed checks (default 50)
   threshold?: number;
+  // Only health-check results from the last `timeWindow` ms count (default 300000)
   timeWindow?: number;
 }
 
@@ -198,18 +405,82 @@ export interface NotificationEvent {
 // Service Interfaces
 export interface ProjectManager {
   createProject(template: string, name: string, path: string): Promise<Project>;
-  buildProject(project: Project): Promise<BuildResult>;
+  buildProject(project: Project, options?: BuildOptions): Promise<BuildResult>;
   validateProject(project: Project): Promise<ValidationResult>;
   deleteProject(projectId: string): Promise<void>;
   listProjects(): Promise<Project[]>;
 }
 
+export interface BuildOptions {
+  // Aborting kills the running build command
+  signal?: AbortSignal;
+  // False skips the build cache lookup (build --no-cache); the fresh output is still cached
+  cache?: boolean;
+  // Skip installing build.dependencies, e.g. when watch mode saw no dependency file change
+  skipInstall?: boolean;
+  // Called with each line of build output as it is printed
+  onOutput?: (line: BuildOutputLine) => void;
+  // Run only this step of build.steps (whatever its `if` says), without the build cache
+  step?: string;
+}
+
+export interface BuildOutputLine {
+  projectId: string;
+  stream: 'stdout' | 'stderr';
+  // The build step printing it, when the project has build.steps
+  step?: string;
+  // Without the line break; secrets are already redacted
+  line: string;
+  timestamp: Date;
+}
+
+export interface DeployOptions {
+  // Aborting cancels the deployment (same as cancelDeployment)
+  signal?: AbortSignal;
+  // Required by the canary strategy; DeploymentPipeline passes one
+  canary?: CanaryDriver;
+  // Deploy this build instead of building; its artifacts must still be on disk unchanged
+  build?: BuildResult;
+  // Recorded on the deployment when `build` comes from a promotion
+  promotedFrom?: PromotionLineage;
+  // Who started the deployment, e.g. the chat user; defaults to the login name
+  requestedBy?: string;
+}
+
+// Walks a staged release through the canary steps; rejecting aborts it and the live version takes all traffic back
+export type CanaryDriver = (run: CanaryRun) => Promise<void>;
+
+export interface CanaryRun {
+  deployment: Deployment;
+  // Every step in percent, ending with the promotion to 100 that the engine does once the driver resolves
+  steps: number[];
+  // Reaches the new version alone, for sampling it
+  url?: string;
+  // Give the new version one of the steps' share of the traffic (any step but the last)
+  shiftTraffic(percent: number): Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface RollbackOptions {
+  // Why the rollback happened, recorded in the deployment logs
+  reason?: string;
+  // Deployment whose provider state restores the version, when the rolled-back one never went live
+  restoreFrom?: Deployment;
+}
+
 export interface DeploymentEngine {
-  deploy(project: Project, target: DeploymentTarget): Promise<Deployment>;
-  rollback(deployment: Deployment, version: string): Promise<void>;
+  deploy(project: Project, target: DeploymentTarget, options?: DeployOptions): Promise<Deployment>;
+  rollback(deployment: Deployment, version: string, options?: RollbackOptions): Promise<void>;
   getStatus(deployment: Deployment): Promise<DeploymentStatus>;
+  // What the provider reports for the deployment, without recording it the way getStatus does
+  getProviderStatus?(deployment: Deployment): Promise<DeploymentStatus>;
   getLogs(deployment: Deployment): Promise<DeploymentLog[]>;
   cancelDeployment(deployment: Deployment): Promise<void>;
+  listProviders?(): CloudProvider[];
+  // Newest SUCCESS deployment of the project to the target, other than `excludeId`
+  getLastSuccessfulDeployment?(projectId: string, targetName: string, excludeId?: string): Promise<Deployment | null>;
+  // Approve a deployment waiting in a protected environment
+  approveDeployment?(deploymentId: string, approver: string, comment?: string): Promise<ApprovalRequest>;
   // Optional event emitter compatibility for implementations that extend EventEmitter
   on?(event: string, handler: (...args: any[]) => void): void;
   off?(event: string, handler: (...args: any[]) => void): void;
@@ -318,19 +589,53 @@ export interface ValidationWarning {
 
 // Cloud Provider Interfaces
 export interface CloudProvider {
+  // Targets select the provider by this name
   name: string;
-  type: 'aws' | 'azure' | 'gcp' | 'custom' | 'local' | 'docker' | 'ssh' | 'vercel' | 'netlify';
+  type: BuiltinProviderType | 'custom' | string;
   deploy(config: DeploymentConfig): Promise<DeploymentResult>;
   getStatus(deploymentId: string): Promise<DeploymentStatus>;
   rollback(deploymentId: string, targetVersion: string): Promise<void>;
   listDeployments(): Promise<Deployment[]>;
+  // Called when a deploy was cancelled part-way, to remove whatever it left behind (never the live release)
+  cleanup?(config: DeploymentConfig): Promise<void>;
+  // Blue-green: give the traffic to the color a deploy staged (see DeploymentConfig.color); resolves with the live URL
+  activate?(deploymentId: string): Promise<DeploymentResult>;
+  // Canary: send `percent` (0-99) of the traffic to a staged color and the rest to the live one
+  shiftTraffic?(deploymentId: string, percent: number): Promise<void>;
+  // Pre-deployment checks: reject when the target's API or host cannot be reached
+  checkReachability?(target: DeploymentTarget, project: Project): Promise<void>;
+  getCredentialStatus?(): CredentialStatus;
+}
+
+export interface CredentialStatus {
+  present: boolean;
+  // Share of the token lifetime already used (0-100)
+  percentUsed: number;
+  // Where the token comes from, e.g. VERCEL_TOKEN
+  source: string;
+  // False when nothing says when the token expires; percentUsed is 0 then
+  expiryKnown?: boolean;
+}
+
+// What a provider package exports: a provider, a provider class, or a factory returning one or more providers
+export type ProviderFactory = (logger: Logger) => CloudProvider | CloudProvider[] | Promise<CloudProvider | CloudProvider[]>;
+
+// Looks up secret values for references in EnvironmentConfig.secrets; undefined when the secret does not exist
+export interface SecretResolver {
+  resolve(name: string, project: Project): Promise<string | undefined>;
 }
 
 export interface DeploymentConfig {
+  deploymentId?: string;
   project: Project;
   target: DeploymentTarget;
   buildResult: BuildResult;
+  // Project and target variables plus the resolved secrets
   environment: Record<string, string>;
+  // Aborted when the deployment is cancelled; providers should stop before switching traffic
+  signal?: AbortSignal;
+  // Blue-green and canary: stage the release in this color without taking traffic; the result URL should reach the staged color
+  color?: DeploymentColor;
 }
 
 export interface DeploymentResult {
@@ -381,11 +686,12 @@ export interface DatabaseStatus {
 
 // Chat Integration
 export interface ChatCommands {
-  deployProject(projectName: string, target: string): Promise<string>;
+  deployProject(projectName: string, target: string, requestedBy?: string): Promise<string>;
   getDeploymentStatus(projectName: string): Promise<string>;
   listProjects(): Promise<string>;
   rollbackProject(projectName: string, version: string): Promise<string>;
   createProject(template: string, name: string): Promise<string>;
+  approveDeployment(deploymentId: string, approver: string): Promise<string>;
 }
 
 // Utility Types
@@ -0,0 +1,53 @@
+/**
+ * Helpers for AbortSignal handling that work on every supported Node version
+ * (AbortSignal.throwIfAborted and AbortSignal.any are not available on Node 16).
+ */
+
+const ABORT_ERROR_NAME = 'AbortError';
+
+export function createAbortError(message: string = 'The operation was aborted'): Error {
+  const error = new Error(message);
+  error.name = ABORT_ERROR_NAME;
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === ABORT_ERROR_NAME;
+}
+
+export function throwIfAborted(signal?: AbortSignal, message?: string): void {
+  if (signal?.aborted) {
+    throw createAbortError(message);
+  }
+}
+
+/**
+ * Run `listener` once when the signal aborts (immediately if it already has).
+ * Returns a function that removes the listener.
+ */
+export function onAbort(signal: AbortSignal | undefined, listener: () => void): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early with an AbortError if the signal aborts.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      removeListener();
+      resolve();
+    }, ms);
+    const removeListener = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    });
+  });
+}
@@ -0,0 +1,161 @@
+import * as zlib from 'zlib';
+
+export interface ArchiveEntry {
+  name: string; // posix path inside the archive
+  content: Buffer;
+  mode?: number;
+}
+
+const BLOCK_SIZE = 512;
+const CRC_TABLE = buildCrcTable();
+
+/**
+ * Create an uncompressed POSIX (ustar) tar archive from in-memory entries.
+ * Only regular files are written; directories are implied by entry paths.
+ */
+export function createTar(entries: ArchiveEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  const mtime = Math.floor(Date.now() / 1000);
+
+  for (const entry of entries) {
+    blocks.push(tarHeader(entry, mtime));
+    blocks.push(entry.content);
+    const remainder = entry.content.length % BLOCK_SIZE;
+    if (remainder > 0) {
+      blocks.push(Buffer.alloc(BLOCK_SIZE - remainder));
+    }
+  }
+
+  // Two empty blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+function tarHeader(entry: ArchiveEntry, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitTarName(entry.name);
+
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, entry.mode ?? 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, entry.content.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(' ', 148, 156); // checksum placeholder
+  header.write('0', 156, 1, 'utf-8'); // regular file
+  header.write('ustar\0', 257, 6, 'utf-8');
+  header.write('00', 263, 2, 'utf-8');
+  header.write(prefix, 345, 155, 'utf-8');
+
+  let checksum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    checksum += header[i];
+  }
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'utf-8');
+
+  return header;
+}
+
+function splitTarName(fullName: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(fullName) <= 100) {
+    return { name: fullName, prefix: '' };
+  }
+
+  const slash = fullName.lastIndexOf('/', fullName.length - 2);
+  const prefix = fullName.slice(0, slash);
+  const name = fullName.slice(slash + 1);
+  if (slash <= 0 || Buffer.byteLength(name) > 100 || Buffer.byteLength(prefix) > 155) {
+    throw new Error(`Path too long for tar archive: ${fullName}`);
+  }
+  return { name, prefix };
+}
+
+function writeOctal(buffer: Buffer, value: number, offset: number, length: number): void {
+  buffer.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'utf-8');
+}
+
+/**
+ * Create a deflate-compressed zip archive from in-memory entries.
+ * Only regular files are written; directories are implied by entry paths.
+ */
+export function createZip(entries: ArchiveEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const compressed = zlib.deflateRawSync(entry.content);
+    const crc = crc32(entry.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // utf-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4); // made by unix, spec 2.0
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((0o100000 | (entry.mode ?? 0o644)) << 16) >>> 0, 38); // unix file mode
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
@@ -0,0 +1,79 @@
+import * as http from 'http';
+import * as https from 'https';
+
+export interface HttpRequestOptions {
+  method?: string;
+  // Absolute http(s) URL. Ignored when socketPath is set.
+  url?: string;
+  // Unix socket to talk to (e.g. the Docker Engine); `path` is then used as the request path
+  socketPath?: string;
+  path?: string;
+  headers?: Record<string, string | number>;
+  body?: Buffer | string;
+  timeout?: number; // milliseconds
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Minimal promise-based HTTP client on top of node's http/https modules.
+ * Resolves for every status code; callers decide what counts as an error.
+ */
+export function httpRequest(options: HttpRequestOptions): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const headers: Record<string, string | number> = { ...(options.headers || {}) };
+    if (options.body !== undefined && headers['Content-Length'] === undefined) {
+      headers['Content-Length'] = Buffer.byteLength(options.body);
+    }
+
+    let request: http.ClientRequest;
+    const onResponse = (res: http.IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ statusCode: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    };
+
+    if (options.socketPath) {
+      request = http.request({
+        socketPath: options.socketPath,
+        path: options.path || '/',
+        method: options.method || 'GET',
+        headers: { Host: 'localhost', ...headers }
+      }, onResponse);
+    } else {
+      if (!options.url) {
+        reject(new Error('httpRequest requires either a url or a socketPath'));
+        return;
+      }
+      const url = new URL(options.url);
+      const transport = url.protocol === 'https:' ? https : http;
+      request = transport.request(url, { method: options.method || 'GET', headers }, onResponse);
+    }
+
+    if (options.timeout) {
+      request.setTimeout(options.timeout, () => {
+        request.destroy(new Error(`Request timed out after ${options.timeout}ms`));
+      });
+    }
+
+    request.on('error', reject);
+    if (options.body !== undefined) {
+      request.write(options.body);
+    }
+    request.end();
+  });
+}
+
+/**
+ * Parse a JSON response body, returning undefined for empty bodies.
+ */
+export function parseJsonBody<T = any>(response: HttpResponse): T | undefined {
+  const text = response.body.toString('utf-8').trim();
+  if (!text) return undefined;
+  return JSON.parse(text) as T;
+}
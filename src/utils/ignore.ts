@@ -0,0 +1,95 @@
+/**
+ * A .gitignore matcher covering what project ignore files use: comments, `!` negation, `/`-anchored
+ * and directory-only patterns, `*`, `?`, `**` and character classes. Paths are relative, '/'-separated.
+ */
+
+export type IgnoreMatcher = (relativePath: string, isDirectory: boolean) => boolean;
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export function parseGitignore(content: string): IgnoreMatcher {
+  const rules = content.split(/\r?\n/).map(parseRule).filter((rule): rule is IgnoreRule => !!rule);
+
+  const matches = (relativePath: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.pattern.test(relativePath)) ignored = !rule.negated;
+    }
+    return ignored;
+  };
+
+  // Nothing inside an ignored directory can be re-included, as in git
+  return (relativePath, isDirectory) => {
+    const segments = relativePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (matches(segments.slice(0, i).join('/'), true)) return true;
+    }
+    return matches(relativePath, isDirectory);
+  };
+}
+
+function parseRule(line: string): IgnoreRule | undefined {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return undefined;
+
+  const negated = pattern.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+  pattern = pattern.replace(/^\\([#!])/, '$1');
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.slice(0, -1);
+  // A slash anywhere but the end anchors the pattern to the project root
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+  if (!pattern) return undefined;
+
+  const source = globToRegExp(pattern);
+  return { pattern: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`), negated, directoryOnly };
+}
+
+function globToRegExp(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      if (atStart && glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (atStart && atEnd) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '[^/]*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -1,3 +1,5 @@
+import { redactSecrets, redactSecretsDeep } from './redact';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -67,6 +69,8 @@ export class Logger {
   }
 
   private log(level: LogLevel, message: string, meta?: any): void {
+    message = redactSecrets(message);
+    meta = redactSecretsDeep(meta);
     const timestamp = new Date().toISOString();
     const levelName = LogLevel[level].toString().toUpperCase();
 
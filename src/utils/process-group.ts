@@ -0,0 +1,73 @@
+import { ChildProcess, spawn, SpawnOptions } from 'child_process';
+
+/**
+ * Build processes run in their own process group so that everything a build starts (the shell,
+ * npm, the compilers they run) can be stopped together. Being in another group, they no longer
+ * get the terminal's Ctrl+C, so the groups still running are stopped when the CLI is interrupted.
+ */
+
+// How long a group gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+const running = new Set<ChildProcess>();
+
+export function spawnProcessGroup(command: string, args: string[], options: SpawnOptions): ChildProcess {
+  const detached = process.platform !== 'win32';
+  const child = spawn(command, args, { ...options, detached });
+  if (!detached || child.pid === undefined) return child;
+
+  running.add(child);
+  if (running.size === 1) {
+    FORWARDED_SIGNALS.forEach(signal => process.on(signal, onSignal));
+    process.on('exit', onExit);
+  }
+  child.once('exit', () => untrack(child));
+  child.once('error', () => untrack(child));
+  return child;
+}
+
+/**
+ * Stop the child and everything it started: SIGTERM to the group, then SIGKILL after a grace period.
+ */
+export function killProcessGroup(child: ChildProcess, gracePeriod: number = KILL_GRACE_PERIOD): void {
+  if (child.pid === undefined) return;
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' }).on('error', () => child.kill());
+    return;
+  }
+
+  signalGroup(child.pid, 'SIGTERM');
+  // The shell may be gone while what it started is not, so the group gets the SIGKILL either way
+  const pid = child.pid;
+  setTimeout(() => signalGroup(pid, 'SIGKILL'), gracePeriod).unref();
+}
+
+function signalGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch (err) {
+    // The group is already gone
+  }
+}
+
+function untrack(child: ChildProcess): void {
+  if (!running.delete(child) || running.size > 0) return;
+  FORWARDED_SIGNALS.forEach(signal => process.off(signal, onSignal));
+  process.off('exit', onExit);
+}
+
+function onSignal(signal: NodeJS.Signals): void {
+  running.forEach(child => signalGroup(child.pid!, 'SIGKILL'));
+  running.clear();
+  FORWARDED_SIGNALS.forEach(forwarded => process.off(forwarded, onSignal));
+  process.off('exit', onExit);
+
+  // Nobody else handles the signal: die of it, as the CLI would have without this listener
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+}
+
+function onExit(): void {
+  running.forEach(child => signalGroup(child.pid!, 'SIGKILL'));
+}
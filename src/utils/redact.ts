@@ -0,0 +1,69 @@
+/**
+ * Secret values known to this process, masked wherever logs and build output are written.
+ * Values are registered when a deployment resolves its secrets and stay masked for the life of the process.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+const secretValues: Set<string> = new Set();
+let pattern: RegExp | undefined;
+
+export function registerSecretValues(values: string[]): void {
+  let added = false;
+  for (const value of values) {
+    if (typeof value !== 'string' || value.length === 0 || secretValues.has(value)) continue;
+    secretValues.add(value);
+    added = true;
+  }
+  if (added) {
+    // Longest first, so a secret that contains another one is masked as a whole
+    const sorted = Array.from(secretValues).sort((a, b) => b.length - a.length);
+    pattern = new RegExp(sorted.map(escapeRegExp).join('|'), 'g');
+  }
+}
+
+export function clearSecretValues(): void {
+  secretValues.clear();
+  pattern = undefined;
+}
+
+export function redactSecrets(text: string): string;
+export function redactSecrets(text: string | undefined): string | undefined;
+export function redactSecrets(text: string | undefined): string | undefined {
+  if (!pattern || typeof text !== 'string') return text;
+  return text.replace(pattern, REDACTED);
+}
+
+/**
+ * Copy of `value` with every string in it (including nested objects, arrays and errors) redacted.
+ */
+export function redactSecretsDeep<T>(value: T): T {
+  if (!pattern) return value;
+  return redactValue(value, new WeakMap()) as T;
+}
+
+function redactValue(value: any, seen: WeakMap<object, any>): any {
+  if (typeof value === 'string') return redactSecrets(value);
+  if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (Array.isArray(value)) {
+    const copy: any[] = [];
+    seen.set(value, copy);
+    value.forEach(item => copy.push(redactValue(item, seen)));
+    return copy;
+  }
+
+  const copy: Record<string, any> = {};
+  seen.set(value, copy);
+  // Error's message and stack are not enumerable
+  const keys = value instanceof Error ? ['name', 'message', 'stack', ...Object.keys(value)] : Object.keys(value);
+  for (const key of keys) {
+    copy[key] = redactValue(value[key], seen);
+  }
+  return copy;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
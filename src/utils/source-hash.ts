@@ -0,0 +1,73 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Artifact, Project } from '../types';
+
+// Installed dependencies and metadata, which the lockfiles and build config already stand for
+const SOURCE_EXCLUDES = ['node_modules', '.venv', 'venv', '.git', '.ai-builder'];
+
+/**
+ * Hash the project's source tree: every file's relative path and content, skipping
+ * dependencies, metadata and the build output directory. Files .gitignore ignores stay in,
+ * since builds read `.env` files and generated config. Equal hashes mean the build would
+ * see the same inputs.
+ */
+export async function hashSourceTree(project: Project): Promise<string> {
+  const outputDir = path.resolve(project.path, project.config.build?.outputDir || 'dist');
+  const hash = crypto.createHash('sha256');
+  await hashDirectory(project.path, '', outputDir, hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Check that the artifacts of an earlier build are still on disk, unchanged, and that nothing
+ * has been added to the output directory since.
+ */
+export async function artifactsIntact(project: Project, artifacts: Artifact[]): Promise<boolean> {
+  const outputDir = path.resolve(project.path, project.config.build?.outputDir || 'dist');
+
+  const files = artifacts.filter(artifact => artifact.type === 'file');
+  for (const artifact of files) {
+    const artifactPath = path.join(outputDir, artifact.path);
+    if (!await fs.pathExists(artifactPath)) return false;
+    const content = await fs.readFile(artifactPath);
+    if (crypto.createHash('sha256').update(content).digest('hex') !== artifact.hash) return false;
+  }
+
+  const known = new Set(files.map(artifact => path.normalize(artifact.path)));
+  const present = await fs.pathExists(outputDir) ? await listFiles(outputDir, '') : [];
+  return present.every(file => known.has(file));
+}
+
+// Relative paths of everything but directories, the way builds record their artifacts
+async function listFiles(basePath: string, relativePath: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(path.join(basePath, relativePath), { withFileTypes: true })) {
+    const entryRelativePath = path.join(relativePath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(basePath, entryRelativePath));
+    } else {
+      files.push(entryRelativePath);
+    }
+  }
+  return files;
+}
+
+async function hashDirectory(basePath: string, relativePath: string, outputDir: string, hash: crypto.Hash): Promise<void> {
+  const currentPath = path.join(basePath, relativePath);
+  const entries = (await fs.readdir(currentPath, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (SOURCE_EXCLUDES.includes(entry.name)) continue;
+    const entryPath = path.join(currentPath, entry.name);
+    const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      if (entryPath === outputDir) continue;
+      await hashDirectory(basePath, entryRelativePath, outputDir, hash);
+    } else if (entry.isFile()) {
+      hash.update(entryRelativePath).update('\0');
+      hash.update(await fs.readFile(entryPath)).update('\0');
+    }
+  }
+}
@@ -108,6 +108,10 @@ export class TokenManager extends EventEmitter {
       this.token = undefined;
       this.clearTimers();
     }, expiryDelay);
+
+    // Token bookkeeping should never keep the CLI process alive on its own
+    this.warnTimer.unref?.();
+    this.expiryTimer.unref?.();
   }
 
   private async invokeRefresh(): Promise<TokenRecord | null> {
@@ -1,5 +1,7 @@
 import { ProjectManagerImpl } from '../src/core/project-manager';
 import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { LocalProvider } from '../src/providers/local-provider';
 import { ConfigManagerImpl } from '../src/core/config-manager';
 import { Logger } from '../src/utils/logger';
 import { CLIInterface } from '../src/cli/interface';
@@ -21,11 +23,12 @@ describe('AI Builder Core Components', () => {
     logger = new Logger({ level: 'debug', format: 'pretty' });
     configManager = new ConfigManagerImpl(logger, testDir);
     projectManager = new ProjectManagerImpl(logger, testDir);
-    deploymentEngine = new DeploymentEngineImpl(logger);
+    deploymentEngine = createDeploymentEngine(logger, testDir, projectManager);
     cli = new CLIInterface(logger);
   });
 
   afterEach(async () => {
+    await stopLocalDeployments(deploymentEngine);
     await fs.promises.rm(testDir, { recursive: true, force: true });
   });
 
@@ -151,6 +154,32 @@ describe('AI Builder Core Components', () => {
         
         await expect(deploymentEngine.deploy(project, target)).rejects.toThrow('Build failed');
       });
+
+      it('should record real artifacts and restore the build from the cache while its inputs are unchanged', async () => {
+        const project = await createMockProject('reuse-build', testDir, projectManager);
+        project.config.build.command = 'mkdir -p dist/src && cp src/index.js dist/src/index.js';
+        const target = createMockDeploymentTarget('local');
+
+        const first = await deploymentEngine.deploy(project, target);
+        expect(first.buildResult!.artifacts.map(a => a.path)).toEqual(['src/index.js']);
+        expect(first.buildResult!.sourceHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(first.buildResult!.cached).toBeUndefined();
+
+        const second = await deploymentEngine.deploy(project, target);
+        expect(second.buildResult).toEqual(expect.objectContaining({ cached: true, artifacts: first.buildResult!.artifacts, sourceHash: first.buildResult!.sourceHash }));
+        expect(second.logs.map(log => log.message)).toContain('Build inputs unchanged, restored the build from the cache');
+
+        // The sources are the same, but the build is not
+        project.config.build.command = 'mkdir -p dist/src && cp src/index.js dist/src/main.js';
+        const third = await deploymentEngine.deploy(project, target);
+        expect(third.buildResult!.cached).toBeUndefined();
+        expect(third.buildResult!.artifacts.map(a => a.path)).toContain('src/main.js');
+
+        await fs.promises.appendFile(path.join(project.path, 'src', 'index.js'), '\n// changed\n');
+        const fourth = await deploymentEngine.deploy(project, target);
+        expect(fourth.buildResult!.cached).toBeUndefined();
+        expect(fourth.buildResult!.sourceHash).not.toBe(first.buildResult!.sourceHash);
+      }, 15000);
     });
 
     describe('rollback', () => {
@@ -232,6 +261,25 @@ describe('AI Builder Core Components', () => {
         // Verify command was registered
         expect(cli['commands'].has('test')).toBe(true);
       });
+
+      it('should pass positional arguments and option values to the handler', async () => {
+        const handler = jest.fn().mockResolvedValue(undefined);
+        cli.registerCommand({
+          name: 'cancel',
+          description: 'Test command',
+          arguments: [{ name: 'deploymentId', description: 'Deployment', required: true }],
+          options: [
+            { name: 'wait', description: 'Seconds', type: 'number', default: 30 },
+            { name: 'target', description: 'Target', type: 'string' },
+            { name: 'dry-run', description: 'Dry run', type: 'boolean', default: false }
+          ],
+          handler
+        });
+
+        await cli.execute(['node', 'ai-builder', 'cancel', 'deploy_123', '--wait', '5', '--target', 'production', '--dry-run']);
+
+        expect(handler).toHaveBeenCalledWith({ deploymentId: 'deploy_123', wait: 5, target: 'production', dryRun: true });
+      });
     });
   });
 });
@@ -248,10 +296,11 @@ describe('AI Builder Integration Tests', () => {
     logger = new Logger({ level: 'debug', format: 'pretty' });
     configManager = new ConfigManagerImpl(logger, testDir);
     projectManager = new ProjectManagerImpl(logger, testDir);
-    deploymentEngine = new DeploymentEngineImpl(logger);
+    deploymentEngine = createDeploymentEngine(logger, testDir, projectManager);
   });
 
   afterEach(async () => {
+    await stopLocalDeployments(deploymentEngine);
     await fs.promises.rm(testDir, { recursive: true, force: true });
   });
 
@@ -317,6 +366,24 @@ describe('AI Builder Integration Tests', () => {
 });
 
 // Helper functions
+function createDeploymentEngine(logger: Logger, testDir: string, projectManager: ProjectManagerImpl): DeploymentEngineImpl {
+  // Deployment records and local provider state stay in the test directory rather than the working directory
+  const engine = new DeploymentEngineImpl(logger, new FileDeploymentStore(path.join(testDir, 'deployments'), logger), projectManager);
+  // A short grace period keeps the tests that deploy several times quick
+  engine.registerProvider(new LocalProvider(logger, { stateDir: path.join(testDir, 'local'), startupGracePeriod: 100 }), { replace: true });
+  return engine;
+}
+
+async function stopLocalDeployments(engine: DeploymentEngineImpl): Promise<void> {
+  // The local provider starts real detached processes; make sure none outlive the test
+  const local = engine.listProviders().find((provider): provider is LocalProvider => provider instanceof LocalProvider)!;
+  for (const deployment of await engine.listPersistedDeployments()) {
+    if (deployment.target?.type === 'local') {
+      await local.stop(deployment.id);
+    }
+  }
+}
+
 async function createMockTemplate(name: string, testDir: string): Promise<void> {
   const templateDir = path.join(testDir, 'templates', name);
   await fs.promises.mkdir(templateDir, { recursive: true });
@@ -333,7 +400,9 @@ async function createMockTemplate(name: string, testDir: string): Promise<void>
         outputDir: 'dist',
         environment: {},
         dependencies: [],
-        scripts: {}
+        scripts: {
+          start: 'node src/index.js'
+        }
       },
       deploy: {
         targets: [],
@@ -359,7 +428,7 @@ async function createMockTemplate(name: string, testDir: string): Promise<void>
       },
       {
         path: 'src/index.js',
-        content: 'console.log("Hello World");',
+        content: 'require("http").createServer((req, res) => res.end("Hello World")).listen(process.env.PORT);',
         template: false
       }
     ]
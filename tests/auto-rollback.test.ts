@@ -0,0 +1,135 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { DeploymentEngineImpl, DeploymentPipeline, evaluateRollbackTriggers } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { PreflightCheckRegistry } from '../src/core/preflight-checks';
+import { CloudProvider, DeploymentStatus, DeploymentTarget, Project, ProjectManager } from '../src/types';
+import { createFakeBuilder, createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Automatic rollback', () => {
+  let tmp: string;
+  let store: FileDeploymentStore;
+  let engine: DeploymentEngineImpl;
+  let pipeline: DeploymentPipeline;
+  let provider: jest.Mocked<CloudProvider>;
+  let builder: jest.Mocked<ProjectManager>;
+  let project: Project;
+  let target: DeploymentTarget;
+  let webhook: http.Server;
+  let notifications: any[];
+  let app: http.Server;
+  let appUrl: string;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-rollback-'));
+    store = new FileDeploymentStore(path.join(tmp, 'deployments'), logger);
+
+    notifications = [];
+    webhook = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        notifications.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+    app = http.createServer((req, res) => res.end('ok'));
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+    appUrl = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+
+    provider = createFakeProvider({ name: 'flaky', url: appUrl });
+    builder = createFakeBuilder();
+    engine = createTestEngine(tmp, { logger, store, builder });
+    engine.registerProvider(provider);
+    // No preflight checks: these tests are about what happens after the deploy
+    pipeline = new DeploymentPipeline(engine, logger, new PreflightCheckRegistry(logger));
+
+    target = { name: 'production', type: 'flaky', environment: 'production', config: { host: '' } };
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.1.0', { files: { 'index.js': 'console.log("hi")' } });
+    project.config.deploy = {
+      targets: [target],
+      notifications: {
+        channels: [{ type: 'webhook', config: { url: `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hooks` } }],
+        events: [{ type: 'rollback', enabled: true }]
+      }
+    };
+
+    await store.saveDeployment({
+      id: 'deploy_previous',
+      projectId: 'proj-1',
+      target,
+      version: '1.0.0',
+      status: DeploymentStatus.SUCCESS,
+      logs: [],
+      createdAt: new Date(Date.now() - 60000)
+    });
+  });
+
+  afterEach(async () => {
+    pipeline.stopHealthChecks();
+    await new Promise(resolve => webhook.close(resolve));
+    await new Promise(resolve => app.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  it('rolls a failed deployment back to the last successful one and notifies', async () => {
+    provider.deploy.mockRejectedValue(new Error('boom'));
+
+    await expect(pipeline.executeDeployment(project, target, { autoRollback: true })).rejects.toThrow('boom');
+
+    expect(provider.rollback).toHaveBeenCalledWith('deploy_previous', '1.0.0');
+    const failed = (await store.listDeployments('proj-1')).find(d => d.id !== 'deploy_previous')!;
+    expect(failed.status).toBe(DeploymentStatus.ROLLED_BACK);
+    expect(failed.logs.map(log => log.message)).toContain('Rolling back: deployment failed: boom');
+    expect(notifications).toEqual([expect.objectContaining({
+      event: 'rollback',
+      message: 'Rolled back web-app 1.1.0 to 1.0.0: deployment failed: boom',
+      deployment: expect.objectContaining({ id: failed.id, target: 'production' })
+    })]);
+  });
+
+  it('leaves the target alone when the deployment fails before reaching the provider', async () => {
+    builder.buildProject.mockResolvedValue({ success: false, output: '', artifacts: [], duration: 1, error: 'tsc exited with 2' });
+
+    await expect(pipeline.executeDeployment(project, target, { autoRollback: true })).rejects.toThrow('Build failed: tsc exited with 2');
+
+    expect(provider.deploy).not.toHaveBeenCalled();
+    expect(provider.rollback).not.toHaveBeenCalled();
+    const failed = (await store.listDeployments('proj-1')).find(d => d.id !== 'deploy_previous')!;
+    expect(failed.status).toBe(DeploymentStatus.FAILED);
+    expect(notifications).toEqual([]);
+  });
+
+  it('rolls back when the configured health triggers fire', async () => {
+    project.config.deploy.rollback = { enabled: true, triggers: [{ type: 'error_rate', threshold: 50, timeWindow: 60000 }], backupStrategy: { type: 'full', retention: 3 } };
+    target.config.healthCheck = { endpoint: '/health', interval: 60000, timeout: 1000, retries: 0 };
+
+    // The first check runs against the deployed app right away and passes
+    const deployment = await pipeline.executeDeployment(project, target, { healthCheck: true });
+    expect(provider.rollback).not.toHaveBeenCalled();
+
+    await pipeline.recordHealthCheck(deployment, { healthy: false, timestamp: new Date(), error: 'HTTP 503' });
+
+    expect(provider.rollback).toHaveBeenCalledWith('deploy_previous', '1.0.0');
+    const rolledBack = (await store.getDeployment(deployment.id))!;
+    expect(rolledBack.status).toBe(DeploymentStatus.ROLLED_BACK);
+    expect(rolledBack.logs.map(log => log.message)).toContain('Rolling back: health check error rate 50% in the last 60s (threshold 50%)');
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('only counts health checks inside the trigger window', () => {
+    const now = Date.now();
+    const failure = (ago: number) => ({ healthy: false, timestamp: new Date(now - ago) });
+
+    expect(evaluateRollbackTriggers([{ type: 'health_check', threshold: 2, timeWindow: 1000 }], [failure(5000), failure(100)], now)).toBeUndefined();
+    expect(evaluateRollbackTriggers([{ type: 'health_check', threshold: 2, timeWindow: 1000 }], [failure(500), failure(100)], now))
+      .toBe('2 failed health checks in the last 1s (threshold 2)');
+    expect(evaluateRollbackTriggers([{ type: 'manual' }], [failure(0), failure(0), failure(0)], now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,269 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { AliasRoutingConfig, AWSProvider, AWSClientConfig, AWSClientFactory, LambdaApi, S3Api } from '../src/providers/aws-provider';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * In-memory S3 bucket and Lambda function behind the provider's client interfaces.
+ */
+function createFakeAWS() {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const versions: Array<{ Version: string; Description?: string; code: Buffer }> = [];
+  const aliases = new Map<string, string>();
+  const routing = new Map<string, AliasRoutingConfig>();
+  const configs: AWSClientConfig[] = [];
+  let code = Buffer.alloc(0);
+  let updatePolls = 0;
+
+  const s3: S3Api = {
+    async putObject(input) {
+      objects.set(input.Key, { body: input.Body, contentType: input.ContentType });
+    },
+    async copyObject(input) {
+      const source = decodeURIComponent(input.CopySource.slice(input.Bucket.length + 1));
+      objects.set(input.Key, objects.get(source)!);
+    },
+    async deleteObject(input) {
+      objects.delete(input.Key);
+    },
+    async listObjectsV2(input) {
+      const keys = Array.from(objects.keys()).filter(key => key.startsWith(input.Prefix || ''));
+      if (input.Delimiter) {
+        const prefixes = new Set(keys.map(key => key.slice((input.Prefix || '').length)).filter(rest => rest.includes('/')).map(rest => `${input.Prefix}${rest.split('/')[0]}/`));
+        return { CommonPrefixes: Array.from(prefixes).map(Prefix => ({ Prefix })) };
+      }
+      return { Contents: keys.map(Key => ({ Key })) };
+    },
+    async getObject(input) {
+      return objects.get(input.Key)?.body;
+    },
+    async headBucket(input) {
+      if (input.Bucket !== 'site-bucket') throw Object.assign(new Error('UnknownError'), { name: 'NotFound' });
+    }
+  };
+
+  const lambda: LambdaApi = {
+    async updateFunctionCode(input) {
+      code = input.ZipFile;
+      updatePolls = 0;
+    },
+    async getFunctionConfiguration(input) {
+      if (input.FunctionName !== 'web-api') throw Object.assign(new Error(`Function not found: ${input.FunctionName}`), { name: 'ResourceNotFoundException' });
+      // The first poll after an update still reports it in progress
+      return { State: 'Active', LastUpdateStatus: updatePolls++ === 0 ? 'InProgress' : 'Successful' };
+    },
+    async publishVersion(input) {
+      const version = { Version: String(versions.length + 1), Description: input.Description, code };
+      versions.push(version);
+      return { Version: version.Version };
+    },
+    async getAlias(input) {
+      const version = aliases.get(input.Name);
+      return version ? { FunctionVersion: version } : undefined;
+    },
+    async createAlias(input) {
+      if (aliases.has(input.Name)) throw new Error('ResourceConflictException');
+      aliases.set(input.Name, input.FunctionVersion);
+      if (input.RoutingConfig) routing.set(input.Name, input.RoutingConfig);
+    },
+    async updateAlias(input) {
+      if (!aliases.has(input.Name)) throw new Error('ResourceNotFoundException');
+      aliases.set(input.Name, input.FunctionVersion);
+      if (input.RoutingConfig) routing.set(input.Name, input.RoutingConfig);
+    },
+    async listVersionsByFunction() {
+      return { Versions: [{ Version: '$LATEST' }, ...versions.map(({ Version, Description }) => ({ Version, Description }))] };
+    },
+    async getFunctionUrl(input) {
+      return `https://fn-${input.Qualifier}.lambda-url.us-east-1.on.aws/`;
+    }
+  };
+
+  const clients: AWSClientFactory = {
+    s3: config => (configs.push(config), s3),
+    lambda: config => (configs.push(config), lambda)
+  };
+
+  return { clients, objects, versions, aliases, routing, configs };
+}
+
+describe('AWSProvider (fake S3 / Lambda clients)', () => {
+  let tmp: string;
+  let aws: ReturnType<typeof createFakeAWS>;
+  let provider: AWSProvider;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-aws-'));
+    aws = createFakeAWS();
+    provider = new AWSProvider(logger, { stateDir: path.join(tmp, 'state'), clients: aws.clients, pollInterval: 10 });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string, files: Record<string, string> = {}): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, { files: { 'dist/index.html': `<h1>${version}</h1>`, ...files } });
+  }
+
+  describe('s3 service', () => {
+    const target: any = {
+      name: 'site',
+      type: 'aws',
+      environment: 'production',
+      config: { host: '', service: 's3', bucket: 'site-bucket', region: 'eu-west-1', endpoint: 'http://localhost:4566' }
+    };
+
+    it('uploads a release per deployment, copies it live and rolls back by copying an earlier one', async () => {
+      const result = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+      expect(result.url).toBe('http://localhost:4566/site-bucket/index.html');
+      expect(aws.configs[0]).toEqual({ region: 'eu-west-1', endpoint: 'http://localhost:4566', forcePathStyle: true });
+      expect(aws.objects.get('releases/dep-1/index.html')!.contentType).toBe('text/html; charset=utf-8');
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>1.0.0</h1>');
+      expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>1.1.0</h1>');
+
+      await provider.rollback('dep-2', '1.0.0');
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>1.0.0</h1>');
+
+      const deployments = await provider.listDeployments();
+      expect(deployments.map(d => [d.id, d.version, d.result?.metadata.current])).toEqual([
+        ['dep-1', '1.0.0', true],
+        ['dep-2', '1.1.0', false]
+      ]);
+      await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No deployment of 0.9.0 to s3://site-bucket is recorded');
+    });
+
+    it('deletes live objects the activated release does not have', async () => {
+      await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0', { 'dist/old.js': 'old' }), target, buildResult, environment: {} });
+      expect(aws.objects.get('old.js')!.body.toString()).toBe('old');
+
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+      expect(aws.objects.has('old.js')).toBe(false);
+      expect(aws.objects.has('releases/dep-1/old.js')).toBe(true);
+
+      await provider.rollback('dep-1', '1.0.0');
+      expect(aws.objects.get('old.js')!.body.toString()).toBe('old');
+    });
+
+    it('keeps the served release when the same version is deployed again', async () => {
+      await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.0.0', { 'dist/index.html': '<h1>rebuilt</h1>' }), target, buildResult, environment: {}, color: 'green' });
+
+      expect(aws.objects.get('releases/dep-1/index.html')!.body.toString()).toBe('<h1>1.0.0</h1>');
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>1.0.0</h1>');
+
+      await provider.activate('dep-2');
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>rebuilt</h1>');
+      await provider.rollback('dep-1', '1.0.0');
+      expect(aws.objects.get('index.html')!.body.toString()).toBe('<h1>1.0.0</h1>');
+    });
+
+    it('checks that the bucket can be reached', async () => {
+      const project = await createProject('1.0.0');
+      await provider.checkReachability(target, project);
+      await expect(provider.checkReachability({ ...target, config: { ...target.config, bucket: 'other-bucket' } }, project))
+        .rejects.toThrow('S3 bucket other-bucket in eu-west-1 cannot be reached: NotFound (UnknownError)');
+    });
+  });
+
+  describe('lambda service', () => {
+    const target: any = { name: 'api', type: 'aws', environment: 'production', config: { host: '', service: 'lambda', functionName: 'web-api' } };
+
+    it('publishes a version per deploy and moves the alias', async () => {
+      const first = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+      expect(first.url).toBe('https://fn-production.lambda-url.us-east-1.on.aws/');
+      expect(first.metadata).toMatchObject({ functionName: 'web-api', alias: 'production', functionVersion: '1' });
+      expect(aws.versions[0].code.readUInt32LE(0)).toBe(0x04034b50);
+      expect(aws.aliases.get('production')).toBe('1');
+
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+      expect(aws.aliases.get('production')).toBe('2');
+      expect(aws.versions.map(v => v.Description)).toEqual(['1.0.0', '1.1.0']);
+      expect(await provider.getStatus('dep-2')).toBe(DeploymentStatus.SUCCESS);
+    });
+
+    it('rolls back by pointing the alias at the version described with the target version', async () => {
+      await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+
+      await provider.rollback('dep-2', '1.0.0');
+      expect(aws.aliases.get('production')).toBe('1');
+
+      const deployments = await provider.listDeployments();
+      expect(deployments.map(d => [d.id, d.version, d.result?.metadata.current])).toEqual([
+        ['dep-1', '1.0.0', true],
+        ['dep-2', '1.1.0', false]
+      ]);
+      await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No published version of web-api is described as 0.9.0');
+    });
+
+    it('weights the alias towards a staged canary version and clears the weights on promotion', async () => {
+      await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+      await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {}, color: 'green' });
+
+      await provider.shiftTraffic('dep-2', 10);
+      expect(aws.aliases.get('production')).toBe('1');
+      expect(aws.routing.get('production')).toEqual({ AdditionalVersionWeights: { 2: 0.1 } });
+
+      await provider.shiftTraffic('dep-2', 0);
+      expect(aws.routing.get('production')).toEqual({ AdditionalVersionWeights: {} });
+
+      await provider.shiftTraffic('dep-2', 50);
+      await provider.activate('dep-2');
+      expect(aws.aliases.get('production')).toBe('2');
+      expect(aws.routing.get('production')).toEqual({ AdditionalVersionWeights: {} });
+
+      await expect(provider.shiftTraffic('dep-1', 10)).rejects.toThrow('only staged Lambda versions can');
+    });
+
+    it('checks that the function can be reached', async () => {
+      const project = await createProject('1.0.0');
+      await provider.checkReachability(target, project);
+      await expect(provider.checkReachability({ ...target, config: { ...target.config, functionName: 'missing' } }, project))
+        .rejects.toThrow('Lambda function missing in us-east-1 cannot be reached: ResourceNotFoundException (Function not found: missing)');
+    });
+
+    it('rejects unknown services', async () => {
+      const invalid: any = { ...target, config: { ...target.config, service: 'ecs' } };
+      await expect(
+        provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target: invalid, buildResult, environment: {} })
+      ).rejects.toThrow("Unsupported AWS service 'ecs'");
+    });
+  });
+
+  describe('credentials', () => {
+    const variables = ['AWS_ACCESS_KEY_ID', 'AWS_SESSION_TOKEN', 'AWS_CREDENTIAL_EXPIRATION', 'AWS_PROFILE', 'AWS_WEB_IDENTITY_TOKEN_FILE'];
+    const original = { ...process.env };
+
+    afterEach(() => {
+      for (const name of variables) {
+        if (original[name] === undefined) delete process.env[name];
+        else process.env[name] = original[name];
+      }
+    });
+
+    it('reports access keys, session credentials and their expiry from the environment', () => {
+      variables.forEach(name => delete process.env[name]);
+      process.env.AWS_ACCESS_KEY_ID = 'AKIA';
+      expect(provider.getCredentialStatus()).toEqual({ present: true, percentUsed: 0, source: 'AWS_ACCESS_KEY_ID' });
+
+      process.env.AWS_SESSION_TOKEN = 'session';
+      expect(provider.getCredentialStatus()).toEqual(expect.objectContaining({ source: 'AWS_SESSION_TOKEN', expiryKnown: false }));
+      process.env.AWS_CREDENTIAL_EXPIRATION = new Date(Date.now() - 1000).toISOString();
+      expect(provider.getCredentialStatus()).toEqual({ present: true, percentUsed: 100, source: 'AWS_SESSION_TOKEN' });
+
+      delete process.env.AWS_ACCESS_KEY_ID;
+      process.env.AWS_PROFILE = 'deploy';
+      expect(provider.getCredentialStatus()).toEqual(expect.objectContaining({ source: "AWS profile 'deploy'", expiryKnown: false }));
+    });
+  });
+});
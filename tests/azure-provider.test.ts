@@ -0,0 +1,113 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { AzureProvider } from '../src/providers/azure-provider';
+import { CloudCredentialManager } from '../src/core/cloud-credential-manager';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Stand-in for the Kudu API: async zip deploys answer 202 with a Location to poll,
+ * and succeed on the second poll.
+ */
+function createKuduStub() {
+  const deployments: any[] = [];
+  const packages: Buffer[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const send = (status: number, json: any, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(json));
+      };
+
+      if (req.method === 'POST' && url.pathname === '/api/zipdeploy') {
+        packages.push(Buffer.concat(chunks));
+        const deployment = { id: `k${deployments.length + 1}`, status: 1, complete: false, message: url.searchParams.get('message'), polls: 0, received_time: new Date().toISOString() };
+        deployments.push(deployment);
+        return send(202, {}, { Location: `/api/deployments/${deployment.id}` });
+      }
+
+      const single = url.pathname.match(/^\/api\/deployments\/([^/]+)$/);
+      if (req.method === 'GET' && single) {
+        const deployment = deployments.find(d => d.id === single[1]);
+        if (++deployment.polls >= 2) Object.assign(deployment, { status: 4, complete: true });
+        return send(200, deployment);
+      }
+
+      if (req.method === 'GET' && url.pathname === '/api/deployments') {
+        return send(200, [...deployments].reverse());
+      }
+
+      send(404, { Message: `unexpected ${req.method} ${url.pathname}` });
+    });
+  });
+
+  return { server, deployments, packages };
+}
+
+describe('AzureProvider (Kudu stub)', () => {
+  let tmp: string;
+  let kudu: ReturnType<typeof createKuduStub>;
+  let provider: AzureProvider;
+  let credentials: CloudCredentialManager;
+  let target: any;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-azure-'));
+    kudu = createKuduStub();
+    await new Promise<void>(resolve => kudu.server.listen(0, '127.0.0.1', resolve));
+
+    credentials = new CloudCredentialManager(logger);
+    credentials.setToken('azure-token', 3600);
+    provider = new AzureProvider(logger, { stateDir: path.join(tmp, 'state'), credentials, pollInterval: 10 });
+    target = {
+      name: 'production',
+      type: 'azure',
+      environment: 'production',
+      config: { host: '', appName: 'web-app', baseUrl: `http://127.0.0.1:${(kudu.server.address() as AddressInfo).port}` }
+    };
+  });
+
+  afterEach(async () => {
+    credentials.stop();
+    await new Promise(resolve => kudu.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, { files: { 'dist/index.js': `console.log("${version}")` } });
+  }
+
+  it('zip-deploys the build output and waits for Kudu to finish', async () => {
+    const result = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    expect(result.url).toBe('https://web-app.azurewebsites.net');
+    expect(result.metadata.kuduDeploymentId).toBe('k1');
+    expect(kudu.packages[0].readUInt32LE(0)).toBe(0x04034b50);
+    expect(kudu.packages[0].toString('latin1')).toContain('index.js');
+    expect(kudu.deployments[0].message).toBe('1.0.0');
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('rolls back by re-deploying the stored package of an earlier version', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(kudu.packages).toHaveLength(3);
+    expect(kudu.packages[2].equals(kudu.packages[0])).toBe(true);
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.map(d => d.version)).toEqual(['1.0.0', '1.1.0', '1.0.0']);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No package for version 0.9.0');
+  });
+});
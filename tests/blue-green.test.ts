@@ -0,0 +1,118 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { LocalProvider } from '../src/providers/local-provider';
+import { DeploymentStatus, DeploymentTarget, Project } from '../src/types';
+import { createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+// A fresh connection per request: the router picks the color when a connection opens
+function get(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http.get(url, { agent: false }, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+describe('Blue-green deployments', () => {
+  let tmp: string;
+  let engine: DeploymentEngineImpl;
+  let provider: LocalProvider;
+  let project: Project;
+  let target: DeploymentTarget;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-blue-green-'));
+    engine = createTestEngine(tmp, { logger });
+    provider = new LocalProvider(logger, { stateDir: path.join(tmp, 'state'), startupGracePeriod: 200 });
+    engine.registerProvider(provider, { replace: true });
+
+    target = {
+      name: 'prod',
+      type: 'local',
+      environment: 'production',
+      config: { host: 'localhost', healthCheck: { endpoint: '/', interval: 0, timeout: 2000, retries: 10, retryDelay: 100 } }
+    };
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.deploy = { targets: [target], strategy: 'blue-green' };
+  });
+
+  afterEach(async () => {
+    const targetDir = path.join(project.path, '.ai-builder', 'local', 'prod');
+    for (const pidFile of ['blue.pid', 'green.pid', 'router.pid']) {
+      const pid = parseInt(await fs.readFile(path.join(targetDir, pidFile), 'utf-8').catch(() => ''), 10);
+      if (!pid) continue;
+      try { process.kill(-pid, 'SIGKILL'); } catch { /* already gone */ }
+    }
+    await fs.remove(tmp);
+  });
+
+  async function release(version: string, status: number = 200): Promise<void> {
+    project.version = version;
+    await fs.outputFile(
+      path.join(project.path, 'dist', 'index.js'),
+      `require("http").createServer((req, res) => { res.statusCode = ${status}; res.end("v${version}"); }).listen(process.env.PORT);`
+    );
+  }
+
+  it('stages the idle color, switches traffic to it and switches back on rollback', async () => {
+    await release('1.0.0');
+    const first = await engine.deploy(project, target);
+    expect(first).toEqual(expect.objectContaining({ color: 'blue', liveColor: 'blue' }));
+    const url = first.result!.url!;
+    expect(await get(url)).toBe('v1.0.0');
+
+    await release('1.1.0');
+    const second = await engine.deploy(project, target);
+    expect(second).toEqual(expect.objectContaining({ color: 'green', liveColor: 'green' }));
+    expect(second.result!.url).toBe(url);
+    expect(await get(url)).toBe('v1.1.0');
+    expect(second.logs.map(log => log.message)).toEqual(expect.arrayContaining([
+      'Staging version 1.1.0 in the idle green environment',
+      'The green environment passed its health check',
+      'Switched traffic from blue to green'
+    ]));
+
+    // Blue is still running, so rolling back is a switch rather than a restart
+    const restart = jest.spyOn(provider, 'rollback');
+    await engine.rollback(second, '1.0.0', { restoreFrom: first });
+
+    expect(restart).not.toHaveBeenCalled();
+    expect(second).toEqual(expect.objectContaining({ status: DeploymentStatus.ROLLED_BACK, liveColor: 'blue' }));
+    expect(await get(url)).toBe('v1.0.0');
+    expect(await engine.getLiveColor('proj-1', 'prod')).toBe('blue');
+  });
+
+  it('keeps the live color when the staged one fails its health check', async () => {
+    await release('1.0.0');
+    const first = await engine.deploy(project, target);
+
+    await release('2.0.0', 500);
+    await expect(engine.deploy(project, target))
+      .rejects.toThrow(/^The green environment failed its health check \(GET .* returned HTTP 500 \(expected 2xx\)\); traffic stays on blue$/);
+
+    expect(await get(first.result!.url!)).toBe('v1.0.0');
+    expect(await engine.getLiveColor('proj-1', 'prod')).toBe('blue');
+  });
+
+  it('refuses providers that cannot switch traffic', async () => {
+    engine.registerProvider({
+      name: 'plain',
+      type: 'custom',
+      deploy: jest.fn(),
+      getStatus: jest.fn(),
+      rollback: jest.fn(),
+      listDeployments: jest.fn()
+    });
+    await release('1.0.0');
+
+    await expect(engine.deploy(project, { ...target, type: 'plain' }))
+      .rejects.toThrow("Provider 'plain' does not support blue-green deployments");
+  });
+});
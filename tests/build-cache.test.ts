@@ -0,0 +1,124 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { Project } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Build cache', () => {
+  let tmp: string;
+  let cache: BuildCache;
+  let projectManager: ProjectManagerImpl;
+  let project: Project;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-build-cache-'));
+    cache = new BuildCache(logger, { dir: path.join(tmp, 'cache') });
+    projectManager = new ProjectManagerImpl(logger, tmp, { cache });
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    // Every real build leaves a line in runs.log next to the project
+    project.config.build = { command: 'echo run >> ../runs.log && mkdir -p dist && cp src/index.js dist/index.js', outputDir: 'dist', environment: { MODE: 'a' }, dependencies: [], scripts: {} };
+    await fs.outputFile(path.join(project.path, 'src', 'index.js'), 'console.log("v1")');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  async function runs(): Promise<number> {
+    return (await fs.readFile(path.join(tmp, 'runs.log'), 'utf-8')).trim().split('\n').length;
+  }
+
+  it('restores the output directory and result of an unchanged build', async () => {
+    const first = await projectManager.buildProject(project);
+    expect(first.success).toBe(true);
+    expect(first.cached).toBeUndefined();
+
+    await fs.remove(path.join(project.path, 'dist'));
+    const second = await projectManager.buildProject(project);
+    expect(second).toEqual(expect.objectContaining({ success: true, cached: true, artifacts: first.artifacts, sourceHash: first.sourceHash }));
+    expect(await fs.readFile(path.join(project.path, 'dist', 'index.js'), 'utf-8')).toBe('console.log("v1")');
+    expect(await runs()).toBe(1);
+
+    // Each key input invalidates the entry
+    project.config.build.environment.MODE = 'b';
+    await projectManager.buildProject(project);
+    await fs.outputFile(path.join(project.path, 'src', 'index.js'), 'console.log("v2")');
+    await projectManager.buildProject(project);
+    expect(await runs()).toBe(3);
+
+    expect((await projectManager.buildProject(project, { cache: false })).cached).toBeUndefined();
+    expect(await runs()).toBe(4);
+    expect(await cache.list()).toHaveLength(3);
+  });
+
+  it('keys builds on the values of the variables passEnv lets through', async () => {
+    const original = process.env.AI_BUILDER_TEST_MODE;
+    project.config.build.passEnv = ['AI_BUILDER_TEST_MODE'];
+    try {
+      process.env.AI_BUILDER_TEST_MODE = 'development';
+      await projectManager.buildProject(project);
+      process.env.AI_BUILDER_TEST_MODE = 'production';
+      expect((await projectManager.buildProject(project)).cached).toBeUndefined();
+      process.env.AI_BUILDER_TEST_MODE = 'development';
+      expect((await projectManager.buildProject(project)).cached).toBe(true);
+      expect(await runs()).toBe(2);
+    } finally {
+      if (original === undefined) delete process.env.AI_BUILDER_TEST_MODE;
+      else process.env.AI_BUILDER_TEST_MODE = original;
+    }
+  });
+
+  it('keeps ignored files in the key but not installed dependencies', async () => {
+    await fs.outputFile(path.join(project.path, '.gitignore'), '.env\nnode_modules/\n');
+    await fs.outputFile(path.join(project.path, '.env'), 'API_URL=https://staging.example.com');
+    await projectManager.buildProject(project);
+
+    await fs.outputFile(path.join(project.path, 'node_modules', 'left-pad', 'index.js'), 'module.exports = 1');
+    expect((await projectManager.buildProject(project)).cached).toBe(true);
+    expect(await runs()).toBe(1);
+
+    await fs.outputFile(path.join(project.path, '.env'), 'API_URL=https://api.example.com');
+    expect((await projectManager.buildProject(project)).cached).toBeUndefined();
+    expect(await runs()).toBe(2);
+  });
+
+  it('rebuilds when a cached entry is damaged', async () => {
+    await projectManager.buildProject(project);
+    const [entry] = await cache.list();
+    await fs.outputFile(path.join(cache.getDir(), entry.key, 'output', 'index.js'), 'tampered');
+
+    const rebuilt = await projectManager.buildProject(project);
+    expect(rebuilt.cached).toBeUndefined();
+    expect(await fs.readFile(path.join(project.path, 'dist', 'index.js'), 'utf-8')).toBe('console.log("v1")');
+    expect(await runs()).toBe(2);
+    expect(logger.warn).toHaveBeenCalledWith(`Build cache entry ${entry.key.slice(0, 12)} is damaged; removing it`);
+  });
+
+  it('prunes the least recently used entries over the size limit', async () => {
+    const build = async (version: string) => {
+      await fs.outputFile(path.join(project.path, 'src', 'index.js'), `console.log("${version}")`);
+      await projectManager.buildProject(project);
+    };
+    await build('v1');
+    await build('v2');
+    await build('v3');
+    // v1 becomes the most recently used entry
+    await build('v1');
+    const size = (await cache.list())[0].size;
+
+    const result = await cache.prune({ maxSize: size * 2 });
+    expect(result).toEqual({ removed: 1, freed: size, entries: 2, size: size * 2 });
+    expect(await cache.list()).toHaveLength(2);
+
+    // The v2 entry was the least recently used one
+    await fs.outputFile(path.join(project.path, 'src', 'index.js'), 'console.log("v2")');
+    expect((await projectManager.buildProject(project)).cached).toBeUndefined();
+
+    expect((await cache.prune({ maxAge: -1 })).entries).toBe(0);
+    expect(await cache.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { BuildGraph, findProjectDirectories } from '../src/core/build-graph';
+import { createTestLogger } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Monorepo builds', () => {
+  let tmp: string;
+  let projectManager: ProjectManagerImpl;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-build-graph-'));
+    projectManager = new ProjectManagerImpl(logger, path.join(tmp, 'data'), { cache: new BuildCache(logger, { dir: path.join(tmp, 'cache') }) });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  async function addProject(directory: string, command: string, options: { dependsOn?: string[]; packageJson?: any } = {}): Promise<void> {
+    const projectPath = path.join(tmp, 'repo', directory);
+    const name = path.basename(directory);
+    await fs.outputJson(path.join(projectPath, '.ai-builder', 'project.json'), {
+      id: `id-${name}`,
+      name,
+      version: '1.0.0',
+      config: {
+        build: { command, outputDir: 'dist', environment: {}, dependencies: [], scripts: {}, dependsOn: options.dependsOn },
+        deploy: { targets: [] },
+        environment: { variables: {}, secrets: {} }
+      }
+    });
+    await fs.outputJson(path.join(projectPath, 'package.json'), options.packageJson || { name });
+  }
+
+  async function loadGraph(): Promise<BuildGraph> {
+    const directories = await findProjectDirectories(path.join(tmp, 'repo'));
+    return BuildGraph.create(await Promise.all(directories.map(directory => projectManager.loadProject(directory))));
+  }
+
+  it('orders projects by build.dependsOn and package.json dependencies', async () => {
+    await addProject('packages/ui', 'true', { packageJson: { name: '@acme/ui', dependencies: { '@acme/core': '*', react: '^18' } } });
+    await addProject('packages/core', 'true', { packageJson: { name: '@acme/core' } });
+    await addProject('apps/web', 'true', { dependsOn: ['ui'] });
+    await addProject('apps/admin', 'true');
+    await fs.outputJson(path.join(tmp, 'repo', 'node_modules', 'dep', '.ai-builder', 'project.json'), {});
+
+    const graph = await loadGraph();
+    expect(graph.order().map(project => project.name)).toEqual(['admin', 'core', 'ui', 'web']);
+    expect(graph.dependenciesOf('ui')).toEqual(['core']);
+    expect(graph.dependenciesOf('web')).toEqual(['ui']);
+
+    await addProject('packages/core', 'true', { dependsOn: ['web'], packageJson: { name: '@acme/core' } });
+    await expect(loadGraph()).rejects.toThrow('Projects depend on each other in a cycle: core → web → ui → core');
+
+    await addProject('packages/core', 'true', { dependsOn: ['api'] });
+    await expect(loadGraph()).rejects.toThrow("Project 'core' depends on unknown project 'api'");
+  });
+
+  it('builds independent projects at the same time and dependents after their dependencies', async () => {
+    await addProject('lib', 'sleep 0.3 && mkdir -p dist && echo lib > dist/lib.js');
+    await addProject('tools', 'sleep 0.3 && mkdir -p dist && echo tools > dist/tools.js');
+    // Only builds if lib's output is already there
+    await addProject('app', 'mkdir -p dist && cp ../lib/dist/lib.js dist/app.js', { dependsOn: ['lib'] });
+    const cwd = process.cwd();
+
+    const events: string[] = [];
+    const builds = await (await loadGraph()).build(projectManager, {
+      concurrency: 2,
+      onStart: project => events.push(`start ${project.name}`),
+      onFinish: build => events.push(`${build.status} ${build.project.name}`)
+    });
+
+    expect(builds.map(build => [build.project.name, build.status])).toEqual([['lib', 'built'], ['app', 'built'], ['tools', 'built']]);
+    expect(events.slice(0, 2)).toEqual(['start lib', 'start tools']);
+    expect(events.indexOf('start app')).toBeGreaterThan(events.indexOf('built lib'));
+    expect(await fs.readFile(path.join(tmp, 'repo', 'app', 'dist', 'app.js'), 'utf-8')).toBe('lib\n');
+    expect(builds[1].result!.artifacts).toEqual([expect.objectContaining({ path: 'app.js' })]);
+    // Builds leave the working directory alone
+    expect(process.cwd()).toBe(cwd);
+  });
+
+  it('skips projects that depend on a failed build', async () => {
+    await addProject('lib', 'exit 1');
+    await addProject('app', 'true', { dependsOn: ['lib'] });
+    await addProject('site', 'true', { dependsOn: ['app'] });
+    await addProject('docs', 'true');
+
+    const builds = await (await loadGraph()).build(projectManager);
+
+    expect(builds.map(({ project, status, reason }) => ({ name: project.name, status, reason }))).toEqual([
+      { name: 'docs', status: 'built', reason: undefined },
+      { name: 'lib', status: 'failed', reason: undefined },
+      { name: 'app', status: 'skipped', reason: "'lib' did not build" },
+      { name: 'site', status: 'skipped', reason: "'app' did not build" }
+    ]);
+  });
+});
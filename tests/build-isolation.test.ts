@@ -0,0 +1,117 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { EventEmitter } from 'events';
+import { BUILD_TIMEOUT, ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { Project } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+describe('Build timeouts, limits and environment', () => {
+  let tmp: string;
+  let project: Project;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-build-isolation-'));
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.build = { command: 'true', outputDir: 'dist', environment: {}, dependencies: [], scripts: {} };
+    await fs.ensureDir(project.path);
+  });
+
+  afterEach(async () => {
+    delete process.env.AI_BUILDER_TEST_TOKEN;
+    delete process.env.AI_BUILDER_TEST_REGISTRY;
+    await fs.remove(tmp);
+  });
+
+  function createProjectManager(options: any = {}): ProjectManagerImpl {
+    return new ProjectManagerImpl(logger, tmp, { cache: new BuildCache(logger, { dir: path.join(tmp, 'cache') }), ...options });
+  }
+
+  async function outputOf(projectManager: ProjectManagerImpl): Promise<string[]> {
+    const lines: string[] = [];
+    const result = await projectManager.buildProject(project, { cache: false, onOutput: line => lines.push(line.line) });
+    expect(result.error).toBeUndefined();
+    return lines;
+  }
+
+  it('stops the whole process group when the build times out', async () => {
+    // The shell starts a process of its own, which must not outlive the build
+    project.config.build.command = 'sleep 30 & echo $! > sleep.pid; wait';
+    const result = await createProjectManager({ timeout: 500 }).buildProject(project);
+
+    expect(result).toEqual(expect.objectContaining({
+      success: false,
+      errorCode: BUILD_TIMEOUT,
+      error: 'BUILD_TIMEOUT: the build did not finish within 0.5s and was stopped'
+    }));
+    expect(result.duration).toBeLessThan(5000);
+
+    const pid = Number(await fs.readFile(path.join(project.path, 'sleep.pid'), 'utf-8'));
+    for (let waited = 0; isRunning(pid) && waited < 2000; waited += 50) await delay(50);
+    expect(isRunning(pid)).toBe(false);
+
+    // The project's own timeout wins; 0 turns it off
+    project.config.build.command = 'sleep 1';
+    project.config.build.timeout = 0;
+    expect((await createProjectManager({ timeout: 500 }).buildProject(project)).success).toBe(true);
+  }, 15000);
+
+  it('releases its abort listeners when the build process fails to spawn', async () => {
+    const added = jest.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removed = jest.spyOn(AbortSignal.prototype, 'removeEventListener');
+    try {
+      const projectManager = createProjectManager();
+      // A process that fails to spawn reports an 'error' event and never closes
+      jest.spyOn(projectManager as any, 'spawnBuildProcess').mockImplementation(() => {
+        const child = new EventEmitter();
+        process.nextTick(() => child.emit('error', new Error('spawn /bin/sh EAGAIN')));
+        return child;
+      });
+      const result = await projectManager.buildProject(project, { signal: new AbortController().signal });
+      expect(result.error).toBe('spawn /bin/sh EAGAIN');
+
+      const listeners = (spy: jest.SpyInstance) => spy.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+      expect(listeners(added).length).toBeGreaterThan(1);
+      expect(listeners(removed)).toEqual(expect.arrayContaining(listeners(added)));
+    } finally {
+      added.mockRestore();
+      removed.mockRestore();
+    }
+  });
+
+  it('only passes whitelisted variables of the CLI environment', async () => {
+    process.env.AI_BUILDER_TEST_TOKEN = 'leaked';
+    process.env.AI_BUILDER_TEST_REGISTRY = 'https://registry.example.com';
+    project.config.build.command = 'echo "token=$AI_BUILDER_TEST_TOKEN registry=$AI_BUILDER_TEST_REGISTRY mode=$MODE path=${PATH:+set}"';
+    project.config.build.environment = { MODE: 'production' };
+
+    expect(await outputOf(createProjectManager())).toEqual(['token= registry= mode=production path=set']);
+
+    project.config.build.passEnv = ['AI_BUILDER_TEST_REG*'];
+    expect(await outputOf(createProjectManager({ passEnv: ['AI_BUILDER_TEST_TOKEN'] }))).toEqual([
+      'token=leaked registry=https://registry.example.com mode=production path=set'
+    ]);
+  });
+
+  it('applies memory and CPU limits with ulimit', async () => {
+    project.config.build.command = 'ulimit -d; ulimit -t';
+    expect(await outputOf(createProjectManager({ limits: { memory: 512, cpuTime: 60 } }))).toEqual(['524288', '60']);
+
+    project.config.build.limits = { cpuTime: 30 };
+    expect(await outputOf(createProjectManager({ limits: { memory: 512, cpuTime: 60 } }))).toEqual(['524288', '30']);
+  });
+});
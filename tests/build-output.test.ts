@@ -0,0 +1,102 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { REDACTED, clearSecretValues, registerSecretValues } from '../src/utils/redact';
+import { BuildOutputLine, DeploymentTarget, Project } from '../src/types';
+import { createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Live build output', () => {
+  let tmp: string;
+  let projectManager: ProjectManagerImpl;
+  let project: Project;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-build-output-'));
+    projectManager = new ProjectManagerImpl(logger, tmp, { cache: new BuildCache(logger, { dir: path.join(tmp, 'cache') }) });
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.build.command = 'node build.js';
+    // Prints a line in two writes, a warning on stderr and a last line without a line break, pausing
+    // between writes so that the two streams arrive in order
+    await fs.outputFile(path.join(project.path, 'build.js'), [
+      'const writes = [',
+      '  () => process.stdout.write("compiling "),',
+      '  () => process.stdout.write("3 files\\nusing token abc-secret\\n"),',
+      '  () => process.stderr.write("warning: deprecated option\\n"),',
+      '  () => process.stdout.write("done")',
+      '];',
+      'writes.forEach((write, i) => setTimeout(write, i * 50));',
+      'process.exitCode = Number(process.env.EXIT_CODE || 0);'
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    clearSecretValues();
+    await fs.remove(tmp);
+  });
+
+  it('emits each line as it is printed, with its stream and secrets redacted', async () => {
+    registerSecretValues(['abc-secret']);
+    const emitted: BuildOutputLine[] = [];
+    const passed: BuildOutputLine[] = [];
+    projectManager.on('buildOutput', line => emitted.push(line));
+
+    const result = await projectManager.buildProject(project, { onOutput: line => passed.push(line) });
+
+    expect(result.success).toBe(true);
+    expect(emitted.map(({ stream, line }) => [stream, line])).toEqual([
+      ['stdout', 'compiling 3 files'],
+      ['stdout', `using token ${REDACTED}`],
+      ['stderr', 'warning: deprecated option'],
+      ['stdout', 'done']
+    ]);
+    expect(emitted[0]).toEqual({ projectId: 'proj-1', stream: 'stdout', line: 'compiling 3 files', timestamp: expect.any(Date) });
+    expect(passed).toEqual(emitted);
+    // The result still carries the whole stdout
+    expect(result.output).toBe('compiling 3 files\nusing token abc-secret\ndone');
+  });
+
+  it('keeps the output of a failed build', async () => {
+    project.config.build.environment = { EXIT_CODE: '2' };
+    const lines: string[] = [];
+    projectManager.on('buildOutput', (line: BuildOutputLine) => lines.push(line.line));
+
+    const result = await projectManager.buildProject(project);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Command failed: warning: deprecated option\n');
+    expect(result.output).toBe('compiling 3 files\nusing token abc-secret\ndone');
+    expect(lines).toHaveLength(4);
+  });
+
+  it('adds the lines to the deployment log as build entries', async () => {
+    const engine = createTestEngine(tmp, { logger, builder: projectManager });
+    engine.registerProvider(createFakeProvider());
+    const target: DeploymentTarget = { name: 'prod', type: 'fake', environment: 'production', config: { host: '' } };
+    project.config.deploy.targets = [target];
+    const live: string[] = [];
+    engine.on('logAdded', (_deployment, log) => {
+      if (log.source === 'build') live.push(log.message);
+    });
+
+    const deployment = await engine.deploy(project, target);
+
+    const build = deployment.logs.filter(log => log.source === 'build');
+    expect(build.map(({ level, message, stream }) => ({ level, message, stream }))).toEqual([
+      { level: 'info', message: 'compiling 3 files', stream: 'stdout' },
+      { level: 'info', message: 'using token abc-secret', stream: 'stdout' },
+      { level: 'info', message: 'warning: deprecated option', stream: 'stderr' },
+      { level: 'info', message: 'done', stream: 'stdout' }
+    ]);
+    expect(live).toEqual(build.map(log => log.message));
+    // In order, before the build is reported done
+    const messages = deployment.logs.map(log => log.message);
+    expect(messages.indexOf('done')).toBeLessThan(messages.findIndex(message => message.startsWith('Build completed')));
+
+    const [persisted] = await engine.listPersistedDeployments('proj-1');
+    expect(persisted.logs.filter(log => log.source === 'build')).toHaveLength(4);
+  });
+});
@@ -0,0 +1,112 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl, resolveBuildSteps } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { BuildOutputLine, BuildStep, Project } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Build steps', () => {
+  let tmp: string;
+  let cache: BuildCache;
+  let projectManager: ProjectManagerImpl;
+  let project: Project;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-build-steps-'));
+    cache = new BuildCache(logger, { dir: path.join(tmp, 'cache') });
+    projectManager = new ProjectManagerImpl(logger, tmp, { cache });
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.build = {
+      command: '',
+      outputDir: 'dist',
+      environment: { MODE: 'production' },
+      dependencies: [],
+      scripts: {
+        lint: 'echo lint >> steps.log',
+        compile: 'mkdir -p dist && echo "compiled for $MODE" > dist/index.js && echo compile >> steps.log',
+        start: 'node dist/index.js'
+      },
+      steps: [
+        // lint and typecheck run side by side, each writing its start, then both finish
+        [
+          { name: 'lint', command: 'echo lint-start >> steps.log && sleep 0.3 && echo lint >> steps.log' },
+          { name: 'typecheck', command: 'echo typecheck-start >> steps.log && sleep 0.3 && echo typecheck >> steps.log' }
+        ],
+        { name: 'test', command: 'echo "testing in $MODE" && exit 1', environment: { MODE: 'test' }, continueOnError: true },
+        { name: 'docs', command: 'echo docs >> steps.log', if: 'test -f docs.md' },
+        'compile'
+      ]
+    };
+    await fs.ensureDir(project.path);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  async function stepsLog(): Promise<string[]> {
+    return (await fs.readFile(path.join(project.path, 'steps.log'), 'utf-8')).trim().split('\n');
+  }
+
+  it('runs the steps in order, groups side by side, and records each step', async () => {
+    const lines: BuildOutputLine[] = [];
+    const result = await projectManager.buildProject(project, { onOutput: line => lines.push(line) });
+
+    expect(result.success).toBe(true);
+    expect(result.steps!.map(({ name, status }) => [name, status])).toEqual([
+      ['lint', 'passed'],
+      ['typecheck', 'passed'],
+      ['test', 'failed'],
+      ['docs', 'skipped'],
+      ['compile', 'passed']
+    ]);
+    expect(result.steps![0].duration).toBeGreaterThanOrEqual(250);
+    expect(result.steps![2].error).toBe('Command failed with exit code 1');
+    expect((await stepsLog()).slice(0, 2).sort()).toEqual(['lint-start', 'typecheck-start']);
+    expect((await stepsLog()).slice(4)).toEqual(['compile']);
+    expect(await fs.readFile(path.join(project.path, 'dist', 'index.js'), 'utf-8')).toBe('compiled for production\n');
+    expect(lines).toEqual([expect.objectContaining({ step: 'test', stream: 'stdout', line: 'testing in test' })]);
+    expect(result.output).toBe('testing in test\n');
+
+    // The condition holds once docs.md exists
+    await fs.writeFile(path.join(project.path, 'docs.md'), '# Docs');
+    const next = await projectManager.buildProject(project, { cache: false });
+    expect(next.steps!.find(step => step.name === 'docs')!.status).toBe('passed');
+  });
+
+  it('skips the remaining steps after a failure', async () => {
+    (project.config.build.steps![1] as BuildStep).continueOnError = false;
+    const result = await projectManager.buildProject(project);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Step 'test' failed: Command failed with exit code 1");
+    expect(result.output).toBe('testing in test\n');
+    expect(result.steps!.map(({ name, status }) => [name, status])).toEqual([
+      ['lint', 'passed'],
+      ['typecheck', 'passed'],
+      ['test', 'failed'],
+      ['docs', 'skipped'],
+      ['compile', 'skipped']
+    ]);
+    expect(await fs.pathExists(path.join(project.path, 'dist'))).toBe(false);
+  });
+
+  it('runs a single step, whatever its condition, without the build cache', async () => {
+    const result = await projectManager.buildProject(project, { step: 'docs' });
+    expect(result.steps).toEqual([{ name: 'docs', status: 'passed', duration: expect.any(Number) }]);
+    expect(await stepsLog()).toEqual(['docs']);
+    expect(await cache.list()).toEqual([]);
+
+    const unknown = await projectManager.buildProject(project, { step: 'deploy' });
+    expect(unknown.error).toBe('Unknown build step \'deploy\' (steps: lint, typecheck, test, docs, compile)');
+  });
+
+  it('checks the step definitions', () => {
+    expect(resolveBuildSteps({ ...project.config.build, steps: undefined, command: 'make' })).toEqual([[{ name: 'build', command: 'make' }]]);
+    expect(() => resolveBuildSteps({ ...project.config.build, steps: ['lint', 'bundle'] })).toThrow('Build step \'bundle\' has no command, and there is no build.scripts.bundle');
+    expect(() => resolveBuildSteps({ ...project.config.build, steps: ['lint', ['compile', 'lint']] })).toThrow('Build step \'lint\' is defined twice');
+  });
+});
@@ -0,0 +1,126 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { BuildWatcher, WatchedBuild, diffArtifacts } from '../src/core/build-watcher';
+import { parseGitignore } from '../src/utils/ignore';
+import { Project } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Build watch mode', () => {
+  let tmp: string;
+  let projectManager: ProjectManagerImpl;
+  let project: Project;
+  let watcher: BuildWatcher | undefined;
+  let builds: WatchedBuild[];
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-watch-'));
+    projectManager = new ProjectManagerImpl(logger, tmp, { cache: new BuildCache(logger, { dir: path.join(tmp, 'cache') }) });
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.build = { command: 'mkdir -p dist && cp -r src/. dist/', outputDir: 'dist', environment: {}, dependencies: [], scripts: {} };
+    await fs.outputFile(path.join(project.path, 'src', 'index.js'), 'console.log("v1")');
+    await fs.outputFile(path.join(project.path, '.gitignore'), '# scratch files\n*.log\ntmp/\n');
+    builds = [];
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    watcher = undefined;
+    await fs.remove(tmp);
+  });
+
+  async function waitForBuilds(count: number): Promise<void> {
+    for (let waited = 0; builds.length < count; waited += 20) {
+      if (waited > 5000) throw new Error(`Expected ${count} builds, saw ${builds.length}`);
+      await delay(20);
+    }
+  }
+
+  it('rebuilds on source changes and reports the changed artifacts', async () => {
+    const build = jest.spyOn(projectManager, 'buildProject');
+    watcher = new BuildWatcher(projectManager, project, logger, { debounce: 200, onBuild: b => { builds.push(b); } });
+    const first = await watcher.start();
+    expect(first.changedFiles).toEqual([]);
+    expect(first.artifacts).toEqual([{ path: 'index.js', change: 'added', size: 17 }]);
+
+    // Ignored by .gitignore, or the build's own output
+    await fs.outputFile(path.join(project.path, 'debug.log'), 'noise');
+    await fs.outputFile(path.join(project.path, 'tmp', 'scratch.js'), 'noise');
+    await fs.outputFile(path.join(project.path, 'dist', 'extra.js'), 'noise');
+    await delay(500);
+    expect(builds).toHaveLength(1);
+
+    // Several quick writes make one rebuild
+    await fs.writeFile(path.join(project.path, 'src', 'index.js'), 'console.log("v2")');
+    await fs.writeFile(path.join(project.path, 'src', 'index.js'), 'console.log("v3!")');
+    await waitForBuilds(2);
+    await delay(400);
+    expect(builds).toHaveLength(2);
+    expect(builds[1].changedFiles).toEqual(['src/index.js']);
+    // dist/extra.js did not trigger a build, but the next build reports it
+    expect(builds[1].artifacts).toEqual([
+      { path: 'extra.js', change: 'added', size: 5 },
+      { path: 'index.js', change: 'modified', size: 18, previousSize: 17 }
+    ]);
+    expect(build).toHaveBeenLastCalledWith(project, expect.objectContaining({ skipInstall: true }));
+
+    // New directories are picked up
+    await fs.outputFile(path.join(project.path, 'src', 'lib', 'util.js'), 'module.exports = 1');
+    await waitForBuilds(3);
+    await delay(300);
+    await fs.writeFile(path.join(project.path, 'src', 'lib', 'util.js'), 'module.exports = 2');
+    await waitForBuilds(4);
+    expect(builds[3].changedFiles).toEqual(['src/lib/util.js']);
+    expect(builds[3].artifacts).toEqual([expect.objectContaining({ path: 'lib/util.js', change: 'modified' })]);
+
+    await fs.writeFile(path.join(project.path, 'package.json'), '{}');
+    await waitForBuilds(5);
+    expect(build).toHaveBeenLastCalledWith(project, expect.objectContaining({ skipInstall: false }));
+  }, 20000);
+
+  it('diffs artifacts by path and hash', () => {
+    const artifact = (p: string, hash: string, size = 1) => ({ path: p, hash, size, type: 'file' as const });
+    expect(diffArtifacts(
+      [artifact('a.js', '1'), artifact('b.js', '2'), artifact('c.js', '3', 5)],
+      [artifact('a.js', '1'), artifact('b.js', '9', 2), artifact('d.js', '4')]
+    )).toEqual([
+      { path: 'b.js', change: 'modified', size: 2, previousSize: 1 },
+      { path: 'c.js', change: 'removed', size: 0, previousSize: 5 },
+      { path: 'd.js', change: 'added', size: 1 }
+    ]);
+  });
+
+  it('matches .gitignore patterns', () => {
+    const ignored = parseGitignore([
+      '# comment',
+      '*.log',
+      '!keep.log',
+      '/build',
+      'cache/',
+      'docs/**/*.tmp',
+      'file?.txt',
+      '\\#hash'
+    ].join('\n'));
+
+    expect(ignored('debug.log', false)).toBe(true);
+    expect(ignored('src/deep/debug.log', false)).toBe(true);
+    expect(ignored('keep.log', false)).toBe(false);
+    expect(ignored('build', true)).toBe(true);
+    expect(ignored('build/out.js', false)).toBe(true);
+    expect(ignored('src/build', true)).toBe(false);
+    expect(ignored('cache', false)).toBe(false);
+    expect(ignored('src/cache/x.js', false)).toBe(true);
+    expect(ignored('docs/a/b/c.tmp', false)).toBe(true);
+    expect(ignored('docs/c.tmp', false)).toBe(true);
+    expect(ignored('file1.txt', false)).toBe(true);
+    expect(ignored('file10.txt', false)).toBe(false);
+    expect(ignored('#hash', false)).toBe(true);
+    expect(ignored('src/index.js', false)).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl, DeploymentPipeline, evaluateCanary } from '../src/core/deployment-engine';
+import { LocalProvider } from '../src/providers/local-provider';
+import { CanaryStage, DeploymentTarget, Project } from '../src/types';
+import { createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+// A fresh connection per request: the router picks the upstream when a connection opens
+function get(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http.get(url, { agent: false }, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+describe('Canary deployments', () => {
+  let tmp: string;
+  let engine: DeploymentEngineImpl;
+  let pipeline: DeploymentPipeline;
+  let project: Project;
+  let target: DeploymentTarget;
+  let stages: CanaryStage[];
+  let routes: any[];
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-canary-'));
+    engine = createTestEngine(tmp, { logger });
+    engine.registerProvider(new LocalProvider(logger, { stateDir: path.join(tmp, 'state'), startupGracePeriod: 200 }), { replace: true });
+    pipeline = new DeploymentPipeline(engine, logger);
+
+    target = {
+      name: 'prod',
+      type: 'local',
+      environment: 'production',
+      config: { host: 'localhost', healthCheck: { endpoint: '/', interval: 0, timeout: 2000, retries: 10, retryDelay: 100 } }
+    };
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.deploy = { targets: [target], strategy: 'canary', canary: { steps: [25, 100], dwellTime: 300, sampleInterval: 50 } };
+
+    // What the router was told at each canary step
+    stages = [];
+    routes = [];
+    engine.on('statusUpdated', (_deployment, _status, stage?: CanaryStage) => {
+      if (!stage) return;
+      stages.push(stage);
+      routes.push(fs.readJsonSync(path.join(project.path, '.ai-builder', 'local', 'prod', 'live.json')));
+    });
+  });
+
+  afterEach(async () => {
+    pipeline.stopHealthChecks();
+    const targetDir = path.join(project.path, '.ai-builder', 'local', 'prod');
+    for (const pidFile of ['blue.pid', 'green.pid', 'router.pid']) {
+      const pid = parseInt(await fs.readFile(path.join(targetDir, pidFile), 'utf-8').catch(() => ''), 10);
+      if (!pid) continue;
+      try { process.kill(-pid, 'SIGKILL'); } catch { /* already gone */ }
+    }
+    await fs.remove(tmp);
+  });
+
+  async function release(version: string, delay: number = 0): Promise<void> {
+    project.version = version;
+    await fs.outputFile(
+      path.join(project.path, 'dist', 'index.js'),
+      `require("http").createServer((req, res) => setTimeout(() => res.end("v${version}"), ${delay})).listen(process.env.PORT);`
+    );
+  }
+
+  it('shifts traffic step by step and promotes the new version', async () => {
+    await release('1.0.0');
+    const first = await pipeline.executeDeployment(project, target, { skipChecks: true });
+    expect(first.logs.map(log => log.message)).toContain("Nothing is live on prod yet; skipping the canary steps");
+    expect(stages).toEqual([]);
+
+    await release('1.1.0');
+    const progress: string[] = [];
+    const second = await pipeline.executeDeployment(project, target, { skipChecks: true, progressCallback: (_p, message) => progress.push(message) });
+
+    expect(stages).toEqual([{ step: 1, steps: 2, percent: 25 }, { step: 2, steps: 2, percent: 100 }]);
+    expect(routes[0]).toEqual(expect.objectContaining({ color: 'blue', canary: expect.objectContaining({ deploymentId: second.id, weight: 25 }) }));
+    expect(routes[1]).toEqual(expect.objectContaining({ color: 'green', deploymentId: second.id }));
+    expect(routes[1].canary).toBeUndefined();
+    expect(progress).toEqual(expect.arrayContaining([
+      'Canary step 1/2: 25% of traffic on the new version...',
+      'Canary step 2/2: promoted to all traffic...'
+    ]));
+    expect(second.logs.map(log => log.message)).toEqual(expect.arrayContaining([
+      'Sent 25% of traffic to green (canary step 1/2)',
+      'Switched traffic from blue to green'
+    ]));
+    expect(await get(second.result!.url!)).toBe('v1.1.0');
+  }, 20000);
+
+  it('sends all traffic back when a step breaches the thresholds', async () => {
+    await release('1.0.0');
+    const first = await pipeline.executeDeployment(project, target, { skipChecks: true });
+
+    project.config.deploy.canary!.thresholds = { responseTime: 50 };
+    await release('2.0.0', 150);
+    await expect(pipeline.executeDeployment(project, target, { skipChecks: true }))
+      .rejects.toThrow(/^Canary step 1\/2 \(25%\) breached its thresholds: average response time \d+ms \(threshold 50ms\)$/);
+
+    expect(stages).toEqual([{ step: 1, steps: 2, percent: 25 }]);
+    const route = await fs.readJson(path.join(project.path, '.ai-builder', 'local', 'prod', 'live.json'));
+    expect(route).toEqual(expect.objectContaining({ color: 'blue', deploymentId: first.id }));
+    expect(route.canary).toBeUndefined();
+    expect(await get(first.result!.url!)).toBe('v1.0.0');
+    expect(await engine.getLiveColor('proj-1', 'prod')).toBe('blue');
+
+    const [failed] = (await engine.listPersistedDeployments('proj-1')).filter(d => d.version === '2.0.0');
+    expect(failed.logs.map(log => log.message)).toContain('Canary aborted; all traffic is back on blue');
+  }, 20000);
+
+  it('needs a provider that can split traffic and a driver for the steps', async () => {
+    engine.registerProvider({
+      name: 'switch-only',
+      type: 'custom',
+      deploy: jest.fn(),
+      activate: jest.fn(),
+      getStatus: jest.fn(),
+      rollback: jest.fn(),
+      listDeployments: jest.fn()
+    });
+    await release('1.0.0');
+
+    await expect(pipeline.executeDeployment(project, { ...target, type: 'switch-only' }, { skipChecks: true }))
+      .rejects.toThrow("Provider 'switch-only' does not support canary deployments");
+    await expect(engine.deploy(project, target))
+      .rejects.toThrow('Canary deployments need a driver for their steps; deploy through DeploymentPipeline');
+  });
+
+  it('gates on the error rate and the average response time', () => {
+    const sample = (healthy: boolean, responseTime: number) => ({ healthy, responseTime, attempts: 1, timestamp: new Date(), error: healthy ? undefined : 'HTTP 500' });
+
+    expect(evaluateCanary([sample(true, 10), sample(true, 30)])).toBeUndefined();
+    expect(evaluateCanary([sample(true, 10), sample(false, 10)], { errorRate: 50 })).toBeUndefined();
+    expect(evaluateCanary([sample(true, 10), sample(false, 10), sample(false, 10)], { errorRate: 50 }))
+      .toBe('error rate 67% (threshold 50%; last error: HTTP 500)');
+    expect(evaluateCanary([sample(true, 100), sample(true, 300)], { responseTime: 150 }))
+      .toBe('average response time 200ms (threshold 150ms)');
+    expect(evaluateCanary([])).toBe('no samples were taken');
+  });
+});
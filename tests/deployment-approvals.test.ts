@@ -0,0 +1,182 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import * as fs from 'fs-extra';
+import WebSocket from 'ws';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { isWithinDeployWindows } from '../src/core/deployment-approvals';
+import { ChatInterface, ChatMessage } from '../src/integrations/chat';
+import { CloudProvider, Deployment, DeploymentStatus, DeploymentTarget, Project, ProtectionRules } from '../src/types';
+import { createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Deployment approvals', () => {
+  let tmp: string;
+  let store: FileDeploymentStore;
+  let engine: DeploymentEngineImpl;
+  let provider: jest.Mocked<CloudProvider>;
+  let project: Project;
+  let target: DeploymentTarget;
+  // The production environment's rules
+  let protection: ProtectionRules;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-approvals-'));
+    store = new FileDeploymentStore(path.join(tmp, 'deployments'), logger);
+    engine = createTestEngine(tmp, { logger, store, approvalPollInterval: 20, cancellationPollInterval: 20 });
+    provider = createFakeProvider();
+    engine.registerProvider(provider);
+
+    target = { name: 'prod', type: 'fake', environment: 'production', config: { host: '' } };
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.deploy = {
+      targets: [target],
+      protectedEnvironments: { production: protection = { approvers: ['alice', 'bob'], requiredApprovals: 2 } }
+    };
+    await fs.ensureDir(project.path);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  function waitingDeployment(): Promise<Deployment> {
+    return new Promise(resolve => engine.once('approvalRequired', resolve));
+  }
+
+  it('stays pending until the required approvers approve', async () => {
+    const waiting = waitingDeployment();
+    const deploying = engine.deploy(project, target);
+    const { id } = await waiting;
+
+    await expect(engine.approveDeployment(id, 'eve')).rejects.toThrow("'eve' may not approve deployments to production (approvers: alice, bob)");
+    expect((await engine.approveDeployment(id, 'alice', 'looks good')).approvedBy).toEqual(['alice']);
+    await expect(engine.approveDeployment(id, 'alice')).rejects.toThrow(`'alice' already approved deployment ${id}`);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect((await store.getDeployment(id))!.status).toBe(DeploymentStatus.PENDING);
+    expect(provider.deploy).not.toHaveBeenCalled();
+    expect((await engine.listAwaitingApproval()).map(d => d.id)).toEqual([id]);
+    expect(await engine.listQueuedDeployments()).toEqual([]);
+
+    await engine.approveDeployment(id, 'bob');
+    const deployment = await deploying;
+
+    expect(deployment.status).toBe(DeploymentStatus.SUCCESS);
+    expect(deployment.approval).toEqual(expect.objectContaining({ required: 2, approvedBy: ['alice', 'bob'] }));
+    expect(deployment.logs.map(log => log.message)).toEqual(expect.arrayContaining([
+      `Waiting for 2 approval(s) from alice, bob: ai-builder approve ${id}`,
+      'Approved by alice, bob'
+    ]));
+    expect((await store.listApprovals(id)).map(a => [a.approver, a.comment])).toEqual([['alice', 'looks good'], ['bob', undefined]]);
+    await expect(engine.approveDeployment(id, 'alice')).rejects.toThrow(`Deployment ${id} is not waiting for approval`);
+  });
+
+  it('does not let the person who started a deployment approve it', async () => {
+    protection.approvers = ['alice', 'bob', 'carol'];
+    const waiting = waitingDeployment();
+    const deploying = engine.deploy(project, target, { requestedBy: 'alice' });
+    const { id, approval } = await waiting;
+
+    expect(approval!.requestedBy).toBe('alice');
+    await expect(engine.approveDeployment(id, 'alice')).rejects.toThrow(`'alice' started deployment ${id} and cannot approve it`);
+    await engine.cancelDeployment((await store.getDeployment(id))!);
+    await expect(deploying).rejects.toThrow('was cancelled');
+
+    // alice and bob are the only approvers, so a deployment alice starts could never get two approvals
+    protection.approvers = ['alice', 'bob'];
+    await expect(engine.deploy(project, target, { requestedBy: 'alice' }))
+      .rejects.toThrow("Deployments to production need 2 approvals from approvers other than 'alice', who started this one");
+  });
+
+  it('ignores expired approvals and fails when nobody approves in time', async () => {
+    project.config.deploy.protectedEnvironments = { production: { requiredApprovals: 2, approvalExpiry: 150, approvalTimeout: 1000 } };
+
+    let waiting = waitingDeployment();
+    const deploying = engine.deploy(project, target);
+    let { id } = await waiting;
+    await engine.approveDeployment(id, 'alice');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await engine.approveDeployment(id, 'bob');
+    // alice's approval expired, so she may (and must) approve again
+    await engine.approveDeployment(id, 'alice');
+    expect((await deploying).approval!.approvedBy).toEqual(['bob', 'alice']);
+
+    waiting = waitingDeployment();
+    const unapproved = engine.deploy(project, target);
+    ({ id } = await waiting);
+    await expect(unapproved).rejects.toThrow(`Deployment ${id} was not approved within 1s (0/2 approvals)`);
+    expect((await store.getDeployment(id))!.status).toBe(DeploymentStatus.FAILED);
+  });
+
+  it('can be cancelled while it waits', async () => {
+    const waiting = waitingDeployment();
+    const deploying = engine.deploy(project, target);
+    const deployment = await waiting;
+
+    await engine.cancelDeployment(deployment);
+    await expect(deploying).rejects.toThrow(`Deployment '${deployment.id}' was cancelled`);
+    expect((await store.getDeployment(deployment.id))!.status).toBe(DeploymentStatus.CANCELLED);
+  });
+
+  it('does not let an anonymous chat session approve', async () => {
+    const port = await new Promise<number>(resolve => {
+      const server = net.createServer().listen(0, () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+      });
+    });
+    const chat = new ChatInterface(logger, {}, engine, port);
+    const waiting = waitingDeployment();
+    const deploying = engine.deploy(project, target);
+    const { id } = await waiting;
+
+    try {
+      const ws = new WebSocket(`ws://localhost:${port}`);
+      const messages: ChatMessage[] = [];
+      const answered = new Promise<ChatMessage>(resolve => ws.on('message', data => {
+        messages.push(JSON.parse(data.toString()));
+        if (messages.length === 2) resolve(messages[1]);
+      }));
+      await new Promise(resolve => ws.once('open', resolve));
+      ws.send(JSON.stringify({ content: `approve ${id}` }));
+      const answer = await answered;
+      ws.close();
+
+      expect(answer.content).toBe(`I can't approve deployments for an anonymous chat session. Run \`ai-builder approve ${id}\` to approve it.`);
+      expect(answer.metadata.actions).toEqual([]);
+      expect(await chat.executeAction({ type: 'approve', description: '', parameters: { deploymentId: id, approver: 'alice' }, confirmation_required: true }))
+        .toBe(`❌ Approval failed: 'alice' is not an authenticated chat user; approve with \`ai-builder approve ${id}\``);
+      expect(await store.listApprovals(id)).toEqual([]);
+    } finally {
+      chat.close();
+      await engine.cancelDeployment((await store.getDeployment(id))!);
+      await expect(deploying).rejects.toThrow('was cancelled');
+    }
+  });
+
+  it('refuses deployments outside the deploy windows', async () => {
+    const tomorrow = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'][(new Date().getUTCDay() + 1) % 7];
+    project.config.deploy.protectedEnvironments = { production: { windows: [{ days: [tomorrow], timezone: 'UTC' }] } };
+
+    await expect(engine.deploy(project, target)).rejects.toThrow(`Deployments to production are only allowed ${tomorrow} (UTC)`);
+    expect(provider.deploy).not.toHaveBeenCalled();
+  });
+
+  it('matches days and hours in the window time zone', () => {
+    const noWeekends = [{ days: ['mon', 'tue', 'wed', 'thu'], start: '09:00', end: '17:00', timezone: 'UTC' }];
+    expect(isWithinDeployWindows(noWeekends, new Date('2024-05-16T10:30:00Z'))).toBe(true); // Thursday
+    expect(isWithinDeployWindows(noWeekends, new Date('2024-05-16T17:00:00Z'))).toBe(false);
+    expect(isWithinDeployWindows(noWeekends, new Date('2024-05-17T10:30:00Z'))).toBe(false); // Friday
+
+    // 23:30 UTC on Thursday is already Friday in Berlin
+    expect(isWithinDeployWindows([{ days: ['fri'], timezone: 'Europe/Berlin' }], new Date('2024-05-16T23:30:00Z'))).toBe(true);
+
+    const overnight = [{ start: '22:00', end: '02:00', timezone: 'UTC' }];
+    expect(isWithinDeployWindows(overnight, new Date('2024-05-16T01:00:00Z'))).toBe(true);
+    expect(isWithinDeployWindows(overnight, new Date('2024-05-16T12:00:00Z'))).toBe(false);
+    expect(isWithinDeployWindows([], new Date())).toBe(true);
+  });
+});
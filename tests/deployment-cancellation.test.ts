@@ -0,0 +1,103 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { Deployment, DeploymentConfig, DeploymentStatus, DeploymentTarget, Project } from '../src/types';
+import { createFakeBuilder, createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Provider whose deploy only finishes when its signal aborts, like an upload that checks between files.
+ */
+function createSlowProvider() {
+  const provider = createFakeProvider({ name: 'slow' });
+  provider.deploy.mockImplementation((config: DeploymentConfig) => new Promise<never>((_, reject) => {
+    config.signal!.addEventListener('abort', () => reject(new Error('upload interrupted')));
+  }));
+  return { ...provider, cleanup: jest.fn().mockResolvedValue(undefined) };
+}
+
+function waitForStatus(engine: DeploymentEngineImpl, status: DeploymentStatus): Promise<Deployment> {
+  return new Promise(resolve => {
+    const listener = (deployment: Deployment, current: DeploymentStatus) => {
+      if (current === status) {
+        engine.off('statusUpdated', listener);
+        resolve(deployment);
+      }
+    };
+    engine.on('statusUpdated', listener);
+  });
+}
+
+describe('Deployment cancellation', () => {
+  let tmp: string;
+  let store: FileDeploymentStore;
+  let project: Project;
+  const target: DeploymentTarget = { name: 'edge', type: 'slow', environment: 'production', config: { host: '' } };
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-cancel-'));
+    store = new FileDeploymentStore(path.join(tmp, 'deployments'), logger);
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: { 'src/index.js': 'console.log("hi")' } });
+    project.config.build.command = 'sleep 30';
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  it('kills the running build when the deployment is cancelled', async () => {
+    const engine = createTestEngine(tmp, { logger, store, builder: new ProjectManagerImpl(logger, tmp) });
+    engine.registerProvider(createSlowProvider());
+    const cancelled = jest.fn();
+    engine.on('deploymentCancelled', cancelled);
+
+    const building = waitForStatus(engine, DeploymentStatus.BUILDING);
+    const started = Date.now();
+    const deploying = engine.deploy(project, target);
+
+    await engine.cancelDeployment(await building);
+    await expect(deploying).rejects.toThrow('was cancelled');
+
+    expect(Date.now() - started).toBeLessThan(10000);
+    const [deployment] = await store.listDeployments();
+    expect(deployment.status).toBe(DeploymentStatus.CANCELLED);
+    expect(deployment.logs.map(log => log.message)).toContain('Deployment cancelled by user');
+    expect(cancelled).toHaveBeenCalledTimes(1);
+    await expect(engine.cancelDeployment(deployment)).rejects.toThrow("Cannot cancel deployment in 'cancelled' state");
+  });
+
+  it('picks up a cancel request made through the store by another process and lets the provider clean up', async () => {
+    const provider = createSlowProvider();
+    const running = createTestEngine(tmp, { logger, store, cancellationPollInterval: 20 });
+    running.registerProvider(provider);
+
+    const deploying = waitForStatus(running, DeploymentStatus.DEPLOYING);
+    const result = running.deploy(project, target);
+    const { id } = await deploying;
+
+    // A second engine on the same store stands in for `ai-builder cancel` run from another shell
+    const other = createTestEngine(tmp, { logger });
+    await other.cancelDeployment((await other.getPersistedDeployment(id))!);
+
+    await expect(result).rejects.toThrow('was cancelled');
+    expect(provider.deploy.mock.calls[0][0].signal!.aborted).toBe(true);
+    expect(provider.cleanup).toHaveBeenCalledWith(expect.objectContaining({ deploymentId: id, target }));
+    expect((await store.getDeployment(id))!.status).toBe(DeploymentStatus.CANCELLED);
+    expect(await store.isCancellationRequested(id)).toBe(false);
+  });
+
+  it('does not start when the caller signal is already aborted', async () => {
+    const builder = createFakeBuilder();
+    const engine = createTestEngine(tmp, { logger, store, builder });
+    engine.registerProvider(createSlowProvider());
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(engine.deploy(project, target, { signal: controller.signal })).rejects.toThrow('was cancelled');
+    expect(builder.buildProject).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { spawnSync } from 'child_process';
+import { DeploymentScheduler, QueuedDeployment } from '../src/core/deployment-scheduler';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { Deployment, DeploymentResult, DeploymentStatus, DeploymentTarget, Project } from '../src/types';
+import { createFakeBuilder, createFakeProvider, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Provider whose deploys finish only when the test opens their gate.
+ */
+function createGatedProvider() {
+  const gates: Array<() => void> = [];
+  const provider = createFakeProvider({ name: 'gated' });
+  provider.deploy.mockImplementation(() => new Promise<DeploymentResult>(resolve => gates.push(() => resolve({ success: true, deploymentId: 'gated', url: 'http://localhost', metadata: {} }))));
+  return { provider, gates };
+}
+
+function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > timeout) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('DeploymentScheduler', () => {
+  let tmp: string;
+  let lockDir: string;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-scheduler-'));
+    lockDir = path.join(tmp, 'locks');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  it('queues deployments beyond the concurrency limit in order', async () => {
+    const scheduler = new DeploymentScheduler(logger, { maxConcurrent: 1, lockDir });
+    const first = await scheduler.acquire({ deploymentId: 'a', lockKey: 'one' });
+
+    let secondStarted = false;
+    const second = scheduler.acquire({ deploymentId: 'b', lockKey: 'two' }).then(lease => { secondStarted = true; return lease; });
+    await waitFor(() => scheduler.getQueue().length === 1);
+
+    expect(scheduler.getQueue()).toEqual([expect.objectContaining({ deploymentId: 'b', position: 1, waitingFor: 'slot' })]);
+    expect(secondStarted).toBe(false);
+
+    await first.release();
+    await (await second).release();
+    expect(scheduler.getQueue()).toEqual([]);
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+
+  it('waits for a target lock held by another scheduler and takes over stale locks', async () => {
+    const other = new DeploymentScheduler(logger, { lockDir });
+    const held = await other.acquire({ deploymentId: 'a', lockKey: 'web-production' });
+    expect(await other.listLocks()).toEqual([expect.objectContaining({ deploymentId: 'a', pid: process.pid })]);
+
+    const scheduler = new DeploymentScheduler(logger, { lockDir, lockPollInterval: 20 });
+    const updates: QueuedDeployment[][] = [];
+    scheduler.on('queueChanged', queue => updates.push(queue));
+    const waiting = scheduler.acquire({ deploymentId: 'b', lockKey: 'web-production' });
+    await waitFor(() => updates.length > 0);
+    expect(updates[0]).toEqual([expect.objectContaining({ deploymentId: 'b', waitingFor: 'target' })]);
+
+    await held.release();
+    const lease = await waiting;
+    expect((await scheduler.listLocks()).map(lock => lock.deploymentId)).toEqual(['b']);
+    await lease.release();
+
+    // A lock whose process has exited no longer blocks the target
+    const exited = spawnSync(process.execPath, ['-e', '']).pid;
+    await fs.outputJson(path.join(lockDir, 'web-production.lock'), {
+      lockKey: 'web-production', deploymentId: 'c', pid: exited, hostname: os.hostname(), acquiredAt: new Date().toISOString()
+    });
+    const takeover = await scheduler.acquire({ deploymentId: 'd', lockKey: 'web-production' });
+    expect((await scheduler.listLocks()).map(lock => lock.deploymentId)).toEqual(['d']);
+
+    // A lock that replaced the stale one after it was read is left in place
+    const staleHolder = { lockKey: 'web-production', deploymentId: 'c', pid: exited, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+    expect(await (scheduler as any).removeStaleLock(path.join(lockDir, 'web-production.lock'), staleHolder)).toBe(false);
+    expect((await scheduler.listLocks()).map(lock => lock.deploymentId)).toEqual(['d']);
+    expect(await fs.readdir(lockDir)).toEqual(['web-production.lock']);
+    await takeover.release();
+  });
+
+  it('takes over a lock file that stays unreadable past the grace period', async () => {
+    const scheduler = new DeploymentScheduler(logger, { lockDir, lockPollInterval: 20, unreadableLockGracePeriod: 1000 });
+    const file = path.join(lockDir, 'web-production.lock');
+    await fs.outputFile(file, '');
+
+    // Possibly still being written: the target stays locked
+    let started = false;
+    const waiting = scheduler.acquire({ deploymentId: 'a', lockKey: 'web-production' }).then(lease => { started = true; return lease; });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(started).toBe(false);
+
+    // Left empty by a process that crashed mid-write
+    const past = new Date(Date.now() - 2000);
+    await fs.utimes(file, past, past);
+    const lease = await waiting;
+    expect((await scheduler.listLocks()).map(lock => lock.deploymentId)).toEqual(['a']);
+    await lease.release();
+    expect(await fs.readdir(lockDir)).toEqual([]);
+  });
+});
+
+describe('Deployment engine scheduling', () => {
+  let tmp: string;
+  let store: FileDeploymentStore;
+  let engine: DeploymentEngineImpl;
+  let gates: Array<() => void>;
+  let project: Project;
+  const target: DeploymentTarget = { name: 'production', type: 'gated', environment: 'production', config: { host: '' } };
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-scheduling-'));
+    store = new FileDeploymentStore(path.join(tmp, 'deployments'), logger);
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: { 'index.js': 'console.log("hi")' } });
+    // The engine's own scheduler, so the tests see where it puts target locks
+    engine = new DeploymentEngineImpl(logger, store, createFakeBuilder());
+    const gated = createGatedProvider();
+    gates = gated.gates;
+    engine.registerProvider(gated.provider);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  it('keeps a second deployment to the same target pending with its queue position until the first finishes', async () => {
+    const queued: Deployment[] = [];
+    engine.on('deploymentQueued', (deployment: Deployment) => queued.push(deployment));
+
+    const first = engine.deploy(project, target);
+    await waitFor(() => gates.length === 1);
+    const second = engine.deploy(project, target);
+    await waitFor(() => queued.length === 1);
+
+    // Left pending by a process that crashed
+    await store.saveDeployment({
+      id: 'crashed', projectId: 'proj-1', target, version: '0.9.0', status: DeploymentStatus.PENDING, logs: [], createdAt: new Date(0),
+      queuePosition: 1, owner: { pid: spawnSync(process.execPath, ['-e', '']).pid, hostname: os.hostname() }
+    });
+
+    const [waiting, ...others] = await engine.listQueuedDeployments();
+    expect(others).toEqual([]);
+    expect(waiting.status).toBe(DeploymentStatus.PENDING);
+    expect(waiting.queuePosition).toBe(1);
+    expect(gates).toHaveLength(1);
+    // The target lock lives next to the store, not in the working directory
+    expect(await fs.readdir(path.join(tmp, 'locks'))).toEqual(['proj-1-production.lock']);
+
+    gates[0]();
+    await first;
+    await waitFor(() => gates.length === 2);
+    gates[1]();
+    const done = await second;
+
+    expect(done.status).toBe(DeploymentStatus.SUCCESS);
+    expect(done.queuePosition).toBeUndefined();
+    expect(done.startedAt).toBeDefined();
+    expect(await engine.listQueuedDeployments()).toEqual([]);
+    expect(await engine.listTargetLocks()).toEqual([]);
+  });
+
+  it('cancels a deployment while it is queued', async () => {
+    const first = engine.deploy(project, target);
+    await waitFor(() => gates.length === 1);
+    const second = engine.deploy(project, target);
+    await waitFor(() => engine.getActiveDeployments().some(d => d.queuePosition === 1));
+
+    const waiting = engine.getActiveDeployments().find(d => d.queuePosition === 1)!;
+    await engine.cancelDeployment(waiting);
+    await expect(second).rejects.toThrow('was cancelled');
+    expect((await store.getDeployment(waiting.id))!.status).toBe(DeploymentStatus.CANCELLED);
+
+    gates[0]();
+    await first;
+    expect(gates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,220 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { DockerProvider } from '../src/providers/docker-provider';
+import { DeploymentPipeline } from '../src/core/deployment-engine';
+import { FileDeploymentStore } from '../src/core/deployment-store';
+import { PreflightCheckRegistry } from '../src/core/preflight-checks';
+import { BuildResult, DeploymentStatus, DeploymentTarget, Project } from '../src/types';
+import { createFakeBuilder, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Tiny stand-in for the Docker Engine API: just enough of /build, /containers and /images
+ * for the provider's deploy/status/rollback/list flows.
+ */
+function createEngineStub() {
+  const images = new Set<string>();
+  const containers = new Map<string, any>();
+  const builds: Buffer[] = [];
+  let nextId = 1;
+
+  const send = (res: http.ServerResponse, status: number, body?: any) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  };
+
+  const byName = (name: string) => Array.from(containers.values()).find(c => c.Name === `/${name}` || c.Id === name);
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const body = Buffer.concat(chunks);
+
+      if (req.method === 'POST' && url.pathname === '/build') {
+        builds.push(body);
+        images.add(url.searchParams.get('t')!);
+        res.writeHead(200);
+        res.end('{"stream":"Step 1/7 : FROM node:18-alpine\\n"}\n{"stream":"Successfully built\\n"}\n');
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/containers/create') {
+        const spec = JSON.parse(body.toString());
+        const id = `c${nextId++}`;
+        // Empty host ports get a random one, like the real daemon
+        const ports: Record<string, any[]> = {};
+        for (const [port, bindings] of Object.entries<any[]>(spec.HostConfig?.PortBindings || {})) {
+          ports[port] = bindings.map(binding => ({ HostIp: '0.0.0.0', HostPort: binding.HostPort || String(32768 + nextId) }));
+        }
+        containers.set(id, {
+          Id: id,
+          Name: `/${url.searchParams.get('name')}`,
+          Image: spec.Image,
+          Labels: spec.Labels,
+          State: 'created',
+          Created: Math.floor(Date.now() / 1000),
+          Config: { Image: spec.Image, Env: spec.Env, ExposedPorts: spec.ExposedPorts, Labels: spec.Labels },
+          HostConfig: spec.HostConfig,
+          NetworkSettings: { Ports: ports }
+        });
+        return send(res, 201, { Id: id });
+      }
+
+      const start = url.pathname.match(/^\/containers\/([^/]+)\/start$/);
+      if (req.method === 'POST' && start) {
+        byName(start[1]).State = 'running';
+        return send(res, 204);
+      }
+
+      const inspect = url.pathname.match(/^\/containers\/([^/]+)\/json$/);
+      if (req.method === 'GET' && inspect) {
+        const container = byName(decodeURIComponent(inspect[1]));
+        return container ? send(res, 200, container) : send(res, 404, { message: 'No such container' });
+      }
+
+      const remove = url.pathname.match(/^\/containers\/([^/]+)$/);
+      if (req.method === 'DELETE' && remove) {
+        const container = byName(decodeURIComponent(remove[1]));
+        if (!container) return send(res, 404, { message: 'No such container' });
+        containers.delete(container.Id);
+        return send(res, 204);
+      }
+
+      if (req.method === 'GET' && url.pathname === '/containers/json') {
+        const [label] = JSON.parse(url.searchParams.get('filters')!).label;
+        const [key, value] = label.split('=');
+        const matches = Array.from(containers.values()).filter(c => key in c.Labels && (value === undefined || c.Labels[key] === value));
+        return send(res, 200, matches);
+      }
+
+      const image = url.pathname.match(/^\/images\/(.+)\/json$/);
+      if (req.method === 'GET' && image) {
+        const ref = decodeURIComponent(image[1]);
+        return images.has(ref) ? send(res, 200, { Id: ref }) : send(res, 404, { message: `No such image: ${ref}` });
+      }
+
+      send(res, 404, { message: `unexpected ${req.method} ${url.pathname}` });
+    });
+  });
+
+  return { server, images, containers, builds };
+}
+
+describe('DockerProvider (Engine API stub)', () => {
+  let tmp: string;
+  let socketPath: string;
+  let engine: ReturnType<typeof createEngineStub>;
+  let provider: DockerProvider;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-docker-'));
+    socketPath = path.join(tmp, 'docker.sock');
+    engine = createEngineStub();
+    await new Promise<void>(resolve => engine.server.listen(socketPath, resolve));
+    provider = new DockerProvider(logger, { socketPath });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => engine.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, {
+      name: 'Web-App',
+      files: {
+        'dist/index.js': 'require("http").createServer().listen(process.env.PORT)',
+        'package.json': JSON.stringify({ name: 'web-app', version })
+      }
+    });
+  }
+
+  const target: DeploymentTarget = { name: 'staging', type: 'docker', config: { host: 'localhost', port: 8088 }, environment: 'staging' };
+  const buildResult: BuildResult = { success: true, output: '', artifacts: [{ path: 'index.js', size: 10, hash: 'x', type: 'file' }], duration: 1 };
+
+  it('builds an image from the artifacts and runs a labelled container', async () => {
+    const project = await createProject('1.0.0');
+
+    const result = await provider.deploy({ deploymentId: 'dep-1', project, target, buildResult, environment: { NODE_ENV: 'production' } });
+
+    expect(result.success).toBe(true);
+    expect(result.url).toBe('http://localhost:8088');
+    expect(result.metadata.image).toBe('web-app:1.0.0');
+    expect(engine.images.has('web-app:1.0.0')).toBe(true);
+
+    const context = engine.builds[0].toString('latin1');
+    expect(context).toContain('Dockerfile');
+    expect(context).toContain('dist/index.js');
+
+    const [container] = Array.from(engine.containers.values());
+    expect(container.Config.Env).toEqual(expect.arrayContaining(['NODE_ENV=production', 'PORT=8088']));
+    expect(container.HostConfig.PortBindings['8088/tcp'][0].HostPort).toBe('8088');
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('rolls back by re-running the previous image tag and lists deployments', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+    expect(engine.containers.size).toBe(1);
+
+    await provider.rollback('dep-2', '1.0.0');
+
+    const [container] = Array.from(engine.containers.values());
+    expect(container.Image).toBe('web-app:1.0.0');
+    expect(container.State).toBe('running');
+
+    const deployments = await provider.listDeployments();
+    expect(deployments).toHaveLength(1);
+    expect(deployments[0].id).toBe('dep-2');
+    expect(deployments[0].version).toBe('1.0.0');
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('Image web-app:0.9.0 not found');
+  });
+
+  it('rolls an in-place deployment back automatically to the container it replaced', async () => {
+    const store = new FileDeploymentStore(path.join(tmp, 'deployments'), logger);
+    const deploymentEngine = createTestEngine(tmp, { logger, store, builder: createFakeBuilder(buildResult) });
+    deploymentEngine.registerProvider(provider, { replace: true });
+    const pipeline = new DeploymentPipeline(deploymentEngine, logger, new PreflightCheckRegistry(logger));
+
+    await pipeline.executeDeployment(await createProject('1.0.0'), target);
+    // Nothing answers on the target port, so the new version fails its health check
+    const checked = { ...target, config: { ...target.config, healthCheck: { endpoint: '/health', interval: 60000, timeout: 1000, retries: 0 } } };
+    await expect(pipeline.executeDeployment(await createProject('1.1.0'), checked, { healthCheck: true, autoRollback: true }))
+      .rejects.toThrow('Health check failed');
+    pipeline.stopHealthChecks();
+
+    const failed = (await store.listDeployments('proj-1')).find(d => d.rollbackFrom === '1.1.0');
+    expect(failed?.status).toBe(DeploymentStatus.ROLLED_BACK);
+    expect(Array.from(engine.containers.values()).map(c => [c.Image, c.State, c.HostConfig.PortBindings['8088/tcp'][0].HostPort]))
+      .toEqual([['web-app:1.0.0', 'running', '8088']]);
+  });
+
+  it('stages blue-green colors on random ports and swaps the target port on activation', async () => {
+    const hostPort = (name: string) => Array.from(engine.containers.values()).find(c => c.Name === `/${name}`).HostConfig.PortBindings['8088/tcp'][0].HostPort;
+
+    const blue = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {}, color: 'blue' });
+    expect(blue.url).toMatch(/^http:\/\/localhost:327\d\d$/);
+    expect((await provider.activate('dep-1')).url).toBe('http://localhost:8088');
+    expect(hostPort('ai-builder-Web-App-staging-blue')).toBe('8088');
+
+    const green = await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {}, color: 'green' });
+    expect(green.url).not.toBe('http://localhost:8088');
+    expect(hostPort('ai-builder-Web-App-staging-blue')).toBe('8088');
+
+    await provider.activate('dep-2');
+
+    expect(hostPort('ai-builder-Web-App-staging-green')).toBe('8088');
+    expect(hostPort('ai-builder-Web-App-staging-blue')).toBe('');
+    expect(Array.from(engine.containers.values()).map(c => [c.Image, c.State])).toEqual(expect.arrayContaining([
+      ['web-app:1.0.0', 'running'],
+      ['web-app:1.1.0', 'running']
+    ]));
+    await expect(provider.activate('dep-missing')).rejects.toThrow('No container found for deployment dep-missing');
+  });
+});
@@ -0,0 +1,144 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { GCPProvider } from '../src/providers/gcp-provider';
+import { CloudCredentialManager } from '../src/core/cloud-credential-manager';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Stand-in for the Cloud Storage JSON API backed by an in-memory object map.
+ */
+function createStorageStub() {
+  const objects = new Map<string, { content: Buffer; contentType: string }>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const send = (status: number, json: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(json));
+      };
+
+      if (req.method === 'POST' && url.pathname === '/upload/storage/v1/b/site-bucket/o') {
+        const name = url.searchParams.get('name')!;
+        objects.set(name, { content: Buffer.concat(chunks), contentType: String(req.headers['content-type']) });
+        return send(200, { name });
+      }
+
+      const copy = url.pathname.match(/^\/storage\/v1\/b\/site-bucket\/o\/([^/]+)\/copyTo\/b\/site-bucket\/o\/([^/]+)$/);
+      if (req.method === 'POST' && copy) {
+        objects.set(decodeURIComponent(copy[2]), objects.get(decodeURIComponent(copy[1]))!);
+        return send(200, { name: decodeURIComponent(copy[2]) });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/storage/v1/b/site-bucket/o') {
+        const prefix = url.searchParams.get('prefix') || '';
+        const names = Array.from(objects.keys()).filter(name => name.startsWith(prefix));
+        if (url.searchParams.get('delimiter') === '/') {
+          const prefixes = new Set(names.map(name => name.slice(prefix.length)).filter(rest => rest.includes('/')).map(rest => `${prefix}${rest.split('/')[0]}/`));
+          return send(200, { prefixes: Array.from(prefixes) });
+        }
+        return send(200, { items: names.map(name => ({ name })) });
+      }
+
+      const media = url.pathname.match(/^\/storage\/v1\/b\/site-bucket\/o\/([^/]+)$/);
+      if (req.method === 'DELETE' && media) {
+        if (!objects.delete(decodeURIComponent(media[1]))) return send(404, { error: { message: 'No such object' } });
+        res.writeHead(204);
+        return res.end();
+      }
+      if (req.method === 'GET' && media) {
+        const object = objects.get(decodeURIComponent(media[1]));
+        if (!object) return send(404, { error: { message: 'No such object' } });
+        res.writeHead(200, { 'Content-Type': object.contentType });
+        return res.end(object.content);
+      }
+
+      send(404, { error: { message: `unexpected ${req.method} ${url.pathname}` } });
+    });
+  });
+
+  return { server, objects };
+}
+
+describe('GCPProvider (Cloud Storage stub)', () => {
+  let tmp: string;
+  let storage: ReturnType<typeof createStorageStub>;
+  let provider: GCPProvider;
+  let credentials: CloudCredentialManager;
+  let target: any;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-gcp-'));
+    storage = createStorageStub();
+    await new Promise<void>(resolve => storage.server.listen(0, '127.0.0.1', resolve));
+
+    credentials = new CloudCredentialManager(logger);
+    credentials.setToken('gcp-token', 3600);
+    provider = new GCPProvider(logger, { stateDir: path.join(tmp, 'state'), credentials });
+    target = {
+      name: 'production',
+      type: 'gcp',
+      environment: 'production',
+      config: { host: '', bucket: 'site-bucket', prefix: 'www', baseUrl: `http://127.0.0.1:${(storage.server.address() as AddressInfo).port}` }
+    };
+  });
+
+  afterEach(async () => {
+    credentials.stop();
+    await new Promise(resolve => storage.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string, files: Record<string, string> = {}): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, { files: { 'dist/index.html': `<h1>${version}</h1>`, ...files } });
+  }
+
+  const live = () => storage.objects.get('www/index.html')!.content.toString();
+
+  it('uploads a versioned release and copies it to the live prefix', async () => {
+    const result = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    expect(result.url).toBe('https://storage.googleapis.com/site-bucket/www/index.html');
+    expect(storage.objects.get('releases/1.0.0/index.html')!.contentType).toBe('text/html; charset=utf-8');
+    expect(live()).toBe('<h1>1.0.0</h1>');
+    expect(JSON.parse(storage.objects.get('releases/live.json')!.content.toString())).toMatchObject({ deploymentId: 'dep-1', version: '1.0.0' });
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('rolls back by copying an earlier release back to the live prefix', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+    expect(live()).toBe('<h1>1.1.0</h1>');
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(live()).toBe('<h1>1.0.0</h1>');
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.map(d => [d.id, d.version, d.result?.metadata.current])).toEqual([
+      ['dep-1', '1.0.0', true],
+      ['dep-2', '1.1.0', false]
+    ]);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('Release 0.9.0 not found in gs://site-bucket/releases/0.9.0/');
+  });
+
+  it('deletes live objects the activated release does not have', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0', { 'dist/old.js': 'old' }), target, buildResult, environment: {} });
+    expect(storage.objects.get('www/old.js')!.content.toString()).toBe('old');
+
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+    expect(storage.objects.has('www/old.js')).toBe(false);
+    expect(storage.objects.has('releases/1.0.0/old.js')).toBe(true);
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(storage.objects.get('www/old.js')!.content.toString()).toBe('old');
+  });
+});
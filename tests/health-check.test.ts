@@ -0,0 +1,89 @@
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { resolveHealthCheckUrl, runHealthCheck } from '../src/monitoring/health-check';
+
+describe('Health checks', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let statuses: number[];
+  let paths: string[];
+
+  beforeEach(async () => {
+    statuses = [];
+    paths = [];
+    server = http.createServer((req, res) => {
+      paths.push(req.url!);
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/app`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('resolves relative endpoints against the deployment URL', () => {
+    expect(resolveHealthCheckUrl('health', 'https://example.com/app')).toBe('https://example.com/app/health');
+    expect(resolveHealthCheckUrl('/health', 'https://example.com/app')).toBe('https://example.com/health');
+    expect(resolveHealthCheckUrl('http://other.test/ping', 'https://example.com')).toBe('http://other.test/ping');
+    expect(() => resolveHealthCheckUrl('/health')).toThrow('the deployment has no URL');
+  });
+
+  it('requests the endpoint and retries until the expected status comes back', async () => {
+    statuses = [503, 503, 204];
+
+    const outcome = await runHealthCheck({ endpoint: 'health', interval: 0, timeout: 1000, retries: 2, retryDelay: 10 }, { baseUrl });
+
+    expect(outcome).toEqual(expect.objectContaining({ healthy: true, statusCode: 204, attempts: 3 }));
+    expect(paths).toEqual(['/app/health', '/app/health', '/app/health']);
+
+    statuses = [200, 200];
+    const strict = await runHealthCheck({ endpoint: 'health', interval: 0, timeout: 1000, retries: 1, retryDelay: 10, expectedStatus: 204 }, { baseUrl });
+
+    expect(strict).toEqual(expect.objectContaining({ healthy: false, statusCode: 200, attempts: 2 }));
+    expect(strict.error).toBe(`GET ${baseUrl}/health returned HTTP 200 (expected 204)`);
+  });
+
+  it('fails an HTTP check that does not answer within the timeout', async () => {
+    const slow = http.createServer(() => undefined);
+    await new Promise<void>(resolve => slow.listen(0, '127.0.0.1', resolve));
+    const endpoint = `http://127.0.0.1:${(slow.address() as AddressInfo).port}/health`;
+
+    try {
+      const outcome = await runHealthCheck({ endpoint, interval: 0, timeout: 100, retries: 0 });
+      expect(outcome.healthy).toBe(false);
+      expect(outcome.attempts).toBe(1);
+    } finally {
+      slow.closeAllConnections?.();
+      await new Promise(resolve => slow.close(resolve));
+    }
+  });
+
+  it('checks that a TCP port accepts connections', async () => {
+    const port = (server.address() as AddressInfo).port;
+    expect((await runHealthCheck({ type: 'tcp', endpoint: `127.0.0.1:${port}`, interval: 0, timeout: 1000, retries: 0 })).healthy).toBe(true);
+
+    const closed = net.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const closedPort = (closed.address() as AddressInfo).port;
+    await new Promise(resolve => closed.close(resolve));
+
+    const outcome = await runHealthCheck({ type: 'tcp', endpoint: `tcp://127.0.0.1:${closedPort}`, interval: 0, timeout: 1000, retries: 0 });
+    expect(outcome.healthy).toBe(false);
+    expect(outcome.error).toContain(`TCP connect to 127.0.0.1:${closedPort} failed`);
+  });
+
+  it('runs command checks and fails on a non-zero exit or a timeout', async () => {
+    expect((await runHealthCheck({ type: 'command', endpoint: '', command: 'exit 0', interval: 0, timeout: 1000, retries: 0 })).healthy).toBe(true);
+
+    const failed = await runHealthCheck({ type: 'command', endpoint: '', command: 'echo down >&2; exit 3', interval: 0, timeout: 1000, retries: 0 });
+    expect(failed.error).toBe("'echo down >&2; exit 3' exited with code 3: down");
+
+    const slow = await runHealthCheck({ type: 'command', endpoint: '', command: 'sleep 5', interval: 0, timeout: 100, retries: 0 });
+    expect(slow.healthy).toBe(false);
+    expect(slow.error).toBe("'sleep 5' timed out after 100ms");
+  });
+});
@@ -0,0 +1,116 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl, DeploymentEngineOptions } from '../src/core/deployment-engine';
+import { DeploymentScheduler } from '../src/core/deployment-scheduler';
+import { DeploymentStore, FileDeploymentStore } from '../src/core/deployment-store';
+import {
+  BuildResult,
+  CloudProvider,
+  DeploymentConfig,
+  DeploymentResult,
+  DeploymentStatus,
+  Logger,
+  Project,
+  ProjectManager
+} from '../src/types';
+
+/**
+ * Fixtures shared by the provider and deployment engine tests.
+ */
+
+// Records every call, so tests can check what was logged
+export function createTestLogger(): jest.Mocked<Logger> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+export interface TestProjectOptions {
+  // Relative to the project directory; written after the output directory is emptied
+  files: Record<string, string>;
+  // Defaults to 'web-app'
+  name?: string;
+}
+
+/**
+ * A project in `projectPath` as a provider sees it after a build: its `dist` output directory holds
+ * the given files and nothing else.
+ */
+export async function createTestProject(projectPath: string, version: string, options: TestProjectOptions): Promise<Project> {
+  await fs.remove(path.join(projectPath, 'dist'));
+  for (const [file, content] of Object.entries(options.files)) {
+    await fs.outputFile(path.join(projectPath, file), content);
+  }
+
+  return {
+    id: 'proj-1',
+    name: options.name || 'web-app',
+    template: 'test',
+    version,
+    path: projectPath,
+    config: {
+      build: { command: 'npm run build', outputDir: 'dist', environment: {}, dependencies: [], scripts: {} },
+      deploy: { targets: [] },
+      environment: { variables: {}, secrets: {} }
+    },
+    deployments: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+// Providers deploy the output directory, so the build itself records nothing
+export const buildResult: BuildResult = { success: true, output: '', artifacts: [], duration: 1 };
+
+/**
+ * A builder that reports `result` (default: a successful build with no artifacts) without building.
+ */
+export function createFakeBuilder(result: BuildResult = buildResult): jest.Mocked<ProjectManager> {
+  return {
+    createProject: jest.fn(),
+    buildProject: jest.fn().mockResolvedValue(result),
+    validateProject: jest.fn(),
+    deleteProject: jest.fn(),
+    listProjects: jest.fn().mockResolvedValue([])
+  };
+}
+
+export interface FakeProviderOptions {
+  // Targets select it by this name. Defaults to 'fake'
+  name?: string;
+  // Reported as every deployment's URL
+  url?: string;
+}
+
+/**
+ * A provider whose deploys succeed at once and whose deployments always report running.
+ */
+export function createFakeProvider(options: FakeProviderOptions = {}): jest.Mocked<CloudProvider> {
+  return {
+    name: options.name || 'fake',
+    type: 'custom',
+    deploy: jest.fn(async (config: DeploymentConfig): Promise<DeploymentResult> => ({ success: true, deploymentId: config.deploymentId!, url: options.url, metadata: {} })),
+    getStatus: jest.fn().mockResolvedValue(DeploymentStatus.SUCCESS),
+    rollback: jest.fn().mockResolvedValue(undefined),
+    listDeployments: jest.fn().mockResolvedValue([])
+  };
+}
+
+export interface TestEngineOptions extends DeploymentEngineOptions {
+  // Defaults to createTestLogger()
+  logger?: Logger;
+  // Defaults to a file store in `<dir>/deployments`
+  store?: DeploymentStore;
+  // Defaults to createFakeBuilder()
+  builder?: ProjectManager;
+}
+
+/**
+ * A deployment engine that keeps its deployments and target locks under `dir`, so tests never touch
+ * the working directory's `.ai-builder`.
+ */
+export function createTestEngine(dir: string, options: TestEngineOptions = {}): DeploymentEngineImpl {
+  const { logger = createTestLogger(), store, builder, ...engineOptions } = options;
+  return new DeploymentEngineImpl(logger, store || new FileDeploymentStore(path.join(dir, 'deployments'), logger), builder || createFakeBuilder(), {
+    scheduler: new DeploymentScheduler(logger, { lockDir: path.join(dir, 'locks') }),
+    ...engineOptions
+  });
+}
@@ -0,0 +1,122 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { LocalProvider } from '../src/providers/local-provider';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+function get(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http.get(url, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+describe('LocalProvider', () => {
+  let tmp: string;
+  let provider: LocalProvider;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-local-'));
+    provider = new LocalProvider(logger, { stateDir: path.join(tmp, 'state') });
+  });
+
+  afterEach(async () => {
+    await provider.stop('dep-1');
+    await provider.stop('dep-2');
+    await provider.stop('dep-3');
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, {
+      files: { 'dist/index.js': `require("http").createServer((req, res) => res.end("v${version}")).listen(process.env.PORT);` }
+    });
+  }
+
+  const target: any = { name: 'dev', type: 'local', config: { host: 'localhost' }, environment: 'development' };
+  it('runs the release as a detached process and reports its status', async () => {
+    const project = await createProject('1.0.0');
+
+    const result = await provider.deploy({ deploymentId: 'dep-1', project, target, buildResult, environment: {} });
+
+    expect(result.success).toBe(true);
+    expect(await fs.pathExists(path.join(project.path, '.ai-builder', 'local', 'dev', 'releases', 'dep-1', 'index.js'))).toBe(true);
+    expect(await get(result.url!)).toBe('v1.0.0');
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+
+    await provider.stop('dep-1');
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.FAILED);
+  });
+
+  it('replaces the running process on redeploy and restarts an earlier release on rollback', async () => {
+    const first = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    const second = await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.FAILED);
+    expect(await get(second.url!)).toBe('v1.1.0');
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(await get(second.url!)).toBe('v1.0.0');
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.find(d => d.id === 'dep-2')?.version).toBe('1.0.0');
+    expect(first.metadata.pid).not.toBe(second.metadata.pid);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No local release found for version 0.9.0');
+  });
+
+  it('keeps only the newest releases', async () => {
+    const pruned = { ...target, config: { ...target.config, keepReleases: 2 } };
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target: pruned, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target: pruned, buildResult, environment: {} });
+    const third = await provider.deploy({ deploymentId: 'dep-3', project: await createProject('1.2.0'), target: pruned, buildResult, environment: {} });
+
+    const releasesDir = path.join(tmp, 'web-app', '.ai-builder', 'local', 'dev', 'releases');
+    expect((await fs.readdir(releasesDir)).sort()).toEqual(['dep-2', 'dep-3']);
+    expect(await get(third.url!)).toBe('v1.2.0');
+
+    await provider.rollback('dep-3', '1.1.0');
+    expect(await get(third.url!)).toBe('v1.1.0');
+    await expect(provider.rollback('dep-3', '1.0.0')).rejects.toThrow("No local release found for version 1.0.0 of target 'dev'");
+  });
+
+  it('keeps secret values out of its state and resolves them again on rollback', async () => {
+    const project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', {
+      files: { 'dist/index.js': 'require("http").createServer((req, res) => res.end(process.env.API_KEY)).listen(process.env.PORT);' }
+    });
+    project.config.environment.secrets = { API_KEY: 'env:AI_BUILDER_TEST_API_KEY' };
+    process.env.AI_BUILDER_TEST_API_KEY = 'rotated-key';
+
+    try {
+      const result = await provider.deploy({ deploymentId: 'dep-1', project, target, buildResult, environment: { NODE_ENV: 'production', API_KEY: 's3cret' } });
+      expect(await get(result.url!)).toBe('s3cret');
+
+      const stateFile = path.join(tmp, 'state', 'dep-1.json');
+      expect(await fs.readFile(stateFile, 'utf-8')).not.toContain('s3cret');
+      expect((await fs.stat(stateFile)).mode & 0o777).toBe(0o600);
+      expect((await fs.readJson(stateFile)).environment).toEqual({ NODE_ENV: 'production' });
+
+      await provider.rollback('dep-1', '1.0.0');
+      expect(await get(result.url!)).toBe('rotated-key');
+    } finally {
+      delete process.env.AI_BUILDER_TEST_API_KEY;
+    }
+  });
+
+  it('stages a version in the idle color without touching the live color\'s release', async () => {
+    const blue = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {}, color: 'blue' });
+    const green = await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.0.0'), target, buildResult, environment: {}, color: 'green' });
+
+    expect(blue.metadata.releaseDir).not.toBe(green.metadata.releaseDir);
+    expect(await fs.pathExists(path.join(blue.metadata.releaseDir, 'index.js'))).toBe(true);
+    expect(await get(blue.url!)).toBe('v1.0.0');
+    expect(await get(green.url!)).toBe('v1.0.0');
+  });
+});
@@ -0,0 +1,142 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { NetlifyProvider } from '../src/providers/netlify-provider';
+import { CloudCredentialManager } from '../src/core/cloud-credential-manager';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+const sha1 = (content: string) => crypto.createHash('sha1').update(content).digest('hex');
+
+/**
+ * Stand-in for the Netlify API: remembers every uploaded digest so later deploys only
+ * require new files, and marks a deploy ready once all required files arrived.
+ */
+function createNetlifyStub() {
+  const known = new Set<string>();
+  const deploys: any[] = [];
+  const uploads: string[] = [];
+  const restores: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const body = Buffer.concat(chunks);
+      const send = (status: number, json: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(json));
+      };
+
+      const create = url.pathname.match(/^\/api\/v1\/sites\/([^/]+)\/deploys$/);
+      if (req.method === 'POST' && create) {
+        const { files, title } = JSON.parse(body.toString());
+        const required = Array.from(new Set(Object.values(files) as string[])).filter(digest => !known.has(digest));
+        const deploy = {
+          id: `d${deploys.length + 1}`,
+          site_id: create[1],
+          title,
+          state: required.length ? 'uploading' : 'ready',
+          required,
+          ssl_url: 'https://web-app.netlify.app',
+          deploy_ssl_url: `https://d${deploys.length + 1}--web-app.netlify.app`,
+          created_at: new Date().toISOString()
+        };
+        deploys.push(deploy);
+        return send(200, deploy);
+      }
+      if (req.method === 'GET' && create) {
+        return send(200, [...deploys].reverse());
+      }
+
+      const upload = url.pathname.match(/^\/api\/v1\/deploys\/([^/]+)\/files\/(.+)$/);
+      if (req.method === 'PUT' && upload) {
+        const deploy = deploys.find(d => d.id === upload[1]);
+        known.add(crypto.createHash('sha1').update(body).digest('hex'));
+        uploads.push(decodeURIComponent(upload[2]));
+        if (deploy.required.every((digest: string) => known.has(digest))) deploy.state = 'ready';
+        return send(200, {});
+      }
+
+      const single = url.pathname.match(/^\/api\/v1\/deploys\/([^/]+)$/);
+      if (req.method === 'GET' && single) {
+        return send(200, deploys.find(d => d.id === single[1]));
+      }
+
+      const restore = url.pathname.match(/^\/api\/v1\/sites\/([^/]+)\/deploys\/([^/]+)\/restore$/);
+      if (req.method === 'POST' && restore) {
+        restores.push(restore[2]);
+        return send(200, deploys.find(d => d.id === restore[2]));
+      }
+
+      send(404, { message: `unexpected ${req.method} ${url.pathname}` });
+    });
+  });
+
+  return { server, deploys, uploads, restores };
+}
+
+describe('NetlifyProvider (REST API stub)', () => {
+  let tmp: string;
+  let api: ReturnType<typeof createNetlifyStub>;
+  let provider: NetlifyProvider;
+  let credentials: CloudCredentialManager;
+  let target: any;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-netlify-'));
+    api = createNetlifyStub();
+    await new Promise<void>(resolve => api.server.listen(0, '127.0.0.1', resolve));
+
+    credentials = new CloudCredentialManager(logger);
+    credentials.setToken('netlify-token', 3600);
+    provider = new NetlifyProvider(logger, { stateDir: path.join(tmp, 'state'), credentials, pollInterval: 10 });
+    target = {
+      name: 'production',
+      type: 'netlify',
+      environment: 'production',
+      config: { host: '', siteId: 'site-123', baseUrl: `http://127.0.0.1:${(api.server.address() as AddressInfo).port}` }
+    };
+  });
+
+  afterEach(async () => {
+    credentials.stop();
+    await new Promise(resolve => api.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, { files: { 'dist/index.html': `<h1>${version}</h1>`, 'dist/assets/app.css': 'body {}' } });
+  }
+
+  it('sends file digests and uploads only the files Netlify asks for', async () => {
+    const first = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    expect(first.url).toBe('https://web-app.netlify.app');
+    expect(api.uploads.sort()).toEqual(['assets/app.css', 'index.html']);
+
+    const second = await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+    expect(second.metadata.uploadedFiles).toBe(1);
+    expect(api.deploys[1].required).toEqual([sha1('<h1>1.1.0</h1>')]);
+    expect(api.deploys[1].title).toBe('web-app@1.1.0');
+    expect(await provider.getStatus('dep-2')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('restores the deploy titled with the requested version', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(api.restores).toEqual(['d1']);
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.map(d => d.version)).toEqual(['1.1.0', '1.0.0']);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No ready Netlify deploy found for version 0.9.0');
+  });
+});
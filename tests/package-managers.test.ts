@@ -0,0 +1,125 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { BuildCache } from '../src/core/build-cache';
+import { detectPackageManager, planInstall } from '../src/core/package-managers';
+import { Project, TemplateDependency } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Package managers', () => {
+  const originalPath = process.env.PATH;
+  let tmp: string;
+  let project: Project;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-package-managers-'));
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.build = { command: 'true', outputDir: 'dist', environment: {}, dependencies: ['react@^18', 'vite'], scripts: {} };
+    await fs.ensureDir(project.path);
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    await fs.remove(tmp);
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(project.path, name), content);
+    }
+  }
+
+  it('detects the package manager from lockfiles, package.json and manifests', async () => {
+    expect(await detectPackageManager(project.path)).toBe('npm');
+
+    await writeFiles({ 'package.json': JSON.stringify({ packageManager: 'yarn@4.1.0' }) });
+    expect(await detectPackageManager(project.path)).toBe('yarn');
+
+    await writeFiles({ 'bun.lockb': '', 'package-lock.json': '{}' });
+    expect(await detectPackageManager(project.path)).toBe('bun');
+    await writeFiles({ 'pnpm-lock.yaml': '' });
+    expect(await detectPackageManager(project.path)).toBe('pnpm');
+    expect(await detectPackageManager(project.path, { packageManager: 'npm' })).toBe('npm');
+    await expect(detectPackageManager(project.path, { packageManager: 'cargo' as any })).rejects.toThrow("Unknown package manager 'cargo'");
+
+    await fs.emptyDir(project.path);
+    await writeFiles({ 'pyproject.toml': '[tool.poetry]\nname = "api"\n' });
+    expect(await detectPackageManager(project.path)).toBe('poetry');
+    await writeFiles({ 'pyproject.toml': '[project]\nname = "api"\n' });
+    expect(await detectPackageManager(project.path)).toBe('pip');
+    await fs.emptyDir(project.path);
+    await writeFiles({ 'go.mod': 'module example.com/api\n' });
+    expect(await detectPackageManager(project.path)).toBe('go');
+  });
+
+  it('installs frozen from the lockfile and adds what it misses, or adds the packages without one', async () => {
+    const build = project.config.build;
+    expect((await planInstall(project.path, build)).commands).toEqual(["npm install 'react@^18' vite"]);
+
+    await writeFiles({ 'package.json': JSON.stringify({ dependencies: { react: '^18.2.0' }, devDependencies: { vite: '^5.0.0' } }), 'package-lock.json': '{}' });
+    expect(await planInstall(project.path, build)).toEqual(expect.objectContaining({ packageManager: 'npm', lockfile: 'package-lock.json', commands: ['npm ci'] }));
+    expect((await planInstall(project.path, { ...build, dependencies: ['react', '@tanstack/react-query@^5'] })).commands).toEqual(['npm ci', "npm install '@tanstack/react-query@^5'"]);
+    expect((await planInstall(project.path, { ...build, frozenLockfile: false })).commands).toEqual(["npm install 'react@^18' vite"]);
+
+    await writeFiles({ 'yarn.lock': '# yarn lockfile v1\n' });
+    expect((await planInstall(project.path, build)).commands).toEqual(['yarn install --frozen-lockfile']);
+    await writeFiles({ 'yarn.lock': '__metadata:\n  version: 8\n' });
+    expect((await planInstall(project.path, { ...build, dependencies: ['react', 'zod'] })).commands).toEqual(['yarn install --immutable', 'yarn add zod']);
+    expect((await planInstall(project.path, { ...build, packageManager: 'pnpm' })).commands).toEqual(["pnpm add 'react@^18' vite"]);
+
+    await fs.emptyDir(project.path);
+    const dependencies: Array<string | TemplateDependency> = [
+      'fastapi',
+      { name: 'uvicorn', version: '0.27.0', type: 'npm' },
+      { name: 'python3', version: '3.11', type: 'system' },
+      { name: 'postgres', version: '16', type: 'docker' }
+    ];
+    const plan = await planInstall(project.path, { ...build, packageManager: 'pip', dependencies });
+    expect(plan.commands).toEqual(['pip install fastapi', 'npm install uvicorn@0.27.0']);
+    expect(plan.system.map(dependency => dependency.name)).toEqual(['python3']);
+    expect(plan.docker.map(dependency => dependency.name)).toEqual(['postgres']);
+
+    await writeFiles({ 'requirements.txt': 'FastAPI==0.110.0  # web\nuvicorn[standard]>=0.27\n' });
+    expect((await planInstall(project.path, { ...build, packageManager: 'pip', dependencies: ['fastapi', 'Uvicorn', 'httpx==0.27.0'] })).commands)
+      .toEqual(['pip install -r requirements.txt', 'pip install httpx==0.27.0']);
+
+    await fs.emptyDir(project.path);
+    await writeFiles({
+      'pyproject.toml': '[project]\ndependencies = [\n  "pydantic>=2",\n]\n\n[tool.poetry.dependencies]\npython = "^3.11"\nfastapi = "^0.110"\n',
+      'poetry.lock': ''
+    });
+    expect((await planInstall(project.path, { ...build, dependencies: ['fastapi', 'pydantic', 'sqlalchemy'] })).commands)
+      .toEqual(['poetry install --no-interaction --no-root', 'poetry add sqlalchemy']);
+
+    await fs.emptyDir(project.path);
+    await writeFiles({ 'go.mod': 'module example.com/api\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n', 'go.sum': '' });
+    expect((await planInstall(project.path, { ...build, dependencies: ['github.com/gin-gonic/gin'] })).commands).toEqual(['go mod download']);
+    expect((await planInstall(project.path, { ...build, dependencies: ['github.com/gin-gonic/gin', 'golang.org/x/sync@v0.6.0'] })).commands)
+      .toEqual(['go mod download', 'go get golang.org/x/sync@v0.6.0']);
+  });
+
+  it('runs the detected package manager and checks for system dependencies', async () => {
+    // A pnpm that records how it was called
+    const bin = path.join(tmp, 'bin');
+    await fs.outputFile(path.join(bin, 'pnpm'), `#!/bin/sh\necho "pnpm $*" >> "${path.join(tmp, 'calls.log')}"\n`, { mode: 0o755 });
+    process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+    await writeFiles({ 'package.json': JSON.stringify({ dependencies: { react: '^18.2.0' } }), 'pnpm-lock.yaml': '' });
+    const projectManager = new ProjectManagerImpl(logger, tmp, { cache: new BuildCache(logger, { dir: path.join(tmp, 'cache') }) });
+
+    project.config.build.dependencies = ['react', { name: 'sh', version: '*', type: 'system' }];
+    expect((await projectManager.buildProject(project, { cache: false })).error).toBeUndefined();
+    expect(await fs.readFile(path.join(tmp, 'calls.log'), 'utf-8')).toBe('pnpm install --frozen-lockfile\n');
+
+    project.config.build.dependencies = ['react', { name: 'ai-builder-missing-tool', version: '2.0', type: 'system' }];
+    const result = await projectManager.buildProject(project, { cache: false });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("System dependency 'ai-builder-missing-tool' 2.0 is not installed; install it and build again");
+
+    await fs.remove(path.join(bin, 'pnpm'));
+    project.config.build.dependencies = ['react'];
+    expect((await projectManager.buildProject(project, { cache: false })).error).toMatch(/^pnpm install failed: .*pnpm.*not found/);
+  });
+});
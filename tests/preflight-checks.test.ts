@@ -0,0 +1,116 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { PreflightCheckRegistry, createDefaultPreflightRegistry } from '../src/core/preflight-checks';
+import { CloudCredentialManager, credentialsFromEnv } from '../src/core/cloud-credential-manager';
+import { DeploymentPipeline } from '../src/core/deployment-engine';
+import { ProjectManagerImpl } from '../src/core/project-manager';
+import { VercelProvider } from '../src/providers/vercel-provider';
+import { Project } from '../src/types';
+import { createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Pre-deployment checks', () => {
+  let tmp: string;
+  let project: Project;
+  let server: http.Server;
+  let credentials: CloudCredentialManager;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-preflight-'));
+    project = await createTestProject(tmp, '1.0.0', { files: {} });
+    project.config.deploy = { targets: [{ name: 'preview', type: 'vercel', environment: 'staging', config: { host: '' } }] };
+    await fs.outputJson(path.join(tmp, 'package.json'), { name: 'web-app' });
+    await fs.outputJson(path.join(tmp, '.ai-builder', 'project.json'), { name: 'web-app' });
+    server = http.createServer((req, res) => res.end());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    credentials = new CloudCredentialManager(logger);
+    credentials.source = 'VERCEL_TOKEN';
+  });
+
+  afterEach(async () => {
+    credentials.stop();
+    await new Promise(resolve => server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function targetFor(baseUrl: string): any {
+    return { name: 'preview', type: 'vercel', environment: 'staging', config: { host: '', baseUrl } };
+  }
+
+  it('reports each check and fails when a check throws or times out', async () => {
+    const registry = new PreflightCheckRegistry(logger, { timeout: 50 });
+    registry.register({ name: 'ok', description: '', run: async () => ({ status: 'pass', message: 'fine' }) });
+    registry.register({ name: 'skipped', description: '', appliesTo: () => false, run: jest.fn() });
+    registry.register({ name: 'broken', description: '', run: async () => { throw new Error('boom'); } });
+    registry.register({ name: 'slow', description: '', run: () => new Promise(resolve => setTimeout(() => resolve({ status: 'pass', message: '' }), 500)) });
+    expect(() => registry.register({ name: 'ok', description: '', run: jest.fn() })).toThrow("'ok' is already registered");
+
+    const report = await registry.run({ project, target: targetFor('') });
+
+    expect(report.passed).toBe(false);
+    expect(report.results.map(({ check, status, message }) => ({ check, status, message }))).toEqual([
+      { check: 'ok', status: 'pass', message: 'fine' },
+      { check: 'broken', status: 'fail', message: 'boom' },
+      { check: 'slow', status: 'fail', message: 'Timed out after 0s' }
+    ]);
+  });
+
+  it('checks the project, provider reachability, credential expiry and disk space', async () => {
+    const provider = new VercelProvider(logger, { stateDir: path.join(tmp, 'state'), credentials });
+    const registry = createDefaultPreflightRegistry(new ProjectManagerImpl(logger), logger);
+    const target = targetFor(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+
+    // 80% of the token lifetime is gone
+    credentials.setToken('token', 100, new Date(Date.now() - 80 * 1000));
+    let report = await registry.run({ project, target, provider });
+    const statuses = Object.fromEntries(report.results.map(result => [result.check, result.status]));
+    expect(statuses).toEqual({ project: 'pass', provider: 'pass', reachability: 'pass', credentials: 'warn', 'disk-space': expect.stringMatching(/pass|warn/) });
+    expect(report.passed).toBe(true);
+
+    // Nothing listens on a closed server's port, and the token is missing
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const unreachable = targetFor(`http://127.0.0.1:${(closed.address() as AddressInfo).port}`);
+    await new Promise(resolve => closed.close(resolve));
+
+    const withoutToken = new VercelProvider(logger, { stateDir: path.join(tmp, 'state'), credentials: new CloudCredentialManager(logger) });
+    report = await registry.run({ project, target: unreachable, provider: withoutToken });
+    expect(report.passed).toBe(false);
+    expect(report.results.filter(result => result.status === 'fail').map(result => result.check)).toEqual(['reachability', 'credentials']);
+  });
+
+  it('warns about a token from the environment whose expiry is not given', async () => {
+    process.env.AI_BUILDER_TEST_TOKEN = 'token';
+    const fromEnv = credentialsFromEnv('AI_BUILDER_TEST_TOKEN', logger);
+    delete process.env.AI_BUILDER_TEST_TOKEN;
+    const provider = new VercelProvider(logger, { stateDir: path.join(tmp, 'state'), credentials: fromEnv });
+    const registry = createDefaultPreflightRegistry(new ProjectManagerImpl(logger), logger);
+
+    const report = await registry.run({ project, target: targetFor(`http://127.0.0.1:${(server.address() as AddressInfo).port}`), provider });
+    expect(report.results.find(result => result.check === 'credentials')).toEqual(
+      expect.objectContaining({ status: 'warn', message: 'AI_BUILDER_TEST_TOKEN is set, expiry unknown' })
+    );
+    expect(fromEnv.getToken()).toBe('token');
+  });
+
+  it('stops the pipeline before deploying when a check fails unless checks are skipped', async () => {
+    const engine: any = {
+      deploy: jest.fn().mockResolvedValue({ id: 'deploy_1', version: '1.0.0' }),
+      listProviders: () => []
+    };
+    const pipeline = new DeploymentPipeline(engine, logger, createDefaultPreflightRegistry(new ProjectManagerImpl(logger), logger));
+    const onReport = jest.fn();
+
+    await expect(pipeline.executeDeployment(project, targetFor(''), { preflightCallback: onReport }))
+      .rejects.toThrow("Pre-deployment checks failed (provider: No provider registered for target type 'vercel')");
+    expect(onReport).toHaveBeenCalledWith(expect.objectContaining({ passed: false }));
+    expect(engine.deploy).not.toHaveBeenCalled();
+
+    await pipeline.executeDeployment(project, targetFor(''), { skipChecks: true });
+    expect(engine.deploy).toHaveBeenCalledTimes(1);
+  });
+});
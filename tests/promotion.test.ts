@@ -0,0 +1,147 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { DeploymentEngineImpl, DeploymentPipeline } from '../src/core/deployment-engine';
+import { BuildResult, CloudProvider, DeploymentConfig, DeploymentStatus, DeploymentTarget, Project, ProjectManager } from '../src/types';
+import { createFakeBuilder, createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Promotion between targets', () => {
+  let tmp: string;
+  let server: http.Server;
+  let healthStatus: number;
+  let requests: string[];
+  let engine: DeploymentEngineImpl;
+  let pipeline: DeploymentPipeline;
+  let builder: jest.Mocked<ProjectManager>;
+  let provider: jest.Mocked<CloudProvider>;
+  let project: Project;
+  let staging: DeploymentTarget;
+  let production: DeploymentTarget;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-promotion-'));
+    healthStatus = 200;
+    requests = [];
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      res.statusCode = healthStatus;
+      res.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: { 'src/index.js': 'console.log("v1")' } });
+
+    // Builds write dist/index.js and report it with its hash
+    builder = createFakeBuilder();
+    builder.buildProject.mockImplementation(async (p: Project): Promise<BuildResult> => {
+      const content = `built ${p.version}`;
+      await fs.outputFile(path.join(p.path, 'dist', 'index.js'), content);
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      return { success: true, output: '', artifacts: [{ path: 'index.js', size: content.length, hash, type: 'file' }], duration: 1 };
+    });
+    provider = createFakeProvider({ url });
+    engine = createTestEngine(tmp, { logger, builder });
+    engine.registerProvider(provider);
+    pipeline = new DeploymentPipeline(engine, logger);
+
+    const healthCheck = { endpoint: '/health', interval: 0, timeout: 1000, retries: 0 };
+    staging = { name: 'staging', type: 'fake', environment: 'staging', config: { host: '', healthCheck } };
+    production = { name: 'production', type: 'fake', environment: 'production', config: { host: '' } };
+    project.config.deploy.targets = [staging, production];
+  });
+
+  afterEach(async () => {
+    pipeline.stopHealthChecks();
+    await new Promise(resolve => server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  it('redeploys the healthy source build and records the lineage', async () => {
+    const staged = await pipeline.executeDeployment(project, staging, { skipChecks: true });
+    // The project has moved on since, but promotion ships what staging runs
+    project.version = '1.1.0';
+
+    const source = await pipeline.findPromotableDeployment(project, staging);
+    expect(source.id).toBe(staged.id);
+    const promoted = await pipeline.promoteDeployment(project, source, production, { skipChecks: true });
+
+    expect(builder.buildProject).toHaveBeenCalledTimes(1);
+    expect(provider.deploy).toHaveBeenLastCalledWith(expect.objectContaining({ buildResult: staged.buildResult }));
+    expect(promoted).toEqual(expect.objectContaining({ status: DeploymentStatus.SUCCESS, version: '1.0.0' }));
+    expect(promoted.promotedFrom).toEqual(expect.objectContaining({
+      deploymentId: staged.id,
+      targetName: 'staging',
+      environment: 'staging',
+      version: '1.0.0',
+      sourceHash: staged.buildResult!.sourceHash
+    }));
+    expect((await engine.getPersistedDeployment(promoted.id))!.promotedFrom!.deploymentId).toBe(staged.id);
+    expect(promoted.logs.map(log => log.message)).toContain(`Promoting build ${staged.buildResult!.sourceHash!.slice(0, 12)} from staging (1 artifacts)`);
+  });
+
+  it('refuses sources that are missing, unhealthy or no longer running', async () => {
+    await expect(pipeline.findPromotableDeployment(project, staging)).rejects.toThrow("Nothing to promote: 'staging' has no successful deployment");
+
+    const staged = await pipeline.executeDeployment(project, staging, { skipChecks: true });
+    healthStatus = 503;
+    await expect(pipeline.findPromotableDeployment(project, staging))
+      .rejects.toThrow(`Refusing to promote deployment ${staged.id}: it fails its health check on 'staging' (GET `);
+
+    healthStatus = 200;
+    provider.getStatus.mockResolvedValue(DeploymentStatus.FAILED);
+    await expect(pipeline.findPromotableDeployment(project, staging))
+      .rejects.toThrow(`Refusing to promote deployment ${staged.id}: its status on 'staging' is failed`);
+    // Checking does not rewrite the source deployment's record
+    expect((await engine.getPersistedDeployment(staged.id))!.status).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('monitors only the deployment serving each target', async () => {
+    const deploy = provider.deploy.getMockImplementation()!;
+    provider.deploy.mockImplementation(async (config: DeploymentConfig) => {
+      const result = await deploy(config);
+      return { ...result, url: `${result.url}/${config.deploymentId}` };
+    });
+    staging.config.healthCheck = { ...staging.config.healthCheck, endpoint: 'health', interval: 20 };
+    const checks = (deploymentId: string) => requests.filter(url => url === `/${deploymentId}/health`).length;
+    const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+    const first = await pipeline.executeDeployment(project, staging, { skipChecks: true });
+    // Promoting to another target leaves staging's deployment monitored
+    await pipeline.promoteDeployment(project, first, production, { skipChecks: true });
+    await settle();
+    expect(checks(first.id)).toBeGreaterThan(1);
+
+    project.version = '1.1.0';
+    const second = await pipeline.executeDeployment(project, staging, { skipChecks: true });
+    const replaced = checks(first.id);
+    await settle();
+    expect(checks(first.id)).toBe(replaced);
+    expect(checks(second.id)).toBeGreaterThan(1);
+
+    await engine.rollback(second, '1.0.0', { restoreFrom: first });
+    const rolledBack = checks(second.id);
+    await settle();
+    expect(checks(second.id)).toBe(rolledBack);
+  });
+
+  it('refuses a build whose artifacts changed on disk', async () => {
+    const staged = await pipeline.executeDeployment(project, staging, { skipChecks: true });
+    await fs.outputFile(path.join(project.path, 'dist', 'debug.js'), 'left behind by hand');
+    await expect(pipeline.promoteDeployment(project, staged, production, { skipChecks: true }))
+      .rejects.toThrow(/^The artifacts in dist no longer match build [0-9a-f]{12}/);
+    await fs.remove(path.join(project.path, 'dist', 'debug.js'));
+
+    await fs.outputFile(path.join(project.path, 'dist', 'index.js'), 'patched by hand');
+
+    await expect(pipeline.promoteDeployment(project, staged, production, { skipChecks: true }))
+      .rejects.toThrow(/^The artifacts in dist no longer match build [0-9a-f]{12}; deploy a fresh build to the source target first$/);
+    expect(provider.deploy).toHaveBeenCalledTimes(1);
+    await expect(pipeline.promoteDeployment(project, staged, staging)).rejects.toThrow(`Cannot promote deployment ${staged.id} to its own target 'staging'`);
+  });
+});
@@ -0,0 +1,83 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { CloudProvider, DeploymentStatus, DeploymentTarget } from '../src/types';
+import { createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+function createProvider(name: string) {
+  return createFakeProvider({ name, url: `https://${name}.example.com` });
+}
+
+describe('DeploymentEngineImpl provider registry', () => {
+  let tmp: string;
+  let engine: DeploymentEngineImpl;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-providers-'));
+    engine = createTestEngine(tmp, { logger });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmp);
+  });
+
+  it('lists the built-in providers', () => {
+    expect(engine.listProviders().map(p => p.name)).toEqual(['local', 'docker', 'aws', 'ssh', 'azure', 'gcp', 'vercel', 'netlify']);
+  });
+
+  it('deploys to targets naming a registered provider', async () => {
+    const provider = createProvider('fly');
+    engine.registerProvider(provider);
+
+    const project = await createTestProject(tmp, '1.0.0', { files: {} });
+    const target: DeploymentTarget = { name: 'edge', type: 'fly', environment: 'production', config: { host: '' } };
+    const deployment = await engine.deploy(project, target);
+
+    expect(deployment.status).toBe(DeploymentStatus.SUCCESS);
+    expect(deployment.result?.url).toBe('https://fly.example.com');
+    expect(provider.deploy).toHaveBeenCalledWith(expect.objectContaining({ deploymentId: deployment.id, target }));
+
+    expect(engine.unregisterProvider('fly')).toBe(true);
+    expect(engine.unregisterProvider('fly')).toBe(false);
+    await expect(engine.deploy(project, target)).rejects.toThrow('No provider found for target type: fly');
+  });
+
+  it('validates providers at registration time', () => {
+    expect(() => engine.registerProvider(createProvider('My Provider'))).toThrow("Invalid provider name 'My Provider'");
+    expect(() => engine.registerProvider({ ...createProvider('partial'), rollback: undefined } as unknown as CloudProvider)).toThrow("Provider 'partial' does not implement rollback");
+    expect(() => engine.registerProvider(createProvider('aws'))).toThrow("A provider named 'aws' is already registered");
+
+    const replacement = createProvider('aws');
+    engine.registerProvider(replacement, { replace: true });
+    expect(engine.listProviders()).toContain(replacement);
+  });
+
+  it('loads providers from packages exporting a factory or a class', async () => {
+    const factoryPackage = path.join(tmp, 'node_modules', 'ai-builder-provider-fly');
+    await fs.outputFile(path.join(factoryPackage, 'index.js'), `
+      exports.createProvider = logger => ['fly', 'fly-machines'].map(name => ({
+        name, type: 'custom', logger,
+        deploy: async () => ({ success: true, deploymentId: name, metadata: {} }),
+        getStatus: async () => 'success', rollback: async () => {}, listDeployments: async () => []
+      }));
+    `);
+    const classPackage = path.join(tmp, 'node_modules', 'ai-builder-provider-render');
+    await fs.outputFile(path.join(classPackage, 'index.js'), `
+      module.exports = class RenderProvider {
+        constructor(logger) { this.name = 'render'; this.type = 'custom'; this.logger = logger; }
+        async deploy() { return { success: true, deploymentId: 'r', metadata: {} }; }
+        async getStatus() { return 'success'; }
+        async rollback() {}
+        async listDeployments() { return []; }
+      };
+    `);
+
+    await expect(engine.loadProviderPackages([factoryPackage, classPackage])).resolves.toEqual(['fly', 'fly-machines', 'render']);
+    expect((engine.listProviders().find(p => p.name === 'render') as any).logger).toBe(logger);
+
+    await expect(engine.loadProviderPackages(['ai-builder-provider-missing'])).rejects.toThrow("Failed to load provider package 'ai-builder-provider-missing'");
+  });
+});
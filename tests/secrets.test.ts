@@ -0,0 +1,95 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DeploymentEngineImpl } from '../src/core/deployment-engine';
+import { ConfigManagerImpl } from '../src/core/config-manager';
+import { createDefaultSecretResolvers } from '../src/core/secret-resolver';
+import { Logger } from '../src/utils/logger';
+import { REDACTED, clearSecretValues, registerSecretValues } from '../src/utils/redact';
+import { CloudProvider, DeploymentTarget, Project, ProjectManager } from '../src/types';
+import { createFakeBuilder, createFakeProvider, createTestEngine, createTestLogger, createTestProject } from './helpers';
+
+const logger = createTestLogger();
+
+describe('Deploy-time secrets', () => {
+  let tmp: string;
+  let engine: DeploymentEngineImpl;
+  let builder: jest.Mocked<ProjectManager>;
+  let provider: jest.Mocked<CloudProvider>;
+  let project: Project;
+  let target: DeploymentTarget;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-secrets-'));
+    await fs.ensureDir(path.join(tmp, 'config'));
+    const configManager = new ConfigManagerImpl(logger, path.join(tmp, 'config'));
+    await configManager.set('secrets.db_password', 'hunter2-db');
+    process.env.AI_BUILDER_TEST_API_KEY = 'sk-live-123456';
+
+    builder = createFakeBuilder({ success: true, output: 'connecting with hunter2-db\n', artifacts: [], duration: 1 });
+    provider = createFakeProvider();
+    engine = createTestEngine(tmp, { logger, builder, secrets: createDefaultSecretResolvers(configManager) });
+    engine.registerProvider(provider);
+
+    target = { name: 'prod', type: 'fake', environment: 'production', config: { host: '', environment: { REGION: 'eu' } } };
+    project = await createTestProject(path.join(tmp, 'web-app'), '1.0.0', { files: {} });
+    project.config.deploy = { targets: [target] };
+    project.config.environment = {
+      variables: { NODE_ENV: 'production' },
+      secrets: { DB_PASSWORD: 'db_password', API_KEY: 'env:AI_BUILDER_TEST_API_KEY' }
+    };
+    await fs.ensureDir(project.path);
+  });
+
+  afterEach(async () => {
+    delete process.env.AI_BUILDER_TEST_API_KEY;
+    clearSecretValues();
+    await fs.remove(tmp);
+  });
+
+  it('injects resolved secrets and redacts them from logs and build output', async () => {
+    const deployment = await engine.deploy(project, target);
+
+    expect(provider.deploy).toHaveBeenCalledWith(expect.objectContaining({
+      environment: { NODE_ENV: 'production', REGION: 'eu', DB_PASSWORD: 'hunter2-db', API_KEY: 'sk-live-123456' }
+    }));
+    expect(deployment.logs.map(log => log.message)).toContain('Resolved 2 secret(s): DB_PASSWORD, API_KEY');
+    expect(deployment.buildResult!.output).toBe(`connecting with ${REDACTED}\n`);
+
+    provider.deploy.mockRejectedValueOnce(new Error('auth failed for key sk-live-123456'));
+    await expect(engine.deploy(project, target)).rejects.toThrow();
+    const [failed] = (await engine.listPersistedDeployments('proj-1')).filter(d => d.status === 'failed');
+    expect(failed.logs.map(log => log.message)).toContain(`auth failed for key ${REDACTED}`);
+    expect(JSON.stringify(failed)).not.toContain('sk-live-123456');
+  });
+
+  it('fails before building when a secret cannot be resolved', async () => {
+    project.config.environment.secrets.SENTRY_DSN = 'env:AI_BUILDER_TEST_MISSING';
+    await expect(engine.deploy(project, target)).rejects.toThrow("Cannot resolve SENTRY_DSN: Secret 'env:AI_BUILDER_TEST_MISSING' not found");
+
+    project.config.environment.secrets = { SENTRY_DSN: 'vault:sentry' };
+    await expect(engine.deploy(project, target)).rejects.toThrow("Cannot resolve SENTRY_DSN: No secret backend 'vault' for secret 'vault:sentry' (registered: env, config)");
+    expect(builder.buildProject).not.toHaveBeenCalled();
+
+    engine.registerSecretBackend('vault', { resolve: async name => `from-vault-${name}` });
+    await engine.deploy(project, target);
+    expect(provider.deploy).toHaveBeenCalledWith(expect.objectContaining({ environment: expect.objectContaining({ SENTRY_DSN: 'from-vault-sentry' }) }));
+  });
+
+  it('redacts registered values from logger messages and meta', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      registerSecretValues(['s3cr3t', 's3cr3t-long']);
+      const jsonLogger = new Logger({ format: 'json' });
+      jsonLogger.info('token is s3cr3t-long', { headers: { authorization: 'Bearer s3cr3t' }, attempts: [1, 's3cr3t'] });
+      jsonLogger.error('request failed', new Error('bad token s3cr3t'));
+
+      const [info, error] = log.mock.calls.map(call => JSON.parse(call[0]));
+      expect(info.message).toBe(`token is ${REDACTED}`);
+      expect(info.meta).toEqual({ headers: { authorization: `Bearer ${REDACTED}` }, attempts: [1, REDACTED] });
+      expect(error.meta.error.message).toBe(`bad token ${REDACTED}`);
+    } finally {
+      log.mockRestore();
+    }
+  });
+});
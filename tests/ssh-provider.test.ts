@@ -0,0 +1,235 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import { spawn } from 'child_process';
+import { AddressInfo } from 'net';
+import { SSHProvider, isTrustedHostKey } from '../src/providers/ssh-provider';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { Server, utils } = require('ssh2');
+
+const logger = createTestLogger();
+
+/**
+ * ssh2 occasionally generates an ed25519 key its own parser rejects; regenerate until it parses.
+ */
+function generateKeyPair(): { private: string; public: string } {
+  for (;;) {
+    const keys = utils.generateKeyPairSync('ed25519');
+    if (!(utils.parseKey(keys.private) instanceof Error)) return keys;
+  }
+}
+
+/**
+ * In-process ssh2 server that accepts a single client key, runs exec requests with the local
+ * shell and writes SFTP uploads to the local filesystem, so the "remote" host is a tmp directory.
+ */
+function createSSHServer(clientPublicKey: string) {
+  const allowedKey = utils.parseKey(clientPublicKey);
+  const commands: string[] = [];
+  const hostKey = generateKeyPair();
+
+  const server = new Server({ hostKeys: [hostKey.private] }, (client: any) => {
+    // Clients that refuse the host key hang up during the key exchange
+    client.on('error', () => {});
+    client.on('authentication', (ctx: any) => {
+      const matches = ctx.method === 'publickey'
+        && ctx.key.algo === allowedKey.type
+        && ctx.key.data.equals(allowedKey.getPublicSSH())
+        && (!ctx.signature || allowedKey.verify(ctx.blob, ctx.signature, ctx.hashAlgo) === true);
+      return matches ? ctx.accept() : ctx.reject(['publickey']);
+    });
+
+    client.on('ready', () => {
+      client.on('session', (acceptSession: any) => {
+        const session = acceptSession();
+
+        session.on('exec', (accept: any, _reject: any, info: any) => {
+          const stream = accept();
+          commands.push(info.command);
+          const child = spawn('sh', ['-c', info.command]);
+          child.stdout.pipe(stream, { end: false });
+          child.stderr.pipe(stream.stderr, { end: false });
+          child.on('close', code => {
+            stream.exit(code ?? 1);
+            stream.end();
+          });
+        });
+
+        session.on('sftp', (accept: any) => {
+          const sftp = accept();
+          const handles = new Map<number, number>();
+          let nextHandle = 0;
+
+          sftp.on('OPEN', (reqid: number, filename: string, _flags: number, attrs: any) => {
+            const handle = Buffer.alloc(4);
+            handle.writeUInt32BE(nextHandle);
+            handles.set(nextHandle++, fs.openSync(filename, 'w', attrs.mode));
+            sftp.handle(reqid, handle);
+          });
+          sftp.on('WRITE', (reqid: number, handle: Buffer, offset: number, data: Buffer) => {
+            fs.writeSync(handles.get(handle.readUInt32BE(0))!, data, 0, data.length, offset);
+            sftp.status(reqid, utils.sftp.STATUS_CODE.OK);
+          });
+          sftp.on('CLOSE', (reqid: number, handle: Buffer) => {
+            fs.closeSync(handles.get(handle.readUInt32BE(0))!);
+            handles.delete(handle.readUInt32BE(0));
+            sftp.status(reqid, utils.sftp.STATUS_CODE.OK);
+          });
+        });
+      });
+    });
+  });
+
+  return { server, commands, hostKey: hostKey.public };
+}
+
+describe('SSHProvider (in-process ssh2 server)', () => {
+  let tmp: string;
+  let remote: string;
+  let ssh: ReturnType<typeof createSSHServer>;
+  let provider: SSHProvider;
+  let target: any;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-ssh-'));
+    remote = path.join(tmp, 'remote', 'app');
+
+    const clientKey = generateKeyPair();
+    await fs.writeFile(path.join(tmp, 'id_ed25519'), clientKey.private);
+
+    ssh = createSSHServer(clientKey.public);
+    await new Promise<void>(resolve => ssh.server.listen(0, '127.0.0.1', resolve));
+
+    target = {
+      name: 'production',
+      type: 'ssh',
+      environment: 'production',
+      config: {
+        host: '127.0.0.1',
+        sshPort: (ssh.server.address() as AddressInfo).port,
+        user: 'deploy',
+        keyPath: path.join(tmp, 'id_ed25519'),
+        hostKey: ssh.hostKey,
+        deployPath: remote,
+        port: 8080,
+        preDeploy: 'test -f index.js',
+        postDeploy: ['echo restarted >> ../../restarts.log']
+      }
+    };
+    provider = new SSHProvider(logger, { stateDir: path.join(tmp, 'state') });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => ssh.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'web-app'), version, { files: { 'dist/index.js': `console.log("v${version}")`, 'dist/public/app.css': 'body {}' } });
+  }
+
+  it('uploads a release over SFTP, runs hooks and points current at it', async () => {
+    const result = await provider.deploy({
+      deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: { NODE_ENV: 'production' }
+    });
+
+    expect(result.url).toBe('http://127.0.0.1:8080');
+    expect(await fs.readlink(path.join(remote, 'current'))).toBe(`${remote}/releases/dep-1`);
+    expect(await fs.readFile(path.join(remote, 'current', 'index.js'), 'utf-8')).toBe('console.log("v1.0.0")');
+    expect(await fs.pathExists(path.join(remote, 'current', 'public', 'app.css'))).toBe(true);
+    expect(await fs.readFile(path.join(remote, 'current', '.env'), 'utf-8')).toBe('NODE_ENV="production"\nPORT="8080"\n');
+    expect((await fs.stat(path.join(remote, 'current', '.env'))).mode & 0o777).toBe(0o600);
+    expect(ssh.commands.some(command => command.includes('NODE_ENV'))).toBe(false);
+    expect(await fs.readFile(path.join(remote, 'restarts.log'), 'utf-8')).toBe('restarted\n');
+    expect(ssh.commands.some(command => command.includes('test -f index.js'))).toBe(true);
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('rolls back by repointing current and lists remote releases', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+    expect(await fs.readFile(path.join(remote, 'current', 'index.js'), 'utf-8')).toBe('console.log("v1.1.0")');
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(await fs.readlink(path.join(remote, 'current'))).toBe(`${remote}/releases/dep-1`);
+    expect(await fs.readFile(path.join(remote, 'restarts.log'), 'utf-8')).toBe('restarted\nrestarted\nrestarted\n');
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.map(d => d.version).sort()).toEqual(['1.0.0', '1.1.0']);
+    expect(deployments.find(d => d.version === '1.0.0')?.result?.metadata.current).toBe(true);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('Release 0.9.0 not found');
+  });
+
+  it('fails the deploy when a pre-deploy command fails and keeps the previous release live', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    target.config.preDeploy = 'exit 3';
+    await expect(
+      provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} })
+    ).rejects.toThrow('exit 3');
+
+    expect(await fs.readlink(path.join(remote, 'current'))).toBe(`${remote}/releases/dep-1`);
+  });
+
+  it('redeploys a version into a new release without touching the live one', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    target.config.preDeploy = 'test "$(cat ../../current/index.js)" = \'console.log("v1.0.0")\'';
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    expect(await fs.readlink(path.join(remote, 'current'))).toBe(`${remote}/releases/dep-2`);
+    expect(await fs.pathExists(path.join(remote, 'releases', 'dep-1', 'index.js'))).toBe(true);
+  });
+
+  it('quotes .env values so a secret cannot add variables', async () => {
+    const environment = { API_KEY: 'a"b\\c$HOME`id`\nINJECTED=1' };
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment });
+
+    expect(await fs.readFile(path.join(remote, 'current', '.env'), 'utf-8')).toBe('API_KEY="a\\"b\\\\c\\$HOME\\`id\\`\\nINJECTED=1"\nPORT="8080"\n');
+    await expect(provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.0.0'), target, buildResult, environment: { 'A\nB': 'x' } }))
+      .rejects.toThrow("Cannot write environment variable 'A\nB' to .env");
+  });
+
+  it('refuses a host whose key it does not know', async () => {
+    target.config.hostKey = generateKeyPair().public;
+    await expect(provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} }))
+      .rejects.toThrow(/^Host key SHA256:\S+ of 127\.0\.0\.1 is not trusted/);
+    expect(await fs.pathExists(remote)).toBe(false);
+
+    // Without hostKey, known_hosts decides
+    const knownHostsPath = path.join(tmp, 'known_hosts');
+    provider = new SSHProvider(logger, { stateDir: path.join(tmp, 'state'), knownHostsPath });
+    delete target.config.hostKey;
+    await expect(provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} }))
+      .rejects.toThrow('is not trusted');
+
+    const [type, key] = ssh.hostKey.split(' ');
+    await fs.writeFile(knownHostsPath, `[127.0.0.1]:${target.config.sshPort} ${type} ${key}\n`);
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    expect(await fs.readlink(path.join(remote, 'current'))).toBe(`${remote}/releases/dep-1`);
+  });
+
+  it('matches known_hosts entries by name, port, wildcard and hash', () => {
+    const key = Buffer.from('host-key');
+    const line = (hosts: string, marker = '') => `${marker}${hosts} ssh-ed25519 ${key.toString('base64')}`;
+    const salt = crypto.randomBytes(20);
+    const hashed = `|1|${salt.toString('base64')}|${crypto.createHmac('sha1', salt).update('example.com').digest('base64')}`;
+    const config = { host: 'example.com' };
+
+    expect(isTrustedHostKey(config, key, line('example.com'))).toBe(true);
+    expect(isTrustedHostKey(config, key, line('other.com'))).toBe(false);
+    expect(isTrustedHostKey(config, Buffer.from('other-key'), line('example.com'))).toBe(false);
+    expect(isTrustedHostKey({ ...config, sshPort: 2222 }, key, line('example.com'))).toBe(false);
+    expect(isTrustedHostKey({ ...config, sshPort: 2222 }, key, line('[example.com]:2222'))).toBe(true);
+    expect(isTrustedHostKey(config, key, line('*.com,!internal.com'))).toBe(true);
+    expect(isTrustedHostKey({ host: 'internal.com' }, key, line('*.com,!internal.com'))).toBe(false);
+    expect(isTrustedHostKey(config, key, line(hashed))).toBe(true);
+    expect(isTrustedHostKey(config, key, `${line('example.com')}\n${line('*', '@revoked ')}`)).toBe(false);
+    expect(isTrustedHostKey({ ...config, hostKey: `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}` }, key, '')).toBe(true);
+  });
+});
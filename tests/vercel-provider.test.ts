@@ -0,0 +1,139 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { VercelProvider } from '../src/providers/vercel-provider';
+import { CloudCredentialManager } from '../src/core/cloud-credential-manager';
+import { DeploymentStatus, Project } from '../src/types';
+import { createTestLogger, createTestProject, buildResult } from './helpers';
+
+const logger = createTestLogger();
+
+/**
+ * Stand-in for the Vercel REST API: deployments become READY on their second poll.
+ */
+function createVercelStub() {
+  const deployments: any[] = [];
+  const rollbacks: string[] = [];
+  const authHeaders = new Set<string>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const send = (status: number, body: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      authHeaders.add(String(req.headers.authorization));
+
+      if (req.method === 'POST' && url.pathname === '/v13/deployments') {
+        const body = JSON.parse(Buffer.concat(chunks).toString());
+        const deployment = {
+          id: `dpl_${deployments.length + 1}`,
+          uid: `dpl_${deployments.length + 1}`,
+          url: `${body.name}-${deployments.length + 1}.vercel.app`,
+          readyState: 'BUILDING',
+          polls: 0,
+          meta: body.meta,
+          files: body.files,
+          created: Date.now()
+        };
+        deployments.push(deployment);
+        return send(200, deployment);
+      }
+
+      const single = url.pathname.match(/^\/v13\/deployments\/([^/]+)$/);
+      if (req.method === 'GET' && single) {
+        const deployment = deployments.find(d => d.id === single[1]);
+        if (!deployment) return send(404, { error: { message: 'not found' } });
+        if (++deployment.polls >= 2) deployment.readyState = 'READY';
+        return send(200, deployment);
+      }
+
+      if (req.method === 'GET' && url.pathname === '/v6/deployments') {
+        return send(200, { deployments: deployments.map(d => ({ ...d, state: d.readyState })) });
+      }
+
+      const rollback = url.pathname.match(/^\/v9\/projects\/([^/]+)\/rollback\/([^/]+)$/);
+      if (req.method === 'POST' && rollback) {
+        rollbacks.push(rollback[2]);
+        return send(201, {});
+      }
+
+      send(404, { error: { message: `unexpected ${req.method} ${url.pathname}` } });
+    });
+  });
+
+  return { server, deployments, rollbacks, authHeaders };
+}
+
+describe('VercelProvider (REST API stub)', () => {
+  let tmp: string;
+  let api: ReturnType<typeof createVercelStub>;
+  let provider: VercelProvider;
+  let credentials: CloudCredentialManager;
+  let target: any;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-builder-vercel-'));
+    api = createVercelStub();
+    await new Promise<void>(resolve => api.server.listen(0, '127.0.0.1', resolve));
+
+    credentials = new CloudCredentialManager(logger);
+    credentials.setToken('vercel-token', 3600);
+    provider = new VercelProvider(logger, { stateDir: path.join(tmp, 'state'), credentials, pollInterval: 10 });
+    target = {
+      name: 'production',
+      type: 'vercel',
+      environment: 'production',
+      config: { host: '', baseUrl: `http://127.0.0.1:${(api.server.address() as AddressInfo).port}` }
+    };
+  });
+
+  afterEach(async () => {
+    credentials.stop();
+    await new Promise(resolve => api.server.close(resolve));
+    await fs.remove(tmp);
+  });
+
+  function createProject(version: string): Promise<Project> {
+    return createTestProject(path.join(tmp, 'Web-App'), version, { files: { 'dist/index.html': `<h1>${version}</h1>` }, name: 'Web-App' });
+  }
+
+  it('creates a deployment with inline files and waits until it is ready', async () => {
+    const result = await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+
+    expect(result.url).toBe('https://web-app-1.vercel.app');
+    expect(result.metadata.vercelId).toBe('dpl_1');
+    expect(api.authHeaders).toEqual(new Set(['Bearer vercel-token']));
+
+    const [deployment] = api.deployments;
+    expect(deployment.meta).toEqual({ aiBuilderVersion: '1.0.0', aiBuilderDeployment: 'dep-1' });
+    expect(deployment.files).toEqual([{ file: 'index.html', data: Buffer.from('<h1>1.0.0</h1>').toString('base64'), encoding: 'base64' }]);
+    expect(await provider.getStatus('dep-1')).toBe(DeploymentStatus.SUCCESS);
+  });
+
+  it('rolls back to the deployment carrying the requested version', async () => {
+    await provider.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} });
+    await provider.deploy({ deploymentId: 'dep-2', project: await createProject('1.1.0'), target, buildResult, environment: {} });
+
+    await provider.rollback('dep-2', '1.0.0');
+    expect(api.rollbacks).toEqual(['dpl_1']);
+
+    const deployments = await provider.listDeployments();
+    expect(deployments.map(d => [d.id, d.version])).toEqual([['dep-1', '1.0.0'], ['dep-2', '1.1.0']]);
+
+    await expect(provider.rollback('dep-2', '0.9.0')).rejects.toThrow('No ready Vercel deployment of web-app found for version 0.9.0');
+  });
+
+  it('asks for VERCEL_TOKEN when no token is available', async () => {
+    const anonymous = new VercelProvider(logger, { stateDir: path.join(tmp, 'state'), credentials: new CloudCredentialManager(logger) });
+
+    await expect(
+      anonymous.deploy({ deploymentId: 'dep-1', project: await createProject('1.0.0'), target, buildResult, environment: {} })
+    ).rejects.toThrow('No Vercel credentials: set VERCEL_TOKEN');
+  });
+});